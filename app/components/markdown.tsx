@@ -0,0 +1,21 @@
+import { cn } from "#app/utils/misc.tsx";
+
+/**
+ * Displays HTML rendered by `renderMarkdown` from `markdown.server.ts`. Never
+ * pass it anything else, the HTML is trusted because it's been sanitized.
+ */
+export function Markdown({
+	html,
+	className,
+}: {
+	html: string;
+	className?: string;
+}) {
+	return (
+		<div
+			className={cn("markdown", className)}
+			// biome-ignore lint/security/noDangerouslySetInnerHtml: sanitized by renderMarkdown
+			dangerouslySetInnerHTML={{ __html: html }}
+		/>
+	);
+}
@@ -6,10 +6,14 @@ import { MagnifyingGlassIcon } from "@radix-ui/react-icons";
 
 export function SearchBar({
 	status,
+	action = "/users",
+	placeholder = "Search",
 	autoFocus = false,
 	autoSubmit = false,
 }: {
 	status: "idle" | "pending" | "success" | "error";
+	action?: string;
+	placeholder?: string;
 	autoFocus?: boolean;
 	autoSubmit?: boolean;
 }) {
@@ -18,7 +22,7 @@ export function SearchBar({
 	const submit = useSubmit();
 	const isSubmitting = useIsPending({
 		formMethod: "GET",
-		formAction: "/users",
+		formAction: action,
 	});
 
 	const handleFormChange = useDebounce((form: HTMLFormElement) => {
@@ -28,7 +32,7 @@ export function SearchBar({
 	return (
 		<Form
 			method="GET"
-			action="/users"
+			action={action}
 			className="flex flex-wrap items-center justify-center gap-2"
 			onChange={(e) => autoSubmit && handleFormChange(e.currentTarget)}
 		>
@@ -38,7 +42,7 @@ export function SearchBar({
 					name="search"
 					id={id}
 					defaultValue={searchParams.get("search") ?? ""}
-					placeholder="Search"
+					placeholder={placeholder}
 					autoFocus={autoFocus}
 				/>
 			</div>
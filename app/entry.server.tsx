@@ -16,6 +16,10 @@ import { makeTimings } from "./utils/timing.server.ts";
 
 const ABORT_DELAY = 5000;
 
+// server/index.ts starts the worker from here so it runs the same build as
+// the rest of the app
+export { startJobWorker } from "./utils/jobs/queue.server.ts";
+
 init();
 global.ENV = getEnv();
 
@@ -38,13 +38,25 @@ import { ClientHintCheck, getHints, useHints } from "./utils/client-hints.tsx";
 import { prisma } from "./utils/db.server.ts";
 import { getEnv } from "./utils/env.server.ts";
 import { honeypot } from "./utils/honeypot.server.ts";
-import { combineHeaders, getDomainUrl, getUserImgSrc } from "./utils/misc.tsx";
+import { getLocale } from "./utils/i18n.server.ts";
+import { defaultLocale, type Locale } from "./utils/i18n.ts";
+import {
+	combineHeaders,
+	getDomainUrl,
+	getUserImgSrc,
+	getUserImgSrcSet,
+} from "./utils/misc.tsx";
 import { useNonce } from "./utils/nonce-provider.ts";
 import { useRequestInfo } from "./utils/request-info.ts";
 import { type Theme, setTheme, getTheme } from "./utils/theme.server.ts";
 import { makeTimings, time } from "./utils/timing.server.ts";
 import { getToast } from "./utils/toast.server.ts";
-import { useOptionalUser, useUser } from "./utils/user.ts";
+import {
+	defaultUserPreferences,
+	parseUserPreferences,
+	type UserPreferences,
+} from "./utils/user-preferences.ts";
+import { useOptionalUser, useUser, userHasRole } from "./utils/user.ts";
 import {
 	Theme as RadixTheme,
 	DropdownMenu,
@@ -56,6 +68,8 @@ import {
 	Pencil2Icon,
 	AvatarIcon,
 	ExitIcon,
+	MagnifyingGlassIcon,
+	LockClosedIcon,
 	SunIcon,
 	MoonIcon,
 	LaptopIcon,
@@ -107,6 +121,16 @@ export async function loader({ request }: LoaderFunctionArgs) {
 							name: true,
 							username: true,
 							image: { select: { id: true } },
+							preference: {
+								select: {
+									appearance: true,
+									accentColor: true,
+									grayColor: true,
+									radius: true,
+									scaling: true,
+									locale: true,
+								},
+							},
 							roles: {
 								select: {
 									name: true,
@@ -129,6 +153,14 @@ export async function loader({ request }: LoaderFunctionArgs) {
 	}
 	const { toast, headers: toastHeaders } = await getToast(request);
 	const honeyProps = honeypot.getInputProps();
+	// the account's preferences follow the user to every device, anonymous
+	// visitors only get to pick light or dark and that's kept in a cookie
+	const { appearance, ...themePrefs } = parseUserPreferences(user?.preference);
+	const theme = user
+		? appearance === "system"
+			? null
+			: appearance
+		: getTheme(request);
 
 	return json(
 		{
@@ -137,9 +169,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
 				hints: getHints(request),
 				origin: getDomainUrl(request),
 				path: new URL(request.url).pathname,
-				userPrefs: {
-					theme: getTheme(request),
-				},
+				locale: getLocale(request, { userLocale: user?.preference?.locale }),
+				userPrefs: { theme, ...themePrefs },
 			},
 			ENV: getEnv(),
 			toast,
@@ -175,6 +206,16 @@ export async function action({ request }: ActionFunctionArgs) {
 
 	const { theme } = submission.value;
 
+	const userId = await getUserId(request);
+	if (userId) {
+		await prisma.userPreference.upsert({
+			select: { id: true },
+			where: { userId },
+			create: { userId, appearance: theme },
+			update: { appearance: theme },
+		});
+	}
+
 	const responseInit = {
 		headers: { "set-cookie": setTheme(theme) },
 	};
@@ -185,17 +226,21 @@ function Document({
 	children,
 	nonce,
 	theme = "light",
+	themePrefs = defaultUserPreferences,
+	locale = defaultLocale,
 	env = {},
 	allowIndexing = true,
 }: {
 	children: React.ReactNode;
 	nonce: string;
 	theme?: Theme;
+	themePrefs?: Omit<UserPreferences, "appearance">;
+	locale?: Locale;
 	env?: Record<string, string>;
 	allowIndexing?: boolean;
 }) {
 	return (
-		<html lang="en">
+		<html lang={locale}>
 			<head>
 				<ClientHintCheck nonce={nonce} />
 				<Meta />
@@ -209,9 +254,10 @@ function Document({
 			<body>
 				<RadixTheme
 					appearance={theme}
-					accentColor="mint"
-					grayColor="olive"
-					radius="full"
+					accentColor={themePrefs.accentColor}
+					grayColor={themePrefs.grayColor}
+					radius={themePrefs.radius}
+					scaling={themePrefs.scaling}
 				>
 					{children}
 				</RadixTheme>
@@ -233,9 +279,12 @@ function App() {
 	const data = useLoaderData<typeof loader>();
 	const nonce = useNonce();
 	const user = useOptionalUser();
-	const theme = data.requestInfo.userPrefs.theme ?? undefined;
+	const theme = useTheme();
+	const { theme: userTheme, ...themePrefs } = data.requestInfo.userPrefs;
 	const matches = useMatches();
-	const isOnSearchPage = matches.find((m) => m.id === "routes/users+/index");
+	const isOnSearchPage = matches.find(
+		(m) => m.id === "routes/users+/index" || m.id === "routes/search",
+	);
 	const searchBar = isOnSearchPage ? null : <SearchBar status="idle" />;
 	const allowIndexing = data.ENV.ALLOW_INDEXING !== "false";
 	useToast(data.toast);
@@ -244,6 +293,8 @@ function App() {
 		<Document
 			nonce={nonce}
 			theme={theme}
+			themePrefs={themePrefs}
+			locale={data.requestInfo.locale}
 			allowIndexing={allowIndexing}
 			env={data.ENV}
 		>
@@ -273,7 +324,7 @@ function App() {
 
 				<div className="container flex justify-between pb-5">
 					<Logo />
-					<ThemeSwitch userPreference={data.requestInfo.userPrefs.theme} />
+					<ThemeSwitch userPreference={userTheme} />
 				</div>
 			</Flex>
 			<EpicToaster closeButton position="top-center" theme={theme} />
@@ -324,6 +375,7 @@ function UserDropdown() {
 							className="h-8 w-8 rounded-full object-cover"
 							alt={user.name ?? user.username}
 							src={getUserImgSrc(user.image?.id)}
+							srcSet={getUserImgSrcSet(user.image?.id, 32)}
 						/>
 						<span className="text-body-sm font-bold">
 							{user.name ?? user.username}
@@ -345,6 +397,20 @@ function UserDropdown() {
 						Notes
 					</Link>
 				</DropdownMenu.Item>
+				<DropdownMenu.Item asChild>
+					<Link prefetch="intent" to="/search">
+						<MagnifyingGlassIcon />
+						Search notes
+					</Link>
+				</DropdownMenu.Item>
+				{userHasRole(user, "admin") ? (
+					<DropdownMenu.Item asChild>
+						<Link prefetch="intent" to="/admin">
+							<LockClosedIcon />
+							Admin
+						</Link>
+					</DropdownMenu.Item>
+				) : null}
 				<DropdownMenu.Item
 					asChild
 					// this prevents the menu from closing before the form submission is completed
@@ -363,6 +429,20 @@ function UserDropdown() {
 	);
 }
 
+/**
+ * @returns the current theme mode: the one being switched to, the user's
+ * preference, or the one their system asks for when they haven't picked one.
+ */
+export function useTheme(): Theme {
+	const hints = useHints();
+	const requestInfo = useRequestInfo();
+	const optimisticMode = useOptimisticThemeMode();
+	if (optimisticMode) {
+		return optimisticMode === "system" ? hints.theme : optimisticMode;
+	}
+	return requestInfo.userPrefs.theme ?? hints.theme;
+}
+
 /**
  * If the user's changing their theme mode preference, this will return the
  * value it's being changed to.
@@ -14,16 +14,19 @@ import { authSessionStorage } from "#app/utils/session.server.ts";
 import { generateTOTP } from "#app/utils/totp.server.ts";
 import { createUser } from "#tests/db-utils.ts";
 import { insertGitHubUser, deleteGitHubUsers } from "#tests/mocks/github.ts";
+import { deleteGoogleUsers, insertGoogleUser } from "#tests/mocks/google.ts";
 import { server } from "#tests/mocks/index.ts";
+import { deleteOIDCUsers, insertOIDCUser } from "#tests/mocks/oidc.ts";
 import { consoleError } from "#tests/setup/setup-test-env.ts";
 import { BASE_URL, convertSetCookieToCookie } from "#tests/utils.ts";
 import { loader } from "./auth.$provider.callback.ts";
 
-const ROUTE_PATH = "/auth/github/callback";
 const PARAMS = { provider: "github" };
 
 afterEach(async () => {
 	await deleteGitHubUsers();
+	await deleteGoogleUsers();
+	await deleteOIDCUsers();
 });
 
 test("a new user goes to onboarding", async () => {
@@ -214,11 +217,101 @@ test("if a user is not logged in, but the connection exists and they have enable
 	expect(response).toHaveRedirect(`/verify?${searchParams}`);
 });
 
+test("a new Google user goes to onboarding", async () => {
+	const request = await setupRequest({ provider: "google" });
+	const response = await loader({
+		request,
+		params: { provider: "google" },
+		context: {},
+	}).catch((e) => e);
+	expect(response).toHaveRedirect("/onboarding/google");
+});
+
+test("a Google user with the same email gets connected and logged in", async () => {
+	const googleUser = await insertGoogleUser();
+	const { userId } = await setupUser({
+		...createUser(),
+		email: googleUser.profile.email.toLowerCase(),
+	});
+	const request = await setupRequest({
+		provider: "google",
+		code: googleUser.code,
+	});
+	const response = await loader({
+		request,
+		params: { provider: "google" },
+		context: {},
+	});
+	expect(response).toHaveRedirect("/");
+	await expect(response).toHaveSessionForUser(userId);
+	const connection = await prisma.connection.findFirst({
+		select: { id: true },
+		where: {
+			userId,
+			providerName: "google",
+			providerId: googleUser.profile.sub,
+		},
+	});
+	expect(connection).toBeTruthy();
+});
+
+test("an OIDC user that is logged in gets connected", async () => {
+	const oidcUser = await insertOIDCUser();
+	const session = await setupUser();
+	const request = await setupRequest({
+		provider: "oidc",
+		sessionId: session.id,
+		code: oidcUser.code,
+	});
+	const response = await loader({
+		request,
+		params: { provider: "oidc" },
+		context: {},
+	});
+	expect(response).toHaveRedirect("/settings/profile/connections");
+	await expect(response).toSendToast(
+		expect.objectContaining({ title: "Connected", type: "success" }),
+	);
+	const connection = await prisma.connection.findFirst({
+		select: { id: true },
+		where: {
+			userId: session.userId,
+			providerName: "oidc",
+			providerId: oidcUser.profile.sub,
+		},
+	});
+	expect(connection).toBeTruthy();
+});
+
+test.each([
+	{ name: "unverified emails", emailVerified: false },
+	{ name: "no email_verified claim", emailVerified: undefined },
+])("OIDC users with $name can't log in", async ({ emailVerified }) => {
+	consoleError.mockImplementation(() => {});
+	const oidcUser = await insertOIDCUser();
+	server.use(
+		http.get(`${process.env.OIDC_ISSUER}/userinfo`, () =>
+			Response.json({ ...oidcUser.profile, email_verified: emailVerified }),
+		),
+	);
+	const request = await setupRequest({ provider: "oidc", code: oidcUser.code });
+	const response = await loader({
+		request,
+		params: { provider: "oidc" },
+		context: {},
+	}).catch((e) => e);
+	expect(response).toHaveRedirect("/login");
+	await expect(response).toSendToast(
+		expect.objectContaining({ title: "Auth Failed", type: "error" }),
+	);
+});
+
 async function setupRequest({
+	provider = "github",
 	sessionId,
 	code = faker.string.uuid(),
-}: { sessionId?: string; code?: string } = {}) {
-	const url = new URL(ROUTE_PATH, BASE_URL);
+}: { provider?: string; sessionId?: string; code?: string } = {}) {
+	const url = new URL(`/auth/${provider}/callback`, BASE_URL);
 	const state = faker.string.uuid();
 	url.searchParams.set("state", state);
 	url.searchParams.set("code", code);
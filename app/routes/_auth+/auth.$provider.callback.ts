@@ -1,6 +1,8 @@
 import { redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
 import {
 	authenticator,
+	getSessionDeviceData,
 	getSessionExpirationDate,
 	getUserId,
 } from "#app/utils/auth.server.ts";
@@ -97,6 +99,12 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
 				userId,
 			},
 		});
+		await recordAuditEvent({
+			request,
+			type: "connection-added",
+			userId,
+			metadata: { providerName },
+		});
 		return redirectWithToast(
 			"/settings/profile/connections",
 			{
@@ -127,6 +135,12 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
 				userId: user.id,
 			},
 		});
+		await recordAuditEvent({
+			request,
+			type: "connection-added",
+			userId: user.id,
+			metadata: { providerName },
+		});
 		return makeSession(
 			{ request, userId: user.id },
 			{
@@ -175,6 +189,7 @@ async function makeSession(
 		data: {
 			expirationDate: getSessionExpirationDate(),
 			userId,
+			...getSessionDeviceData(request),
 		},
 	});
 	return handleNewSession(
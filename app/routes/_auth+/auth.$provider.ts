@@ -1,6 +1,10 @@
+import { invariantResponse } from "@epic-web/invariant";
 import { redirect, type ActionFunctionArgs } from "@remix-run/node";
 import { authenticator } from "#app/utils/auth.server.ts";
-import { handleMockAction } from "#app/utils/connections.server.ts";
+import {
+	handleMockAction,
+	isProviderConfigured,
+} from "#app/utils/connections.server.ts";
 import { ProviderNameSchema } from "#app/utils/connections.tsx";
 import { getReferrerRoute } from "#app/utils/misc.tsx";
 import { getRedirectCookieHeader } from "#app/utils/redirect-cookie.server.ts";
@@ -11,6 +15,11 @@ export async function loader() {
 
 export async function action({ request, params }: ActionFunctionArgs) {
 	const providerName = ProviderNameSchema.parse(params.provider);
+	invariantResponse(
+		isProviderConfigured(providerName),
+		`${providerName} login is not set up`,
+		{ status: 404 },
+	);
 
 	try {
 		await handleMockAction(providerName, request);
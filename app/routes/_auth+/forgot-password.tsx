@@ -15,6 +15,15 @@ import { ErrorList, Field } from "#app/components/forms.tsx";
 import { prisma } from "#app/utils/db.server.ts";
 import { sendEmail } from "#app/utils/email.server.ts";
 import { checkHoneypot } from "#app/utils/honeypot.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import {
+	createI18n,
+	defaultLocale,
+	getMatchesLocale,
+	translate,
+	useI18n,
+	type I18n,
+} from "#app/utils/i18n.ts";
 import { EmailSchema, UsernameSchema } from "#app/utils/user-validation.ts";
 import { prepareVerification } from "./verify.server.ts";
 import {
@@ -35,6 +44,7 @@ const ForgotPasswordSchema = z.object({
 export async function action({ request }: ActionFunctionArgs) {
 	const formData = await request.formData();
 	checkHoneypot(formData);
+	const { t } = await getI18n(request);
 	const submission = await parseWithZod(formData, {
 		schema: ForgotPasswordSchema.superRefine(async (data, ctx) => {
 			const user = await prisma.user.findFirst({
@@ -50,7 +60,7 @@ export async function action({ request }: ActionFunctionArgs) {
 				ctx.addIssue({
 					path: ["usernameOrEmail"],
 					code: z.ZodIssueCode.custom,
-					message: "No user exists with this username or email",
+					message: t("forgotPassword.userNotFound"),
 				});
 				return;
 			}
@@ -67,8 +77,10 @@ export async function action({ request }: ActionFunctionArgs) {
 
 	const user = await prisma.user.findFirstOrThrow({
 		where: { OR: [{ email: usernameOrEmail }, { username: usernameOrEmail }] },
-		select: { email: true, username: true },
+		select: { id: true, email: true, username: true },
 	});
+	// the email is in the language the account is set to, if it has one
+	const i18n = await getI18n(request, { userId: user.id });
 
 	const { verifyUrl, redirectTo, otp } = await prepareVerification({
 		period: 10 * 60,
@@ -79,9 +91,13 @@ export async function action({ request }: ActionFunctionArgs) {
 
 	const response = await sendEmail({
 		to: user.email,
-		subject: "Epic Notes Password Reset",
+		subject: i18n.t("forgotPassword.email.subject"),
 		react: (
-			<ForgotPasswordEmail onboardingUrl={verifyUrl.toString()} otp={otp} />
+			<ForgotPasswordEmail
+				onboardingUrl={verifyUrl.toString()}
+				otp={otp}
+				i18n={i18n}
+			/>
 		),
 	});
 
@@ -94,26 +110,28 @@ export async function action({ request }: ActionFunctionArgs) {
 	);
 }
 
-function ForgotPasswordEmail({
+export function ForgotPasswordEmail({
 	onboardingUrl,
 	otp,
+	i18n: { locale, t } = createI18n({ locale: defaultLocale, timeZone: "UTC" }),
 }: {
 	onboardingUrl: string;
 	otp: string;
+	i18n?: I18n;
 }) {
 	return (
-		<E.Html lang="en" dir="ltr">
+		<E.Html lang={locale} dir="ltr">
 			<E.Container>
 				<h1>
-					<E.Text>Epic Notes Password Reset</E.Text>
+					<E.Text>{t("forgotPassword.email.subject")}</E.Text>
 				</h1>
 				<p>
 					<E.Text>
-						Here's your verification code: <strong>{otp}</strong>
+						{t("email.verificationCode")} <strong>{otp}</strong>
 					</E.Text>
 				</p>
 				<p>
-					<E.Text>Or click the link:</E.Text>
+					<E.Text>{t("forgotPassword.email.link")}</E.Text>
 				</p>
 				<E.Link href={onboardingUrl}>{onboardingUrl}</E.Link>
 			</E.Container>
@@ -121,12 +139,17 @@ function ForgotPasswordEmail({
 	);
 }
 
-export const meta: MetaFunction = () => {
-	return [{ title: "Password Recovery for Epic Notes" }];
+export const meta: MetaFunction = ({ matches }) => {
+	return [
+		{
+			title: translate(getMatchesLocale(matches), "forgotPassword.meta.title"),
+		},
+	];
 };
 
 export default function ForgotPasswordRoute() {
 	const forgotPassword = useFetcher<typeof action>();
+	const { t } = useI18n();
 
 	const [form, fields] = useForm({
 		id: "forgot-password-form",
@@ -142,8 +165,8 @@ export default function ForgotPasswordRoute() {
 		<Container>
 			<Flex direction="column" justify="center">
 				<Box className="text-center">
-					<Heading size="8">Forgot Password</Heading>
-					<Text size="5">No worries, we'll send you reset instructions.</Text>
+					<Heading size="8">{t("forgotPassword.heading")}</Heading>
+					<Text size="5">{t("forgotPassword.description")}</Text>
 				</Box>
 				<Container size="1">
 					<forgotPassword.Form method="POST" {...getFormProps(form)}>
@@ -152,7 +175,7 @@ export default function ForgotPasswordRoute() {
 							<Field
 								labelProps={{
 									htmlFor: fields.usernameOrEmail.id,
-									children: "Username or Email",
+									children: t("forgotPassword.usernameOrEmail"),
 								}}
 								inputProps={{
 									autoFocus: true,
@@ -169,12 +192,12 @@ export default function ForgotPasswordRoute() {
 								loading={forgotPassword.state === "submitting"}
 								disabled={forgotPassword.state !== "idle"}
 							>
-								Recover password
+								{t("forgotPassword.submit")}
 							</Button>
 						</Box>
 					</forgotPassword.Form>
 					<RadixLink asChild>
-						<Link to="/login">Back to Login</Link>
+						<Link to="/login">{t("forgotPassword.backToLogin")}</Link>
 					</RadixLink>
 				</Container>
 			</Flex>
@@ -2,6 +2,7 @@ import { invariant } from "@epic-web/invariant";
 import { redirect } from "@remix-run/node";
 import { safeRedirect } from "remix-utils/safe-redirect";
 import { twoFAVerificationType } from "#app/routes/settings+/profile.two-factor.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
 import { getUserId, sessionKey } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
 import { combineResponseInits } from "#app/utils/misc.tsx";
@@ -20,20 +21,28 @@ export async function handleNewSession(
 		session,
 		redirectTo,
 		remember,
+		passkey,
 	}: {
 		request: Request;
 		session: { userId: string; id: string; expirationDate: Date };
 		redirectTo?: string;
 		remember: boolean;
+		/**
+		 * The passkey they logged in with. It has to have verified the user (PIN,
+		 * biometrics, etc.) so it counts as both factors and we skip 2FA.
+		 */
+		passkey?: { name: string };
 	},
 	responseInit?: ResponseInit,
 ) {
-	const verification = await prisma.verification.findUnique({
-		select: { id: true },
-		where: {
-			target_type: { target: session.userId, type: twoFAVerificationType },
-		},
-	});
+	const verification = passkey
+		? null
+		: await prisma.verification.findUnique({
+				select: { id: true },
+				where: {
+					target_type: { target: session.userId, type: twoFAVerificationType },
+				},
+			});
 	const userHasTwoFactor = Boolean(verification);
 
 	if (userHasTwoFactor) {
@@ -63,6 +72,13 @@ export async function handleNewSession(
 			request.headers.get("cookie"),
 		);
 		authSession.set(sessionKey, session.id);
+		if (passkey) authSession.set(verifiedTimeKey, Date.now());
+		await recordAuditEvent({
+			request,
+			type: "login",
+			userId: session.userId,
+			metadata: passkey ? { passkey: passkey.name } : {},
+		});
 
 		return redirect(
 			safeRedirect(redirectTo),
@@ -88,6 +104,26 @@ export async function handleVerification({
 		submission.status === "success",
 		"Submission should be successful by now",
 	);
+	return completeTwoFactorVerification({
+		request,
+		redirectTo: submission.value.redirectTo,
+	});
+}
+
+/**
+ * Finishes logging in (or reverifying) once the user has proven their second
+ * factor, with a code from their 2FA app, a passkey or a recovery code.
+ */
+export async function completeTwoFactorVerification({
+	request,
+	redirectTo,
+	metadata,
+}: {
+	request: Request;
+	redirectTo?: string;
+	/** Extra details for the login audit event, like which passkey was used */
+	metadata?: Record<string, unknown>;
+}) {
 	const authSession = await authSessionStorage.getSession(
 		request.headers.get("cookie"),
 	);
@@ -96,14 +132,13 @@ export async function handleVerification({
 	);
 
 	const remember = verifySession.get(rememberKey);
-	const { redirectTo } = submission.value;
 	const headers = new Headers();
 	authSession.set(verifiedTimeKey, Date.now());
 
 	const unverifiedSessionId = verifySession.get(unverifiedSessionIdKey);
 	if (unverifiedSessionId) {
 		const session = await prisma.session.findUnique({
-			select: { expirationDate: true },
+			select: { expirationDate: true, userId: true },
 			where: { id: unverifiedSessionId },
 		});
 		if (!session) {
@@ -114,6 +149,12 @@ export async function handleVerification({
 			});
 		}
 		authSession.set(sessionKey, unverifiedSessionId);
+		await recordAuditEvent({
+			request,
+			type: "login",
+			userId: session.userId,
+			metadata: { twoFactor: true, ...metadata },
+		});
 
 		headers.append(
 			"set-cookie",
@@ -136,6 +177,25 @@ export async function handleVerification({
 	return redirect(safeRedirect(redirectTo), { headers });
 }
 
+/**
+ * The user who is being asked for their second factor: either someone part
+ * way through logging in, or a logged in user who needs to reverify.
+ */
+export async function getTwoFactorUserId(request: Request) {
+	const verifySession = await verifySessionStorage.getSession(
+		request.headers.get("cookie"),
+	);
+	const unverifiedSessionId = verifySession.get(unverifiedSessionIdKey);
+	if (unverifiedSessionId) {
+		const session = await prisma.session.findUnique({
+			select: { userId: true },
+			where: { id: unverifiedSessionId },
+		});
+		return session?.userId ?? null;
+	}
+	return getUserId(request);
+}
+
 export async function shouldRequestTwoFA(request: Request) {
 	const authSession = await authSessionStorage.getSession(
 		request.headers.get("cookie"),
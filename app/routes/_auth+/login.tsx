@@ -6,21 +6,30 @@ import {
 	type LoaderFunctionArgs,
 	type MetaFunction,
 } from "@remix-run/node";
-import { Form, Link, useActionData, useSearchParams } from "@remix-run/react";
+import {
+	Form,
+	Link,
+	useActionData,
+	useLoaderData,
+	useSearchParams,
+} from "@remix-run/react";
 import { HoneypotInputs } from "remix-utils/honeypot/react";
 import { z } from "zod";
 import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
 import { CheckboxField, ErrorList, Field } from "#app/components/forms.tsx";
 import { Spacer } from "#app/components/spacer.tsx";
 import { login, requireAnonymous } from "#app/utils/auth.server.ts";
-import {
-	ProviderConnectionForm,
-	providerNames,
-} from "#app/utils/connections.tsx";
+import { getConfiguredProviderNames } from "#app/utils/connections.server.ts";
+import { ProviderConnectionForm } from "#app/utils/connections.tsx";
 import { checkHoneypot } from "#app/utils/honeypot.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { getMatchesLocale, translate, useI18n } from "#app/utils/i18n.ts";
+import { getLockoutMessage } from "#app/utils/lockout.server.ts";
 import { useIsPending } from "#app/utils/misc.tsx";
+import { PasskeyLoginButton } from "#app/utils/passkeys.tsx";
 import { PasswordSchema, UsernameSchema } from "#app/utils/user-validation.ts";
 import { handleNewSession } from "./login.server.ts";
+import { sendAccountLockedEmail } from "./unlock-account.server.tsx";
 import {
 	Box,
 	Button,
@@ -40,7 +49,7 @@ const LoginFormSchema = z.object({
 
 export async function loader({ request }: LoaderFunctionArgs) {
 	await requireAnonymous(request);
-	return json({});
+	return json({ providerNames: getConfiguredProviderNames() });
 }
 
 export async function action({ request }: ActionFunctionArgs) {
@@ -52,16 +61,29 @@ export async function action({ request }: ActionFunctionArgs) {
 			LoginFormSchema.transform(async (data, ctx) => {
 				if (intent !== null) return { ...data, session: null };
 
-				const session = await login(data);
-				if (!session) {
+				const result = await login({ request, ...data });
+				if (result.status === "locked") {
+					// there's no one to email when the username doesn't exist
+					if (result.justLocked && result.userId) {
+						await sendAccountLockedEmail({ request, userId: result.userId });
+					}
+					const { t } = await getI18n(request);
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						message: getLockoutMessage(result, t),
+					});
+					return z.NEVER;
+				}
+				if (result.status !== "success") {
+					const { t } = await getI18n(request);
 					ctx.addIssue({
 						code: z.ZodIssueCode.custom,
-						message: "Invalid username or password",
+						message: t("login.invalidCredentials"),
 					});
 					return z.NEVER;
 				}
 
-				return { ...data, session };
+				return { ...data, session: result.session };
 			}),
 		async: true,
 	});
@@ -84,10 +106,12 @@ export async function action({ request }: ActionFunctionArgs) {
 }
 
 export default function LoginPage() {
+	const data = useLoaderData<typeof loader>();
 	const actionData = useActionData<typeof action>();
 	const isPending = useIsPending();
 	const [searchParams] = useSearchParams();
 	const redirectTo = searchParams.get("redirectTo");
+	const { t } = useI18n();
 
 	const [form, fields] = useForm({
 		id: "login-form",
@@ -104,8 +128,8 @@ export default function LoginPage() {
 		<Flex direction="column" minHeight="100%" justify="center" pb="5" pt="9">
 			<Container size="1">
 				<Flex direction="column" gap="3" className="text-center">
-					<Heading size="8">Welcome back!</Heading>
-					<Text size="5">Please enter your details.</Text>
+					<Heading size="8">{t("login.heading")}</Heading>
+					<Text size="5">{t("login.description")}</Text>
 				</Flex>
 				<Spacer size="xs" />
 
@@ -115,7 +139,7 @@ export default function LoginPage() {
 							<Form method="POST" {...getFormProps(form)}>
 								<HoneypotInputs />
 								<Field
-									labelProps={{ children: "Username" }}
+									labelProps={{ children: t("common.username") }}
 									inputProps={{
 										...getInputProps(fields.username, { type: "text" }),
 										autoFocus: true,
@@ -126,7 +150,7 @@ export default function LoginPage() {
 								/>
 
 								<Field
-									labelProps={{ children: "Password" }}
+									labelProps={{ children: t("common.password") }}
 									inputProps={{
 										...getInputProps(fields.password, {
 											type: "password",
@@ -140,7 +164,7 @@ export default function LoginPage() {
 									<CheckboxField
 										labelProps={{
 											htmlFor: fields.remember.id,
-											children: "Remember me",
+											children: t("common.rememberMe"),
 										}}
 										buttonProps={getInputProps(fields.remember, {
 											type: "checkbox",
@@ -149,7 +173,9 @@ export default function LoginPage() {
 									/>
 									<div>
 										<Button variant="ghost" asChild>
-											<Link to="/forgot-password">Forgot password?</Link>
+											<Link to="/forgot-password">
+												{t("login.forgotPassword")}
+											</Link>
 										</Button>
 									</div>
 								</Flex>
@@ -165,15 +191,17 @@ export default function LoginPage() {
 										disabled={isPending}
 										loading={isPending}
 									>
-										Log in
+										{t("login.submit")}
 									</Button>
 								</Flex>
 							</Form>
 
 							<Separator size="4" />
 
+							<PasskeyLoginButton type="login" redirectTo={redirectTo} />
+
 							<ul className="flex flex-col gap-5">
-								{providerNames.map((providerName) => (
+								{data.providerNames.map((providerName) => (
 									<li key={providerName}>
 										<ProviderConnectionForm
 											type="Login"
@@ -185,7 +213,7 @@ export default function LoginPage() {
 							</ul>
 						</Flex>
 						<Flex gap="3" justify="center" align="center" pt="4">
-							<Text size="2">New here?</Text>
+							<Text size="2">{t("login.newHere")}</Text>
 							<Button variant="ghost" asChild>
 								<Link
 									to={
@@ -194,7 +222,7 @@ export default function LoginPage() {
 											: "/signup"
 									}
 								>
-									Create an account
+									{t("login.createAccount")}
 								</Link>
 							</Button>
 						</Flex>
@@ -205,8 +233,8 @@ export default function LoginPage() {
 	);
 }
 
-export const meta: MetaFunction = () => {
-	return [{ title: "Login to Epic Notes" }];
+export const meta: MetaFunction = ({ matches }) => {
+	return [{ title: translate(getMatchesLocale(matches), "login.meta.title") }];
 };
 
 export function ErrorBoundary() {
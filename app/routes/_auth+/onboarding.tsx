@@ -25,6 +25,8 @@ import {
 } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
 import { checkHoneypot } from "#app/utils/honeypot.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { getMatchesLocale, translate, useI18n } from "#app/utils/i18n.ts";
 import { useIsPending } from "#app/utils/misc.tsx";
 import { authSessionStorage } from "#app/utils/session.server.ts";
 import { redirectWithToast } from "#app/utils/toast.server.ts";
@@ -90,7 +92,7 @@ export async function action({ request }: ActionFunctionArgs) {
 			}).transform(async (data) => {
 				if (intent !== null) return { ...data, session: null };
 
-				const session = await signup({ ...data, email });
+				const session = await signup({ ...data, email, request });
 				return { ...data, session };
 			}),
 		async: true,
@@ -122,15 +124,21 @@ export async function action({ request }: ActionFunctionArgs) {
 		await verifySessionStorage.destroySession(verifySession),
 	);
 
+	const { t } = await getI18n(request, { userId: null });
 	return redirectWithToast(
 		safeRedirect(redirectTo),
-		{ title: "Welcome", description: "Thanks for signing up!" },
+		{
+			title: t("onboarding.toast.title"),
+			description: t("onboarding.toast.description"),
+		},
 		{ headers },
 	);
 }
 
-export const meta: MetaFunction = () => {
-	return [{ title: "Setup Epic Notes Account" }];
+export const meta: MetaFunction = ({ matches }) => {
+	return [
+		{ title: translate(getMatchesLocale(matches), "onboarding.meta.title") },
+	];
 };
 
 export default function SignupRoute() {
@@ -139,6 +147,7 @@ export default function SignupRoute() {
 	const isPending = useIsPending();
 	const [searchParams] = useSearchParams();
 	const redirectTo = searchParams.get("redirectTo");
+	const { t } = useI18n();
 
 	const [form, fields] = useForm({
 		id: "onboarding-form",
@@ -155,9 +164,11 @@ export default function SignupRoute() {
 		<div className="container flex min-h-full flex-col justify-center pb-32 pt-20">
 			<div className="mx-auto w-full max-w-lg">
 				<div className="flex flex-col gap-3 text-center">
-					<h1 className="text-h1">Welcome aboard {data.email}!</h1>
+					<h1 className="text-h1">
+						{t("onboarding.heading", { email: data.email })}
+					</h1>
 					<p className="text-body-md text-muted-foreground">
-						Please enter your details.
+						{t("onboarding.description")}
 					</p>
 				</div>
 				<Spacer size="xs" />
@@ -168,7 +179,10 @@ export default function SignupRoute() {
 				>
 					<HoneypotInputs />
 					<Field
-						labelProps={{ htmlFor: fields.username.id, children: "Username" }}
+						labelProps={{
+							htmlFor: fields.username.id,
+							children: t("common.username"),
+						}}
 						inputProps={{
 							...getInputProps(fields.username, { type: "text" }),
 							autoComplete: "username",
@@ -177,7 +191,7 @@ export default function SignupRoute() {
 						errors={fields.username.errors}
 					/>
 					<Field
-						labelProps={{ htmlFor: fields.name.id, children: "Name" }}
+						labelProps={{ htmlFor: fields.name.id, children: t("common.name") }}
 						inputProps={{
 							...getInputProps(fields.name, { type: "text" }),
 							autoComplete: "name",
@@ -185,7 +199,10 @@ export default function SignupRoute() {
 						errors={fields.name.errors}
 					/>
 					<Field
-						labelProps={{ htmlFor: fields.password.id, children: "Password" }}
+						labelProps={{
+							htmlFor: fields.password.id,
+							children: t("common.password"),
+						}}
 						inputProps={{
 							...getInputProps(fields.password, { type: "password" }),
 							autoComplete: "new-password",
@@ -196,7 +213,7 @@ export default function SignupRoute() {
 					<Field
 						labelProps={{
 							htmlFor: fields.confirmPassword.id,
-							children: "Confirm Password",
+							children: t("common.confirmPassword"),
 						}}
 						inputProps={{
 							...getInputProps(fields.confirmPassword, { type: "password" }),
@@ -208,8 +225,7 @@ export default function SignupRoute() {
 					<CheckboxField
 						labelProps={{
 							htmlFor: fields.agreeToTermsOfServiceAndPrivacyPolicy.id,
-							children:
-								"Do you agree to our Terms of Service and Privacy Policy?",
+							children: t("onboarding.agreeToTerms"),
 						}}
 						buttonProps={getInputProps(
 							fields.agreeToTermsOfServiceAndPrivacyPolicy,
@@ -220,7 +236,7 @@ export default function SignupRoute() {
 					<CheckboxField
 						labelProps={{
 							htmlFor: fields.remember.id,
-							children: "Remember me",
+							children: t("common.rememberMe"),
 						}}
 						buttonProps={getInputProps(fields.remember, { type: "checkbox" })}
 						errors={fields.remember.errors}
@@ -231,7 +247,7 @@ export default function SignupRoute() {
 
 					<div className="flex items-center justify-between gap-6">
 						<Button status={isPending} type="submit" disabled={isPending}>
-							Create an account
+							{t("onboarding.submit")}
 						</Button>
 					</div>
 				</Form>
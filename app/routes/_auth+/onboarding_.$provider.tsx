@@ -131,6 +131,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
 		}).transform(async (data) => {
 			const session = await signupWithConnection({
 				...data,
+				request,
 				email,
 				providerId,
 				providerName,
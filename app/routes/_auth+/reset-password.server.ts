@@ -1,11 +1,15 @@
 import { invariant } from "@epic-web/invariant";
 import { json, redirect } from "@remix-run/node";
 import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
 import { verifySessionStorage } from "#app/utils/verification.server.ts";
 import { resetPasswordUsernameSessionKey } from "./reset-password.tsx";
 import type { VerifyFunctionArgs } from "./verify.server.ts";
 
-export async function handleVerification({ submission }: VerifyFunctionArgs) {
+export async function handleVerification({
+	request,
+	submission,
+}: VerifyFunctionArgs) {
 	invariant(
 		submission.status === "success",
 		"Submission should be successful by now",
@@ -18,8 +22,13 @@ export async function handleVerification({ submission }: VerifyFunctionArgs) {
 	// we don't want to say the user is not found if the email is not found
 	// because that would allow an attacker to check if an email is registered
 	if (!user) {
+		const { t } = await getI18n(request);
 		return json(
-			{ result: submission.reply({ fieldErrors: { code: ["Invalid code"] } }) },
+			{
+				result: submission.reply({
+					fieldErrors: { code: [t("verify.invalidCode")] },
+				}),
+			},
 			{ status: 400 },
 		);
 	}
@@ -11,6 +11,7 @@ import { Form, useActionData, useLoaderData } from "@remix-run/react";
 import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
 import { ErrorList, Field } from "#app/components/forms.tsx";
 import { requireAnonymous, resetUserPassword } from "#app/utils/auth.server.ts";
+import { getMatchesLocale, translate, useI18n } from "#app/utils/i18n.ts";
 import { useIsPending } from "#app/utils/misc.tsx";
 import { PasswordAndConfirmPasswordSchema } from "#app/utils/user-validation.ts";
 import { verifySessionStorage } from "#app/utils/verification.server.ts";
@@ -53,7 +54,11 @@ export async function action({ request }: ActionFunctionArgs) {
 	}
 	const { password } = submission.value;
 
-	await resetUserPassword({ username: resetPasswordUsername, password });
+	await resetUserPassword({
+		request,
+		username: resetPasswordUsername,
+		password,
+	});
 	const verifySession = await verifySessionStorage.getSession();
 	return redirect("/login", {
 		headers: {
@@ -62,14 +67,17 @@ export async function action({ request }: ActionFunctionArgs) {
 	});
 }
 
-export const meta: MetaFunction = () => {
-	return [{ title: "Reset Password | Epic Notes" }];
+export const meta: MetaFunction = ({ matches }) => {
+	return [
+		{ title: translate(getMatchesLocale(matches), "resetPassword.meta.title") },
+	];
 };
 
 export default function ResetPasswordPage() {
 	const data = useLoaderData<typeof loader>();
 	const actionData = useActionData<typeof action>();
 	const isPending = useIsPending();
+	const { t } = useI18n();
 
 	const [form, fields] = useForm({
 		id: "reset-password",
@@ -84,9 +92,11 @@ export default function ResetPasswordPage() {
 	return (
 		<div className="container flex flex-col justify-center pb-32 pt-20">
 			<div className="text-center">
-				<h1 className="text-h1">Password Reset</h1>
+				<h1 className="text-h1">{t("resetPassword.heading")}</h1>
 				<p className="mt-3 text-body-md text-muted-foreground">
-					Hi, {data.resetPasswordUsername}. No worries. It happens all the time.
+					{t("resetPassword.description", {
+						username: data.resetPasswordUsername,
+					})}
 				</p>
 			</div>
 			<div className="mx-auto mt-16 min-w-full max-w-sm sm:min-w-[368px]">
@@ -94,7 +104,7 @@ export default function ResetPasswordPage() {
 					<Field
 						labelProps={{
 							htmlFor: fields.password.id,
-							children: "New Password",
+							children: t("resetPassword.newPassword"),
 						}}
 						inputProps={{
 							...getInputProps(fields.password, { type: "password" }),
@@ -106,7 +116,7 @@ export default function ResetPasswordPage() {
 					<Field
 						labelProps={{
 							htmlFor: fields.confirmPassword.id,
-							children: "Confirm Password",
+							children: t("common.confirmPassword"),
 						}}
 						inputProps={{
 							...getInputProps(fields.confirmPassword, { type: "password" }),
@@ -118,7 +128,7 @@ export default function ResetPasswordPage() {
 					<ErrorList errors={form.errors} id={form.errorId} />
 
 					<Button loading={isPending} type="submit" disabled={isPending}>
-						Reset password
+						{t("resetPassword.submit")}
 					</Button>
 				</Form>
 			</div>
@@ -7,18 +7,30 @@ import {
 	type ActionFunctionArgs,
 	type MetaFunction,
 } from "@remix-run/node";
-import { Form, useActionData, useSearchParams } from "@remix-run/react";
+import {
+	Form,
+	useActionData,
+	useLoaderData,
+	useSearchParams,
+} from "@remix-run/react";
 import { HoneypotInputs } from "remix-utils/honeypot/react";
 import { z } from "zod";
 import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
 import { ErrorList, Field } from "#app/components/forms.tsx";
-import {
-	ProviderConnectionForm,
-	providerNames,
-} from "#app/utils/connections.tsx";
+import { getConfiguredProviderNames } from "#app/utils/connections.server.ts";
+import { ProviderConnectionForm } from "#app/utils/connections.tsx";
 import { prisma } from "#app/utils/db.server.ts";
 import { sendEmail } from "#app/utils/email.server.ts";
 import { checkHoneypot } from "#app/utils/honeypot.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import {
+	createI18n,
+	defaultLocale,
+	getMatchesLocale,
+	translate,
+	useI18n,
+	type I18n,
+} from "#app/utils/i18n.ts";
 import { useIsPending } from "#app/utils/misc.tsx";
 import { EmailSchema } from "#app/utils/user-validation.ts";
 import { prepareVerification } from "./verify.server.ts";
@@ -28,10 +40,15 @@ const SignupSchema = z.object({
 	email: EmailSchema,
 });
 
+export async function loader() {
+	return json({ providerNames: getConfiguredProviderNames() });
+}
+
 export async function action({ request }: ActionFunctionArgs) {
 	const formData = await request.formData();
 
 	checkHoneypot(formData);
+	const i18n = await getI18n(request);
 
 	const submission = await parseWithZod(formData, {
 		schema: SignupSchema.superRefine(async (data, ctx) => {
@@ -43,7 +60,7 @@ export async function action({ request }: ActionFunctionArgs) {
 				ctx.addIssue({
 					path: ["email"],
 					code: z.ZodIssueCode.custom,
-					message: "A user already exists with this email",
+					message: i18n.t("signup.emailTaken"),
 				});
 				return;
 			}
@@ -66,8 +83,10 @@ export async function action({ request }: ActionFunctionArgs) {
 
 	const response = await sendEmail({
 		to: email,
-		subject: `Welcome to Epic Notes!`,
-		react: <SignupEmail onboardingUrl={verifyUrl.toString()} otp={otp} />,
+		subject: i18n.t("signup.email.subject"),
+		react: (
+			<SignupEmail onboardingUrl={verifyUrl.toString()} otp={otp} i18n={i18n} />
+		),
 	});
 
 	if (response.status === "success") {
@@ -86,23 +105,25 @@ export async function action({ request }: ActionFunctionArgs) {
 export function SignupEmail({
 	onboardingUrl,
 	otp,
+	i18n: { locale, t } = createI18n({ locale: defaultLocale, timeZone: "UTC" }),
 }: {
 	onboardingUrl: string;
 	otp: string;
+	i18n?: I18n;
 }) {
 	return (
-		<E.Html lang="en" dir="ltr">
+		<E.Html lang={locale} dir="ltr">
 			<E.Container>
 				<h1>
-					<E.Text>Welcome to Epic Notes!</E.Text>
+					<E.Text>{t("signup.email.subject")}</E.Text>
 				</h1>
 				<p>
 					<E.Text>
-						Here's your verification code: <strong>{otp}</strong>
+						{t("email.verificationCode")} <strong>{otp}</strong>
 					</E.Text>
 				</p>
 				<p>
-					<E.Text>Or click the link to get started:</E.Text>
+					<E.Text>{t("signup.email.link")}</E.Text>
 				</p>
 				<E.Link href={onboardingUrl}>{onboardingUrl}</E.Link>
 			</E.Container>
@@ -110,15 +131,17 @@ export function SignupEmail({
 	);
 }
 
-export const meta: MetaFunction = () => {
-	return [{ title: "Sign Up | Epic Notes" }];
+export const meta: MetaFunction = ({ matches }) => {
+	return [{ title: translate(getMatchesLocale(matches), "signup.meta.title") }];
 };
 
 export default function SignupRoute() {
+	const data = useLoaderData<typeof loader>();
 	const actionData = useActionData<typeof action>();
 	const isPending = useIsPending();
 	const [searchParams] = useSearchParams();
 	const redirectTo = searchParams.get("redirectTo");
+	const { t } = useI18n();
 
 	const [form, fields] = useForm({
 		id: "signup-form",
@@ -134,9 +157,9 @@ export default function SignupRoute() {
 	return (
 		<div className="container flex flex-col justify-center pb-32 pt-20">
 			<div className="text-center">
-				<h1 className="text-h1">Let's start your journey!</h1>
+				<h1 className="text-h1">{t("signup.heading")}</h1>
 				<p className="mt-3 text-body-md text-muted-foreground">
-					Please enter your email.
+					{t("signup.description")}
 				</p>
 			</div>
 			<div className="mx-auto mt-16 min-w-full max-w-sm sm:min-w-[368px]">
@@ -145,7 +168,7 @@ export default function SignupRoute() {
 					<Field
 						labelProps={{
 							htmlFor: fields.email.id,
-							children: "Email",
+							children: t("common.email"),
 						}}
 						inputProps={{
 							...getInputProps(fields.email, { type: "email" }),
@@ -156,11 +179,11 @@ export default function SignupRoute() {
 					/>
 					<ErrorList errors={form.errors} id={form.errorId} />
 					<Button loading={isPending} type="submit" disabled={isPending}>
-						Submit
+						{t("signup.submit")}
 					</Button>
 				</Form>
 				<ul className="mt-5 flex flex-col gap-5 border-b-2 border-t-2 border-border py-3">
-					{providerNames.map((providerName) => (
+					{data.providerNames.map((providerName) => (
 						<li key={providerName}>
 							<ProviderConnectionForm
 								type="Signup"
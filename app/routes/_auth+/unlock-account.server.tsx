@@ -0,0 +1,121 @@
+import { invariant } from "@epic-web/invariant";
+import * as E from "@react-email/components";
+import { json } from "@remix-run/node";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { queueEmail } from "#app/utils/email.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import {
+	clearFailedAttempts,
+	getLockoutConfig,
+} from "#app/utils/lockout.server.ts";
+import { redirectWithToast } from "#app/utils/toast.server.ts";
+import {
+	prepareVerification,
+	type VerifyFunctionArgs,
+} from "./verify.server.ts";
+
+/**
+ * Lets the user know their account was just locked and gives them a link to
+ * unlock it, in case it was them and they've remembered their password.
+ */
+export async function sendAccountLockedEmail({
+	request,
+	userId,
+}: {
+	request: Request;
+	userId: string;
+}) {
+	const user = await prisma.user.findUniqueOrThrow({
+		select: { email: true },
+		where: { id: userId },
+	});
+	const { verifyUrl, otp } = await prepareVerification({
+		period: Math.round(getLockoutConfig().duration / 1000),
+		request,
+		type: "unlock-account",
+		target: userId,
+	});
+	await queueEmail({
+		to: user.email,
+		subject: "Your Epic Notes account has been locked",
+		react: <AccountLockedEmail unlockUrl={verifyUrl.toString()} otp={otp} />,
+	});
+}
+
+export async function handleVerification({
+	request,
+	submission,
+}: VerifyFunctionArgs) {
+	invariant(
+		submission.status === "success",
+		"Submission should be successful by now",
+	);
+	const user = await prisma.user.findUnique({
+		select: { id: true },
+		where: { id: submission.value.target },
+	});
+	const { t } = await getI18n(request, { userId: user?.id ?? null });
+	if (!user) {
+		return json(
+			{
+				result: submission.reply({
+					fieldErrors: { code: [t("verify.invalidCode")] },
+				}),
+			},
+			{ status: 400 },
+		);
+	}
+	await clearFailedAttempts({ userId: user.id });
+	await recordAuditEvent({
+		request,
+		type: "account-unlocked",
+		userId: user.id,
+		actorId: null,
+	});
+	return redirectWithToast("/login", {
+		type: "success",
+		title: t("verify.unlocked.title"),
+		description: t("verify.unlocked.description"),
+	});
+}
+
+function AccountLockedEmail({
+	unlockUrl,
+	otp,
+}: {
+	unlockUrl: string;
+	otp: string;
+}) {
+	return (
+		<E.Html lang="en" dir="ltr">
+			<E.Container>
+				<h1>
+					<E.Text>Your Epic Notes account has been locked</E.Text>
+				</h1>
+				<p>
+					<E.Text>
+						There were too many failed attempts to log in to your account, so
+						we've locked it for a while to keep it safe.
+					</E.Text>
+				</p>
+				<p>
+					<E.Text>
+						If this was you, you can unlock it with this code:{" "}
+						<strong>{otp}</strong>
+					</E.Text>
+				</p>
+				<p>
+					<E.Text>Or click the link:</E.Text>
+				</p>
+				<E.Link href={unlockUrl}>{unlockUrl}</E.Link>
+				<p>
+					<E.Text>
+						If this wasn't you, someone may be trying to guess your password.
+						Consider changing it to something long and unique.
+					</E.Text>
+				</p>
+			</E.Container>
+		</E.Html>
+	);
+}
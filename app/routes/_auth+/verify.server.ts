@@ -1,23 +1,40 @@
 import type { Submission } from "@conform-to/react";
 import { parseWithZod } from "@conform-to/zod";
+import { invariantResponse } from "@epic-web/invariant";
 import { json } from "@remix-run/node";
 import { z } from "zod";
 import { handleVerification as handleChangeEmailVerification } from "#app/routes/settings+/profile.change-email.server.tsx";
+import { handleRecoveryCodeVerification } from "#app/routes/settings+/profile.two-factor.recovery-codes.server.tsx";
 import { twoFAVerificationType } from "#app/routes/settings+/profile.two-factor.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
 import { requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
 import { ensurePrimary } from "#app/utils/litefs.server.ts";
+import {
+	clearFailedAttempts,
+	getLockoutMessage,
+	getLockoutStatus,
+	recordFailedAttempt,
+} from "#app/utils/lockout.server.ts";
 import { getDomainUrl } from "#app/utils/misc.tsx";
+import { redeemRecoveryCode } from "#app/utils/recovery-codes.server.ts";
 import { redirectWithToast } from "#app/utils/toast.server.ts";
 import { generateTOTP, verifyTOTP } from "#app/utils/totp.server.ts";
 import type { twoFAVerifyVerificationType } from "../settings+/profile.two-factor.verify.tsx";
 import {
+	getTwoFactorUserId,
 	handleVerification as handleLoginTwoFactorVerification,
 	shouldRequestTwoFA,
 } from "./login.server.ts";
 import { handleVerification as handleOnboardingVerification } from "./onboarding.server.ts";
 import { handleVerification as handleResetPasswordVerification } from "./reset-password.server.ts";
 import {
+	handleVerification as handleUnlockAccountVerification,
+	sendAccountLockedEmail,
+} from "./unlock-account.server.tsx";
+import {
+	RecoveryCodeSchema,
 	VerifySchema,
 	codeQueryParam,
 	redirectToQueryParam,
@@ -67,9 +84,10 @@ export async function requireRecentVerification(request: Request) {
 			type: twoFAVerificationType,
 			redirectTo: reqUrl.pathname + reqUrl.search,
 		});
+		const { t } = await getI18n(request, { userId });
 		throw await redirectWithToast(redirectUrl.toString(), {
-			title: "Please Reverify",
-			description: "Please reverify your account before proceeding",
+			title: t("verify.reverify.title"),
+			description: t("verify.reverify.description"),
 		});
 	}
 }
@@ -142,18 +160,54 @@ export async function validateRequest(
 	request: Request,
 	body: URLSearchParams | FormData,
 ) {
+	// 2FA lockouts are counted per user, so the user has to be the one part way
+	// through logging in rather than whoever the form says, or anyone could
+	// lock someone else out
+	if (body.get(typeQueryParam) === twoFAVerificationType) {
+		const twoFactorUserId = await getTwoFactorUserId(request);
+		invariantResponse(
+			twoFactorUserId && twoFactorUserId === body.get(targetQueryParam),
+			"Invalid verification target",
+			{ status: 400 },
+		);
+	}
+
+	const { t } = await getI18n(request);
 	const submission = await parseWithZod(body, {
 		schema: VerifySchema.superRefine(async (data, ctx) => {
+			// 2FA codes are only six digits, so we slow down guessing them the same
+			// way we do for passwords
+			const isTwoFactor = data[typeQueryParam] === twoFAVerificationType;
+			if (isTwoFactor) {
+				const lockout = await getLockoutStatus({
+					userId: data[targetQueryParam],
+					type: "2fa",
+				});
+				if (lockout.retryAt) {
+					ctx.addIssue({
+						path: ["code"],
+						code: z.ZodIssueCode.custom,
+						message: getLockoutMessage(
+							{ ...lockout, retryAt: lockout.retryAt },
+							t,
+						),
+					});
+					return;
+				}
+			}
 			const codeIsValid = await isCodeValid({
 				code: data[codeQueryParam],
 				type: data[typeQueryParam],
 				target: data[targetQueryParam],
 			});
 			if (!codeIsValid) {
+				if (isTwoFactor) {
+					await handleFailedTwoFactorAttempt(request, data[targetQueryParam]);
+				}
 				ctx.addIssue({
 					path: ["code"],
 					code: z.ZodIssueCode.custom,
-					message: `Invalid code`,
+					message: t("verify.invalidCode"),
 				});
 				return;
 			}
@@ -199,7 +253,89 @@ export async function validateRequest(
 			return handleChangeEmailVerification({ request, body, submission });
 		}
 		case "2fa": {
+			await clearFailedAttempts({
+				userId: submissionValue[targetQueryParam],
+				type: "2fa",
+			});
 			return handleLoginTwoFactorVerification({ request, body, submission });
 		}
+		case "unlock-account": {
+			await deleteVerification();
+			return handleUnlockAccountVerification({ request, body, submission });
+		}
 	}
 }
+
+async function handleFailedTwoFactorAttempt(request: Request, userId: string) {
+	// the user might have been deleted since they started logging in
+	const user = await prisma.user.findUnique({
+		select: { id: true },
+		where: { id: userId },
+	});
+	if (!user) return;
+	const { justLocked } = await recordFailedAttempt({
+		userId: user.id,
+		type: "2fa",
+	});
+	if (justLocked) {
+		await recordAuditEvent({
+			request,
+			type: "account-locked",
+			userId: user.id,
+			actorId: null,
+			metadata: { reason: "2fa" },
+		});
+		await sendAccountLockedEmail({ request, userId: user.id });
+	}
+}
+
+/**
+ * Lets someone who has lost their 2FA app use one of their recovery codes
+ * instead. The user comes from the session rather than the form so a code can
+ * only ever be used for the account that is part way through logging in.
+ */
+export async function validateRecoveryCodeRequest(
+	request: Request,
+	body: URLSearchParams | FormData,
+) {
+	const userId = await getTwoFactorUserId(request);
+	const { t } = await getI18n(request, { userId });
+	if (!userId) {
+		throw await redirectWithToast("/login", {
+			type: "error",
+			title: t("verify.invalidSession.title"),
+			description: t("verify.invalidSession.description"),
+		});
+	}
+
+	const submission = await parseWithZod(body, {
+		schema: RecoveryCodeSchema.superRefine(async (data, ctx) => {
+			const codeIsValid = await redeemRecoveryCode({
+				userId,
+				code: data.recoveryCode,
+			});
+			if (!codeIsValid) {
+				ctx.addIssue({
+					path: ["recoveryCode"],
+					code: z.ZodIssueCode.custom,
+					message: t("verify.invalidRecoveryCode"),
+				});
+				return;
+			}
+		}),
+		async: true,
+	});
+
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	return handleRecoveryCodeVerification({
+		request,
+		userId,
+		redirectTo: submission.value[redirectToQueryParam],
+	});
+}
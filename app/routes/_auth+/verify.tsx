@@ -1,22 +1,46 @@
 import { getFormProps, getInputProps, useForm } from "@conform-to/react";
 import { getZodConstraint, parseWithZod } from "@conform-to/zod";
-import type { ActionFunctionArgs } from "@remix-run/node";
-import { Form, useActionData, useSearchParams } from "@remix-run/react";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import {
+	Form,
+	useActionData,
+	useFetcher,
+	useLoaderData,
+	useSearchParams,
+} from "@remix-run/react";
 import { HoneypotInputs } from "remix-utils/honeypot/react";
 import { z } from "zod";
 import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
-import { ErrorList, OTPField } from "#app/components/forms.tsx";
+import { ErrorList, Field, OTPField } from "#app/components/forms.tsx";
 import { Spacer } from "#app/components/spacer.tsx";
+import { prisma } from "#app/utils/db.server.ts";
 import { checkHoneypot } from "#app/utils/honeypot.server.ts";
+import { useI18n } from "#app/utils/i18n.ts";
 import { useIsPending } from "#app/utils/misc.tsx";
-import { validateRequest } from "./verify.server.ts";
-import { Button } from "@radix-ui/themes";
+import { PasskeyLoginButton } from "#app/utils/passkeys.tsx";
+import { getRemainingRecoveryCodeCount } from "#app/utils/recovery-codes.server.ts";
+import { getTwoFactorUserId } from "./login.server.ts";
+import {
+	validateRecoveryCodeRequest,
+	validateRequest,
+} from "./verify.server.ts";
+import { Button, Text } from "@radix-ui/themes";
 
 export const codeQueryParam = "code";
 export const targetQueryParam = "target";
 export const typeQueryParam = "type";
 export const redirectToQueryParam = "redirectTo";
-const types = ["onboarding", "reset-password", "change-email", "2fa"] as const;
+const types = [
+	"onboarding",
+	"reset-password",
+	"change-email",
+	"2fa",
+	"unlock-account",
+] as const;
 const VerificationTypeSchema = z.enum(types);
 export type VerificationTypes = z.infer<typeof VerificationTypeSchema>;
 
@@ -27,16 +51,45 @@ export const VerifySchema = z.object({
 	[redirectToQueryParam]: z.string().optional(),
 });
 
+export const RecoveryCodeSchema = z.object({
+	intent: z.literal("recovery-code"),
+	recoveryCode: z.string().trim().min(1, "Recovery code is required"),
+	[redirectToQueryParam]: z.string().optional(),
+});
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const type = new URL(request.url).searchParams.get(typeQueryParam);
+	if (type !== "2fa") {
+		return json({ hasPasskeys: false, hasRecoveryCodes: false });
+	}
+	// passkeys and recovery codes can stand in for the 2FA code
+	const userId = await getTwoFactorUserId(request);
+	if (!userId) return json({ hasPasskeys: false, hasRecoveryCodes: false });
+	const [passkeyCount, recoveryCodeCount] = await Promise.all([
+		prisma.passkey.count({ where: { userId } }),
+		getRemainingRecoveryCodeCount(userId),
+	]);
+	return json({
+		hasPasskeys: passkeyCount > 0,
+		hasRecoveryCodes: recoveryCodeCount > 0,
+	});
+}
+
 export async function action({ request }: ActionFunctionArgs) {
 	const formData = await request.formData();
 	checkHoneypot(formData);
+	if (formData.get("intent") === "recovery-code") {
+		return validateRecoveryCodeRequest(request, formData);
+	}
 	return validateRequest(request, formData);
 }
 
 export default function VerifyRoute() {
+	const data = useLoaderData<typeof loader>();
 	const [searchParams] = useSearchParams();
 	const isPending = useIsPending();
 	const actionData = useActionData<typeof action>();
+	const { t } = useI18n();
 	const parseWithZoddType = VerificationTypeSchema.safeParse(
 		searchParams.get(typeQueryParam),
 	);
@@ -44,9 +97,9 @@ export default function VerifyRoute() {
 
 	const checkEmail = (
 		<>
-			<h1 className="text-h1">Check your email</h1>
+			<h1 className="text-h1">{t("verify.checkEmail.heading")}</h1>
 			<p className="mt-3 text-body-md text-muted-foreground">
-				We've sent you a code to verify your email address.
+				{t("verify.checkEmail.description")}
 			</p>
 		</>
 	);
@@ -55,11 +108,19 @@ export default function VerifyRoute() {
 		onboarding: checkEmail,
 		"reset-password": checkEmail,
 		"change-email": checkEmail,
+		"unlock-account": (
+			<>
+				<h1 className="text-h1">{t("verify.unlockAccount.heading")}</h1>
+				<p className="mt-3 text-body-md text-muted-foreground">
+					{t("verify.unlockAccount.description")}
+				</p>
+			</>
+		),
 		"2fa": (
 			<>
-				<h1 className="text-h1">Check your 2FA app</h1>
+				<h1 className="text-h1">{t("verify.twoFactor.heading")}</h1>
 				<p className="mt-3 text-body-md text-muted-foreground">
-					Please enter your 2FA code to verify your identity.
+					{t("verify.twoFactor.description")}
 				</p>
 			</>
 		),
@@ -83,7 +144,7 @@ export default function VerifyRoute() {
 	return (
 		<main className="container flex flex-col justify-center pb-32 pt-20">
 			<div className="text-center">
-				{type ? headings[type] : "Invalid Verification Type"}
+				{type ? headings[type] : t("verify.invalidType")}
 			</div>
 
 			<Spacer size="xs" />
@@ -99,7 +160,7 @@ export default function VerifyRoute() {
 							<OTPField
 								labelProps={{
 									htmlFor: fields[codeQueryParam].id,
-									children: "Code",
+									children: t("verify.code"),
 								}}
 								inputProps={{
 									...getInputProps(fields[codeQueryParam], { type: "text" }),
@@ -120,15 +181,77 @@ export default function VerifyRoute() {
 							})}
 						/>
 						<Button loading={isPending} type="submit" disabled={isPending}>
-							Submit
+							{t("verify.submit")}
 						</Button>
 					</Form>
 				</div>
+				{type === "2fa" && data.hasPasskeys ? (
+					<div className="mt-6">
+						<PasskeyLoginButton
+							type="2fa"
+							redirectTo={searchParams.get(redirectToQueryParam)}
+						/>
+					</div>
+				) : null}
+				{type === "2fa" && data.hasRecoveryCodes ? (
+					<RecoveryCodeForm
+						redirectTo={searchParams.get(redirectToQueryParam)}
+					/>
+				) : null}
 			</div>
 		</main>
 	);
 }
 
+function RecoveryCodeForm({ redirectTo }: { redirectTo: string | null }) {
+	const fetcher = useFetcher<typeof action>();
+	const { t } = useI18n();
+	const [form, fields] = useForm({
+		id: "recovery-code-form",
+		constraint: getZodConstraint(RecoveryCodeSchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: RecoveryCodeSchema });
+		},
+	});
+
+	return (
+		<details className="mt-6">
+			<summary className="cursor-pointer">
+				<Text size="2">{t("verify.lostAccess")}</Text>
+			</summary>
+			<fetcher.Form method="POST" {...getFormProps(form)} className="mt-4">
+				<HoneypotInputs />
+				<input type="hidden" name="intent" value="recovery-code" />
+				{redirectTo ? (
+					<input type="hidden" name={redirectToQueryParam} value={redirectTo} />
+				) : null}
+				<Field
+					labelProps={{
+						htmlFor: fields.recoveryCode.id,
+						children: t("verify.recoveryCode"),
+					}}
+					inputProps={{
+						...getInputProps(fields.recoveryCode, { type: "text" }),
+						autoComplete: "off",
+						placeholder: "xxxxx-xxxxx",
+					}}
+					errors={fields.recoveryCode.errors}
+				/>
+				<ErrorList errors={form.errors} id={form.errorId} />
+				<Button
+					type="submit"
+					variant="soft"
+					loading={fetcher.state !== "idle"}
+					className="w-full"
+				>
+					{t("verify.useRecoveryCode")}
+				</Button>
+			</fetcher.Form>
+		</details>
+	);
+}
+
 export function ErrorBoundary() {
 	return <GeneralErrorBoundary />;
 }
@@ -0,0 +1,225 @@
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { DownloadIcon } from "@radix-ui/react-icons";
+import {
+	Button,
+	Flex,
+	Heading,
+	Link as RadixLink,
+	Table,
+	Text,
+} from "@radix-ui/themes";
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { Form, Link, useLoaderData, useSearchParams } from "@remix-run/react";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { Field } from "#app/components/forms.tsx";
+import {
+	auditEventSelect,
+	getAuditEventsWhere,
+} from "#app/utils/audit.server.ts";
+import {
+	auditEventLabels,
+	auditEventTypes,
+	formatAuditMetadata,
+	getAuditEventLabel,
+} from "#app/utils/audit.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { cn, useDelayedIsPending } from "#app/utils/misc.tsx";
+import { requireUserWithRole } from "#app/utils/permissions.server.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+const pageSize = 50;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireUserWithRole(request, "admin");
+	const searchParams = new URL(request.url).searchParams;
+	const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+
+	// we fetch one extra event so we know whether there's another page
+	const events = await prisma.auditEvent.findMany({
+		select: auditEventSelect,
+		where: getAuditEventsWhere(searchParams),
+		orderBy: { createdAt: "desc" },
+		take: pageSize + 1,
+		skip: (page - 1) * pageSize,
+	});
+
+	return json({
+		events: events.slice(0, pageSize).map(({ createdAt, ...event }) => ({
+			...event,
+			label: getAuditEventLabel(event.type),
+			details: formatAuditMetadata(event.metadata),
+			createdAtDisplay: createdAt.toLocaleString(),
+		})),
+		page,
+		hasNextPage: events.length > pageSize,
+	});
+}
+
+export default function AdminAuditRoute() {
+	const data = useLoaderData<typeof loader>();
+	const [searchParams] = useSearchParams();
+	const isPending = useDelayedIsPending({
+		formMethod: "GET",
+		formAction: "/admin/audit",
+	});
+
+	function getPageLink(page: number) {
+		const params = new URLSearchParams(searchParams);
+		params.set("page", String(page));
+		return `/admin/audit?${params}`;
+	}
+
+	const csvParams = new URLSearchParams(searchParams);
+	csvParams.delete("page");
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<Flex justify="between" align="center">
+				<Heading as="h1" size="8">
+					Audit log
+				</Heading>
+				<Button asChild variant="soft">
+					<Link reloadDocument to={`/admin/audit.csv?${csvParams}`}>
+						<DownloadIcon /> Export CSV
+					</Link>
+				</Button>
+			</Flex>
+			<Form method="GET" className="flex flex-wrap items-end gap-4">
+				<label className="flex flex-col gap-1 pb-8 text-body-xs">
+					Event
+					<select name="type" defaultValue={searchParams.get("type") ?? ""}>
+						<option value="">All events</option>
+						{auditEventTypes.map((type) => (
+							<option key={type} value={type}>
+								{auditEventLabels[type]}
+							</option>
+						))}
+					</select>
+				</label>
+				<Field
+					labelProps={{ children: "User" }}
+					inputProps={{
+						name: "user",
+						type: "search",
+						placeholder: "Username or email",
+						defaultValue: searchParams.get("user") ?? "",
+					}}
+				/>
+				<Field
+					labelProps={{ children: "From" }}
+					inputProps={{
+						name: "from",
+						type: "date",
+						defaultValue: searchParams.get("from") ?? "",
+					}}
+				/>
+				<Field
+					labelProps={{ children: "To" }}
+					inputProps={{
+						name: "to",
+						type: "date",
+						defaultValue: searchParams.get("to") ?? "",
+					}}
+				/>
+				<div className="pb-8">
+					<Button type="submit" variant="soft">
+						Filter
+					</Button>
+				</div>
+			</Form>
+			{data.events.length ? (
+				<Table.Root
+					variant="surface"
+					className={cn("delay-200", { "opacity-50": isPending })}
+				>
+					<Table.Header>
+						<Table.Row>
+							<Table.ColumnHeaderCell>When</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Event</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>User</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Actor</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>IP</Table.ColumnHeaderCell>
+						</Table.Row>
+					</Table.Header>
+					<Table.Body>
+						{data.events.map((event) => (
+							<Table.Row key={event.id}>
+								<Table.Cell>{event.createdAtDisplay}</Table.Cell>
+								<Table.RowHeaderCell>
+									{event.label}
+									{event.details ? (
+										<Text as="div" size="1" color="gray">
+											{event.details}
+										</Text>
+									) : null}
+								</Table.RowHeaderCell>
+								<Table.Cell>
+									<UserLink user={event.user} />
+								</Table.Cell>
+								<Table.Cell>
+									<UserLink user={event.actor} />
+								</Table.Cell>
+								<Table.Cell>
+									{event.ip ?? "Unknown"}
+									{event.userAgent ? (
+										<Text
+											as="div"
+											size="1"
+											color="gray"
+											className="max-w-60 truncate"
+											title={event.userAgent}
+										>
+											{event.userAgent}
+										</Text>
+									) : null}
+								</Table.Cell>
+							</Table.Row>
+						))}
+					</Table.Body>
+				</Table.Root>
+			) : (
+				<p className="text-center">No events found</p>
+			)}
+			{data.page > 1 || data.hasNextPage ? (
+				<div className="flex justify-between">
+					{data.page > 1 ? (
+						<Button asChild variant="soft">
+							<Link to={getPageLink(data.page - 1)}>Newer</Link>
+						</Button>
+					) : (
+						<span />
+					)}
+					{data.hasNextPage ? (
+						<Button asChild variant="soft">
+							<Link to={getPageLink(data.page + 1)}>Older</Link>
+						</Button>
+					) : null}
+				</div>
+			) : null}
+		</div>
+	);
+}
+
+function UserLink({ user }: { user: { id: string; username: string } | null }) {
+	if (!user) return <Text color="gray">—</Text>;
+	return (
+		<RadixLink asChild>
+			<Link to={`/admin/users/${user.id}`}>{user.username}</Link>
+		</RadixLink>
+	);
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+			}}
+		/>
+	);
+}
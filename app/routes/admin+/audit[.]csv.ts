@@ -0,0 +1,56 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import {
+	auditEventSelect,
+	getAuditEventsWhere,
+} from "#app/utils/audit.server.ts";
+import { toCsv } from "#app/utils/csv.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { requireUserWithRole } from "#app/utils/permissions.server.ts";
+
+// enough for any sensible filter without holding the whole table in memory
+const maxRows = 10_000;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireUserWithRole(request, "admin");
+	const searchParams = new URL(request.url).searchParams;
+	const events = await prisma.auditEvent.findMany({
+		select: auditEventSelect,
+		where: getAuditEventsWhere(searchParams),
+		orderBy: { createdAt: "desc" },
+		take: maxRows,
+	});
+
+	const csv = toCsv([
+		[
+			"createdAt",
+			"type",
+			"userId",
+			"username",
+			"actorId",
+			"actorUsername",
+			"ip",
+			"userAgent",
+			"metadata",
+		],
+		...events.map((event) => [
+			event.createdAt,
+			event.type,
+			event.user?.id,
+			event.user?.username,
+			event.actor?.id,
+			event.actor?.username,
+			event.ip,
+			event.userAgent,
+			event.metadata,
+		]),
+	]);
+
+	return new Response(csv, {
+		headers: {
+			"Content-Type": "text/csv; charset=utf-8",
+			"Content-Disposition": `attachment; filename="audit-${new Date()
+				.toISOString()
+				.slice(0, 10)}.csv"`,
+		},
+	});
+}
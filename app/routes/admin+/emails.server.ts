@@ -0,0 +1,13 @@
+import { invariantResponse } from "@epic-web/invariant";
+import { requireUserWithRole } from "#app/utils/permissions.server.ts";
+
+/**
+ * The outbox is for working on the app locally, real emails could end up in
+ * there in production so we don't show it there even to admins.
+ */
+export async function requireOutboxAccess(request: Request) {
+	invariantResponse(process.env.NODE_ENV !== "production", "Not found", {
+		status: 404,
+	});
+	return requireUserWithRole(request, "admin");
+}
@@ -0,0 +1,110 @@
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { TrashIcon } from "@radix-ui/react-icons";
+import { Button, Flex, Heading, Table, Text } from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { Link, useFetcher, useLoaderData } from "@remix-run/react";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import {
+	clearOutbox,
+	listOutboxEmails,
+} from "#app/utils/email-transports/outbox.server.ts";
+import { useDoubleCheck } from "#app/utils/misc.tsx";
+import { redirectWithToast } from "#app/utils/toast.server.ts";
+import { requireOutboxAccess } from "./emails.server.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireOutboxAccess(request);
+	const emails = await listOutboxEmails();
+	return json({
+		emails: emails.map(({ id, to, subject, createdAt }) => ({
+			id,
+			to,
+			subject,
+			createdAtDisplay: new Date(createdAt).toLocaleString(),
+		})),
+	});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	await requireOutboxAccess(request);
+	await clearOutbox();
+	return redirectWithToast("/admin/emails", {
+		title: "Outbox cleared",
+		description: "All saved emails have been deleted.",
+	});
+}
+
+export default function AdminEmailsRoute() {
+	const data = useLoaderData<typeof loader>();
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<Flex justify="between" align="center">
+				<Heading as="h1" size="8">
+					Emails
+				</Heading>
+				{data.emails.length ? <ClearOutbox /> : null}
+			</Flex>
+			<Text as="p" color="gray">
+				Emails saved by the outbox transport. Set EMAIL_TRANSPORT="outbox" to
+				send every email here.
+			</Text>
+			{data.emails.length ? (
+				<Table.Root variant="surface">
+					<Table.Header>
+						<Table.Row>
+							<Table.ColumnHeaderCell>When</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>To</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Subject</Table.ColumnHeaderCell>
+						</Table.Row>
+					</Table.Header>
+					<Table.Body>
+						{data.emails.map((email) => (
+							<Table.Row key={email.id}>
+								<Table.Cell>{email.createdAtDisplay}</Table.Cell>
+								<Table.Cell>{email.to}</Table.Cell>
+								<Table.RowHeaderCell>
+									<Link to={email.id} className="underline">
+										{email.subject}
+									</Link>
+								</Table.RowHeaderCell>
+							</Table.Row>
+						))}
+					</Table.Body>
+				</Table.Root>
+			) : (
+				<p className="text-center">The outbox is empty</p>
+			)}
+		</div>
+	);
+}
+
+function ClearOutbox() {
+	const fetcher = useFetcher<typeof action>();
+	const dc = useDoubleCheck();
+	return (
+		<fetcher.Form method="POST">
+			<Button
+				variant="soft"
+				loading={fetcher.state !== "idle"}
+				{...dc.getButtonProps({ type: "submit" })}
+				color={dc.doubleCheck ? "red" : undefined}
+			>
+				<TrashIcon />
+				{dc.doubleCheck ? "Are you sure?" : "Clear outbox"}
+			</Button>
+		</fetcher.Form>
+	);
+}
+
+export function ErrorBoundary() {
+	return <GeneralErrorBoundary />;
+}
@@ -0,0 +1,83 @@
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { ArrowLeftIcon } from "@radix-ui/react-icons";
+import { Button, Card, DataList, Heading, Tabs } from "@radix-ui/themes";
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { getOutboxEmail } from "#app/utils/email-transports/outbox.server.ts";
+import { requireOutboxAccess } from "./emails.server.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+	await requireOutboxAccess(request);
+	invariantResponse(params.emailId, "Email ID is required");
+	const email = await getOutboxEmail(params.emailId);
+	invariantResponse(email, "Email not found", { status: 404 });
+	return json({
+		email: {
+			...email,
+			createdAtDisplay: new Date(email.createdAt).toLocaleString(),
+		},
+	});
+}
+
+export default function AdminEmailRoute() {
+	const { email } = useLoaderData<typeof loader>();
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<div>
+				<Button asChild variant="ghost">
+					<Link to="/admin/emails">
+						<ArrowLeftIcon /> All emails
+					</Link>
+				</Button>
+			</div>
+			<Heading as="h1" size="8">
+				{email.subject}
+			</Heading>
+			<DataList.Root>
+				<DataList.Item>
+					<DataList.Label>From</DataList.Label>
+					<DataList.Value>{email.from}</DataList.Value>
+				</DataList.Item>
+				<DataList.Item>
+					<DataList.Label>To</DataList.Label>
+					<DataList.Value>{email.to}</DataList.Value>
+				</DataList.Item>
+				<DataList.Item>
+					<DataList.Label>Sent</DataList.Label>
+					<DataList.Value>{email.createdAtDisplay}</DataList.Value>
+				</DataList.Item>
+			</DataList.Root>
+			<Tabs.Root defaultValue="html">
+				<Tabs.List>
+					<Tabs.Trigger value="html">HTML</Tabs.Trigger>
+					<Tabs.Trigger value="text">Text</Tabs.Trigger>
+				</Tabs.List>
+				<Card mt="3">
+					<Tabs.Content value="html">
+						{/* sandboxed so nothing in the email can run on our origin */}
+						<iframe
+							title="Email preview"
+							sandbox=""
+							srcDoc={email.html}
+							className="h-[600px] w-full bg-white"
+						/>
+					</Tabs.Content>
+					<Tabs.Content value="text">
+						<pre className="whitespace-pre-wrap">{email.text}</pre>
+					</Tabs.Content>
+				</Card>
+			</Tabs.Root>
+		</div>
+	);
+}
+
+export function ErrorBoundary() {
+	return <GeneralErrorBoundary />;
+}
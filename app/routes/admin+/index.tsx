@@ -0,0 +1,120 @@
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import {
+	ActivityLogIcon,
+	ArchiveIcon,
+	EnvelopeClosedIcon,
+	IdCardIcon,
+	LapTimerIcon,
+	PersonIcon,
+	TrashIcon,
+} from "@radix-ui/react-icons";
+import { Card, Flex, Heading, Text } from "@radix-ui/themes";
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { prisma } from "#app/utils/db.server.ts";
+import { requireUserWithRole } from "#app/utils/permissions.server.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireUserWithRole(request, "admin");
+	const userCount = await prisma.user.count();
+	return json({
+		userCount,
+		// the outbox viewer is only for working locally
+		showEmails: process.env.NODE_ENV !== "production",
+	});
+}
+
+export default function AdminRoute() {
+	const data = useLoaderData<typeof loader>();
+
+	const sections = [
+		{
+			to: "users",
+			icon: <PersonIcon />,
+			title: "Users",
+			description: `Manage the ${data.userCount} registered users`,
+		},
+		{
+			to: "roles",
+			icon: <IdCardIcon />,
+			title: "Roles",
+			description: "Create roles and choose their permissions",
+		},
+		{
+			to: "audit",
+			icon: <ActivityLogIcon />,
+			title: "Audit log",
+			description: "Review security events and export them",
+		},
+		{
+			to: "jobs",
+			icon: <LapTimerIcon />,
+			title: "Jobs",
+			description: "Inspect, retry and cancel background jobs",
+		},
+		{
+			to: "maintenance",
+			icon: <TrashIcon />,
+			title: "Maintenance",
+			description: "Clean up expired sessions, verifications and more",
+		},
+		{
+			to: "cache",
+			icon: <ArchiveIcon />,
+			title: "Cache",
+			description: "Inspect and clear cached values",
+		},
+		...(data.showEmails
+			? [
+					{
+						to: "emails",
+						icon: <EnvelopeClosedIcon />,
+						title: "Emails",
+						description: "Read emails saved to the local outbox",
+					},
+				]
+			: []),
+	];
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<Heading as="h1" size="8">
+				Admin
+			</Heading>
+			<div className="grid gap-4 md:grid-cols-2">
+				{sections.map((section) => (
+					<Card key={section.to} asChild>
+						<Link to={section.to} prefetch="intent">
+							<Flex align="center" gap="2">
+								{section.icon}
+								<Heading as="h2" size="4">
+									{section.title}
+								</Heading>
+							</Flex>
+							<Text as="p" size="2" color="gray" mt="1">
+								{section.description}
+							</Text>
+						</Link>
+					</Card>
+				))}
+			</div>
+		</div>
+	);
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+			}}
+		/>
+	);
+}
@@ -0,0 +1,268 @@
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { Badge, Button, Flex, Heading, Table, Text } from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import {
+	Form,
+	Link,
+	useFetcher,
+	useLoaderData,
+	useSearchParams,
+} from "@remix-run/react";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { prisma } from "#app/utils/db.server.ts";
+import {
+	cancelJob,
+	jobStatuses,
+	retryJob,
+	type JobStatus,
+} from "#app/utils/jobs/queue.server.ts";
+import { cn, useDelayedIsPending } from "#app/utils/misc.tsx";
+import { requireUserWithRole } from "#app/utils/permissions.server.ts";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+const pageSize = 50;
+
+const statusColors = {
+	pending: "blue",
+	running: "amber",
+	completed: "green",
+	failed: "red",
+	cancelled: "gray",
+} as const satisfies Record<JobStatus, string>;
+
+function isJobStatus(status: string | null): status is JobStatus {
+	return jobStatuses.includes(status as JobStatus);
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireUserWithRole(request, "admin");
+	const searchParams = new URL(request.url).searchParams;
+	const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+	const status = searchParams.get("status");
+
+	// we fetch one extra job so we know whether there's another page
+	const [jobs, counts] = await Promise.all([
+		prisma.job.findMany({
+			select: {
+				id: true,
+				type: true,
+				status: true,
+				attempts: true,
+				maxAttempts: true,
+				runAt: true,
+				lastError: true,
+				createdAt: true,
+			},
+			where: isJobStatus(status) ? { status } : undefined,
+			orderBy: { createdAt: "desc" },
+			take: pageSize + 1,
+			skip: (page - 1) * pageSize,
+		}),
+		prisma.job.groupBy({ by: ["status"], _count: { _all: true } }),
+	]);
+
+	return json({
+		jobs: jobs.slice(0, pageSize).map(({ runAt, createdAt, ...job }) => ({
+			...job,
+			runAtDisplay: runAt.toLocaleString(),
+			createdAtDisplay: createdAt.toLocaleString(),
+		})),
+		counts: Object.fromEntries(
+			counts.map((count) => [count.status, count._count._all]),
+		) as Partial<Record<string, number>>,
+		page,
+		hasNextPage: jobs.length > pageSize,
+	});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	await requireUserWithRole(request, "admin");
+	const formData = await request.formData();
+	const intent = formData.get("intent");
+	const jobId = formData.get("jobId");
+	invariantResponse(typeof jobId === "string", "Invalid jobId");
+
+	switch (intent) {
+		case "retry": {
+			const retried = await retryJob(jobId);
+			return json({ status: retried ? "success" : "error" } as const, {
+				headers: await createToastHeaders(
+					retried
+						? { title: "Job queued", description: "It will run again shortly." }
+						: {
+								type: "error",
+								title: "Could not retry",
+								description: "Only failed or cancelled jobs can be retried.",
+							},
+				),
+			});
+		}
+		case "cancel": {
+			const cancelled = await cancelJob(jobId);
+			return json({ status: cancelled ? "success" : "error" } as const, {
+				headers: await createToastHeaders(
+					cancelled
+						? { title: "Job cancelled", description: "It won't run." }
+						: {
+								type: "error",
+								title: "Could not cancel",
+								description: "The job has already started.",
+							},
+				),
+			});
+		}
+		default: {
+			throw new Response(`Invalid intent "${intent}"`, { status: 400 });
+		}
+	}
+}
+
+export default function AdminJobsRoute() {
+	const data = useLoaderData<typeof loader>();
+	const [searchParams] = useSearchParams();
+	const isPending = useDelayedIsPending({
+		formMethod: "GET",
+		formAction: "/admin/jobs",
+	});
+
+	function getPageLink(page: number) {
+		const params = new URLSearchParams(searchParams);
+		params.set("page", String(page));
+		return `/admin/jobs?${params}`;
+	}
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<Heading as="h1" size="8">
+				Jobs
+			</Heading>
+			<Form method="GET" className="flex flex-wrap items-end gap-4">
+				<label className="flex flex-col gap-1 text-body-xs">
+					Status
+					<select name="status" defaultValue={searchParams.get("status") ?? ""}>
+						<option value="">All jobs</option>
+						{jobStatuses.map((status) => (
+							<option key={status} value={status}>
+								{status} ({data.counts[status] ?? 0})
+							</option>
+						))}
+					</select>
+				</label>
+				<Button type="submit" variant="soft">
+					Filter
+				</Button>
+			</Form>
+			{data.jobs.length ? (
+				<Table.Root
+					variant="surface"
+					className={cn("delay-200", { "opacity-50": isPending })}
+				>
+					<Table.Header>
+						<Table.Row>
+							<Table.ColumnHeaderCell>Job</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Status</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Attempts</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Runs at</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell />
+						</Table.Row>
+					</Table.Header>
+					<Table.Body>
+						{data.jobs.map((job) => (
+							<Table.Row key={job.id}>
+								<Table.RowHeaderCell>
+									{job.type}
+									<Text as="div" size="1" color="gray">
+										Queued {job.createdAtDisplay}
+									</Text>
+									{job.lastError ? (
+										<Text
+											as="div"
+											size="1"
+											color="red"
+											className="max-w-80 truncate"
+											title={job.lastError}
+										>
+											{job.lastError}
+										</Text>
+									) : null}
+								</Table.RowHeaderCell>
+								<Table.Cell>
+									<Badge color={statusColors[job.status as JobStatus]}>
+										{job.status}
+									</Badge>
+								</Table.Cell>
+								<Table.Cell>
+									{job.attempts}/{job.maxAttempts}
+								</Table.Cell>
+								<Table.Cell>{job.runAtDisplay}</Table.Cell>
+								<Table.Cell>
+									<JobActions jobId={job.id} status={job.status} />
+								</Table.Cell>
+							</Table.Row>
+						))}
+					</Table.Body>
+				</Table.Root>
+			) : (
+				<p className="text-center">No jobs found</p>
+			)}
+			{data.page > 1 || data.hasNextPage ? (
+				<div className="flex justify-between">
+					{data.page > 1 ? (
+						<Button asChild variant="soft">
+							<Link to={getPageLink(data.page - 1)}>Newer</Link>
+						</Button>
+					) : (
+						<span />
+					)}
+					{data.hasNextPage ? (
+						<Button asChild variant="soft">
+							<Link to={getPageLink(data.page + 1)}>Older</Link>
+						</Button>
+					) : null}
+				</div>
+			) : null}
+		</div>
+	);
+}
+
+function JobActions({ jobId, status }: { jobId: string; status: string }) {
+	const fetcher = useFetcher<typeof action>();
+	const intent =
+		status === "pending"
+			? "cancel"
+			: status === "failed" || status === "cancelled"
+				? "retry"
+				: null;
+	if (!intent) return null;
+	return (
+		<fetcher.Form method="POST">
+			<input type="hidden" name="jobId" value={jobId} />
+			<Flex justify="end">
+				<Button
+					type="submit"
+					name="intent"
+					value={intent}
+					size="1"
+					variant="soft"
+					color={intent === "cancel" ? "red" : undefined}
+					loading={fetcher.state !== "idle"}
+				>
+					{intent === "cancel" ? "Cancel" : "Retry"}
+				</Button>
+			</Flex>
+		</fetcher.Form>
+	);
+}
+
+export function ErrorBoundary() {
+	return <GeneralErrorBoundary />;
+}
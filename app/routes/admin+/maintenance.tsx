@@ -0,0 +1,144 @@
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { Badge, Button, Heading, Table, Text } from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { Form, useLoaderData } from "@remix-run/react";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { ensurePrimary } from "#app/utils/litefs.server.ts";
+import { runMaintenance } from "#app/utils/maintenance.server.ts";
+import { useIsPending } from "#app/utils/misc.tsx";
+import { requireUserWithRole } from "#app/utils/permissions.server.ts";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireUserWithRole(request, "admin");
+	const now = new Date();
+	const [runs, expiredSessions, expiredVerifications] = await Promise.all([
+		prisma.maintenanceRun.findMany({
+			orderBy: { createdAt: "desc" },
+			take: 20,
+		}),
+		prisma.session.count({ where: { expirationDate: { lt: now } } }),
+		prisma.verification.count({ where: { expiresAt: { lt: now } } }),
+	]);
+	return json({
+		runs: runs.map(({ createdAt, ...run }) => ({
+			...run,
+			createdAtDisplay: createdAt.toLocaleString(),
+		})),
+		expiredSessions,
+		expiredVerifications,
+	});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	const adminId = await requireUserWithRole(request, "admin");
+	// replays the request on the primary, which is the only one that can write
+	await ensurePrimary();
+	const run = await runMaintenance({ trigger: "manual" });
+	if (!run) {
+		return json({ status: "error" } as const, {
+			headers: await createToastHeaders({
+				type: "error",
+				title: "Maintenance skipped",
+				description: "It can only run on the primary instance.",
+			}),
+		});
+	}
+	await recordAuditEvent({
+		request,
+		type: "admin-maintenance-run",
+		actorId: adminId,
+		metadata: {
+			sessions: run.sessions,
+			verifications: run.verifications,
+			images: run.images,
+			jobs: run.jobs,
+			dataExports: run.dataExports,
+			webhookDeliveries: run.webhookDeliveries,
+		},
+	});
+	return json({ status: "success" } as const, {
+		headers: await createToastHeaders({
+			type: "success",
+			title: "Maintenance complete",
+			description: `Removed ${run.sessions} sessions, ${run.verifications} verifications, ${run.images} images, ${run.jobs} jobs, ${run.dataExports} data exports and ${run.webhookDeliveries} webhook deliveries.`,
+		}),
+	});
+}
+
+export default function AdminMaintenanceRoute() {
+	const data = useLoaderData<typeof loader>();
+	const isPending = useIsPending();
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<Heading as="h1" size="8">
+				Maintenance
+			</Heading>
+			<Text as="p" color="gray">
+				Expired sessions, verifications and data exports, image files that lost
+				their note or user, jobs that finished over a month ago and webhook
+				deliveries older than two weeks are cleaned up every day at 04:00 UTC.
+				There are {data.expiredSessions} expired sessions and{" "}
+				{data.expiredVerifications} expired verifications waiting right now.
+			</Text>
+			<Form method="POST">
+				<Button type="submit" loading={isPending}>
+					Run now
+				</Button>
+			</Form>
+			{data.runs.length ? (
+				<Table.Root variant="surface">
+					<Table.Header>
+						<Table.Row>
+							<Table.ColumnHeaderCell>Ran at</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Trigger</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Sessions</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Verifications</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Images</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Jobs</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Exports</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Webhooks</Table.ColumnHeaderCell>
+						</Table.Row>
+					</Table.Header>
+					<Table.Body>
+						{data.runs.map((run) => (
+							<Table.Row key={run.id}>
+								<Table.RowHeaderCell>
+									{run.createdAtDisplay}
+								</Table.RowHeaderCell>
+								<Table.Cell>
+									<Badge color={run.trigger === "manual" ? "blue" : "gray"}>
+										{run.trigger}
+									</Badge>
+								</Table.Cell>
+								<Table.Cell>{run.sessions}</Table.Cell>
+								<Table.Cell>{run.verifications}</Table.Cell>
+								<Table.Cell>{run.images}</Table.Cell>
+								<Table.Cell>{run.jobs}</Table.Cell>
+								<Table.Cell>{run.dataExports}</Table.Cell>
+								<Table.Cell>{run.webhookDeliveries}</Table.Cell>
+							</Table.Row>
+						))}
+					</Table.Body>
+				</Table.Root>
+			) : (
+				<p className="text-center">Maintenance hasn't run yet</p>
+			)}
+		</div>
+	);
+}
+
+export function ErrorBoundary() {
+	return <GeneralErrorBoundary />;
+}
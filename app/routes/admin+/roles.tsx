@@ -0,0 +1,187 @@
+import { getFormProps, getInputProps, useForm } from "@conform-to/react";
+import { getZodConstraint, parseWithZod } from "@conform-to/zod";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { Button, Card, Flex, Heading, Text } from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData } from "@remix-run/react";
+import { z } from "zod";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { ErrorList, Field } from "#app/components/forms.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { useIsPending } from "#app/utils/misc.tsx";
+import { requireUserWithRole } from "#app/utils/permissions.server.ts";
+import { redirectWithToast } from "#app/utils/toast.server.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+export const RoleNameSchema = z
+	.string({ required_error: "Name is required" })
+	.trim()
+	.min(2, { message: "Name is too short" })
+	.max(30, { message: "Name is too long" })
+	.regex(/^[a-z0-9-]+$/, {
+		message: "Name can only include lowercase letters, numbers and dashes",
+	});
+export const RoleDescriptionSchema = z
+	.string()
+	.trim()
+	.max(200, { message: "Description is too long" })
+	.default("");
+
+const CreateRoleSchema = z.object({
+	name: RoleNameSchema,
+	description: RoleDescriptionSchema,
+});
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireUserWithRole(request, "admin");
+	const roles = await prisma.role.findMany({
+		select: {
+			id: true,
+			name: true,
+			description: true,
+			_count: { select: { users: true, permissions: true } },
+		},
+		orderBy: { name: "asc" },
+	});
+	return json({ roles });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	const adminId = await requireUserWithRole(request, "admin");
+	const formData = await request.formData();
+	const submission = await parseWithZod(formData, {
+		async: true,
+		schema: CreateRoleSchema.superRefine(async ({ name }, ctx) => {
+			const existingRole = await prisma.role.findUnique({
+				select: { id: true },
+				where: { name },
+			});
+			if (existingRole) {
+				ctx.addIssue({
+					path: ["name"],
+					code: z.ZodIssueCode.custom,
+					message: "A role with this name already exists",
+				});
+			}
+		}),
+	});
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	const role = await prisma.role.create({
+		select: { id: true, name: true },
+		data: submission.value,
+	});
+	await recordAuditEvent({
+		request,
+		type: "admin-role-created",
+		actorId: adminId,
+		metadata: { role: role.name },
+	});
+	return redirectWithToast(`/admin/roles/${role.id}`, {
+		type: "success",
+		title: "Role created",
+		description: `Now choose the permissions for "${role.name}".`,
+	});
+}
+
+export default function AdminRolesRoute() {
+	const data = useLoaderData<typeof loader>();
+	const actionData = useActionData<typeof action>();
+	const isPending = useIsPending();
+	const [form, fields] = useForm({
+		id: "create-role",
+		constraint: getZodConstraint(CreateRoleSchema),
+		lastResult: actionData?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: CreateRoleSchema });
+		},
+		shouldRevalidate: "onBlur",
+	});
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<Heading as="h1" size="8">
+				Roles
+			</Heading>
+			<ul className="grid gap-4 md:grid-cols-2">
+				{data.roles.map((role) => (
+					<li key={role.id}>
+						<Card asChild>
+							<Link to={role.id} prefetch="intent">
+								<Heading as="h2" size="4">
+									{role.name}
+								</Heading>
+								{role.description ? (
+									<Text as="p" size="2" mt="1">
+										{role.description}
+									</Text>
+								) : null}
+								<Text as="p" size="2" color="gray" mt="1">
+									{role._count.users}{" "}
+									{role._count.users === 1 ? "user" : "users"},{" "}
+									{role._count.permissions}{" "}
+									{role._count.permissions === 1 ? "permission" : "permissions"}
+								</Text>
+							</Link>
+						</Card>
+					</li>
+				))}
+			</ul>
+
+			<section className="flex max-w-[500px] flex-col gap-3">
+				<Heading as="h2" size="5">
+					New role
+				</Heading>
+				<Form method="POST" {...getFormProps(form)}>
+					<Field
+						labelProps={{ htmlFor: fields.name.id, children: "Name" }}
+						inputProps={{
+							...getInputProps(fields.name, { type: "text" }),
+							placeholder: "moderator",
+						}}
+						errors={fields.name.errors}
+					/>
+					<Field
+						labelProps={{
+							htmlFor: fields.description.id,
+							children: "Description",
+						}}
+						inputProps={getInputProps(fields.description, { type: "text" })}
+						errors={fields.description.errors}
+					/>
+					<ErrorList errors={form.errors} id={form.errorId} />
+					<Flex mt="4">
+						<Button type="submit" loading={isPending}>
+							Create role
+						</Button>
+					</Flex>
+				</Form>
+			</section>
+		</div>
+	);
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+			}}
+		/>
+	);
+}
@@ -0,0 +1,375 @@
+import { getFormProps, getInputProps, useForm } from "@conform-to/react";
+import { getZodConstraint, parseWithZod } from "@conform-to/zod";
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { ArrowLeftIcon, TrashIcon } from "@radix-ui/react-icons";
+import {
+	Button,
+	Checkbox,
+	Flex,
+	Heading,
+	Link as RadixLink,
+	Table,
+	Text,
+} from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { Link, useFetcher, useLoaderData } from "@remix-run/react";
+import { z } from "zod";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { ErrorList, Field } from "#app/components/forms.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { useDoubleCheck } from "#app/utils/misc.tsx";
+import { requireUserWithRole } from "#app/utils/permissions.server.ts";
+import {
+	createToastHeaders,
+	redirectWithToast,
+} from "#app/utils/toast.server.ts";
+import {
+	AccessLevelSchema,
+	ActionSchema,
+	EntitySchema,
+	parsePermissionString,
+	PermissionStringSchema,
+} from "#app/utils/user.ts";
+import { RoleDescriptionSchema } from "./roles.tsx";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+// these are referenced by name in the code (signup and admin checks)
+const builtInRoles = ["admin", "user"];
+
+const UpdateRoleSchema = z.object({
+	description: RoleDescriptionSchema,
+	permissions: z
+		.array(
+			PermissionStringSchema.refine(
+				(permission) => parsePermissionString(permission).access?.length === 1,
+				{ message: "Permissions must have exactly one access level" },
+			),
+		)
+		.default([]),
+});
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+	await requireUserWithRole(request, "admin");
+	const role = await prisma.role.findUnique({
+		select: {
+			id: true,
+			name: true,
+			description: true,
+			permissions: {
+				select: { id: true, action: true, entity: true, access: true },
+			},
+			users: {
+				select: { id: true, username: true, name: true },
+				orderBy: { username: "asc" },
+			},
+		},
+		where: { id: params.roleId },
+	});
+	invariantResponse(role, "Role not found", { status: 404 });
+
+	const permissionDescriptions = await prisma.permission.findMany({
+		select: { action: true, entity: true, access: true, description: true },
+		where: { description: { not: "" } },
+	});
+
+	return json({
+		role,
+		isBuiltIn: builtInRoles.includes(role.name),
+		permissionDescriptions: Object.fromEntries(
+			permissionDescriptions.map((p) => [
+				`${p.action}:${p.entity}:${p.access}`,
+				p.description,
+			]),
+		),
+	});
+}
+
+type RoleActionArgs = {
+	request: Request;
+	adminId: string;
+	roleId: string;
+	formData: FormData;
+};
+const updateRoleActionIntent = "update-role";
+const deleteRoleActionIntent = "delete-role";
+
+export async function action({ request, params }: ActionFunctionArgs) {
+	const adminId = await requireUserWithRole(request, "admin");
+	const role = await prisma.role.findUnique({
+		select: { id: true, name: true },
+		where: { id: params.roleId },
+	});
+	invariantResponse(role, "Role not found", { status: 404 });
+
+	const formData = await request.formData();
+	const intent = formData.get("intent");
+	const args = { request, adminId, roleId: role.id, formData };
+	switch (intent) {
+		case updateRoleActionIntent: {
+			return updateRoleAction(args);
+		}
+		case deleteRoleActionIntent: {
+			invariantResponse(
+				!builtInRoles.includes(role.name),
+				`The "${role.name}" role cannot be deleted`,
+			);
+			return deleteRoleAction(args);
+		}
+		default: {
+			throw new Response(`Invalid intent "${intent}"`, { status: 400 });
+		}
+	}
+}
+
+async function updateRoleAction({
+	request,
+	adminId,
+	roleId,
+	formData,
+}: RoleActionArgs) {
+	const submission = parseWithZod(formData, { schema: UpdateRoleSchema });
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	const { description, permissions } = submission.value;
+	const role = await prisma.role.update({
+		select: { name: true },
+		where: { id: roleId },
+		data: {
+			description,
+			permissions: {
+				set: [],
+				connectOrCreate: permissions.map((permission) => {
+					const { action, entity, access } = parsePermissionString(permission);
+					const data = { action, entity, access: access?.join(",") ?? "" };
+					return { where: { action_entity_access: data }, create: data };
+				}),
+			},
+		},
+	});
+
+	await recordAuditEvent({
+		request,
+		type: "admin-role-updated",
+		actorId: adminId,
+		metadata: { role: role.name, permissions },
+	});
+
+	return json(
+		{ result: submission.reply() },
+		{
+			headers: await createToastHeaders({
+				type: "success",
+				title: "Role updated",
+				description: "The permissions take effect immediately.",
+			}),
+		},
+	);
+}
+
+async function deleteRoleAction({ request, adminId, roleId }: RoleActionArgs) {
+	const role = await prisma.role.delete({
+		select: { name: true },
+		where: { id: roleId },
+	});
+	await recordAuditEvent({
+		request,
+		type: "admin-role-deleted",
+		actorId: adminId,
+		metadata: { role: role.name },
+	});
+	return redirectWithToast("/admin/roles", {
+		type: "success",
+		title: "Role deleted",
+		description: `The "${role.name}" role has been deleted.`,
+	});
+}
+
+export default function AdminRoleRoute() {
+	const data = useLoaderData<typeof loader>();
+	const { role } = data;
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<div>
+				<Button asChild variant="ghost">
+					<Link to="/admin/roles">
+						<ArrowLeftIcon /> All roles
+					</Link>
+				</Button>
+			</div>
+			<Heading as="h1" size="8">
+				{role.name}
+			</Heading>
+
+			<RoleEditor />
+
+			<section className="flex flex-col gap-3">
+				<Heading as="h2" size="5">
+					Users with this role
+				</Heading>
+				{role.users.length ? (
+					<ul className="flex flex-wrap gap-x-4 gap-y-1">
+						{role.users.map((user) => (
+							<li key={user.id}>
+								<RadixLink asChild>
+									<Link to={`/admin/users/${user.id}`}>
+										{user.name ?? user.username}
+									</Link>
+								</RadixLink>
+							</li>
+						))}
+					</ul>
+				) : (
+					<Text as="p">Nobody has this role yet</Text>
+				)}
+			</section>
+
+			{data.isBuiltIn ? null : <DeleteRole />}
+		</div>
+	);
+}
+
+function RoleEditor() {
+	const data = useLoaderData<typeof loader>();
+	const fetcher = useFetcher<typeof updateRoleAction>();
+	const [form, fields] = useForm({
+		id: "update-role",
+		constraint: getZodConstraint(UpdateRoleSchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: UpdateRoleSchema });
+		},
+		defaultValue: { description: data.role.description },
+	});
+	const rolePermissions = new Set(
+		data.role.permissions.map((p) => `${p.action}:${p.entity}:${p.access}`),
+	);
+
+	return (
+		<fetcher.Form
+			method="POST"
+			className="flex flex-col gap-4"
+			{...getFormProps(form)}
+		>
+			<Field
+				className="max-w-[500px]"
+				labelProps={{
+					htmlFor: fields.description.id,
+					children: "Description",
+				}}
+				inputProps={getInputProps(fields.description, { type: "text" })}
+				errors={fields.description.errors}
+			/>
+			{EntitySchema.options.map((entity) => (
+				<section key={entity} className="flex flex-col gap-2">
+					<Heading as="h2" size="4" className="capitalize">
+						{entity} permissions
+					</Heading>
+					<Table.Root variant="surface" className="max-w-[500px]">
+						<Table.Header>
+							<Table.Row>
+								<Table.ColumnHeaderCell />
+								{AccessLevelSchema.options.map((access) => (
+									<Table.ColumnHeaderCell key={access}>
+										{access}
+									</Table.ColumnHeaderCell>
+								))}
+							</Table.Row>
+						</Table.Header>
+						<Table.Body>
+							{ActionSchema.options.map((action) => (
+								<Table.Row key={action} align="center">
+									<Table.RowHeaderCell>{action}</Table.RowHeaderCell>
+									{AccessLevelSchema.options.map((access) => {
+										const permission = `${action}:${entity}:${access}`;
+										return (
+											<Table.Cell key={access}>
+												<Checkbox
+													name={fields.permissions.name}
+													value={permission}
+													defaultChecked={rolePermissions.has(permission)}
+													aria-label={permission}
+													title={
+														data.permissionDescriptions[permission] ??
+														permission
+													}
+												/>
+											</Table.Cell>
+										);
+									})}
+								</Table.Row>
+							))}
+						</Table.Body>
+					</Table.Root>
+				</section>
+			))}
+			<ErrorList errors={fields.permissions.errors} />
+			<ErrorList errors={form.errors} id={form.errorId} />
+			<div>
+				<Button
+					type="submit"
+					name="intent"
+					value={updateRoleActionIntent}
+					loading={fetcher.state !== "idle"}
+				>
+					Save changes
+				</Button>
+			</div>
+		</fetcher.Form>
+	);
+}
+
+function DeleteRole() {
+	const dc = useDoubleCheck();
+	const fetcher = useFetcher<typeof deleteRoleAction>();
+
+	return (
+		<fetcher.Form method="POST">
+			<Flex>
+				<Button
+					{...dc.getButtonProps({
+						type: "submit",
+						name: "intent",
+						value: deleteRoleActionIntent,
+					})}
+					color="red"
+					variant={dc.doubleCheck ? "solid" : "soft"}
+					loading={fetcher.state !== "idle"}
+				>
+					<TrashIcon />
+					{dc.doubleCheck ? "Are you sure?" : "Delete role"}
+				</Button>
+			</Flex>
+		</fetcher.Form>
+	);
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				400: ({ error }) => <p>{error?.data}</p>,
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+				404: ({ params }) => (
+					<p>No role with the id "{params.roleId}" exists</p>
+				),
+			}}
+		/>
+	);
+}
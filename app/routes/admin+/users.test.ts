@@ -0,0 +1,85 @@
+import { expect, test } from "vitest";
+import { getSessionExpirationDate } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { createUser } from "#tests/db-utils.ts";
+import { BASE_URL, getSessionCookieHeader } from "#tests/utils.ts";
+import { loader } from "./users.tsx";
+
+async function getCookieForUser(roles: Array<string>) {
+	const session = await prisma.session.create({
+		select: { id: true },
+		data: {
+			expirationDate: getSessionExpirationDate(),
+			user: {
+				create: {
+					...createUser(),
+					roles: { connect: roles.map((name) => ({ name })) },
+				},
+			},
+		},
+	});
+	return getSessionCookieHeader(session);
+}
+
+async function getUsers(search: string, cookie: string) {
+	const request = new Request(`${BASE_URL}/admin/users${search}`, {
+		headers: { cookie },
+	});
+	return loader({ request, params: {}, context: {} }).catch(
+		(error: unknown) => error,
+	);
+}
+
+type UsersPage = {
+	users: Array<{ name: string | null }>;
+	total: number;
+	page: number;
+	hasNextPage: boolean;
+};
+
+async function getUsersPage(search: string, cookie: string) {
+	const response = (await getUsers(search, cookie)) as Response;
+	return (await response.json()) as UsersPage;
+}
+
+test("only admins can list users", async () => {
+	const response = await getUsers("", await getCookieForUser(["user"]));
+	expect(response).toBeInstanceOf(Response);
+	expect((response as Response).status).toBe(403);
+});
+
+test("users can be searched a page at a time", async () => {
+	const cookie = await getCookieForUser(["user", "admin"]);
+	for (let index = 0; index < 30; index++) {
+		await prisma.user.create({
+			select: { id: true },
+			data: { ...createUser(), name: `Findable ${index}` },
+		});
+	}
+	await prisma.user.create({ select: { id: true }, data: createUser() });
+
+	const firstPage = await getUsersPage("?search=Findable", cookie);
+	expect(firstPage).toMatchObject({ total: 30, page: 1, hasNextPage: true });
+	expect(firstPage.users).toHaveLength(25);
+
+	const secondPage = await getUsersPage("?search=Findable&page=2", cookie);
+	expect(secondPage).toMatchObject({ total: 30, page: 2, hasNextPage: false });
+	expect(secondPage.users).toHaveLength(5);
+	const names = [...firstPage.users, ...secondPage.users].map(
+		(user) => user.name ?? "",
+	);
+	expect(new Set(names).size).toBe(30);
+	expect(names.every((name) => name.startsWith("Findable"))).toBe(true);
+
+	// the admin and the user that doesn't match are there without a search
+	const everyone = await getUsersPage("", cookie);
+	expect(everyone.total).toBe(32);
+});
+
+test("an empty search goes back to all users", async () => {
+	const response = await getUsers(
+		"?search=",
+		await getCookieForUser(["user", "admin"]),
+	);
+	expect(response).toHaveRedirect("/admin/users");
+});
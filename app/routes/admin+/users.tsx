@@ -0,0 +1,174 @@
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { Button, Heading, Link as RadixLink, Table } from "@radix-ui/themes";
+import { json, redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { Link, useLoaderData, useSearchParams } from "@remix-run/react";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { SearchBar } from "#app/components/search-bar.tsx";
+import { prisma } from "#app/utils/db.server.ts";
+import {
+	cn,
+	getUserImgSrc,
+	getUserImgSrcSet,
+	useDelayedIsPending,
+} from "#app/utils/misc.tsx";
+import { requireUserWithRole } from "#app/utils/permissions.server.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+const pageSize = 25;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireUserWithRole(request, "admin");
+	const searchParams = new URL(request.url).searchParams;
+	const searchTerm = searchParams.get("search");
+	if (searchTerm === "") {
+		return redirect("/admin/users");
+	}
+	const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+
+	const where = searchTerm
+		? {
+				OR: [
+					{ username: { contains: searchTerm } },
+					{ email: { contains: searchTerm } },
+					{ name: { contains: searchTerm } },
+				],
+			}
+		: {};
+	const [users, total] = await Promise.all([
+		prisma.user.findMany({
+			select: {
+				id: true,
+				username: true,
+				email: true,
+				name: true,
+				createdAt: true,
+				image: { select: { id: true } },
+				roles: { select: { name: true } },
+			},
+			where,
+			orderBy: { createdAt: "desc" },
+			take: pageSize,
+			skip: (page - 1) * pageSize,
+		}),
+		prisma.user.count({ where }),
+	]);
+
+	return json({
+		users: users.map(({ createdAt, ...user }) => ({
+			...user,
+			createdAtDisplay: createdAt.toLocaleDateString(),
+		})),
+		total,
+		page,
+		hasNextPage: page * pageSize < total,
+	});
+}
+
+export default function AdminUsersRoute() {
+	const data = useLoaderData<typeof loader>();
+	const [searchParams] = useSearchParams();
+	const isPending = useDelayedIsPending({
+		formMethod: "GET",
+		formAction: "/admin/users",
+	});
+
+	function getPageLink(page: number) {
+		const params = new URLSearchParams(searchParams);
+		params.set("page", String(page));
+		return `/admin/users?${params}`;
+	}
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<Heading as="h1" size="8">
+				Users
+			</Heading>
+			<div className="flex items-center gap-4">
+				<div className="w-full max-w-[700px]">
+					<SearchBar
+						status="idle"
+						action="/admin/users"
+						placeholder="Search by username, email or name"
+						autoSubmit
+					/>
+				</div>
+				<span className="text-body-sm text-muted-foreground">
+					{data.total} {data.total === 1 ? "user" : "users"}
+				</span>
+			</div>
+			<Table.Root
+				variant="surface"
+				className={cn("delay-200", { "opacity-50": isPending })}
+			>
+				<Table.Header>
+					<Table.Row>
+						<Table.ColumnHeaderCell>User</Table.ColumnHeaderCell>
+						<Table.ColumnHeaderCell>Email</Table.ColumnHeaderCell>
+						<Table.ColumnHeaderCell>Roles</Table.ColumnHeaderCell>
+						<Table.ColumnHeaderCell>Joined</Table.ColumnHeaderCell>
+					</Table.Row>
+				</Table.Header>
+				<Table.Body>
+					{data.users.map((user) => (
+						<Table.Row key={user.id} align="center">
+							<Table.RowHeaderCell>
+								<RadixLink asChild>
+									<Link
+										to={user.id}
+										className="flex items-center gap-2"
+										prefetch="intent"
+									>
+										<img
+											alt={user.name ?? user.username}
+											src={getUserImgSrc(user.image?.id)}
+											srcSet={getUserImgSrcSet(user.image?.id, 32)}
+											className="h-8 w-8 rounded-full object-cover"
+										/>
+										{user.username}
+									</Link>
+								</RadixLink>
+							</Table.RowHeaderCell>
+							<Table.Cell>{user.email}</Table.Cell>
+							<Table.Cell>
+								{user.roles.map((role) => role.name).join(", ")}
+							</Table.Cell>
+							<Table.Cell>{user.createdAtDisplay}</Table.Cell>
+						</Table.Row>
+					))}
+				</Table.Body>
+			</Table.Root>
+			{data.users.length ? null : <p className="text-center">No users found</p>}
+			{data.page > 1 || data.hasNextPage ? (
+				<div className="flex justify-between">
+					{data.page > 1 ? (
+						<Button asChild variant="soft">
+							<Link to={getPageLink(data.page - 1)}>Previous</Link>
+						</Button>
+					) : (
+						<span />
+					)}
+					{data.hasNextPage ? (
+						<Button asChild variant="soft">
+							<Link to={getPageLink(data.page + 1)}>Next</Link>
+						</Button>
+					) : null}
+				</div>
+			) : null}
+		</div>
+	);
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+			}}
+		/>
+	);
+}
@@ -0,0 +1,203 @@
+import { expect, test } from "vitest";
+import { getSessionExpirationDate } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { createPassword, createUser } from "#tests/db-utils.ts";
+import { BASE_URL, getSessionCookieHeader } from "#tests/utils.ts";
+import { action, loader } from "./users_.$userId.tsx";
+
+async function setupAdmin() {
+	const session = await prisma.session.create({
+		select: { id: true, userId: true },
+		data: {
+			expirationDate: getSessionExpirationDate(),
+			user: {
+				create: {
+					...createUser(),
+					roles: { connect: [{ name: "user" }, { name: "admin" }] },
+				},
+			},
+		},
+	});
+	return {
+		adminId: session.userId,
+		cookie: await getSessionCookieHeader(session),
+	};
+}
+
+async function setupUser() {
+	return prisma.user.create({
+		select: { id: true, username: true, email: true },
+		data: {
+			...createUser(),
+			password: { create: createPassword("kodylovesyou") },
+			roles: { connect: { name: "user" } },
+			sessions: {
+				create: [
+					{ expirationDate: getSessionExpirationDate() },
+					{ expirationDate: getSessionExpirationDate() },
+				],
+			},
+		},
+	});
+}
+
+function getRoleId(name: string) {
+	return prisma.role
+		.findUniqueOrThrow({ select: { id: true }, where: { name } })
+		.then((role) => role.id);
+}
+
+async function submit(
+	userId: string,
+	cookie: string,
+	fields: Record<string, string>,
+) {
+	const request = new Request(`${BASE_URL}/admin/users/${userId}`, {
+		method: "POST",
+		headers: { cookie },
+		body: new URLSearchParams(fields),
+	});
+	return action({ request, params: { userId }, context: {} }).catch(
+		(error: unknown) => error,
+	) as Promise<Response>;
+}
+
+test("only admins can see or change users", async () => {
+	const user = await setupUser();
+	const session = await prisma.session.create({
+		select: { id: true },
+		data: { expirationDate: getSessionExpirationDate(), userId: user.id },
+	});
+	const cookie = await getSessionCookieHeader(session);
+	const request = new Request(`${BASE_URL}/admin/users/${user.id}`, {
+		headers: { cookie },
+	});
+	const response = await loader({
+		request,
+		params: { userId: user.id },
+		context: {},
+	}).catch((error: unknown) => error);
+	expect((response as Response).status).toBe(403);
+
+	expect(
+		(await submit(user.id, cookie, { intent: "revoke-sessions" })).status,
+	).toBe(403);
+	expect(await prisma.session.count({ where: { userId: user.id } })).toBe(3);
+});
+
+test("admins can assign and remove roles", async () => {
+	const { cookie } = await setupAdmin();
+	const user = await setupUser();
+	const adminRoleId = await getRoleId("admin");
+	const getRoles = async () =>
+		(
+			await prisma.user.findUniqueOrThrow({
+				select: { roles: { select: { name: true } } },
+				where: { id: user.id },
+			})
+		).roles.map((role) => role.name);
+
+	let response = await submit(user.id, cookie, {
+		intent: "add-role",
+		roleId: adminRoleId,
+	});
+	expect(response.status).toBe(200);
+	expect(await getRoles()).toEqual(expect.arrayContaining(["user", "admin"]));
+
+	response = await submit(user.id, cookie, {
+		intent: "remove-role",
+		roleId: adminRoleId,
+	});
+	expect(response.status).toBe(200);
+	expect(await getRoles()).toEqual(["user"]);
+
+	response = await submit(user.id, cookie, {
+		intent: "add-role",
+		roleId: "not-a-role",
+	});
+	expect(response.status).toBe(404);
+
+	expect(
+		await prisma.auditEvent.findMany({
+			select: { type: true },
+			where: { userId: user.id },
+			orderBy: { createdAt: "asc" },
+		}),
+	).toEqual([{ type: "admin-role-assigned" }, { type: "admin-role-removed" }]);
+});
+
+test("admins can't remove their own admin role", async () => {
+	const { adminId, cookie } = await setupAdmin();
+	const response = await submit(adminId, cookie, {
+		intent: "remove-role",
+		roleId: await getRoleId("admin"),
+	});
+	expect(response.status).toBe(400);
+	expect(
+		await prisma.user.count({
+			where: { id: adminId, roles: { some: { name: "admin" } } },
+		}),
+	).toBe(1);
+});
+
+test("admins can sign users out everywhere", async () => {
+	const { cookie } = await setupAdmin();
+	const user = await setupUser();
+	const response = await submit(user.id, cookie, {
+		intent: "revoke-sessions",
+	});
+	expect(response.status).toBe(200);
+	await expect(response).toSendToast(
+		expect.objectContaining({
+			title: "Sessions revoked",
+			description: expect.stringMatching(/2 sessions/),
+		}),
+	);
+	expect(await prisma.session.count({ where: { userId: user.id } })).toBe(0);
+});
+
+test("forcing a password reset removes the password and signs the user out", async () => {
+	const { cookie } = await setupAdmin();
+	const user = await setupUser();
+	const response = await submit(user.id, cookie, {
+		intent: "force-password-reset",
+	});
+	await expect(response).toSendToast(
+		expect.objectContaining({ title: "Password reset" }),
+	);
+	expect(await prisma.password.count({ where: { userId: user.id } })).toBe(0);
+	expect(await prisma.session.count({ where: { userId: user.id } })).toBe(0);
+	expect(
+		await prisma.verification.count({
+			where: { type: "reset-password", target: user.username },
+		}),
+	).toBe(1);
+});
+
+test("admins can delete other users but not themselves", async () => {
+	const { adminId, cookie } = await setupAdmin();
+	const user = await setupUser();
+
+	const response = await submit(user.id, cookie, { intent: "delete-user" });
+	expect(response).toHaveRedirect("/admin/users");
+	expect(await prisma.user.count({ where: { id: user.id } })).toBe(0);
+	// the audit trail outlives the user
+	expect(
+		await prisma.auditEvent.count({ where: { type: "admin-user-deleted" } }),
+	).toBe(1);
+
+	expect(
+		(await submit(user.id, cookie, { intent: "delete-user" })).status,
+	).toBe(404);
+	expect(
+		(await submit(adminId, cookie, { intent: "delete-user" })).status,
+	).toBe(400);
+	expect(await prisma.user.count({ where: { id: adminId } })).toBe(1);
+});
+
+test("unknown intents are a 400", async () => {
+	const { cookie } = await setupAdmin();
+	const user = await setupUser();
+	const response = await submit(user.id, cookie, { intent: "make-me-rich" });
+	expect(response.status).toBe(400);
+});
@@ -0,0 +1,603 @@
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import {
+	ArrowLeftIcon,
+	AvatarIcon,
+	LockClosedIcon,
+	TrashIcon,
+} from "@radix-ui/react-icons";
+import {
+	Badge,
+	Button,
+	Card,
+	DataList,
+	Flex,
+	Heading,
+	Select,
+	Text,
+} from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+	type SerializeFrom,
+} from "@remix-run/node";
+import { Link, useFetcher, useLoaderData } from "@remix-run/react";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { sendEmail } from "#app/utils/email.server.ts";
+import {
+	getUserImgSrc,
+	getUserImgSrcSet,
+	useDoubleCheck,
+} from "#app/utils/misc.tsx";
+import { requireUserWithRole } from "#app/utils/permissions.server.ts";
+import {
+	createToastHeaders,
+	redirectWithToast,
+} from "#app/utils/toast.server.ts";
+import { describeUserAgent } from "#app/utils/user-agent.ts";
+import { ForgotPasswordEmail } from "../_auth+/forgot-password.tsx";
+import { prepareVerification } from "../_auth+/verify.server.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+	await requireUserWithRole(request, "admin");
+	const user = await prisma.user.findUnique({
+		select: {
+			id: true,
+			username: true,
+			email: true,
+			name: true,
+			createdAt: true,
+			image: { select: { id: true } },
+			password: { select: { userId: true } },
+			roles: { select: { id: true, name: true, description: true } },
+			connections: {
+				select: { id: true, providerName: true, createdAt: true },
+			},
+			sessions: {
+				select: {
+					id: true,
+					userAgent: true,
+					ip: true,
+					lastSeenAt: true,
+					createdAt: true,
+				},
+				where: { expirationDate: { gt: new Date() } },
+				orderBy: { lastSeenAt: "desc" },
+			},
+			_count: { select: { notes: true } },
+		},
+		where: { id: params.userId },
+	});
+	invariantResponse(user, "User not found", { status: 404 });
+
+	const roles = await prisma.role.findMany({
+		select: { id: true, name: true },
+		orderBy: { name: "asc" },
+	});
+
+	const { password, createdAt, connections, sessions, ...rest } = user;
+	return json({
+		user: {
+			...rest,
+			hasPassword: Boolean(password),
+			createdAtDisplay: createdAt.toLocaleDateString(),
+			connections: connections.map((c) => ({
+				id: c.id,
+				providerName: c.providerName,
+				createdAtDisplay: c.createdAt.toLocaleString(),
+			})),
+			sessions: sessions.map((s) => ({
+				id: s.id,
+				device: describeUserAgent(s.userAgent),
+				ip: s.ip,
+				createdAtDisplay: s.createdAt.toLocaleString(),
+				lastSeenAtDisplay: s.lastSeenAt.toLocaleString(),
+			})),
+		},
+		roles,
+	});
+}
+
+type AdminUserActionArgs = {
+	request: Request;
+	adminId: string;
+	userId: string;
+	formData: FormData;
+};
+const addRoleActionIntent = "add-role";
+const removeRoleActionIntent = "remove-role";
+const revokeSessionsActionIntent = "revoke-sessions";
+const forcePasswordResetActionIntent = "force-password-reset";
+const deleteUserActionIntent = "delete-user";
+
+export async function action({ request, params }: ActionFunctionArgs) {
+	const adminId = await requireUserWithRole(request, "admin");
+	const user = await prisma.user.findUnique({
+		select: { id: true },
+		where: { id: params.userId },
+	});
+	invariantResponse(user, "User not found", { status: 404 });
+
+	const formData = await request.formData();
+	const intent = formData.get("intent");
+	const args = { request, adminId, userId: user.id, formData };
+	switch (intent) {
+		case addRoleActionIntent: {
+			return addRoleAction(args);
+		}
+		case removeRoleActionIntent: {
+			return removeRoleAction(args);
+		}
+		case revokeSessionsActionIntent: {
+			return revokeSessionsAction(args);
+		}
+		case forcePasswordResetActionIntent: {
+			return forcePasswordResetAction(args);
+		}
+		case deleteUserActionIntent: {
+			return deleteUserAction(args);
+		}
+		default: {
+			throw new Response(`Invalid intent "${intent}"`, { status: 400 });
+		}
+	}
+}
+
+async function addRoleAction({
+	request,
+	adminId,
+	userId,
+	formData,
+}: AdminUserActionArgs) {
+	const roleId = formData.get("roleId");
+	invariantResponse(typeof roleId === "string", "Invalid roleId");
+	const role = await prisma.role.findUnique({
+		select: { name: true },
+		where: { id: roleId },
+	});
+	invariantResponse(role, "Role not found", { status: 404 });
+	await prisma.user.update({
+		select: { id: true },
+		where: { id: userId },
+		data: { roles: { connect: { id: roleId } } },
+	});
+	await recordAuditEvent({
+		request,
+		type: "admin-role-assigned",
+		userId,
+		actorId: adminId,
+		metadata: { role: role.name },
+	});
+	return json({ status: "success" } as const);
+}
+
+async function removeRoleAction({
+	request,
+	adminId,
+	userId,
+	formData,
+}: AdminUserActionArgs) {
+	const roleId = formData.get("roleId");
+	invariantResponse(typeof roleId === "string", "Invalid roleId");
+	const role = await prisma.role.findUnique({
+		select: { name: true },
+		where: { id: roleId },
+	});
+	invariantResponse(role, "Role not found", { status: 404 });
+	// otherwise there may be nobody left who can give it back
+	invariantResponse(
+		!(userId === adminId && role.name === "admin"),
+		"You cannot remove your own admin role",
+	);
+	await prisma.user.update({
+		select: { id: true },
+		where: { id: userId },
+		data: { roles: { disconnect: { id: roleId } } },
+	});
+	await recordAuditEvent({
+		request,
+		type: "admin-role-removed",
+		userId,
+		actorId: adminId,
+		metadata: { role: role.name },
+	});
+	return json({ status: "success" } as const);
+}
+
+async function revokeSessionsAction({
+	request,
+	adminId,
+	userId,
+}: AdminUserActionArgs) {
+	const { count } = await prisma.session.deleteMany({ where: { userId } });
+	await recordAuditEvent({
+		request,
+		type: "admin-sessions-revoked",
+		userId,
+		actorId: adminId,
+		metadata: { count },
+	});
+	return json({ status: "success" } as const, {
+		headers: await createToastHeaders({
+			type: "success",
+			title: "Sessions revoked",
+			description: `Signed the user out of ${count} ${
+				count === 1 ? "session" : "sessions"
+			}.`,
+		}),
+	});
+}
+
+async function forcePasswordResetAction({
+	request,
+	adminId,
+	userId,
+}: AdminUserActionArgs) {
+	// removing the password and sessions means the only way back in is the
+	// reset link we email them (or one of their connections)
+	const [user] = await prisma.$transaction([
+		prisma.user.findUniqueOrThrow({
+			select: { email: true, username: true },
+			where: { id: userId },
+		}),
+		prisma.password.deleteMany({ where: { userId } }),
+		prisma.session.deleteMany({ where: { userId } }),
+	]);
+	await recordAuditEvent({
+		request,
+		type: "admin-password-reset",
+		userId,
+		actorId: adminId,
+	});
+
+	const { verifyUrl, otp } = await prepareVerification({
+		period: 24 * 60 * 60,
+		request,
+		type: "reset-password",
+		target: user.username,
+	});
+	const response = await sendEmail({
+		to: user.email,
+		subject: "Epic Notes Password Reset",
+		react: (
+			<ForgotPasswordEmail onboardingUrl={verifyUrl.toString()} otp={otp} />
+		),
+	});
+
+	return json(
+		{ status: response.status },
+		{
+			headers: await createToastHeaders(
+				response.status === "success"
+					? {
+							type: "success",
+							title: "Password reset",
+							description: `A password reset email has been sent to ${user.email}.`,
+						}
+					: {
+							type: "error",
+							title: "Password reset",
+							description: `The password was removed but the email could not be sent: ${response.error.message}`,
+						},
+			),
+		},
+	);
+}
+
+async function deleteUserAction({
+	request,
+	adminId,
+	userId,
+}: AdminUserActionArgs) {
+	invariantResponse(
+		userId !== adminId,
+		"Delete your own account from your profile settings",
+	);
+	const { username } = await prisma.user.findUniqueOrThrow({
+		select: { username: true },
+		where: { id: userId },
+	});
+	await recordAuditEvent({
+		request,
+		type: "admin-user-deleted",
+		userId,
+		actorId: adminId,
+		metadata: { username },
+	});
+	const user = await prisma.user.delete({
+		select: { username: true },
+		where: { id: userId },
+	});
+	return redirectWithToast("/admin/users", {
+		type: "success",
+		title: "User deleted",
+		description: `${user.username} and all of their data has been deleted.`,
+	});
+}
+
+export default function AdminUserRoute() {
+	const data = useLoaderData<typeof loader>();
+	const { user } = data;
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<div>
+				<Button asChild variant="ghost">
+					<Link to="/admin/users">
+						<ArrowLeftIcon /> All users
+					</Link>
+				</Button>
+			</div>
+			<Flex align="center" gap="4">
+				<img
+					src={getUserImgSrc(user.image?.id)}
+					srcSet={getUserImgSrcSet(user.image?.id, 96)}
+					alt={user.name ?? user.username}
+					className="h-24 w-24 rounded-full object-cover"
+				/>
+				<div>
+					<Heading as="h1" size="8">
+						{user.name ?? user.username}
+					</Heading>
+					<Text color="gray">
+						<Link to={`/users/${user.username}`}>@{user.username}</Link>
+					</Text>
+				</div>
+			</Flex>
+
+			<Card>
+				<DataList.Root>
+					<DataList.Item>
+						<DataList.Label>Email</DataList.Label>
+						<DataList.Value>{user.email}</DataList.Value>
+					</DataList.Item>
+					<DataList.Item>
+						<DataList.Label>Joined</DataList.Label>
+						<DataList.Value>{user.createdAtDisplay}</DataList.Value>
+					</DataList.Item>
+					<DataList.Item>
+						<DataList.Label>Notes</DataList.Label>
+						<DataList.Value>{user._count.notes}</DataList.Value>
+					</DataList.Item>
+					<DataList.Item>
+						<DataList.Label>Password</DataList.Label>
+						<DataList.Value>
+							{user.hasPassword ? "Set" : "Not set"}
+						</DataList.Value>
+					</DataList.Item>
+				</DataList.Root>
+			</Card>
+
+			<section className="flex flex-col gap-3">
+				<Heading as="h2" size="5">
+					Roles
+				</Heading>
+				<Flex wrap="wrap" gap="2">
+					{user.roles.map((role) => (
+						<RemoveRole key={role.id} role={role} />
+					))}
+				</Flex>
+				<AddRole />
+			</section>
+
+			<section className="flex flex-col gap-3">
+				<Heading as="h2" size="5">
+					Connections
+				</Heading>
+				{user.connections.length ? (
+					<ul className="flex flex-col gap-1">
+						{user.connections.map((connection) => (
+							<li key={connection.id}>
+								<Text weight="bold">{connection.providerName}</Text>{" "}
+								<Text color="gray" size="2">
+									connected {connection.createdAtDisplay}
+								</Text>
+							</li>
+						))}
+					</ul>
+				) : (
+					<Text as="p">No connections</Text>
+				)}
+			</section>
+
+			<section className="flex flex-col gap-3">
+				<Heading as="h2" size="5">
+					Active sessions
+				</Heading>
+				{user.sessions.length ? (
+					<ul className="flex flex-col gap-1">
+						{user.sessions.map((session) => (
+							<li key={session.id}>
+								<Text weight="bold">{session.device}</Text>{" "}
+								<Text color="gray" size="2">
+									{session.ip ?? "Unknown IP"}, last active{" "}
+									{session.lastSeenAtDisplay}, signed in{" "}
+									{session.createdAtDisplay}
+								</Text>
+							</li>
+						))}
+					</ul>
+				) : (
+					<Text as="p">No active sessions</Text>
+				)}
+			</section>
+
+			<section className="flex flex-col gap-3">
+				<Heading as="h2" size="5">
+					Danger zone
+				</Heading>
+				<Flex wrap="wrap" gap="4">
+					<RevokeSessions sessionCount={user.sessions.length} />
+					<ForcePasswordReset />
+					<DeleteUser />
+				</Flex>
+			</section>
+		</div>
+	);
+}
+
+type RoleData = SerializeFrom<typeof loader>["user"]["roles"][number];
+
+function RemoveRole({ role }: { role: RoleData }) {
+	const dc = useDoubleCheck();
+	const fetcher = useFetcher<typeof removeRoleAction>();
+
+	return (
+		<fetcher.Form method="POST">
+			<input type="hidden" name="roleId" value={role.id} />
+			<Flex align="center" gap="1">
+				<Badge size="2" title={role.description}>
+					{role.name}
+				</Badge>
+				<Button
+					{...dc.getButtonProps({
+						type: "submit",
+						name: "intent",
+						value: removeRoleActionIntent,
+					})}
+					size="1"
+					variant="ghost"
+					color={dc.doubleCheck ? "red" : "gray"}
+					loading={fetcher.state !== "idle"}
+				>
+					{dc.doubleCheck ? "Are you sure?" : "Remove"}
+				</Button>
+			</Flex>
+		</fetcher.Form>
+	);
+}
+
+function AddRole() {
+	const data = useLoaderData<typeof loader>();
+	const dc = useDoubleCheck();
+	const fetcher = useFetcher<typeof addRoleAction>();
+	const availableRoles = data.roles.filter(
+		(role) => !data.user.roles.some((r) => r.id === role.id),
+	);
+	if (!availableRoles.length) return null;
+
+	return (
+		<fetcher.Form method="POST">
+			<Flex align="center" gap="2">
+				<Select.Root
+					// start over from the first role once one has been assigned
+					key={availableRoles.map((role) => role.id).join()}
+					name="roleId"
+					defaultValue={availableRoles[0]?.id}
+				>
+					<Select.Trigger aria-label="Assign role" />
+					<Select.Content>
+						{availableRoles.map((role) => (
+							<Select.Item key={role.id} value={role.id}>
+								{role.name}
+							</Select.Item>
+						))}
+					</Select.Content>
+				</Select.Root>
+				<Button
+					{...dc.getButtonProps({
+						type: "submit",
+						name: "intent",
+						value: addRoleActionIntent,
+					})}
+					color={dc.doubleCheck ? "red" : undefined}
+					variant="soft"
+					loading={fetcher.state !== "idle"}
+				>
+					{dc.doubleCheck ? "Are you sure?" : "Assign role"}
+				</Button>
+			</Flex>
+		</fetcher.Form>
+	);
+}
+
+function RevokeSessions({ sessionCount }: { sessionCount: number }) {
+	const dc = useDoubleCheck();
+	const fetcher = useFetcher<typeof revokeSessionsAction>();
+
+	return (
+		<fetcher.Form method="POST">
+			<Button
+				{...dc.getButtonProps({
+					type: "submit",
+					name: "intent",
+					value: revokeSessionsActionIntent,
+				})}
+				color={dc.doubleCheck ? "red" : undefined}
+				disabled={!sessionCount}
+				loading={fetcher.state !== "idle"}
+			>
+				<AvatarIcon />
+				{dc.doubleCheck ? "Are you sure?" : "Revoke all sessions"}
+			</Button>
+		</fetcher.Form>
+	);
+}
+
+function ForcePasswordReset() {
+	const dc = useDoubleCheck();
+	const fetcher = useFetcher<typeof forcePasswordResetAction>();
+
+	return (
+		<fetcher.Form method="POST">
+			<Button
+				{...dc.getButtonProps({
+					type: "submit",
+					name: "intent",
+					value: forcePasswordResetActionIntent,
+				})}
+				color={dc.doubleCheck ? "red" : undefined}
+				loading={fetcher.state !== "idle"}
+			>
+				<LockClosedIcon />
+				{dc.doubleCheck ? "Are you sure?" : "Force password reset"}
+			</Button>
+		</fetcher.Form>
+	);
+}
+
+function DeleteUser() {
+	const dc = useDoubleCheck();
+	const fetcher = useFetcher<typeof deleteUserAction>();
+
+	return (
+		<fetcher.Form method="POST">
+			<Button
+				{...dc.getButtonProps({
+					type: "submit",
+					name: "intent",
+					value: deleteUserActionIntent,
+				})}
+				color="red"
+				variant={dc.doubleCheck ? "solid" : "soft"}
+				loading={fetcher.state !== "idle"}
+			>
+				<TrashIcon />
+				{dc.doubleCheck ? "Are you sure?" : "Delete account"}
+			</Button>
+		</fetcher.Form>
+	);
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				400: ({ error }) => <p>{error?.data}</p>,
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+				404: ({ params }) => (
+					<p>No user with the id "{params.userId}" exists</p>
+				),
+			}}
+		/>
+	);
+}
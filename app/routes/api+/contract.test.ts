@@ -0,0 +1,276 @@
+import fs from "node:fs";
+import { invariant } from "@epic-web/invariant";
+import { expect, test } from "vitest";
+import { createApiToken } from "#app/utils/api.server.ts";
+import { ApiErrorSchema } from "#app/utils/api.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import {
+	type ApiMethod,
+	apiOperations,
+	getApiOperation,
+} from "#app/utils/openapi.server.ts";
+import { ActionSchema } from "#app/utils/user.ts";
+import { createUser } from "#tests/db-utils.ts";
+import { BASE_URL } from "#tests/utils.ts";
+import * as noteRoute from "./v1.notes_.$noteId.ts";
+import * as noteImagesRoute from "./v1.notes_.$noteId_.images.ts";
+import * as notesRoute from "./v1.notes.ts";
+
+// every response is checked against what the OpenAPI document says about it,
+// so a handler and its schema can't drift apart without a test failing
+const checkedOperations = new Set<string>();
+
+async function expectDocumentedResponse(
+	response: Response,
+	method: ApiMethod,
+	path: string,
+) {
+	const operation = getApiOperation(method, path);
+	invariant(operation, `${method.toUpperCase()} ${path} isn't documented`);
+	checkedOperations.add(operation.operationId);
+
+	if (response.status === operation.response.status) {
+		const { schema } = operation.response;
+		if (!schema) {
+			expect(await response.text()).toBe("");
+			return null;
+		}
+		const result = schema.safeParse(await response.json());
+		expect(result.error?.issues ?? []).toEqual([]);
+		return result.data;
+	}
+	expect(operation.errors).toContain(response.status);
+	const result = ApiErrorSchema.safeParse(await response.json());
+	expect(result.error?.issues ?? []).toEqual([]);
+	return result.data;
+}
+
+async function setupApiUser() {
+	// the database is emptied between tests, roles and permissions included
+	const permissions = ActionSchema.options.map((action) => ({
+		action,
+		entity: "note",
+		access: "own",
+	}));
+	const user = await prisma.user.create({
+		select: { id: true },
+		data: {
+			...createUser(),
+			roles: {
+				connectOrCreate: {
+					where: { name: "user" },
+					create: {
+						name: "user",
+						permissions: {
+							connectOrCreate: permissions.map((permission) => ({
+								where: { action_entity_access: permission },
+								create: permission,
+							})),
+						},
+					},
+				},
+			},
+		},
+	});
+	const { token } = await createApiToken({
+		userId: user.id,
+		name: "Contract test",
+		actions: ActionSchema.options,
+		expiresAt: null,
+	});
+	return { userId: user.id, headers: { Authorization: `Bearer ${token}` } };
+}
+
+function call<T>(handler: () => Promise<T>) {
+	return handler().catch((error: unknown) => {
+		if (error instanceof Response) return error;
+		throw error;
+	}) as Promise<Response>;
+}
+
+test("notes can be created, listed, read, updated and deleted", async () => {
+	const { headers } = await setupApiUser();
+
+	const created = await expectDocumentedResponse(
+		await call(() =>
+			notesRoute.action({
+				request: new Request(`${BASE_URL}/api/v1/notes`, {
+					method: "POST",
+					headers,
+					body: JSON.stringify({
+						title: "Groceries",
+						content: "Eggs",
+						tags: ["Shopping"],
+					}),
+				}),
+				params: {},
+				context: {},
+			}),
+		),
+		"post",
+		"/api/v1/notes",
+	);
+	invariant(created && "note" in created, "the note should be created");
+	expect(created.note.tags).toEqual(["shopping"]);
+	const params = { noteId: created.note.id };
+	const noteUrl = `${BASE_URL}/api/v1/notes/${created.note.id}`;
+
+	const list = await expectDocumentedResponse(
+		await call(() =>
+			notesRoute.loader({
+				request: new Request(`${BASE_URL}/api/v1/notes?limit=1`, { headers }),
+				params: {},
+				context: {},
+			}),
+		),
+		"get",
+		"/api/v1/notes",
+	);
+	expect(list).toEqual({ notes: [created.note], nextCursor: null });
+
+	await expectDocumentedResponse(
+		await call(() =>
+			noteRoute.loader({
+				request: new Request(noteUrl, { headers }),
+				params,
+				context: {},
+			}),
+		),
+		"get",
+		"/api/v1/notes/{noteId}",
+	);
+
+	const updated = await expectDocumentedResponse(
+		await call(() =>
+			noteRoute.action({
+				request: new Request(noteUrl, {
+					method: "PATCH",
+					headers,
+					body: JSON.stringify({ content: "Eggs and milk" }),
+				}),
+				params,
+				context: {},
+			}),
+		),
+		"patch",
+		"/api/v1/notes/{noteId}",
+	);
+	expect(updated).toMatchObject({
+		note: { title: "Groceries", content: "Eggs and milk" },
+	});
+
+	const deleted = await call(() =>
+		noteRoute.action({
+			request: new Request(noteUrl, { method: "DELETE", headers }),
+			params,
+			context: {},
+		}),
+	);
+	expect(deleted.status).toBe(204);
+	await expectDocumentedResponse(deleted, "delete", "/api/v1/notes/{noteId}");
+	expect(await prisma.note.count()).toBe(0);
+});
+
+test("images can be uploaded to a note and listed", async () => {
+	const { userId, headers } = await setupApiUser();
+	const note = await prisma.note.create({
+		select: { id: true },
+		data: { ownerId: userId, title: "Trip", content: "Photos from the trip" },
+	});
+	const params = { noteId: note.id };
+	const imagesUrl = `${BASE_URL}/api/v1/notes/${note.id}/images`;
+
+	const formData = new FormData();
+	formData.set(
+		"file",
+		new File(
+			[fs.readFileSync("./tests/fixtures/images/notes/0.png")],
+			"house.png",
+			{ type: "image/png" },
+		),
+	);
+	formData.set("altText", "a nice country house");
+	const uploaded = await expectDocumentedResponse(
+		await call(() =>
+			noteImagesRoute.action({
+				request: new Request(imagesUrl, {
+					method: "POST",
+					headers,
+					body: formData,
+				}),
+				params,
+				context: {},
+			}),
+		),
+		"post",
+		"/api/v1/notes/{noteId}/images",
+	);
+	expect(uploaded).toMatchObject({
+		image: { altText: "a nice country house", contentType: "image/png" },
+	});
+
+	const list = await expectDocumentedResponse(
+		await call(() =>
+			noteImagesRoute.loader({
+				request: new Request(imagesUrl, { headers }),
+				params,
+				context: {},
+			}),
+		),
+		"get",
+		"/api/v1/notes/{noteId}/images",
+	);
+	expect(list).toMatchObject({ images: [{ altText: "a nice country house" }] });
+});
+
+test("errors are documented too", async () => {
+	const { headers } = await setupApiUser();
+
+	const unauthenticated = await call(() =>
+		notesRoute.loader({
+			request: new Request(`${BASE_URL}/api/v1/notes`),
+			params: {},
+			context: {},
+		}),
+	);
+	expect(unauthenticated.status).toBe(401);
+	await expectDocumentedResponse(unauthenticated, "get", "/api/v1/notes");
+
+	const invalid = await call(() =>
+		notesRoute.action({
+			request: new Request(`${BASE_URL}/api/v1/notes`, {
+				method: "POST",
+				headers,
+				body: JSON.stringify({ title: "" }),
+			}),
+			params: {},
+			context: {},
+		}),
+	);
+	expect(invalid.status).toBe(400);
+	const error = await expectDocumentedResponse(
+		invalid,
+		"post",
+		"/api/v1/notes",
+	);
+	expect(error).toMatchObject({
+		issues: { fieldErrors: { title: expect.any(Array) } },
+	});
+
+	const missing = await call(() =>
+		noteRoute.loader({
+			request: new Request(`${BASE_URL}/api/v1/notes/nope`, { headers }),
+			params: { noteId: "nope" },
+			context: {},
+		}),
+	);
+	expect(missing.status).toBe(404);
+	await expectDocumentedResponse(missing, "get", "/api/v1/notes/{noteId}");
+});
+
+test("every documented operation is checked above", () => {
+	// a new operation needs a test here before it can be documented
+	expect([...checkedOperations].sort()).toEqual(
+		apiOperations.map((operation) => operation.operationId).sort(),
+	);
+});
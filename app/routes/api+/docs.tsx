@@ -0,0 +1,189 @@
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import {
+	Badge,
+	Card,
+	Code,
+	Flex,
+	Heading,
+	Link as RadixLink,
+	Table,
+	Text,
+} from "@radix-ui/themes";
+import {
+	json,
+	type LoaderFunctionArgs,
+	type MetaFunction,
+} from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { getDomainUrl } from "#app/utils/misc.tsx";
+import {
+	getOpenApiDocument,
+	type ApiMethod,
+} from "#app/utils/openapi.server.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+export const meta: MetaFunction = () => [{ title: "API docs | Epic Notes" }];
+
+const methodColors = {
+	get: "blue",
+	post: "green",
+	patch: "amber",
+	delete: "red",
+} as const satisfies Record<ApiMethod, string>;
+
+// rendered here rather than with a docs bundle from a CDN so the page only
+// runs our own scripts, which is what the CSP allows
+export async function loader({ request }: LoaderFunctionArgs) {
+	const document = getOpenApiDocument({ serverUrl: getDomainUrl(request) });
+	return json({
+		document,
+		operations: Object.entries(document.paths).flatMap(([path, methods]) =>
+			Object.entries(methods).map(([method, operation]) => ({
+				path,
+				method: method as ApiMethod,
+				...operation,
+			})),
+		),
+	});
+}
+
+export default function ApiDocsRoute() {
+	const { document, operations } = useLoaderData<typeof loader>();
+
+	return (
+		<div className="container mb-48 mt-16 flex flex-col gap-6">
+			<Flex direction="column" gap="2">
+				<Heading as="h1" size="8">
+					{document.info.title}
+				</Heading>
+				<Text as="p">{document.info.description}</Text>
+				<Text as="p">
+					Tokens are created in your{" "}
+					<RadixLink asChild>
+						<Link to="/settings/profile/api-tokens">profile settings</Link>
+					</RadixLink>
+					. The OpenAPI document is at{" "}
+					<RadixLink asChild>
+						<Link to="/api/openapi.json" reloadDocument>
+							/api/openapi.json
+						</Link>
+					</RadixLink>{" "}
+					for generating clients.
+				</Text>
+			</Flex>
+
+			{operations.map((operation) => (
+				<Card key={operation.operationId} id={operation.operationId}>
+					<Flex direction="column" gap="3">
+						<Flex align="center" gap="2" wrap="wrap">
+							<Badge color={methodColors[operation.method]} size="2">
+								{operation.method.toUpperCase()}
+							</Badge>
+							<Code variant="ghost" size="3">
+								{operation.path}
+							</Code>
+						</Flex>
+						<Heading as="h2" size="4">
+							{operation.summary}
+						</Heading>
+						{operation.description.split("\n\n").map((paragraph) => (
+							<Text as="p" key={paragraph}>
+								{paragraph}
+							</Text>
+						))}
+
+						{operation.parameters.length ? (
+							<Table.Root variant="surface">
+								<Table.Header>
+									<Table.Row>
+										<Table.ColumnHeaderCell>Parameter</Table.ColumnHeaderCell>
+										<Table.ColumnHeaderCell>In</Table.ColumnHeaderCell>
+										<Table.ColumnHeaderCell>Schema</Table.ColumnHeaderCell>
+										<Table.ColumnHeaderCell>Description</Table.ColumnHeaderCell>
+									</Table.Row>
+								</Table.Header>
+								<Table.Body>
+									{operation.parameters.map((parameter) => (
+										<Table.Row key={parameter.name}>
+											<Table.RowHeaderCell>
+												<Code>{parameter.name}</Code>
+												{parameter.required ? " (required)" : null}
+											</Table.RowHeaderCell>
+											<Table.Cell>{parameter.in}</Table.Cell>
+											<Table.Cell>
+												<Code variant="ghost">
+													{JSON.stringify(parameter.schema)}
+												</Code>
+											</Table.Cell>
+											<Table.Cell>{parameter.description}</Table.Cell>
+										</Table.Row>
+									))}
+								</Table.Body>
+							</Table.Root>
+						) : null}
+
+						{operation.requestBody
+							? Object.entries(operation.requestBody.content).map(
+									([contentType, { schema }]) => (
+										<SchemaBlock
+											key={contentType}
+											title={`Request body (${contentType})`}
+											schema={schema}
+										/>
+									),
+								)
+							: null}
+
+						<Heading as="h3" size="3">
+							Responses
+						</Heading>
+						{Object.entries(operation.responses).map(([status, response]) => (
+							<Flex key={status} direction="column" gap="1">
+								<Text>
+									<Text weight="bold">{status}</Text> {response.description}
+								</Text>
+								{status.startsWith("2") && response.content
+									? Object.entries(response.content).map(
+											([contentType, { schema }]) => (
+												<SchemaBlock key={contentType} schema={schema} />
+											),
+										)
+									: null}
+							</Flex>
+						))}
+					</Flex>
+				</Card>
+			))}
+
+			<Heading as="h2" size="6">
+				Schemas
+			</Heading>
+			{Object.entries(document.components.schemas).map(([name, schema]) => (
+				<SchemaBlock key={name} title={name} schema={schema} />
+			))}
+		</div>
+	);
+}
+
+function SchemaBlock({ title, schema }: { title?: string; schema: unknown }) {
+	return (
+		<Flex direction="column" gap="1">
+			{title ? (
+				<Heading as="h3" size="3">
+					{title}
+				</Heading>
+			) : null}
+			<pre className="overflow-x-auto rounded-md bg-muted p-4 text-body-xs">
+				{JSON.stringify(schema, null, 2)}
+			</pre>
+		</Flex>
+	);
+}
+
+export function ErrorBoundary() {
+	return <GeneralErrorBoundary />;
+}
@@ -0,0 +1,15 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { getDomainUrl } from "#app/utils/misc.tsx";
+import { getOpenApiDocument } from "#app/utils/openapi.server.ts";
+
+export function loader({ request }: LoaderFunctionArgs) {
+	return json(getOpenApiDocument({ serverUrl: getDomainUrl(request) }), {
+		headers: {
+			"Cache-Control": "public, max-age=300",
+			// the server URL in the document comes from these
+			Vary: "Host, X-Forwarded-Host",
+			// so API clients and tools on other sites can read it
+			"Access-Control-Allow-Origin": "*",
+		},
+	});
+}
@@ -0,0 +1,101 @@
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import {
+	apiError,
+	apiNoteSelect,
+	methodNotAllowed,
+	parseJsonBody,
+	requireApiAuth,
+	serializeApiNote,
+} from "#app/utils/api.server.ts";
+import { ApiCreateNoteSchema, ApiPaginationSchema } from "#app/utils/api.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import {
+	getReadableNotesWhere,
+	userHasPermissionById,
+} from "#app/utils/permissions.server.ts";
+import { triggerNoteWebhookEvent } from "#app/utils/webhooks.server.ts";
+
+/**
+ * The notes the token can read, most recently updated first. Pass the
+ * `nextCursor` from a page as `cursor` to get the one after it.
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+	const auth = await requireApiAuth(request);
+	const query = ApiPaginationSchema.safeParse(
+		Object.fromEntries(new URL(request.url).searchParams),
+	);
+	if (!query.success) {
+		throw apiError(400, "The query parameters are invalid", {
+			headers: auth.headers,
+			details: { issues: query.error.flatten() },
+		});
+	}
+	const { limit, cursor } = query.data;
+
+	const notes = await prisma.note.findMany({
+		select: apiNoteSelect,
+		where: await getReadableNotesWhere(auth.userId, auth),
+		// the id breaks ties so every note shows up exactly once across pages
+		orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+		// one extra tells us whether there's another page
+		take: limit + 1,
+		...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+	});
+	const page = notes.slice(0, limit);
+	return json(
+		{
+			notes: page.map((note) => serializeApiNote(request, note)),
+			nextCursor: notes.length > limit ? page[page.length - 1]?.id : null,
+		},
+		{ headers: auth.headers },
+	);
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	const auth = await requireApiAuth(request);
+	if (request.method !== "POST") {
+		throw methodNotAllowed(["GET", "POST"], auth.headers);
+	}
+	if (!(await userHasPermissionById(auth.userId, "create:note:own", auth))) {
+		throw apiError(403, "You are not allowed to create notes", {
+			headers: auth.headers,
+		});
+	}
+	const { title, content, tags } = await parseJsonBody(
+		request,
+		ApiCreateNoteSchema,
+		auth,
+	);
+
+	const ownerId = auth.userId;
+	const note = await prisma.note.create({
+		select: apiNoteSelect,
+		data: {
+			ownerId,
+			title,
+			content,
+			tags: {
+				connectOrCreate: [...new Set(tags)].map((name) => ({
+					where: { ownerId_name: { ownerId, name } },
+					create: { ownerId, name },
+				})),
+			},
+			revisions: { create: { authorId: auth.userId, title, content } },
+		},
+	});
+	await triggerNoteWebhookEvent(request, "note.created", {
+		id: note.id,
+		ownerId,
+	});
+
+	const headers = new Headers(auth.headers);
+	headers.set("Location", `/api/v1/notes/${note.id}`);
+	return json(
+		{ note: serializeApiNote(request, note) },
+		{ status: 201, headers },
+	);
+}
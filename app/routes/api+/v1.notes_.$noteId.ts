@@ -0,0 +1,106 @@
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import {
+	apiNoteSelect,
+	methodNotAllowed,
+	parseJsonBody,
+	requireApiAuth,
+	requireApiNote,
+	serializeApiNote,
+} from "#app/utils/api.server.ts";
+import { ApiUpdateNoteSchema } from "#app/utils/api.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { triggerNoteWebhookEvent } from "#app/utils/webhooks.server.ts";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+	const auth = await requireApiAuth(request);
+	const { id } = await requireApiNote(auth, params.noteId, "read");
+	const note = await prisma.note.findUniqueOrThrow({
+		select: apiNoteSelect,
+		where: { id },
+	});
+	return json(
+		{ note: serializeApiNote(request, note) },
+		{ headers: auth.headers },
+	);
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+	const auth = await requireApiAuth(request);
+	switch (request.method) {
+		case "PATCH": {
+			const { id, ownerId } = await requireApiNote(
+				auth,
+				params.noteId,
+				"update",
+			);
+			const { title, content, tags } = await parseJsonBody(
+				request,
+				ApiUpdateNoteSchema,
+				auth,
+			);
+
+			const note = await prisma.$transaction(async ($prisma) => {
+				const previous = await $prisma.note.findUniqueOrThrow({
+					select: { title: true, content: true },
+					where: { id },
+				});
+				const note = await $prisma.note.update({
+					select: apiNoteSelect,
+					where: { id },
+					data: {
+						title,
+						content,
+						// tags belong to the note's owner, which isn't the token's user
+						// when the note has been shared with them
+						tags: tags
+							? {
+									set: [],
+									connectOrCreate: [...new Set(tags)].map((name) => ({
+										where: { ownerId_name: { ownerId, name } },
+										create: { ownerId, name },
+									})),
+								}
+							: undefined,
+					},
+				});
+				if (
+					note.title !== previous.title ||
+					note.content !== previous.content
+				) {
+					await $prisma.noteRevision.create({
+						select: { id: true },
+						data: {
+							noteId: id,
+							authorId: auth.userId,
+							title: note.title,
+							content: note.content,
+						},
+					});
+				}
+				return note;
+			});
+			await triggerNoteWebhookEvent(request, "note.updated", { id, ownerId });
+
+			return json(
+				{ note: serializeApiNote(request, note) },
+				{ headers: auth.headers },
+			);
+		}
+		case "DELETE": {
+			const note = await requireApiNote(auth, params.noteId, "delete");
+			await prisma.note.delete({
+				select: { id: true },
+				where: { id: note.id },
+			});
+			await triggerNoteWebhookEvent(request, "note.deleted", note);
+			return new Response(null, { status: 204, headers: auth.headers });
+		}
+		default: {
+			throw methodNotAllowed(["GET", "PATCH", "DELETE"], auth.headers);
+		}
+	}
+}
@@ -0,0 +1,109 @@
+import {
+	unstable_createMemoryUploadHandler as createMemoryUploadHandler,
+	json,
+	MaxPartSizeExceededError,
+	unstable_parseMultipartFormData as parseMultipartFormData,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import {
+	apiError,
+	apiNoteImageSelect,
+	methodNotAllowed,
+	requireApiAuth,
+	requireApiNote,
+	serializeApiNoteImage,
+} from "#app/utils/api.server.ts";
+import { ApiNoteImageUploadSchema } from "#app/utils/api.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { processImageUpload } from "#app/utils/image-upload.server.ts";
+import { imageUploadLimits } from "#app/utils/image-upload.ts";
+import { MAX_NOTE_IMAGES } from "#app/utils/note-validation.ts";
+import { storeImage } from "#app/utils/storage.server.ts";
+import { triggerNoteWebhookEvent } from "#app/utils/webhooks.server.ts";
+
+// the exact limit depends on the type, which processImageUpload checks
+const MAX_UPLOAD_SIZE = Math.max(
+	...Object.values(imageUploadLimits).map((limit) => limit.maxSize),
+);
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+	const auth = await requireApiAuth(request);
+	const note = await requireApiNote(auth, params.noteId, "read");
+	const images = await prisma.noteImage.findMany({
+		select: apiNoteImageSelect,
+		where: { noteId: note.id },
+		orderBy: { createdAt: "asc" },
+	});
+	return json(
+		{ images: images.map((image) => serializeApiNoteImage(request, image)) },
+		{ headers: auth.headers },
+	);
+}
+
+/**
+ * Adds an image to the note from a multipart/form-data body with the image in
+ * `file` and, optionally, its `altText`.
+ */
+export async function action({ request, params }: ActionFunctionArgs) {
+	const auth = await requireApiAuth(request);
+	const { headers } = auth;
+	if (request.method !== "POST") {
+		throw methodNotAllowed(["GET", "POST"], headers);
+	}
+	const note = await requireApiNote(auth, params.noteId, "update");
+	const imageCount = await prisma.noteImage.count({
+		where: { noteId: note.id },
+	});
+	if (imageCount >= MAX_NOTE_IMAGES) {
+		throw apiError(400, `Notes can have at most ${MAX_NOTE_IMAGES} images`, {
+			headers,
+		});
+	}
+
+	if (!request.headers.get("Content-Type")?.includes("multipart/form-data")) {
+		throw apiError(400, "The image must be sent as multipart/form-data", {
+			headers,
+		});
+	}
+	let formData: FormData;
+	try {
+		formData = await parseMultipartFormData(
+			request,
+			createMemoryUploadHandler({ maxPartSize: MAX_UPLOAD_SIZE }),
+		);
+	} catch (error: unknown) {
+		if (error instanceof MaxPartSizeExceededError) {
+			throw apiError(413, "The image is too large", { headers });
+		}
+		throw error;
+	}
+	const submission = ApiNoteImageUploadSchema.safeParse(
+		Object.fromEntries(formData),
+	);
+	if (!submission.success) {
+		throw apiError(400, "The request body is invalid", {
+			headers,
+			details: { issues: submission.error.flatten() },
+		});
+	}
+	const { file, altText } = submission.data;
+
+	const upload = await processImageUpload(file);
+	if (upload.status === "error") {
+		throw apiError(400, upload.error, { headers });
+	}
+	const image = await prisma.noteImage.create({
+		select: apiNoteImageSelect,
+		data: {
+			noteId: note.id,
+			altText: altText || null,
+			...(await storeImage("note-images", upload)),
+		},
+	});
+	await triggerNoteWebhookEvent(request, "note.updated", note);
+	return json(
+		{ image: serializeApiNoteImage(request, image) },
+		{ status: 201, headers },
+	);
+}
@@ -0,0 +1,42 @@
+import { invariantResponse } from "@epic-web/invariant";
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { getStorage } from "#app/utils/storage.server.ts";
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+	const userId = await requireUserId(request);
+	invariantResponse(params.dataExportId, "Export ID is required", {
+		status: 400,
+	});
+	const dataExport = await prisma.dataExport.findFirst({
+		select: {
+			objectKey: true,
+			expiresAt: true,
+			completedAt: true,
+			user: { select: { username: true } },
+		},
+		// only the user it belongs to can download it
+		where: { id: params.dataExportId, userId, status: "ready" },
+	});
+	invariantResponse(dataExport?.objectKey, "Not found", { status: 404 });
+	invariantResponse(
+		!dataExport.expiresAt || dataExport.expiresAt > new Date(),
+		"This download has expired, you can request a new one from your profile",
+		{ status: 410 },
+	);
+
+	const object = await getStorage().get(dataExport.objectKey);
+	invariantResponse(object, "Not found", { status: 404 });
+	const date = (dataExport.completedAt ?? new Date())
+		.toISOString()
+		.slice(0, 10);
+	return new Response(object.body, {
+		headers: {
+			"Content-Type": "application/zip",
+			"Content-Length": object.size.toString(),
+			"Content-Disposition": `attachment; filename="epic-notes-${dataExport.user.username}-${date}.zip"`,
+			"Cache-Control": "private, no-store",
+		},
+	});
+}
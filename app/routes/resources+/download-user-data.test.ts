@@ -0,0 +1,59 @@
+import { expect, test } from "vitest";
+import { getSessionExpirationDate } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { createUser } from "#tests/db-utils.ts";
+import { BASE_URL, getSessionCookieHeader } from "#tests/utils.ts";
+import { loader } from "./download-user-data.tsx";
+
+type UserData = {
+	user: {
+		tags: Array<{ id: string; name: string }>;
+		notes: Array<{ title: string; tags: Array<{ id: string; name: string }> }>;
+	};
+};
+
+test("the download includes the user's tags and each note's tags", async () => {
+	const session = await prisma.session.create({
+		select: { id: true, userId: true },
+		data: {
+			expirationDate: getSessionExpirationDate(),
+			user: { create: createUser() },
+		},
+	});
+	const ownerId = session.userId;
+	await prisma.note.create({
+		select: { id: true },
+		data: {
+			title: "Tagged",
+			content: "Some content",
+			ownerId,
+			tags: { create: [{ name: "work", ownerId }] },
+		},
+	});
+	await prisma.note.create({
+		select: { id: true },
+		data: { title: "Untagged", content: "Some content", ownerId },
+	});
+	// unused tags are still the user's data
+	await prisma.tag.create({
+		select: { id: true },
+		data: { name: "unused", ownerId },
+	});
+
+	const request = new Request(`${BASE_URL}/resources/download-user-data`, {
+		headers: { cookie: await getSessionCookieHeader(session) },
+	});
+	const response = await loader({ request, params: {}, context: {} });
+	const { user } = (await response.json()) as UserData;
+
+	const work = user.tags.find((tag) => tag.name === "work");
+	expect(user.tags.map(({ name }) => name).sort()).toEqual(["unused", "work"]);
+	expect(
+		user.notes
+			.map(({ title, tags }) => ({ title, tags }))
+			.sort((a, b) => a.title.localeCompare(b.title)),
+	).toEqual([
+		{ title: "Tagged", tags: [{ id: work?.id, name: "work" }] },
+		{ title: "Untagged", tags: [] },
+	]);
+});
@@ -31,8 +31,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
 							contentType: true,
 						},
 					},
+					tags: { select: { id: true, name: true } },
 				},
 			},
+			tags: true,
 			password: false, // <-- intentionally omit password
 			sessions: true,
 			roles: true,
@@ -0,0 +1,36 @@
+import { parseWithZod } from "@conform-to/zod";
+import { json, type ActionFunctionArgs } from "@remix-run/node";
+import { z } from "zod";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { renderMarkdown } from "#app/utils/markdown.server.ts";
+import { userHasNotePermission } from "#app/utils/permissions.server.ts";
+
+const MarkdownPreviewSchema = z.object({
+	content: z.string().max(10000).default(""),
+	noteId: z.string().optional(),
+});
+
+export async function action({ request }: ActionFunctionArgs) {
+	const userId = await requireUserId(request);
+	const formData = await request.formData();
+	const submission = parseWithZod(formData, { schema: MarkdownPreviewSchema });
+	if (submission.status !== "success") {
+		return json({ html: null }, { status: 400 });
+	}
+
+	const { content, noteId } = submission.value;
+	// images can only be previewed for notes the user is allowed to edit
+	const note = noteId
+		? await prisma.note.findUnique({
+				select: { id: true, ownerId: true, images: { select: { id: true } } },
+				where: { id: noteId },
+			})
+		: null;
+	const imageIds =
+		note && (await userHasNotePermission(userId, "update", note))
+			? note.images.map((image) => image.id)
+			: [];
+
+	return json({ html: await renderMarkdown(content, { imageIds }) });
+}
@@ -0,0 +1,160 @@
+import { invariantResponse } from "@epic-web/invariant";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { z } from "zod";
+import {
+	completeTwoFactorVerification,
+	getTwoFactorUserId,
+	handleNewSession,
+} from "#app/routes/_auth+/login.server.ts";
+import { twoFAVerificationType } from "#app/routes/settings+/profile.two-factor.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import {
+	getSessionDeviceData,
+	getSessionExpirationDate,
+	requireAnonymous,
+} from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import {
+	consumePasskeyChallenge,
+	getPasskeyAuthenticationOptions,
+	parseAuthenticationResponse,
+	verifyPasskeyAuthentication,
+} from "#app/utils/passkeys.server.ts";
+
+// "login" is passwordless login, "2fa" uses the passkey as a second factor
+const PasskeyAuthenticationTypeSchema = z.enum([
+	"login",
+	twoFAVerificationType,
+]);
+
+async function requireTwoFactorUserId(request: Request) {
+	const userId = await getTwoFactorUserId(request);
+	invariantResponse(userId, "There is nobody to verify", { status: 401 });
+	return userId;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const type = PasskeyAuthenticationTypeSchema.catch("login").parse(
+		new URL(request.url).searchParams.get("type"),
+	);
+
+	let passkeys: Array<{ id: string; transports: string }> | undefined;
+	if (type === twoFAVerificationType) {
+		const userId = await requireTwoFactorUserId(request);
+		passkeys = await prisma.passkey.findMany({
+			select: { id: true, transports: true },
+			where: { userId },
+		});
+		invariantResponse(passkeys.length, "You don't have any passkeys", {
+			status: 404,
+		});
+	} else {
+		await requireAnonymous(request);
+	}
+
+	const { options, setCookie } = await getPasskeyAuthenticationOptions({
+		request,
+		passkeys,
+	});
+	return json({ options }, { headers: { "set-cookie": setCookie } });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	const formData = await request.formData();
+	const type = PasskeyAuthenticationTypeSchema.parse(formData.get("type"));
+	const redirectTo = formData.get("redirectTo");
+	const response = parseAuthenticationResponse(formData.get("response"));
+	invariantResponse(response, "Invalid passkey response");
+
+	const expectedUserId =
+		type === twoFAVerificationType
+			? await requireTwoFactorUserId(request)
+			: null;
+	if (type === "login") await requireAnonymous(request);
+
+	const { challenge, setCookie } = await consumePasskeyChallenge(request);
+	const headers = { "set-cookie": setCookie };
+	function error(message: string) {
+		return json({ status: "error", error: message } as const, {
+			status: 400,
+			headers,
+		});
+	}
+	if (!challenge) {
+		return error("Your passkey request expired, please try again");
+	}
+
+	const passkey = await prisma.passkey.findUnique({
+		select: {
+			id: true,
+			name: true,
+			publicKey: true,
+			counter: true,
+			transports: true,
+			userId: true,
+		},
+		where: { id: response.id },
+	});
+	if (!passkey || (expectedUserId && passkey.userId !== expectedUserId)) {
+		return error("That passkey isn't registered to an account");
+	}
+
+	const verification = await verifyPasskeyAuthentication({
+		request,
+		response,
+		expectedChallenge: challenge,
+		passkey,
+		// on its own a passkey is only as good as a password unless the
+		// authenticator checked it's really them (PIN, biometrics, etc.)
+		requireUserVerification: type === "login",
+	});
+	if (!verification) {
+		if (type === "login") {
+			await recordAuditEvent({
+				request,
+				type: "login-failed",
+				userId: passkey.userId,
+				actorId: null,
+				metadata: { passkey: passkey.name },
+			});
+		}
+		return error("We could not verify your passkey");
+	}
+
+	await prisma.passkey.update({
+		select: { id: true },
+		where: { id: passkey.id },
+		data: { counter: verification.newCounter, lastUsedAt: new Date() },
+	});
+
+	if (type === twoFAVerificationType) {
+		return completeTwoFactorVerification({
+			request,
+			redirectTo: typeof redirectTo === "string" ? redirectTo : undefined,
+			metadata: { passkey: passkey.name },
+		});
+	}
+
+	const session = await prisma.session.create({
+		select: { id: true, expirationDate: true, userId: true },
+		data: {
+			expirationDate: getSessionExpirationDate(),
+			userId: passkey.userId,
+			...getSessionDeviceData(request),
+		},
+	});
+	return handleNewSession(
+		{
+			request,
+			session,
+			remember: false,
+			redirectTo: typeof redirectTo === "string" ? redirectTo : undefined,
+			passkey,
+		},
+		{ headers },
+	);
+}
@@ -0,0 +1,131 @@
+import { parseWithZod } from "@conform-to/zod";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { z } from "zod";
+import { requireRecentVerification } from "#app/routes/_auth+/verify.server.ts";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { combineHeaders } from "#app/utils/misc.tsx";
+import {
+	consumePasskeyChallenge,
+	getPasskeyRegistrationOptions,
+	parseRegistrationResponse,
+	verifyPasskeyRegistration,
+} from "#app/utils/passkeys.server.ts";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+
+export const PasskeyNameSchema = z
+	.string({ required_error: "Name is required" })
+	.trim()
+	.min(1, { message: "Name is required" })
+	.max(50, { message: "Name is too long" });
+
+export const NewPasskeySchema = z.object({ name: PasskeyNameSchema });
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	// a passkey can log in on its own, so adding one is as sensitive as
+	// turning off 2FA
+	await requireRecentVerification(request);
+	const userId = await requireUserId(request);
+	const user = await prisma.user.findUniqueOrThrow({
+		select: {
+			id: true,
+			username: true,
+			name: true,
+			passkeys: { select: { id: true, transports: true } },
+		},
+		where: { id: userId },
+	});
+	const { options, setCookie } = await getPasskeyRegistrationOptions({
+		request,
+		user,
+		passkeys: user.passkeys,
+	});
+	return json({ options }, { headers: { "set-cookie": setCookie } });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	await requireRecentVerification(request);
+	const userId = await requireUserId(request);
+	const formData = await request.formData();
+	const { challenge, setCookie } = await consumePasskeyChallenge(request);
+
+	const submission = await parseWithZod(formData, {
+		schema: NewPasskeySchema.extend({ response: z.string() }).transform(
+			async ({ name, response }, ctx) => {
+				const registrationResponse = parseRegistrationResponse(response);
+				const passkey =
+					challenge && registrationResponse
+						? await verifyPasskeyRegistration({
+								request,
+								response: registrationResponse,
+								expectedChallenge: challenge,
+							})
+						: null;
+				if (!passkey) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						message: "We could not verify your passkey, please try again",
+					});
+					return z.NEVER;
+				}
+				return { name, passkey };
+			},
+		),
+		async: true,
+	});
+
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{
+				status: submission.status === "error" ? 400 : 200,
+				headers: { "set-cookie": setCookie },
+			},
+		);
+	}
+
+	const { name, passkey } = submission.value;
+	const existingPasskey = await prisma.passkey.findUnique({
+		select: { id: true },
+		where: { id: passkey.id },
+	});
+	if (existingPasskey) {
+		return json(
+			{
+				result: submission.reply({
+					formErrors: ["That passkey is already registered"],
+				}),
+			},
+			{ status: 400, headers: { "set-cookie": setCookie } },
+		);
+	}
+
+	await prisma.passkey.create({
+		select: { id: true },
+		data: { ...passkey, name, userId },
+	});
+	await recordAuditEvent({
+		request,
+		type: "passkey-added",
+		userId,
+		metadata: { name },
+	});
+
+	return json(
+		{ result: submission.reply({ resetForm: true }) },
+		{
+			headers: combineHeaders(
+				{ "set-cookie": setCookie },
+				await createToastHeaders({
+					title: "Passkey added",
+					description: `You can now sign in with "${name}".`,
+				}),
+			),
+		},
+	);
+}
@@ -1,22 +1,18 @@
 import { invariantResponse } from "@epic-web/invariant";
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { prisma } from "#app/utils/db.server.ts";
+import { parseImageTransform } from "#app/utils/image-transform.server.ts";
+import { getImageResponse } from "#app/utils/storage.server.ts";
 
-export async function loader({ params }: LoaderFunctionArgs) {
+export async function loader({ request, params }: LoaderFunctionArgs) {
 	invariantResponse(params.imageId, "Image ID is required", { status: 400 });
+	const transform = parseImageTransform(new URL(request.url).searchParams);
 	const image = await prisma.userImage.findUnique({
 		where: { id: params.imageId },
-		select: { contentType: true, blob: true },
+		select: { id: true, contentType: true, objectKey: true, blob: true },
 	});
 
 	invariantResponse(image, "Not found", { status: 404 });
 
-	return new Response(image.blob, {
-		headers: {
-			"Content-Type": image.contentType,
-			"Content-Length": Buffer.byteLength(image.blob).toString(),
-			"Content-Disposition": `inline; filename="${params.imageId}"`,
-			"Cache-Control": "public, max-age=31536000, immutable",
-		},
-	});
+	return getImageResponse(image, { transform });
 }
@@ -0,0 +1,157 @@
+import { Button, Card, Heading, Text } from "@radix-ui/themes";
+import { json, redirect, type LoaderFunctionArgs } from "@remix-run/node";
+import { Link, useLoaderData, useSearchParams } from "@remix-run/react";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { SearchBar } from "#app/components/search-bar.tsx";
+import { cn, useDelayedIsPending } from "#app/utils/misc.tsx";
+import {
+	getUserNoteAccessLevels,
+	requireUserWithPermission,
+} from "#app/utils/permissions.server.ts";
+import { searchNotes } from "#app/utils/search.server.ts";
+import { getHighlightSegments } from "#app/utils/search.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+const pageSize = 20;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const userId = await requireUserWithPermission(
+		request,
+		"read:note:own,shared,any",
+	);
+	const searchParams = new URL(request.url).searchParams;
+	const searchTerm = searchParams.get("search");
+	if (searchTerm === "") {
+		return redirect("/search");
+	}
+	const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+
+	if (!searchTerm) {
+		return json({ notes: [], page, hasNextPage: false });
+	}
+
+	// we fetch one extra result so we know whether there's another page
+	const results = await searchNotes({
+		searchTerm,
+		userId,
+		accessLevels: await getUserNoteAccessLevels(userId, "read"),
+		limit: pageSize + 1,
+		offset: (page - 1) * pageSize,
+	});
+
+	return json({
+		notes: results.slice(0, pageSize),
+		page,
+		hasNextPage: results.length > pageSize,
+	});
+}
+
+export default function SearchRoute() {
+	const data = useLoaderData<typeof loader>();
+	const [searchParams] = useSearchParams();
+	const searchTerm = searchParams.get("search");
+	const isPending = useDelayedIsPending({
+		formMethod: "GET",
+		formAction: "/search",
+	});
+
+	function getPageLink(page: number) {
+		const params = new URLSearchParams(searchParams);
+		params.set("page", String(page));
+		return `/search?${params}`;
+	}
+
+	return (
+		<div className="container mb-48 mt-36 flex flex-col items-center justify-center gap-6">
+			<h1 className="text-h1">Search Notes</h1>
+			<div className="w-full max-w-[700px]">
+				<SearchBar
+					status="idle"
+					action="/search"
+					placeholder="Search notes"
+					autoFocus
+					autoSubmit
+				/>
+			</div>
+			<main className="w-full max-w-[700px]">
+				{data.notes.length ? (
+					<ul
+						className={cn("flex flex-col gap-4 delay-200", {
+							"opacity-50": isPending,
+						})}
+					>
+						{data.notes.map((note) => (
+							<li key={note.id}>
+								<Card asChild>
+									<Link to={`/users/${note.ownerUsername}/notes/${note.id}`}>
+										<Heading as="h2" size="4">
+											<Highlighted text={note.titleHighlight} />
+										</Heading>
+										<Text as="p" size="2" color="gray">
+											{note.ownerName ?? note.ownerUsername}
+										</Text>
+										{note.contentSnippet ? (
+											<Text as="p" size="2" className="mt-2">
+												<Highlighted text={note.contentSnippet} />
+											</Text>
+										) : null}
+									</Link>
+								</Card>
+							</li>
+						))}
+					</ul>
+				) : searchTerm ? (
+					<p className="text-center">No notes found</p>
+				) : null}
+				{data.page > 1 || data.hasNextPage ? (
+					<div className="mt-6 flex justify-between">
+						{data.page > 1 ? (
+							<Button asChild variant="soft">
+								<Link to={getPageLink(data.page - 1)}>Previous</Link>
+							</Button>
+						) : (
+							<span />
+						)}
+						{data.hasNextPage ? (
+							<Button asChild variant="soft">
+								<Link to={getPageLink(data.page + 1)}>Next</Link>
+							</Button>
+						) : null}
+					</div>
+				) : null}
+			</main>
+		</div>
+	);
+}
+
+function Highlighted({ text }: { text: string }) {
+	return (
+		<>
+			{getHighlightSegments(text).map((segment, index) =>
+				segment.highlighted ? (
+					// biome-ignore lint/suspicious/noArrayIndexKey: segments are static
+					<mark key={index}>{segment.text}</mark>
+				) : (
+					// biome-ignore lint/suspicious/noArrayIndexKey: segments are static
+					<span key={index}>{segment.text}</span>
+				),
+			)}
+		</>
+	);
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+			}}
+		/>
+	);
+}
@@ -0,0 +1,417 @@
+import {
+	getFormProps,
+	getInputProps,
+	getSelectProps,
+	useForm,
+} from "@conform-to/react";
+import { getZodConstraint, parseWithZod } from "@conform-to/zod";
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { CodeIcon } from "@radix-ui/react-icons";
+import {
+	Badge,
+	Button,
+	Callout,
+	Card,
+	Checkbox,
+	Code,
+	Flex,
+	Heading,
+	Text,
+} from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+	type SerializeFrom,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { z } from "zod";
+import { ErrorList, Field } from "#app/components/forms.tsx";
+import { requireRecentVerification } from "#app/routes/_auth+/verify.server.ts";
+import { createApiToken } from "#app/utils/api.server.ts";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n, type MessageKey } from "#app/utils/i18n.ts";
+import { useDoubleCheck } from "#app/utils/misc.tsx";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+import { type Action, ActionSchema } from "#app/utils/user.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<CodeIcon />
+			<Translate message="profile.apiTokens" />
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+const actionLabels: Record<Action, MessageKey> = {
+	read: "apiTokens.action.read",
+	create: "apiTokens.action.create",
+	update: "apiTokens.action.update",
+	delete: "apiTokens.action.delete",
+};
+
+const expirations = {
+	"30": "apiTokens.expiresIn.30",
+	"90": "apiTokens.expiresIn.90",
+	"365": "apiTokens.expiresIn.365",
+	never: "apiTokens.expiresIn.never",
+} satisfies Record<string, MessageKey>;
+
+const CreateApiTokenSchema = z.object({
+	name: z.string().trim().min(1).max(50),
+	actions: z
+		.array(ActionSchema)
+		.min(1, { message: "Choose at least one thing the token can do" }),
+	expiresIn: z.enum(
+		Object.keys(expirations) as [
+			keyof typeof expirations,
+			...Array<keyof typeof expirations>,
+		],
+	),
+});
+
+const createApiTokenActionIntent = "create-api-token";
+const revokeApiTokenActionIntent = "revoke-api-token";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireRecentVerification(request);
+	const userId = await requireUserId(request);
+	const { formatDate } = await getI18n(request, { userId });
+	const apiTokens = await prisma.apiToken.findMany({
+		select: {
+			id: true,
+			name: true,
+			prefix: true,
+			createdAt: true,
+			lastUsedAt: true,
+			expiresAt: true,
+			permissions: { select: { action: true } },
+		},
+		where: { userId },
+		orderBy: { createdAt: "desc" },
+	});
+	// a token can't be given more than the user's roles allow
+	const permissions = await prisma.permission.findMany({
+		select: { action: true },
+		where: {
+			entity: "note",
+			roles: { some: { users: { some: { id: userId } } } },
+		},
+	});
+	const now = new Date();
+	return json({
+		apiTokens: apiTokens.map(
+			({ createdAt, lastUsedAt, expiresAt, permissions, ...apiToken }) => ({
+				...apiToken,
+				actions: ActionSchema.options.filter((action) =>
+					permissions.some((p) => p.action === action),
+				),
+				createdAtDisplay: formatDate(createdAt),
+				lastUsedAtDisplay: lastUsedAt ? formatDate(lastUsedAt) : null,
+				expiresAtDisplay: expiresAt ? formatDate(expiresAt) : null,
+				isExpired: Boolean(expiresAt && expiresAt <= now),
+			}),
+		),
+		availableActions: ActionSchema.options.filter((action) =>
+			permissions.some((p) => p.action === action),
+		),
+	});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	await requireRecentVerification(request);
+	const userId = await requireUserId(request);
+	const formData = await request.formData();
+	const intent = formData.get("intent");
+	switch (intent) {
+		case createApiTokenActionIntent: {
+			return createApiTokenAction({ request, userId, formData });
+		}
+		case revokeApiTokenActionIntent: {
+			return revokeApiTokenAction({ request, userId, formData });
+		}
+		default: {
+			throw new Response(`Invalid intent "${intent}"`, { status: 400 });
+		}
+	}
+}
+
+type ApiTokenActionArgs = {
+	request: Request;
+	userId: string;
+	formData: FormData;
+};
+
+async function createApiTokenAction({
+	request,
+	userId,
+	formData,
+}: ApiTokenActionArgs) {
+	const submission = parseWithZod(formData, { schema: CreateApiTokenSchema });
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply(), token: null },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	const { name, actions, expiresIn } = submission.value;
+	const { token, apiToken } = await createApiToken({
+		userId,
+		name,
+		actions,
+		expiresAt:
+			expiresIn === "never"
+				? null
+				: new Date(Date.now() + Number(expiresIn) * 24 * 60 * 60 * 1000),
+	});
+	await recordAuditEvent({
+		request,
+		type: "api-token-created",
+		userId,
+		metadata: { name: apiToken.name, actions, expiresIn },
+	});
+	return json({
+		result: submission.reply({ resetForm: true }),
+		token: { name: apiToken.name, value: token },
+	});
+}
+
+async function revokeApiTokenAction({
+	request,
+	userId,
+	formData,
+}: ApiTokenActionArgs) {
+	const apiTokenId = formData.get("apiTokenId");
+	invariantResponse(typeof apiTokenId === "string", "Invalid apiTokenId");
+	const apiToken = await prisma.apiToken.findFirst({
+		select: { name: true },
+		where: { id: apiTokenId, userId },
+	});
+	const { count } = await prisma.apiToken.deleteMany({
+		where: { id: apiTokenId, userId },
+	});
+	invariantResponse(apiToken && count, "API token not found", {
+		status: 404,
+	});
+	await recordAuditEvent({
+		request,
+		type: "api-token-revoked",
+		userId,
+		metadata: { name: apiToken.name },
+	});
+	const { t } = await getI18n(request, { userId });
+	return json({ status: "success" } as const, {
+		headers: await createToastHeaders({
+			title: t("apiTokens.revoked.title"),
+			description: t("apiTokens.revoked.description", { name: apiToken.name }),
+		}),
+	});
+}
+
+export default function ApiTokensRoute() {
+	const data = useLoaderData<typeof loader>();
+	const { t } = useI18n();
+	const [beforeUrl, afterUrl] = t("apiTokens.description").split("{url}");
+	const [beforeHeader, afterHeader] = (afterUrl ?? "").split("{header}");
+
+	return (
+		<Flex direction="column" gap="5">
+			<Text as="p">
+				{beforeUrl}
+				<Code>/api/v1/notes</Code>
+				{beforeHeader}
+				<Code>Authorization: Bearer</Code>
+				{afterHeader}
+			</Text>
+			{data.apiTokens.length ? (
+				<Flex direction="column" gap="3">
+					{data.apiTokens.map((apiToken) => (
+						<ApiTokenCard key={apiToken.id} apiToken={apiToken} />
+					))}
+				</Flex>
+			) : (
+				<Text as="p" color="gray">
+					{t("apiTokens.empty")}
+				</Text>
+			)}
+			<CreateApiToken />
+		</Flex>
+	);
+}
+
+function ApiTokenCard({
+	apiToken,
+}: {
+	apiToken: SerializeFrom<typeof loader>["apiTokens"][number];
+}) {
+	const { t } = useI18n();
+	return (
+		<Card>
+			<Flex justify="between" align="center" gap="4">
+				<Flex direction="column" gap="1">
+					<Flex align="center" gap="2">
+						<Text weight="bold">{apiToken.name}</Text>
+						<Code variant="ghost" color="gray">
+							{apiToken.prefix}…
+						</Code>
+						{apiToken.isExpired ? (
+							<Badge color="red">{t("apiTokens.expired")}</Badge>
+						) : null}
+					</Flex>
+					<Flex gap="1" wrap="wrap">
+						{apiToken.actions.map((action) => (
+							<Badge key={action} variant="soft">
+								{t(actionLabels[action])}
+							</Badge>
+						))}
+					</Flex>
+					<Text size="2" color="gray">
+						{[
+							t("apiTokens.createdAt", { date: apiToken.createdAtDisplay }),
+							apiToken.lastUsedAtDisplay
+								? t("apiTokens.lastUsedAt", {
+										date: apiToken.lastUsedAtDisplay,
+									})
+								: t("apiTokens.neverUsed"),
+							apiToken.expiresAtDisplay
+								? t(
+										apiToken.isExpired
+											? "apiTokens.expiredAt"
+											: "apiTokens.expiresAt",
+										{ date: apiToken.expiresAtDisplay },
+									)
+								: t("apiTokens.neverExpires"),
+						].join(", ")}
+					</Text>
+				</Flex>
+				<RevokeApiToken apiTokenId={apiToken.id} />
+			</Flex>
+		</Card>
+	);
+}
+
+function CreateApiToken() {
+	const data = useLoaderData<typeof loader>();
+	const fetcher = useFetcher<typeof createApiTokenAction>();
+	const [form, fields] = useForm({
+		id: "create-api-token",
+		constraint: getZodConstraint(CreateApiTokenSchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: CreateApiTokenSchema });
+		},
+		defaultValue: { actions: ["read"], expiresIn: "90" },
+	});
+	const token = fetcher.state === "idle" ? fetcher.data?.token : null;
+	const { t } = useI18n();
+
+	return (
+		<Flex direction="column" gap="4">
+			{token ? (
+				<Callout.Root color="green">
+					<Callout.Text>
+						{t("apiTokens.newToken", { name: token.name })}
+					</Callout.Text>
+					<Code size="3" className="break-all">
+						{token.value}
+					</Code>
+				</Callout.Root>
+			) : null}
+			<fetcher.Form method="POST" {...getFormProps(form)}>
+				<Heading as="h2" size="4" mb="2">
+					{t("apiTokens.create.heading")}
+				</Heading>
+				<Flex direction="column" gap="3">
+					<Field
+						labelProps={{ htmlFor: fields.name.id, children: t("common.name") }}
+						inputProps={{
+							...getInputProps(fields.name, { type: "text" }),
+							placeholder: t("apiTokens.create.placeholder"),
+						}}
+						errors={fields.name.errors}
+					/>
+					<fieldset className="flex flex-col gap-2">
+						<legend className="mb-2 text-body-xs">
+							{t("apiTokens.create.actions")}
+						</legend>
+						{data.availableActions.map((action) => (
+							<Text as="label" size="2" key={action}>
+								<Flex gap="2" align="center">
+									<Checkbox
+										name={fields.actions.name}
+										value={action}
+										defaultChecked={fields.actions.initialValue?.includes(
+											action,
+										)}
+									/>
+									{t(actionLabels[action])}
+								</Flex>
+							</Text>
+						))}
+						<ErrorList
+							id={fields.actions.errorId}
+							errors={fields.actions.errors}
+						/>
+					</fieldset>
+					<label className="flex flex-col gap-1 text-body-xs">
+						{t("apiTokens.create.expiresIn")}
+						<select {...getSelectProps(fields.expiresIn)}>
+							{Object.entries(expirations).map(([value, label]) => (
+								<option key={value} value={value}>
+									{t(label)}
+								</option>
+							))}
+						</select>
+						<ErrorList
+							id={fields.expiresIn.errorId}
+							errors={fields.expiresIn.errors}
+						/>
+					</label>
+					<ErrorList errors={form.errors} id={form.errorId} />
+					<div>
+						<Button
+							type="submit"
+							name="intent"
+							value={createApiTokenActionIntent}
+							loading={fetcher.state !== "idle"}
+						>
+							{t("apiTokens.create.submit")}
+						</Button>
+					</div>
+				</Flex>
+			</fetcher.Form>
+		</Flex>
+	);
+}
+
+function RevokeApiToken({ apiTokenId }: { apiTokenId: string }) {
+	const dc = useDoubleCheck();
+	const fetcher = useFetcher<typeof revokeApiTokenAction>();
+	const { t } = useI18n();
+
+	return (
+		<fetcher.Form method="POST">
+			<input type="hidden" name="apiTokenId" value={apiTokenId} />
+			<Button
+				{...dc.getButtonProps({
+					type: "submit",
+					name: "intent",
+					value: revokeApiTokenActionIntent,
+				})}
+				color={dc.doubleCheck ? "red" : undefined}
+				variant="soft"
+				loading={fetcher.state !== "idle"}
+			>
+				{dc.doubleCheck ? t("common.areYouSure") : t("apiTokens.revoke")}
+			</Button>
+		</fetcher.Form>
+	);
+}
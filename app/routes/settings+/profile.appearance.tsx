@@ -0,0 +1,216 @@
+import { getFormProps, getSelectProps, useForm } from "@conform-to/react";
+import { getZodConstraint, parseWithZod } from "@conform-to/zod";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { ColorWheelIcon } from "@radix-ui/react-icons";
+import {
+	Badge,
+	Button,
+	Card,
+	Flex,
+	Heading,
+	Theme as RadixTheme,
+	Switch,
+	Text,
+	TextField,
+} from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { useState } from "react";
+import { ErrorList } from "#app/components/forms.tsx";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { useHints } from "#app/utils/client-hints.tsx";
+import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n, type MessageKey } from "#app/utils/i18n.ts";
+import { setTheme } from "#app/utils/theme.server.ts";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+import {
+	accentColors,
+	appearances,
+	grayColors,
+	parseUserPreferences,
+	radii,
+	scalings,
+	UserPreferencesSchema,
+	type UserPreferences,
+} from "#app/utils/user-preferences.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<ColorWheelIcon />
+			<Translate message="profile.appearance" />
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const userId = await requireUserId(request);
+	const preference = await prisma.userPreference.findUnique({
+		select: {
+			appearance: true,
+			accentColor: true,
+			grayColor: true,
+			radius: true,
+			scaling: true,
+		},
+		where: { userId },
+	});
+	return json({ preferences: parseUserPreferences(preference) });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	const userId = await requireUserId(request);
+	const formData = await request.formData();
+	const submission = parseWithZod(formData, { schema: UserPreferencesSchema });
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	await prisma.userPreference.upsert({
+		select: { id: true },
+		where: { userId },
+		create: { userId, ...submission.value },
+		update: submission.value,
+	});
+
+	const { t } = await getI18n(request, { userId });
+	const headers = new Headers(
+		await createToastHeaders({
+			title: t("appearance.saved.title"),
+			description: t("appearance.saved.description"),
+		}),
+	);
+	// so the page doesn't flip back to the old mode after logging out here
+	headers.append("set-cookie", setTheme(submission.value.appearance));
+	return json({ result: submission.reply() }, { headers });
+}
+
+const fieldLabels = {
+	appearance: "profile.appearance",
+	accentColor: "appearance.accentColor",
+	grayColor: "appearance.grayColor",
+	radius: "appearance.radius",
+	scaling: "appearance.scaling",
+} satisfies Record<keyof UserPreferences, MessageKey>;
+
+const fieldOptions = {
+	appearance: appearances,
+	accentColor: accentColors,
+	grayColor: grayColors,
+	radius: radii,
+	scaling: scalings,
+} satisfies {
+	[Key in keyof UserPreferences]: ReadonlyArray<UserPreferences[Key]>;
+};
+
+export default function AppearanceRoute() {
+	const data = useLoaderData<typeof loader>();
+	const fetcher = useFetcher<typeof action>();
+	const hints = useHints();
+	const [preview, setPreview] = useState(data.preferences);
+	const { t } = useI18n();
+
+	const [form, fields] = useForm({
+		id: "appearance",
+		constraint: getZodConstraint(UserPreferencesSchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: UserPreferencesSchema });
+		},
+		defaultValue: data.preferences,
+	});
+
+	return (
+		<Flex direction="column" gap="6">
+			<fetcher.Form
+				method="POST"
+				{...getFormProps(form)}
+				onChange={(event) => {
+					const result = UserPreferencesSchema.safeParse(
+						Object.fromEntries(new FormData(event.currentTarget)),
+					);
+					if (result.success) setPreview(result.data);
+				}}
+			>
+				<Flex direction="column" gap="4">
+					<div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+						{(Object.keys(fieldLabels) as Array<keyof UserPreferences>).map(
+							(name) => (
+								<label key={name} className="flex flex-col gap-1 text-body-xs">
+									{t(fieldLabels[name])}
+									<select {...getSelectProps(fields[name])}>
+										{fieldOptions[name].map((option) => (
+											<option key={option} value={option}>
+												{option}
+											</option>
+										))}
+									</select>
+									<ErrorList
+										id={fields[name].errorId}
+										errors={fields[name].errors}
+									/>
+								</label>
+							),
+						)}
+					</div>
+					<ErrorList errors={form.errors} id={form.errorId} />
+					<Flex justify="center">
+						<Button type="submit" loading={fetcher.state !== "idle"}>
+							{t("common.saveChanges")}
+						</Button>
+					</Flex>
+				</Flex>
+			</fetcher.Form>
+
+			<RadixTheme
+				appearance={
+					preview.appearance === "system" ? hints.theme : preview.appearance
+				}
+				accentColor={preview.accentColor}
+				grayColor={preview.grayColor}
+				radius={preview.radius}
+				scaling={preview.scaling}
+				className="rounded-lg p-6"
+			>
+				<Text as="div" size="1" color="gray" mb="2">
+					{t("appearance.preview")}
+				</Text>
+				<Card>
+					<Flex direction="column" gap="3">
+						<Flex align="center" gap="2">
+							<Heading as="h3" size="4">
+								{t("appearance.preview.title")}
+							</Heading>
+							<Badge>{t("appearance.preview.tag")}</Badge>
+						</Flex>
+						<Text as="p" color="gray">
+							{t("appearance.preview.content")}
+						</Text>
+						<TextField.Root placeholder={t("appearance.preview.search")} />
+						<Flex align="center" justify="between" gap="3">
+							<Text as="label" size="2">
+								<Flex gap="2" align="center">
+									<Switch defaultChecked /> {t("appearance.preview.pinned")}
+								</Flex>
+							</Text>
+							<Flex gap="2">
+								<Button variant="soft">{t("common.cancel")}</Button>
+								<Button>{t("common.save")}</Button>
+							</Flex>
+						</Flex>
+					</Flex>
+				</Card>
+			</RadixTheme>
+		</Flex>
+	);
+}
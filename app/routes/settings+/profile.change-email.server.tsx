@@ -5,10 +5,14 @@ import {
 	requireRecentVerification,
 	type VerifyFunctionArgs,
 } from "#app/routes/_auth+/verify.server.ts";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
-import { sendEmail } from "#app/utils/email.server.ts";
+import { queueEmail } from "#app/utils/email.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { createI18n, defaultLocale, type I18n } from "#app/utils/i18n.ts";
 import { redirectWithToast } from "#app/utils/toast.server.ts";
 import { verifySessionStorage } from "#app/utils/verification.server.ts";
+import { triggerProfileWebhookEvent } from "#app/utils/webhooks.server.ts";
 import { newEmailAddressSessionKey } from "./profile.change-email";
 
 export async function handleVerification({
@@ -25,13 +29,12 @@ export async function handleVerification({
 		request.headers.get("cookie"),
 	);
 	const newEmail = verifySession.get(newEmailAddressSessionKey);
+	const i18n = await getI18n(request, { userId: submission.value.target });
 	if (!newEmail) {
 		return json(
 			{
 				result: submission.reply({
-					formErrors: [
-						"You must submit the code on the same device that requested the email change.",
-					],
+					formErrors: [i18n.t("changeEmail.sameDevice")],
 				}),
 			},
 			{ status: 400 },
@@ -46,19 +49,28 @@ export async function handleVerification({
 		select: { id: true, email: true, username: true },
 		data: { email: newEmail },
 	});
+	await recordAuditEvent({
+		request,
+		type: "email-changed",
+		userId: user.id,
+		metadata: { from: preUpdateUser.email, to: user.email },
+	});
+	await triggerProfileWebhookEvent(user.id, ["email"]);
 
-	void sendEmail({
+	await queueEmail({
 		to: preUpdateUser.email,
-		subject: "Epic Stack email changed",
-		react: <EmailChangeNoticeEmail userId={user.id} />,
+		subject: i18n.t("changeEmail.noticeEmail.subject"),
+		react: <EmailChangeNoticeEmail userId={user.id} i18n={i18n} />,
 	});
 
 	return redirectWithToast(
 		"/settings/profile",
 		{
-			title: "Email Changed",
+			title: i18n.t("changeEmail.changed.title"),
 			type: "success",
-			description: `Your email has been changed to ${user.email}`,
+			description: i18n.t("changeEmail.changed.description", {
+				email: user.email,
+			}),
 		},
 		{
 			headers: {
@@ -71,23 +83,25 @@ export async function handleVerification({
 export function EmailChangeEmail({
 	verifyUrl,
 	otp,
+	i18n: { locale, t } = createI18n({ locale: defaultLocale, timeZone: "UTC" }),
 }: {
 	verifyUrl: string;
 	otp: string;
+	i18n?: I18n;
 }) {
 	return (
-		<E.Html lang="en" dir="ltr">
+		<E.Html lang={locale} dir="ltr">
 			<E.Container>
 				<h1>
-					<E.Text>Epic Notes Email Change</E.Text>
+					<E.Text>{t("changeEmail.email.heading")}</E.Text>
 				</h1>
 				<p>
 					<E.Text>
-						Here's your verification code: <strong>{otp}</strong>
+						{t("email.verificationCode")} <strong>{otp}</strong>
 					</E.Text>
 				</p>
 				<p>
-					<E.Text>Or click the link:</E.Text>
+					<E.Text>{t("forgotPassword.email.link")}</E.Text>
 				</p>
 				<E.Link href={verifyUrl}>{verifyUrl}</E.Link>
 			</E.Container>
@@ -95,28 +109,27 @@ export function EmailChangeEmail({
 	);
 }
 
-function EmailChangeNoticeEmail({ userId }: { userId: string }) {
+function EmailChangeNoticeEmail({
+	userId,
+	i18n: { locale, t },
+}: {
+	userId: string;
+	i18n: I18n;
+}) {
 	return (
-		<E.Html lang="en" dir="ltr">
+		<E.Html lang={locale} dir="ltr">
 			<E.Container>
 				<h1>
-					<E.Text>Your Epic Notes email has been changed</E.Text>
+					<E.Text>{t("changeEmail.noticeEmail.heading")}</E.Text>
 				</h1>
 				<p>
-					<E.Text>
-						We're writing to let you know that your Epic Notes email has been
-						changed.
-					</E.Text>
+					<E.Text>{t("changeEmail.noticeEmail.body")}</E.Text>
 				</p>
 				<p>
-					<E.Text>
-						If you changed your email address, then you can safely ignore this.
-						But if you did not change your email address, then please contact
-						support immediately.
-					</E.Text>
+					<E.Text>{t("changeEmail.noticeEmail.ifNotYou")}</E.Text>
 				</p>
 				<p>
-					<E.Text>Your Account ID: {userId}</E.Text>
+					<E.Text>{t("changeEmail.noticeEmail.accountId", { userId })}</E.Text>
 				</p>
 			</E.Container>
 		</E.Html>
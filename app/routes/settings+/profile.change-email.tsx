@@ -17,6 +17,8 @@ import {
 import { requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
 import { sendEmail } from "#app/utils/email.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
 import { useIsPending } from "#app/utils/misc.tsx";
 import { EmailSchema } from "#app/utils/user-validation.ts";
 import { verifySessionStorage } from "#app/utils/verification.server.ts";
@@ -28,7 +30,7 @@ import { Box, Button, Container, Heading, Text } from "@radix-ui/themes";
 export const handle: BreadcrumbHandle & SEOHandle = {
 	breadcrumb: (
 		<Button variant="ghost">
-			<EnvelopeClosedIcon /> Change Email
+			<EnvelopeClosedIcon /> <Translate message="changeEmail.heading" />
 		</Button>
 	),
 	getSitemapEntries: () => null,
@@ -57,6 +59,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
 export async function action({ request }: ActionFunctionArgs) {
 	const userId = await requireUserId(request);
 	const formData = await request.formData();
+	const i18n = await getI18n(request, { userId });
 	const submission = await parseWithZod(formData, {
 		schema: ChangeEmailSchema.superRefine(async (data, ctx) => {
 			const existingUser = await prisma.user.findUnique({
@@ -66,7 +69,7 @@ export async function action({ request }: ActionFunctionArgs) {
 				ctx.addIssue({
 					path: ["email"],
 					code: z.ZodIssueCode.custom,
-					message: "This email is already in use.",
+					message: i18n.t("changeEmail.emailTaken"),
 				});
 			}
 		}),
@@ -88,8 +91,14 @@ export async function action({ request }: ActionFunctionArgs) {
 
 	const response = await sendEmail({
 		to: submission.value.email,
-		subject: "Epic Notes Email Change Verification",
-		react: <EmailChangeEmail verifyUrl={verifyUrl.toString()} otp={otp} />,
+		subject: i18n.t("changeEmail.email.subject"),
+		react: (
+			<EmailChangeEmail
+				verifyUrl={verifyUrl.toString()}
+				otp={otp}
+				i18n={i18n}
+			/>
+		),
 	});
 
 	if (response.status === "success") {
@@ -110,6 +119,7 @@ export async function action({ request }: ActionFunctionArgs) {
 export default function ChangeEmailIndex() {
 	const data = useLoaderData<typeof loader>();
 	const actionData = useActionData<typeof action>();
+	const { t } = useI18n();
 
 	const [form, fields] = useForm({
 		id: "change-email-form",
@@ -123,17 +133,15 @@ export default function ChangeEmailIndex() {
 	const isPending = useIsPending();
 	return (
 		<Box>
-			<Heading size="7">Change Email</Heading>
+			<Heading size="7">{t("changeEmail.heading")}</Heading>
+			<Text as="p">{t("changeEmail.description")}</Text>
 			<Text as="p">
-				You will receive an email at the new email address to confirm.
-			</Text>
-			<Text as="p">
-				An email notice will also be sent to your old address {data.user.email}.
+				{t("changeEmail.oldAddressNotice", { email: data.user.email })}
 			</Text>
 			<Container>
 				<Form method="POST" {...getFormProps(form)}>
 					<Field
-						labelProps={{ children: "New Email" }}
+						labelProps={{ children: t("changeEmail.newEmail") }}
 						inputProps={{
 							...getInputProps(fields.email, { type: "email" }),
 							autoComplete: "email",
@@ -142,7 +150,7 @@ export default function ChangeEmailIndex() {
 					/>
 					<ErrorList id={form.errorId} errors={form.errors} />
 					<Box>
-						<Button loading={isPending}>Send Confirmation</Button>
+						<Button loading={isPending}>{t("changeEmail.submit")}</Button>
 					</Box>
 				</Form>
 			</Container>
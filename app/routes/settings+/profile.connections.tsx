@@ -9,16 +9,20 @@ import {
 } from "@remix-run/node";
 import { useFetcher, useLoaderData } from "@remix-run/react";
 import { useState } from "react";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
 import { requireUserId } from "#app/utils/auth.server.ts";
-import { resolveConnectionData } from "#app/utils/connections.server.ts";
+import {
+	getConfiguredProviderNames,
+	resolveConnectionData,
+} from "#app/utils/connections.server.ts";
 import {
 	ProviderConnectionForm,
 	type ProviderName,
 	ProviderNameSchema,
 	providerIcons,
-	providerNames,
 } from "#app/utils/connections.tsx";
 import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
 import { makeTimings } from "#app/utils/timing.server.ts";
 import { createToastHeaders } from "#app/utils/toast.server.ts";
 import type { BreadcrumbHandle } from "./profile.tsx";
@@ -64,6 +68,7 @@ async function userCanDeleteConnections(userId: string) {
 
 export async function loader({ request }: LoaderFunctionArgs) {
 	const userId = await requireUserId(request);
+	const { formatDate } = await getI18n(request, { userId });
 	const timings = makeTimings("profile connections loader");
 	const rawConnections = await prisma.connection.findMany({
 		select: { id: true, providerName: true, providerId: true, createdAt: true },
@@ -89,7 +94,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
 			...connectionData,
 			providerName,
 			id: connection.id,
-			createdAtFormatted: connection.createdAt.toLocaleString(),
+			createdAtFormatted: formatDate(connection.createdAt),
 		});
 	}
 
@@ -97,6 +102,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
 		{
 			connections,
 			canDeleteConnections: await userCanDeleteConnections(userId),
+			providerNames: getConfiguredProviderNames(),
 		},
 		{ headers: { "Server-Timing": timings.toString() } },
 	);
@@ -122,12 +128,19 @@ export async function action({ request }: ActionFunctionArgs) {
 	);
 	const connectionId = formData.get("connectionId");
 	invariantResponse(typeof connectionId === "string", "Invalid connectionId");
-	await prisma.connection.delete({
+	const connection = await prisma.connection.delete({
+		select: { providerName: true },
 		where: {
 			id: connectionId,
 			userId: userId,
 		},
 	});
+	await recordAuditEvent({
+		request,
+		type: "connection-removed",
+		userId,
+		metadata: { providerName: connection.providerName },
+	});
 	const toastHeaders = await createToastHeaders({
 		title: "Deleted",
 		description: "Your connection has been deleted.",
@@ -163,7 +176,7 @@ export default function Connections() {
 				py="3"
 				className="border-b border-t border-border"
 			>
-				{providerNames.map((providerName) => (
+				{data.providerNames.map((providerName) => (
 					<ProviderConnectionForm
 						key={providerName}
 						type="Connect"
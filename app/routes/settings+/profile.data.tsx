@@ -0,0 +1,189 @@
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { DownloadIcon } from "@radix-ui/react-icons";
+import { Badge, Button, Card, Flex, Text } from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+	type SerializeFrom,
+} from "@remix-run/node";
+import { Link, useFetcher, useLoaderData } from "@remix-run/react";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import {
+	requestDataExport,
+	type DataExportStatus,
+} from "#app/utils/data-export.server.tsx";
+import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
+import { getDomainUrl } from "#app/utils/misc.tsx";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<DownloadIcon />
+			<Translate message="profile.downloadData" />
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+const statusColors = {
+	pending: "blue",
+	ready: "green",
+	failed: "red",
+} as const satisfies Record<DataExportStatus, string>;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const userId = await requireUserId(request);
+	const dataExports = await prisma.dataExport.findMany({
+		select: {
+			id: true,
+			status: true,
+			size: true,
+			expiresAt: true,
+			createdAt: true,
+		},
+		where: { userId },
+		orderBy: { createdAt: "desc" },
+		take: 10,
+	});
+	const now = new Date();
+	const { formatDate } = await getI18n(request, { userId });
+	return json({
+		dataExports: dataExports.map(({ expiresAt, createdAt, ...dataExport }) => ({
+			...dataExport,
+			isExpired: Boolean(expiresAt && expiresAt < now),
+			expiresAtDisplay: expiresAt ? formatDate(expiresAt) : null,
+			createdAtDisplay: formatDate(createdAt),
+		})),
+	});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	const userId = await requireUserId(request);
+	const formData = await request.formData();
+	invariantResponse(
+		formData.get("intent") === "request-export",
+		"Invalid intent",
+	);
+	const dataExport = await requestDataExport({
+		userId,
+		origin: getDomainUrl(request),
+	});
+	const { t } = await getI18n(request, { userId });
+	if (!dataExport) {
+		return json({ status: "error" } as const, {
+			headers: await createToastHeaders({
+				type: "error",
+				title: t("data.alreadyRequested.title"),
+				description: t("data.alreadyRequested.description"),
+			}),
+		});
+	}
+	await recordAuditEvent({
+		request,
+		type: "data-export-requested",
+		userId,
+	});
+	return json({ status: "success" } as const, {
+		headers: await createToastHeaders({
+			title: t("data.requested.title"),
+			description: t("data.requested.description"),
+		}),
+	});
+}
+
+export default function DataRoute() {
+	const data = useLoaderData<typeof loader>();
+	const fetcher = useFetcher<typeof action>();
+	const { t } = useI18n();
+
+	return (
+		<Flex direction="column" gap="4">
+			<Text as="p">{t("data.description")}</Text>
+			<fetcher.Form method="POST">
+				<Button
+					type="submit"
+					name="intent"
+					value="request-export"
+					loading={fetcher.state !== "idle"}
+				>
+					<DownloadIcon /> {t("data.export")}
+				</Button>
+			</fetcher.Form>
+			<Text as="p" size="2" color="gray">
+				{t("data.rightAway")}{" "}
+				<Link
+					reloadDocument
+					download="my-epic-notes-data.json"
+					to="/resources/download-user-data"
+					className="underline"
+				>
+					{t("data.downloadJson")}
+				</Link>{" "}
+				{t("data.withoutImages")}
+			</Text>
+			{data.dataExports.map((dataExport) => (
+				<DataExportCard key={dataExport.id} dataExport={dataExport} />
+			))}
+		</Flex>
+	);
+}
+
+function DataExportCard({
+	dataExport,
+}: {
+	dataExport: SerializeFrom<typeof loader>["dataExports"][number];
+}) {
+	const isDownloadable = dataExport.status === "ready" && !dataExport.isExpired;
+	const { t } = useI18n();
+	return (
+		<Card>
+			<Flex justify="between" align="center" gap="4">
+				<Flex direction="column" gap="1">
+					<Flex align="center" gap="2">
+						<Text weight="bold">
+							{t("data.requestedAt", { date: dataExport.createdAtDisplay })}
+						</Text>
+						{dataExport.isExpired ? (
+							<Badge color="gray">{t("data.status.expired")}</Badge>
+						) : (
+							<Badge
+								color={statusColors[dataExport.status as DataExportStatus]}
+							>
+								{t(`data.status.${dataExport.status as DataExportStatus}`)}
+							</Badge>
+						)}
+					</Flex>
+					<Text size="2" color="gray">
+						{dataExport.status === "pending"
+							? t("data.pending")
+							: dataExport.status === "failed"
+								? t("data.failed")
+								: isDownloadable
+									? t("data.available", {
+											size: ((dataExport.size ?? 0) / 1024 / 1024).toFixed(1),
+											date: dataExport.expiresAtDisplay ?? "",
+										})
+									: t("data.expired")}
+					</Text>
+				</Flex>
+				{isDownloadable ? (
+					<Button asChild variant="soft">
+						<Link
+							reloadDocument
+							to={`/resources/data-exports/${dataExport.id}`}
+						>
+							<DownloadIcon /> {t("data.download")}
+						</Link>
+					</Button>
+				) : null}
+			</Flex>
+		</Card>
+	);
+}
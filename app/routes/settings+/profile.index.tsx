@@ -10,19 +10,34 @@ import {
 import { Link, useFetcher, useLoaderData } from "@remix-run/react";
 import { z } from "zod";
 import { ErrorList, Field } from "#app/components/forms.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
 import { requireUserId, sessionKey } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
-import { getUserImgSrc, useDoubleCheck } from "#app/utils/misc.tsx";
+import { useI18n } from "#app/utils/i18n.ts";
+import {
+	getUserImgSrc,
+	getUserImgSrcSet,
+	useDoubleCheck,
+} from "#app/utils/misc.tsx";
 import { authSessionStorage } from "#app/utils/session.server.ts";
 import { redirectWithToast } from "#app/utils/toast.server.ts";
 import { NameSchema, UsernameSchema } from "#app/utils/user-validation.ts";
+import { triggerProfileWebhookEvent } from "#app/utils/webhooks.server.ts";
 import { twoFAVerificationType } from "./profile.two-factor.tsx";
 import {
+	ActivityLogIcon,
 	AvatarIcon,
+	BookmarkIcon,
 	CameraIcon,
+	CodeIcon,
+	ColorWheelIcon,
+	GlobeIcon,
+	LightningBoltIcon,
+	DesktopIcon,
 	DotsHorizontalIcon,
 	DownloadIcon,
 	EnvelopeClosedIcon,
+	FaceIcon,
 	Link2Icon,
 	LockClosedIcon,
 	LockOpen1Icon,
@@ -111,6 +126,7 @@ export async function action({ request }: ActionFunctionArgs) {
 
 export default function EditUserProfile() {
 	const data = useLoaderData<typeof loader>();
+	const { t } = useI18n();
 
 	return (
 		<Flex direction="column" gap="6">
@@ -118,6 +134,7 @@ export default function EditUserProfile() {
 				<div className="relative h-52 w-52">
 					<img
 						src={getUserImgSrc(data.user.image?.id)}
+						srcSet={getUserImgSrcSet(data.user.image?.id, 208)}
 						alt={data.user.username}
 						className="h-full w-full rounded-full object-cover"
 					/>
@@ -129,8 +146,8 @@ export default function EditUserProfile() {
 						<Link
 							preventScrollReset
 							to="photo"
-							title="Change profile photo"
-							aria-label="Change profile photo"
+							title={t("profile.changePhoto")}
+							aria-label={t("profile.changePhoto")}
 						>
 							<CameraIcon />
 						</Link>
@@ -145,7 +162,8 @@ export default function EditUserProfile() {
 				<Box>
 					<Button asChild>
 						<Link to="change-email">
-							<EnvelopeClosedIcon /> Change email from {data.user.email}
+							<EnvelopeClosedIcon />{" "}
+							{t("profile.changeEmail", { email: data.user.email })}
 						</Link>
 					</Button>
 				</Box>
@@ -154,40 +172,93 @@ export default function EditUserProfile() {
 						<Link to="two-factor">
 							{data.isTwoFactorEnabled ? (
 								<>
-									<LockClosedIcon /> 2FA is enabled
+									<LockClosedIcon /> {t("profile.twoFactorEnabled")}
 								</>
 							) : (
 								<>
-									<LockOpen1Icon /> Enable 2FA
+									<LockOpen1Icon /> {t("profile.enableTwoFactor")}
 								</>
 							)}
 						</Link>
 					</Button>
 				</Box>
+				<Box>
+					<Button asChild>
+						<Link to="passkeys">
+							<FaceIcon /> {t("profile.managePasskeys")}
+						</Link>
+					</Button>
+				</Box>
 				<Box>
 					<Button asChild>
 						<Link to={data.hasPassword ? "password" : "password/create"}>
 							<DotsHorizontalIcon />{" "}
-							{data.hasPassword ? "Change Password" : "Create a Password"}
+							{data.hasPassword
+								? t("profile.changePassword")
+								: t("profile.createPassword")}
 						</Link>
 					</Button>
 				</Box>
 				<Box>
 					<Button asChild>
 						<Link to="connections">
-							<Link2Icon /> Manage connections
+							<Link2Icon /> {t("profile.manageConnections")}
 						</Link>
 					</Button>
 				</Box>
 				<Box>
 					<Button asChild>
-						<Link
-							reloadDocument
-							download="my-epic-notes-data.json"
-							to="/resources/download-user-data"
-						>
-							<DownloadIcon />
-							Download your data
+						<Link to="tags">
+							<BookmarkIcon /> {t("profile.manageTags")}
+						</Link>
+					</Button>
+				</Box>
+				<Box>
+					<Button asChild>
+						<Link to="appearance">
+							<ColorWheelIcon /> {t("profile.appearance")}
+						</Link>
+					</Button>
+				</Box>
+				<Box>
+					<Button asChild>
+						<Link to="language">
+							<GlobeIcon /> {t("profile.language")}
+						</Link>
+					</Button>
+				</Box>
+				<Box>
+					<Button asChild>
+						<Link to="api-tokens">
+							<CodeIcon /> {t("profile.apiTokens")}
+						</Link>
+					</Button>
+				</Box>
+				<Box>
+					<Button asChild>
+						<Link to="webhooks">
+							<LightningBoltIcon /> {t("profile.webhooks")}
+						</Link>
+					</Button>
+				</Box>
+				<Box>
+					<Button asChild>
+						<Link to="security">
+							<ActivityLogIcon /> {t("profile.securityHistory")}
+						</Link>
+					</Button>
+				</Box>
+				<Box>
+					<Button asChild>
+						<Link to="data">
+							<DownloadIcon /> {t("profile.downloadData")}
+						</Link>
+					</Button>
+				</Box>
+				<Box>
+					<Button asChild>
+						<Link to="sessions">
+							<DesktopIcon /> {t("profile.manageSessions")}
 						</Link>
 					</Button>
 				</Box>
@@ -224,6 +295,10 @@ async function profileUpdateAction({ userId, formData }: ProfileActionArgs) {
 
 	const data = submission.value;
 
+	const previous = await prisma.user.findUniqueOrThrow({
+		select: { name: true, username: true },
+		where: { id: userId },
+	});
 	await prisma.user.update({
 		select: { username: true },
 		where: { id: userId },
@@ -232,6 +307,10 @@ async function profileUpdateAction({ userId, formData }: ProfileActionArgs) {
 			username: data.username,
 		},
 	});
+	const changes = (["name", "username"] as const).filter(
+		(field) => (previous[field] ?? undefined) !== data[field],
+	);
+	if (changes.length) await triggerProfileWebhookEvent(userId, changes);
 
 	return json({
 		result: submission.reply(),
@@ -242,6 +321,7 @@ function UpdateProfile() {
 	const data = useLoaderData<typeof loader>();
 
 	const fetcher = useFetcher<typeof profileUpdateAction>();
+	const { t } = useI18n();
 
 	const [form, fields] = useForm({
 		id: "edit-profile",
@@ -263,14 +343,14 @@ function UpdateProfile() {
 					className="col-span-3"
 					labelProps={{
 						htmlFor: fields.username.id,
-						children: "Username",
+						children: t("common.username"),
 					}}
 					inputProps={getInputProps(fields.username, { type: "text" })}
 					errors={fields.username.errors}
 				/>
 				<Field
 					className="col-span-3"
-					labelProps={{ htmlFor: fields.name.id, children: "Name" }}
+					labelProps={{ htmlFor: fields.name.id, children: t("common.name") }}
 					inputProps={getInputProps(fields.name, { type: "text" })}
 					errors={fields.name.errors}
 				/>
@@ -285,7 +365,7 @@ function UpdateProfile() {
 					value={profileUpdateActionIntent}
 					loading={fetcher.state !== "idle"}
 				>
-					Save changes
+					{t("common.saveChanges")}
 				</Button>
 			</Flex>
 		</fetcher.Form>
@@ -301,18 +381,25 @@ async function signOutOfSessionsAction({ request, userId }: ProfileActionArgs) {
 		sessionId,
 		"You must be authenticated to sign out of other sessions",
 	);
-	await prisma.session.deleteMany({
+	const { count } = await prisma.session.deleteMany({
 		where: {
 			userId,
 			id: { not: sessionId },
 		},
 	});
+	await recordAuditEvent({
+		request,
+		type: "sessions-revoked",
+		userId,
+		metadata: { count },
+	});
 	return json({ status: "success" } as const);
 }
 
 function SignOutOfSessions() {
 	const data = useLoaderData<typeof loader>();
 	const dc = useDoubleCheck();
+	const { t } = useI18n();
 
 	const fetcher = useFetcher<typeof signOutOfSessionsAction>();
 	const otherSessionsCount = data.user._count.sessions - 1;
@@ -332,21 +419,32 @@ function SignOutOfSessions() {
 						<AvatarIcon />
 
 						{dc.doubleCheck
-							? "Are you sure?"
-							: `Sign out of ${otherSessionsCount} other sessions`}
+							? t("common.areYouSure")
+							: t("profile.signOutOfSessions", { count: otherSessionsCount })}
 					</Button>
 				</fetcher.Form>
 			) : (
 				<Button>
 					<AvatarIcon />
-					This is your only session
+					{t("profile.onlySession")}
 				</Button>
 			)}
 		</div>
 	);
 }
 
-async function deleteDataAction({ userId }: ProfileActionArgs) {
+async function deleteDataAction({ request, userId }: ProfileActionArgs) {
+	// recorded first so the event exists to be kept when the user is deleted
+	const { username } = await prisma.user.findUniqueOrThrow({
+		select: { username: true },
+		where: { id: userId },
+	});
+	await recordAuditEvent({
+		request,
+		type: "account-deleted",
+		userId,
+		metadata: { username },
+	});
 	await prisma.user.delete({ where: { id: userId } });
 	return redirectWithToast("/", {
 		type: "success",
@@ -357,6 +455,7 @@ async function deleteDataAction({ userId }: ProfileActionArgs) {
 
 function DeleteData() {
 	const dc = useDoubleCheck();
+	const { t } = useI18n();
 
 	const fetcher = useFetcher<typeof deleteDataAction>();
 	return (
@@ -372,7 +471,7 @@ function DeleteData() {
 					loading={fetcher.state !== "idle"}
 				>
 					<TrashIcon />
-					{dc.doubleCheck ? "Are you sure?" : "Delete all your data"}
+					{dc.doubleCheck ? t("common.areYouSure") : t("profile.deleteData")}
 				</Button>
 			</fetcher.Form>
 		</div>
@@ -0,0 +1,133 @@
+import { getFormProps, getSelectProps, useForm } from "@conform-to/react";
+import { getZodConstraint, parseWithZod } from "@conform-to/zod";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { GlobeIcon } from "@radix-ui/react-icons";
+import { Button, Flex, Text } from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { z } from "zod";
+import { ErrorList } from "#app/components/forms.tsx";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { useHints } from "#app/utils/client-hints.tsx";
+import { prisma } from "#app/utils/db.server.ts";
+import { getLocale } from "#app/utils/i18n.server.ts";
+import {
+	defaultLocale,
+	isLocale,
+	localeNames,
+	locales,
+	translate,
+	Translate,
+	useI18n,
+} from "#app/utils/i18n.ts";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<GlobeIcon />
+			<Translate message="profile.language" />
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+const LanguageFormSchema = z.object({
+	// left empty to go by the browser's languages
+	locale: z.enum(locales).optional(),
+});
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const userId = await requireUserId(request);
+	const preference = await prisma.userPreference.findUnique({
+		select: { locale: true },
+		where: { userId },
+	});
+	return json({
+		locale: isLocale(preference?.locale) ? preference.locale : null,
+	});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	const userId = await requireUserId(request);
+	const formData = await request.formData();
+	const submission = parseWithZod(formData, { schema: LanguageFormSchema });
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	const locale = submission.value.locale ?? null;
+	await prisma.userPreference.upsert({
+		select: { id: true },
+		where: { userId },
+		create: { userId, locale },
+		update: { locale },
+	});
+
+	// in the language they just picked, not the one the page was in
+	const newLocale = getLocale(request, { userLocale: locale });
+	return json(
+		{ result: submission.reply() },
+		{
+			headers: await createToastHeaders({
+				title: translate(newLocale, "language.saved.title"),
+				description: translate(newLocale, "language.saved.description"),
+			}),
+		},
+	);
+}
+
+export default function LanguageRoute() {
+	const data = useLoaderData<typeof loader>();
+	const fetcher = useFetcher<typeof action>();
+	const hints = useHints();
+	const { t } = useI18n();
+
+	const [form, fields] = useForm({
+		id: "language",
+		constraint: getZodConstraint(LanguageFormSchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: LanguageFormSchema });
+		},
+		defaultValue: { locale: data.locale ?? "" },
+	});
+
+	return (
+		<fetcher.Form method="POST" {...getFormProps(form)}>
+			<Flex direction="column" gap="4">
+				<Text as="p">{t("language.description")}</Text>
+				<label className="flex flex-col gap-1 text-body-xs">
+					{t("language.label")}
+					<select {...getSelectProps(fields.locale)}>
+						<option value="">
+							{t("language.matchBrowser", {
+								language: localeNames[hints.locale ?? defaultLocale],
+							})}
+						</option>
+						{locales.map((locale) => (
+							<option key={locale} value={locale} lang={locale}>
+								{localeNames[locale]}
+							</option>
+						))}
+					</select>
+					<ErrorList id={fields.locale.errorId} errors={fields.locale.errors} />
+				</label>
+				<ErrorList errors={form.errors} id={form.errorId} />
+				<Flex justify="center">
+					<Button type="submit" loading={fetcher.state !== "idle"}>
+						{t("common.saveChanges")}
+					</Button>
+				</Flex>
+			</Flex>
+		</fetcher.Form>
+	);
+}
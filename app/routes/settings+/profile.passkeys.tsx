@@ -0,0 +1,245 @@
+import { getFormProps, getInputProps, useForm } from "@conform-to/react";
+import { getZodConstraint, parseWithZod } from "@conform-to/zod";
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { FaceIcon } from "@radix-ui/react-icons";
+import { Button, Card, Flex, Heading, Text } from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+	type SerializeFrom,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { startRegistration } from "@simplewebauthn/browser";
+import { useState } from "react";
+import { ErrorList, Field } from "#app/components/forms.tsx";
+import { requireRecentVerification } from "#app/routes/_auth+/verify.server.ts";
+import {
+	NewPasskeySchema,
+	type action as passkeyRegistrationAction,
+} from "#app/routes/resources+/passkey-registration.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
+import { useDoubleCheck } from "#app/utils/misc.tsx";
+import {
+	fetchPasskeyOptions,
+	getPasskeyErrorMessage,
+} from "#app/utils/passkeys.tsx";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<FaceIcon />
+			<Translate message="passkeys.breadcrumb" />
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+const passkeyRegistrationRoute = "/resources/passkey-registration";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireRecentVerification(request);
+	const userId = await requireUserId(request);
+	const { formatDate } = await getI18n(request, { userId });
+	const passkeys = await prisma.passkey.findMany({
+		select: {
+			id: true,
+			name: true,
+			deviceType: true,
+			createdAt: true,
+			lastUsedAt: true,
+		},
+		where: { userId },
+		orderBy: { createdAt: "asc" },
+	});
+	return json({
+		passkeys: passkeys.map(({ createdAt, lastUsedAt, ...passkey }) => ({
+			...passkey,
+			createdAtDisplay: formatDate(createdAt),
+			lastUsedAtDisplay: lastUsedAt ? formatDate(lastUsedAt) : null,
+		})),
+	});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	await requireRecentVerification(request);
+	const userId = await requireUserId(request);
+	const formData = await request.formData();
+	invariantResponse(
+		formData.get("intent") === "delete-passkey",
+		"Invalid intent",
+	);
+	const passkeyId = formData.get("passkeyId");
+	invariantResponse(typeof passkeyId === "string", "Invalid passkeyId");
+	const passkey = await prisma.passkey.findFirst({
+		select: { name: true },
+		where: { id: passkeyId, userId },
+	});
+	const { count } = await prisma.passkey.deleteMany({
+		where: { id: passkeyId, userId },
+	});
+	invariantResponse(passkey && count, "Passkey not found", { status: 404 });
+	await recordAuditEvent({
+		request,
+		type: "passkey-removed",
+		userId,
+		metadata: { name: passkey.name },
+	});
+	const { t } = await getI18n(request, { userId });
+	return json({ status: "success" } as const, {
+		headers: await createToastHeaders({
+			title: t("passkeys.removed.title"),
+			description: t("passkeys.removed.description", { name: passkey.name }),
+		}),
+	});
+}
+
+export default function PasskeysRoute() {
+	const data = useLoaderData<typeof loader>();
+	const { t } = useI18n();
+
+	return (
+		<Flex direction="column" gap="5">
+			<Text as="p">{t("passkeys.description")}</Text>
+			{data.passkeys.length ? (
+				<Flex direction="column" gap="3">
+					{data.passkeys.map((passkey) => (
+						<PasskeyCard key={passkey.id} passkey={passkey} />
+					))}
+				</Flex>
+			) : (
+				<Text as="p" color="gray">
+					{t("passkeys.empty")}
+				</Text>
+			)}
+			<AddPasskey />
+		</Flex>
+	);
+}
+
+function PasskeyCard({
+	passkey,
+}: {
+	passkey: SerializeFrom<typeof loader>["passkeys"][number];
+}) {
+	const { t } = useI18n();
+	return (
+		<Card>
+			<Flex justify="between" align="center" gap="4">
+				<Flex direction="column" gap="1">
+					<Text weight="bold">{passkey.name}</Text>
+					<Text size="2" color="gray">
+						{passkey.deviceType === "multiDevice"
+							? t("passkeys.synced")
+							: t("passkeys.singleDevice")}
+					</Text>
+					<Text size="2" color="gray">
+						{passkey.lastUsedAtDisplay
+							? t("passkeys.addedAndUsed", {
+									added: passkey.createdAtDisplay,
+									used: passkey.lastUsedAtDisplay,
+								})
+							: t("passkeys.addedNeverUsed", {
+									added: passkey.createdAtDisplay,
+								})}
+					</Text>
+				</Flex>
+				<DeletePasskey passkeyId={passkey.id} />
+			</Flex>
+		</Card>
+	);
+}
+
+function AddPasskey() {
+	const fetcher = useFetcher<typeof passkeyRegistrationAction>();
+	const [error, setError] = useState<string | null>(null);
+	const [isStarting, setIsStarting] = useState(false);
+	const { t } = useI18n();
+	const [form, fields] = useForm({
+		id: "add-passkey",
+		constraint: getZodConstraint(NewPasskeySchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: NewPasskeySchema });
+		},
+		async onSubmit(event, { formData }) {
+			event.preventDefault();
+			setError(null);
+			setIsStarting(true);
+			try {
+				const optionsJSON = await fetchPasskeyOptions<
+					Parameters<typeof startRegistration>[0]["optionsJSON"]
+				>(passkeyRegistrationRoute);
+				const response = await startRegistration({ optionsJSON });
+				formData.set("response", JSON.stringify(response));
+				fetcher.submit(formData, {
+					method: "POST",
+					action: passkeyRegistrationRoute,
+				});
+			} catch (error: unknown) {
+				setError(getPasskeyErrorMessage(error));
+			} finally {
+				setIsStarting(false);
+			}
+		},
+	});
+
+	return (
+		<fetcher.Form method="POST" {...getFormProps(form)}>
+			<Heading as="h2" size="4" mb="2">
+				{t("passkeys.add.heading")}
+			</Heading>
+			<Flex align="start" gap="2">
+				<Field
+					labelProps={{ htmlFor: fields.name.id, children: t("common.name") }}
+					inputProps={{
+						...getInputProps(fields.name, { type: "text" }),
+						placeholder: t("passkeys.add.placeholder"),
+					}}
+					errors={fields.name.errors}
+				/>
+				<Button
+					type="submit"
+					variant="soft"
+					mt="5"
+					loading={isStarting || fetcher.state !== "idle"}
+				>
+					{t("passkeys.add.submit")}
+				</Button>
+			</Flex>
+			<ErrorList errors={error ? [error] : undefined} />
+			<ErrorList errors={form.errors} id={form.errorId} />
+		</fetcher.Form>
+	);
+}
+
+function DeletePasskey({ passkeyId }: { passkeyId: string }) {
+	const dc = useDoubleCheck();
+	const fetcher = useFetcher<typeof action>();
+	const { t } = useI18n();
+
+	return (
+		<fetcher.Form method="POST">
+			<input type="hidden" name="passkeyId" value={passkeyId} />
+			<Button
+				{...dc.getButtonProps({
+					type: "submit",
+					name: "intent",
+					value: "delete-passkey",
+				})}
+				color={dc.doubleCheck ? "red" : undefined}
+				variant="soft"
+				loading={fetcher.state !== "idle"}
+			>
+				{dc.doubleCheck ? t("common.areYouSure") : t("common.remove")}
+			</Button>
+		</fetcher.Form>
+	);
+}
@@ -10,12 +10,15 @@ import {
 import { Form, Link, useActionData } from "@remix-run/react";
 import { z } from "zod";
 import { ErrorList, Field } from "#app/components/forms.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
 import {
 	getPasswordHash,
 	requireUserId,
 	verifyUserPassword,
 } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
 import { useIsPending } from "#app/utils/misc.tsx";
 import { redirectWithToast } from "#app/utils/toast.server.ts";
 import { PasswordSchema } from "#app/utils/user-validation.ts";
@@ -26,7 +29,7 @@ import { Button, Grid } from "@radix-ui/themes";
 export const handle: BreadcrumbHandle & SEOHandle = {
 	breadcrumb: (
 		<Button variant="ghost">
-			<DotsHorizontalIcon /> Password
+			<DotsHorizontalIcon /> <Translate message="password.breadcrumb" />
 		</Button>
 	),
 	getSitemapEntries: () => null,
@@ -68,6 +71,7 @@ export async function action({ request }: ActionFunctionArgs) {
 	const userId = await requireUserId(request);
 	await requirePassword(userId);
 	const formData = await request.formData();
+	const { t } = await getI18n(request, { userId });
 	const submission = await parseWithZod(formData, {
 		async: true,
 		schema: ChangePasswordForm.superRefine(
@@ -81,7 +85,7 @@ export async function action({ request }: ActionFunctionArgs) {
 						ctx.addIssue({
 							path: ["currentPassword"],
 							code: z.ZodIssueCode.custom,
-							message: "Incorrect password.",
+							message: t("password.incorrect"),
 						});
 					}
 				}
@@ -112,13 +116,14 @@ export async function action({ request }: ActionFunctionArgs) {
 			},
 		},
 	});
+	await recordAuditEvent({ request, type: "password-changed", userId });
 
 	return redirectWithToast(
 		"/settings/profile",
 		{
 			type: "success",
-			title: "Password Changed",
-			description: "Your password has been changed.",
+			title: t("password.changed.title"),
+			description: t("password.changed.description"),
 		},
 		{ status: 302 },
 	);
@@ -127,6 +132,7 @@ export async function action({ request }: ActionFunctionArgs) {
 export default function ChangePasswordRoute() {
 	const actionData = useActionData<typeof action>();
 	const isPending = useIsPending();
+	const { t } = useI18n();
 
 	const [form, fields] = useForm({
 		id: "password-change-form",
@@ -141,7 +147,7 @@ export default function ChangePasswordRoute() {
 	return (
 		<Form method="POST" {...getFormProps(form)} className="mx-auto max-w-md">
 			<Field
-				labelProps={{ children: "Current Password" }}
+				labelProps={{ children: t("password.current") }}
 				inputProps={{
 					...getInputProps(fields.currentPassword, { type: "password" }),
 					autoComplete: "current-password",
@@ -149,7 +155,7 @@ export default function ChangePasswordRoute() {
 				errors={fields.currentPassword.errors}
 			/>
 			<Field
-				labelProps={{ children: "New Password" }}
+				labelProps={{ children: t("password.new") }}
 				inputProps={{
 					...getInputProps(fields.newPassword, { type: "password" }),
 					autoComplete: "new-password",
@@ -157,7 +163,7 @@ export default function ChangePasswordRoute() {
 				errors={fields.newPassword.errors}
 			/>
 			<Field
-				labelProps={{ children: "Confirm New Password" }}
+				labelProps={{ children: t("password.confirmNew") }}
 				inputProps={{
 					...getInputProps(fields.confirmNewPassword, {
 						type: "password",
@@ -169,10 +175,10 @@ export default function ChangePasswordRoute() {
 			<ErrorList id={form.errorId} errors={form.errors} />
 			<Grid columns="2" gap="6" width="100%">
 				<Button variant="outline" asChild>
-					<Link to="..">Cancel</Link>
+					<Link to="..">{t("common.cancel")}</Link>
 				</Button>
 				<Button type="submit" loading={isPending}>
-					Change Password
+					{t("profile.changePassword")}
 				</Button>
 			</Grid>
 		</Form>
@@ -9,8 +9,10 @@ import {
 } from "@remix-run/node";
 import { Form, Link, useActionData } from "@remix-run/react";
 import { ErrorList, Field } from "#app/components/forms.tsx";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
 import { getPasswordHash, requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
 import { useIsPending } from "#app/utils/misc.tsx";
 import { PasswordAndConfirmPasswordSchema } from "#app/utils/user-validation.ts";
 import type { BreadcrumbHandle } from "./profile.tsx";
@@ -21,7 +23,7 @@ export const handle: BreadcrumbHandle & SEOHandle = {
 	breadcrumb: (
 		<>
 			<DotsHorizontalIcon />
-			Password
+			<Translate message="password.breadcrumb" />
 		</>
 	),
 	getSitemapEntries: () => null,
@@ -77,6 +79,7 @@ export async function action({ request }: ActionFunctionArgs) {
 			},
 		},
 	});
+	await recordAuditEvent({ request, type: "password-created", userId });
 
 	return redirect("/settings/profile", { status: 302 });
 }
@@ -84,6 +87,7 @@ export async function action({ request }: ActionFunctionArgs) {
 export default function CreatePasswordRoute() {
 	const actionData = useActionData<typeof action>();
 	const isPending = useIsPending();
+	const { t } = useI18n();
 
 	const [form, fields] = useForm({
 		id: "password-create-form",
@@ -98,7 +102,7 @@ export default function CreatePasswordRoute() {
 	return (
 		<Form method="POST" {...getFormProps(form)} className="mx-auto max-w-md">
 			<Field
-				labelProps={{ children: "New Password" }}
+				labelProps={{ children: t("password.new") }}
 				inputProps={{
 					...getInputProps(fields.password, { type: "password" }),
 					autoComplete: "new-password",
@@ -106,7 +110,7 @@ export default function CreatePasswordRoute() {
 				errors={fields.password.errors}
 			/>
 			<Field
-				labelProps={{ children: "Confirm New Password" }}
+				labelProps={{ children: t("password.confirmNew") }}
 				inputProps={{
 					...getInputProps(fields.confirmPassword, {
 						type: "password",
@@ -118,10 +122,10 @@ export default function CreatePasswordRoute() {
 			<ErrorList id={form.errorId} errors={form.errors} />
 			<div className="grid w-full grid-cols-2 gap-6">
 				<Button variant="outline" asChild>
-					<Link to="..">Cancel</Link>
+					<Link to="..">{t("common.cancel")}</Link>
 				</Button>
 				<Button type="submit" loading={isPending}>
-					Create Password
+					{t("password.create")}
 				</Button>
 			</div>
 		</Form>
@@ -21,11 +21,20 @@ import { z } from "zod";
 import { ErrorList } from "#app/components/forms.tsx";
 import { requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
+import { processImageUpload } from "#app/utils/image-upload.server.ts";
+import {
+	acceptedImageTypes,
+	acceptedImageTypesMessage,
+	isAcceptedImageType,
+} from "#app/utils/image-upload.ts";
 import {
 	getUserImgSrc,
 	useDoubleCheck,
 	useIsPending,
 } from "#app/utils/misc.tsx";
+import { storeImage } from "#app/utils/storage.server.ts";
+import { triggerProfileWebhookEvent } from "#app/utils/webhooks.server.ts";
 import type { BreadcrumbHandle } from "./profile.tsx";
 import { AvatarIcon, Pencil1Icon, TrashIcon } from "@radix-ui/react-icons";
 import { Box, Button, Flex, Text } from "@radix-ui/themes";
@@ -33,7 +42,7 @@ import { Box, Button, Flex, Text } from "@radix-ui/themes";
 export const handle: BreadcrumbHandle & SEOHandle = {
 	breadcrumb: (
 		<Button variant="ghost">
-			<AvatarIcon /> Photo
+			<AvatarIcon /> <Translate message="photo.breadcrumb" />
 		</Button>
 	),
 	getSitemapEntries: () => null,
@@ -50,9 +59,10 @@ const NewImageSchema = z.object({
 	photoFile: z
 		.instanceof(File)
 		.refine((file) => file.size > 0, "Image is required")
+		.refine((file) => file.size <= MAX_SIZE, "Image size must be less than 3MB")
 		.refine(
-			(file) => file.size <= MAX_SIZE,
-			"Image size must be less than 3MB",
+			(file) => file.size === 0 || isAcceptedImageType(file.type),
+			acceptedImageTypesMessage,
 		),
 });
 
@@ -84,15 +94,21 @@ export async function action({ request }: ActionFunctionArgs) {
 	);
 
 	const submission = await parseWithZod(formData, {
-		schema: PhotoFormSchema.transform(async (data) => {
+		schema: PhotoFormSchema.transform(async (data, ctx) => {
 			if (data.intent === "delete") return { intent: "delete" };
 			if (data.photoFile.size <= 0) return z.NEVER;
+			const upload = await processImageUpload(data.photoFile);
+			if (upload.status === "error") {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					message: upload.error,
+					path: ["photoFile"],
+				});
+				return z.NEVER;
+			}
 			return {
 				intent: data.intent,
-				image: {
-					contentType: data.photoFile.type,
-					blob: Buffer.from(await data.photoFile.arrayBuffer()),
-				},
+				image: await storeImage("user-images", upload),
 			};
 		}),
 		async: true,
@@ -109,6 +125,7 @@ export async function action({ request }: ActionFunctionArgs) {
 
 	if (intent === "delete") {
 		await prisma.userImage.deleteMany({ where: { userId } });
+		await triggerProfileWebhookEvent(userId, ["photo"]);
 		return redirect("/settings/profile");
 	}
 
@@ -119,12 +136,14 @@ export async function action({ request }: ActionFunctionArgs) {
 			data: { image: { create: image } },
 		});
 	});
+	await triggerProfileWebhookEvent(userId, ["photo"]);
 
 	return redirect("/settings/profile");
 }
 
 export default function PhotoRoute() {
 	const data = useLoaderData<typeof loader>();
+	const { t } = useI18n();
 
 	const doubleCheckDeleteImage = useDoubleCheck();
 
@@ -173,7 +192,7 @@ export default function PhotoRoute() {
 					*/}
 					<input
 						{...getInputProps(fields.photoFile, { type: "file" })}
-						accept="image/*"
+						accept={acceptedImageTypes.join(",")}
 						className="peer sr-only"
 						required
 						tabIndex={newImageSrc ? -1 : 0}
@@ -193,7 +212,7 @@ export default function PhotoRoute() {
 						className="cursor-pointer peer-valid:hidden peer-focus-within:ring-2 peer-focus-visible:ring-2"
 					>
 						<Text as="label" htmlFor={fields.photoFile.id}>
-							<Pencil1Icon /> Change
+							<Pencil1Icon /> {t("photo.change")}
 						</Text>
 					</Button>
 					<Button
@@ -205,14 +224,14 @@ export default function PhotoRoute() {
 							pendingIntent === "submit" || lastSubmissionIntent === "submit"
 						}
 					>
-						Save Photo
+						{t("photo.save")}
 					</Button>
 					<Button
 						color="red"
 						className="peer-invalid:hidden"
 						{...form.reset.getButtonProps()}
 					>
-						<TrashIcon /> Reset
+						<TrashIcon /> {t("photo.reset")}
 					</Button>
 					{data.user.image?.id ? (
 						<Button
@@ -228,7 +247,9 @@ export default function PhotoRoute() {
 							color="red"
 						>
 							<TrashIcon />
-							{doubleCheckDeleteImage.doubleCheck ? "Are you sure?" : "Delete"}
+							{doubleCheckDeleteImage.doubleCheck
+								? t("common.areYouSure")
+								: t("common.delete")}
 						</Button>
 					) : null}
 				</Flex>
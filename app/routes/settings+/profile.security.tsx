@@ -0,0 +1,127 @@
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { ActivityLogIcon } from "@radix-ui/react-icons";
+import { Button, Flex, Table, Text } from "@radix-ui/themes";
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { auditEventSelect } from "#app/utils/audit.server.ts";
+import { formatAuditMetadata, getAuditEventLabel } from "#app/utils/audit.ts";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<ActivityLogIcon />
+			Security
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+const pageSize = 25;
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const userId = await requireUserId(request);
+	const { formatDate } = await getI18n(request, { userId });
+	const searchParams = new URL(request.url).searchParams;
+	const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+
+	// we fetch one extra event so we know whether there's another page
+	const events = await prisma.auditEvent.findMany({
+		select: auditEventSelect,
+		where: { userId },
+		orderBy: { createdAt: "desc" },
+		take: pageSize + 1,
+		skip: (page - 1) * pageSize,
+	});
+
+	return json({
+		events: events.slice(0, pageSize).map(({ createdAt, ...event }) => ({
+			...event,
+			label: getAuditEventLabel(event.type),
+			details: formatAuditMetadata(event.metadata),
+			createdAtDisplay: formatDate(createdAt),
+			byAnotherUser: Boolean(event.actor && event.actor.id !== userId),
+		})),
+		page,
+		hasNextPage: events.length > pageSize,
+	});
+}
+
+export default function SecurityRoute() {
+	const data = useLoaderData<typeof loader>();
+
+	return (
+		<Flex direction="column" gap="4">
+			<Text as="p">
+				Recent security events on your account. If you don't recognize one of
+				them, change your password and sign out of your other sessions.
+			</Text>
+			{data.events.length ? (
+				<Table.Root variant="surface">
+					<Table.Header>
+						<Table.Row>
+							<Table.ColumnHeaderCell>Event</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>When</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>Where</Table.ColumnHeaderCell>
+						</Table.Row>
+					</Table.Header>
+					<Table.Body>
+						{data.events.map((event) => (
+							<Table.Row key={event.id}>
+								<Table.RowHeaderCell>
+									{event.label}
+									{event.byAnotherUser ? (
+										<Text as="div" size="1" color="gray">
+											by {event.actor?.username}
+										</Text>
+									) : null}
+									{event.details ? (
+										<Text as="div" size="1" color="gray">
+											{event.details}
+										</Text>
+									) : null}
+								</Table.RowHeaderCell>
+								<Table.Cell>{event.createdAtDisplay}</Table.Cell>
+								<Table.Cell>
+									{event.ip ?? "Unknown"}
+									{event.userAgent ? (
+										<Text
+											as="div"
+											size="1"
+											color="gray"
+											className="max-w-60 truncate"
+											title={event.userAgent}
+										>
+											{event.userAgent}
+										</Text>
+									) : null}
+								</Table.Cell>
+							</Table.Row>
+						))}
+					</Table.Body>
+				</Table.Root>
+			) : (
+				<Text as="p">Nothing has happened yet.</Text>
+			)}
+			{data.page > 1 || data.hasNextPage ? (
+				<Flex justify="between">
+					{data.page > 1 ? (
+						<Button asChild variant="soft">
+							<Link to={`?page=${data.page - 1}`}>Newer</Link>
+						</Button>
+					) : (
+						<span />
+					)}
+					{data.hasNextPage ? (
+						<Button asChild variant="soft">
+							<Link to={`?page=${data.page + 1}`}>Older</Link>
+						</Button>
+					) : null}
+				</Flex>
+			) : null}
+		</Flex>
+	);
+}
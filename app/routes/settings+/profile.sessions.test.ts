@@ -0,0 +1,66 @@
+import { expect, test } from "vitest";
+import { getSessionExpirationDate } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { createUser } from "#tests/db-utils.ts";
+import { BASE_URL, getSessionCookieHeader } from "#tests/utils.ts";
+import { action } from "./profile.sessions.tsx";
+
+async function setupUserWithSessions() {
+	const user = await prisma.user.create({
+		select: { id: true },
+		data: createUser(),
+	});
+	const createSession = () =>
+		prisma.session.create({
+			select: { id: true },
+			data: { expirationDate: getSessionExpirationDate(), userId: user.id },
+		});
+	return { user, current: await createSession(), other: await createSession() };
+}
+
+async function revokeSession(currentSessionId: string, sessionId: string) {
+	const request = new Request(`${BASE_URL}/settings/profile/sessions`, {
+		method: "POST",
+		headers: {
+			cookie: await getSessionCookieHeader({ id: currentSessionId }),
+		},
+		body: new URLSearchParams({ intent: "revoke-session", sessionId }),
+	});
+	return action({ request, params: {}, context: {} }).catch(
+		(error: unknown) => error,
+	);
+}
+
+test("revoking a session signs it out", async () => {
+	const { current, other } = await setupUserWithSessions();
+	const response = await revokeSession(current.id, other.id);
+	expect(response).toBeInstanceOf(Response);
+	expect((response as Response).status).toBe(200);
+	await expect(response).toSendToast(
+		expect.objectContaining({ title: "Signed out" }),
+	);
+	expect(
+		await prisma.session.findUnique({ where: { id: other.id } }),
+	).toBeNull();
+});
+
+test("revoking a session that's already gone is a 404", async () => {
+	const { current, other } = await setupUserWithSessions();
+	await revokeSession(current.id, other.id);
+	const response = await revokeSession(current.id, other.id);
+	expect(response).toBeInstanceOf(Response);
+	expect((response as Response).status).toBe(404);
+});
+
+test("another user's session can't be revoked", async () => {
+	const { current } = await setupUserWithSessions();
+	const { other: someoneElses } = await setupUserWithSessions();
+	const response = await revokeSession(current.id, someoneElses.id);
+	expect((response as Response).status).toBe(404);
+	expect(
+		await prisma.session.findUnique({
+			select: { id: true },
+			where: { id: someoneElses.id },
+		}),
+	).toEqual({ id: someoneElses.id });
+});
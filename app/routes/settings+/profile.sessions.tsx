@@ -0,0 +1,175 @@
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { DesktopIcon } from "@radix-ui/react-icons";
+import { Badge, Button, Card, Flex, Text } from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+	type SerializeFrom,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { requireUserId, sessionKey } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
+import { useDoubleCheck } from "#app/utils/misc.tsx";
+import { authSessionStorage } from "#app/utils/session.server.ts";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+import { describeUserAgent } from "#app/utils/user-agent.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<DesktopIcon />
+			<Translate message="sessions.breadcrumb" />
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+async function getCurrentSessionId(request: Request) {
+	const authSession = await authSessionStorage.getSession(
+		request.headers.get("cookie"),
+	);
+	return authSession.get(sessionKey) as string | undefined;
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const userId = await requireUserId(request);
+	const { formatDate } = await getI18n(request, { userId });
+	const currentSessionId = await getCurrentSessionId(request);
+	const sessions = await prisma.session.findMany({
+		select: {
+			id: true,
+			userAgent: true,
+			ip: true,
+			location: true,
+			lastSeenAt: true,
+			createdAt: true,
+		},
+		where: { userId, expirationDate: { gt: new Date() } },
+		orderBy: { lastSeenAt: "desc" },
+	});
+
+	return json({
+		sessions: sessions
+			.map(({ lastSeenAt, createdAt, ...session }) => ({
+				...session,
+				device: describeUserAgent(session.userAgent),
+				isCurrent: session.id === currentSessionId,
+				lastSeenAtDisplay: formatDate(lastSeenAt),
+				createdAtDisplay: formatDate(createdAt),
+			}))
+			// the current session always comes first
+			.sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent)),
+	});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	const userId = await requireUserId(request);
+	const formData = await request.formData();
+	invariantResponse(
+		formData.get("intent") === "revoke-session",
+		"Invalid intent",
+	);
+	const sessionId = formData.get("sessionId");
+	invariantResponse(typeof sessionId === "string", "Invalid sessionId");
+	invariantResponse(
+		sessionId !== (await getCurrentSessionId(request)),
+		"Log out to end your current session",
+	);
+	const session = await prisma.session.findFirst({
+		select: { userAgent: true, ip: true },
+		where: { id: sessionId, userId },
+	});
+	const { count } = await prisma.session.deleteMany({
+		where: { id: sessionId, userId },
+	});
+	invariantResponse(session && count, "Session not found", { status: 404 });
+	await recordAuditEvent({
+		request,
+		type: "session-revoked",
+		userId,
+		metadata: { device: describeUserAgent(session.userAgent), ip: session.ip },
+	});
+	const { t } = await getI18n(request, { userId });
+	return json({ status: "success" } as const, {
+		headers: await createToastHeaders({
+			title: t("sessions.revoked.title"),
+			description: t("sessions.revoked.description"),
+		}),
+	});
+}
+
+export default function SessionsRoute() {
+	const data = useLoaderData<typeof loader>();
+
+	return (
+		<Flex direction="column" gap="4">
+			{data.sessions.map((session) => (
+				<SessionCard key={session.id} session={session} />
+			))}
+		</Flex>
+	);
+}
+
+function SessionCard({
+	session,
+}: {
+	session: SerializeFrom<typeof loader>["sessions"][number];
+}) {
+	const { t } = useI18n();
+	return (
+		<Card variant={session.isCurrent ? "classic" : "surface"}>
+			<Flex justify="between" align="center" gap="4">
+				<Flex direction="column" gap="1">
+					<Flex align="center" gap="2">
+						<Text weight="bold">{session.device}</Text>
+						{session.isCurrent ? (
+							<Badge color="green">{t("sessions.thisDevice")}</Badge>
+						) : null}
+					</Flex>
+					<Text size="2" color="gray">
+						{[session.ip ?? t("sessions.unknownIp"), session.location]
+							.filter(Boolean)
+							.join(" · ")}
+					</Text>
+					<Text size="2" color="gray">
+						{t("sessions.lastActive", {
+							lastSeen: session.lastSeenAtDisplay,
+							created: session.createdAtDisplay,
+						})}
+					</Text>
+				</Flex>
+				{session.isCurrent ? null : <RevokeSession sessionId={session.id} />}
+			</Flex>
+		</Card>
+	);
+}
+
+function RevokeSession({ sessionId }: { sessionId: string }) {
+	const dc = useDoubleCheck();
+	const fetcher = useFetcher<typeof action>();
+	const { t } = useI18n();
+
+	return (
+		<fetcher.Form method="POST">
+			<input type="hidden" name="sessionId" value={sessionId} />
+			<Button
+				{...dc.getButtonProps({
+					type: "submit",
+					name: "intent",
+					value: "revoke-session",
+				})}
+				color={dc.doubleCheck ? "red" : undefined}
+				variant="soft"
+				loading={fetcher.state !== "idle"}
+			>
+				{dc.doubleCheck ? t("common.areYouSure") : t("sessions.signOut")}
+			</Button>
+		</fetcher.Form>
+	);
+}
@@ -0,0 +1,178 @@
+import { expect, test } from "vitest";
+import { getSessionExpirationDate } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { createUser } from "#tests/db-utils.ts";
+import { BASE_URL, getSessionCookieHeader } from "#tests/utils.ts";
+import { action } from "./profile.tags.tsx";
+
+async function setupUser() {
+	const session = await prisma.session.create({
+		select: { id: true, userId: true },
+		data: {
+			expirationDate: getSessionExpirationDate(),
+			user: { create: createUser() },
+		},
+	});
+	return {
+		userId: session.userId,
+		cookie: await getSessionCookieHeader(session),
+	};
+}
+
+function createNote(ownerId: string, tags: Array<string>) {
+	return prisma.note.create({
+		select: { id: true },
+		data: {
+			title: "A note",
+			content: "Some content",
+			ownerId,
+			tags: {
+				connectOrCreate: tags.map((name) => ({
+					where: { ownerId_name: { ownerId, name } },
+					create: { name, ownerId },
+				})),
+			},
+		},
+	});
+}
+
+function getTag(ownerId: string, name: string) {
+	return prisma.tag.findUniqueOrThrow({
+		select: { id: true, name: true, notes: { select: { id: true } } },
+		where: { ownerId_name: { ownerId, name } },
+	});
+}
+
+async function submit(cookie: string, fields: Record<string, string>) {
+	const request = new Request(`${BASE_URL}/settings/profile/tags`, {
+		method: "POST",
+		headers: { cookie },
+		body: new URLSearchParams(fields),
+	});
+	return action({ request, params: {}, context: {} }).catch(
+		(error: unknown) => error,
+	);
+}
+
+test("renaming a tag lowercases the new name", async () => {
+	const { userId, cookie } = await setupUser();
+	const note = await createNote(userId, ["work"]);
+	const tag = await getTag(userId, "work");
+
+	const response = await submit(cookie, {
+		intent: "rename-tag",
+		tagId: tag.id,
+		name: " Job ",
+	});
+	expect((response as Response).status).toBe(200);
+	expect(await getTag(userId, "job")).toEqual({
+		id: tag.id,
+		name: "job",
+		notes: [note],
+	});
+});
+
+test("a tag can't be renamed to one that already exists", async () => {
+	const { userId, cookie } = await setupUser();
+	await createNote(userId, ["work", "job"]);
+	const tag = await getTag(userId, "work");
+
+	const response = await submit(cookie, {
+		intent: "rename-tag",
+		tagId: tag.id,
+		name: "Job",
+	});
+	expect((response as Response).status).toBe(400);
+	expect(await getTag(userId, "work")).toMatchObject({ id: tag.id });
+});
+
+test("merging tags moves their notes without duplicating links", async () => {
+	const { userId, cookie } = await setupUser();
+	const both = await createNote(userId, ["work", "job"]);
+	const workOnly = await createNote(userId, ["work"]);
+	const jobOnly = await createNote(userId, ["job"]);
+	const work = await getTag(userId, "work");
+	const job = await getTag(userId, "job");
+
+	const response = await submit(cookie, {
+		intent: "merge-tag",
+		tagId: work.id,
+		targetTagId: job.id,
+	});
+	expect((response as Response).status).toBe(200);
+	await expect(response).toSendToast(
+		expect.objectContaining({ type: "success" }),
+	);
+	expect(
+		await prisma.tag.findUnique({
+			select: { id: true },
+			where: { id: work.id },
+		}),
+	).toBeNull();
+	const merged = await getTag(userId, "job");
+	expect(merged.notes.map(({ id }) => id).sort()).toEqual(
+		[both.id, workOnly.id, jobOnly.id].sort(),
+	);
+	const bothTags = await prisma.tag.findMany({
+		select: { name: true },
+		where: { notes: { some: { id: both.id } } },
+	});
+	expect(bothTags).toEqual([{ name: "job" }]);
+});
+
+test("a tag can't be merged into itself", async () => {
+	const { userId, cookie } = await setupUser();
+	await createNote(userId, ["work"]);
+	const tag = await getTag(userId, "work");
+
+	const response = await submit(cookie, {
+		intent: "merge-tag",
+		tagId: tag.id,
+		targetTagId: tag.id,
+	});
+	expect((response as Response).status).toBe(400);
+});
+
+test("missing tags and other users' tags are a 404", async () => {
+	const { userId, cookie } = await setupUser();
+	const someoneElse = await setupUser();
+	await createNote(userId, ["work"]);
+	await createNote(someoneElse.userId, ["theirs"]);
+	const tag = await getTag(userId, "work");
+	const theirs = await getTag(someoneElse.userId, "theirs");
+
+	const requests: Array<Record<string, string>> = [
+		{ intent: "rename-tag", tagId: "missing", name: "renamed" },
+		{ intent: "rename-tag", tagId: theirs.id, name: "renamed" },
+		{ intent: "merge-tag", tagId: "missing", targetTagId: tag.id },
+		{ intent: "merge-tag", tagId: tag.id, targetTagId: theirs.id },
+		{ intent: "delete-tag", tagId: "missing" },
+		{ intent: "delete-tag", tagId: theirs.id },
+	];
+	for (const fields of requests) {
+		const response = await submit(cookie, fields);
+		expect(response).toBeInstanceOf(Response);
+		expect((response as Response).status).toBe(404);
+	}
+	expect(await getTag(someoneElse.userId, "theirs")).toEqual(theirs);
+	expect(await getTag(userId, "work")).toEqual(tag);
+});
+
+test("deleting a tag keeps its notes", async () => {
+	const { userId, cookie } = await setupUser();
+	const note = await createNote(userId, ["work"]);
+	const tag = await getTag(userId, "work");
+
+	const response = await submit(cookie, {
+		intent: "delete-tag",
+		tagId: tag.id,
+	});
+	expect((response as Response).status).toBe(200);
+	expect(await prisma.tag.count({ where: { ownerId: userId } })).toBe(0);
+	expect(
+		await prisma.note.findUnique({
+			select: { id: true },
+			where: { id: note.id },
+		}),
+	).toEqual(note);
+});
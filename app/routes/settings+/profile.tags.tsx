@@ -0,0 +1,328 @@
+import { getFormProps, getInputProps, useForm } from "@conform-to/react";
+import { getZodConstraint, parseWithZod } from "@conform-to/zod";
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { BookmarkIcon } from "@radix-ui/react-icons";
+import { Button, Flex, Text } from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+	type SerializeFrom,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { z } from "zod";
+import { ErrorList, Field } from "#app/components/forms.tsx";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n, type I18n } from "#app/utils/i18n.ts";
+import { useDoubleCheck } from "#app/utils/misc.tsx";
+import { TagNameSchema } from "#app/utils/tag-validation.ts";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<BookmarkIcon />
+			<Translate message="tags.breadcrumb" />
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+const renameTagActionIntent = "rename-tag";
+const mergeTagActionIntent = "merge-tag";
+const deleteTagActionIntent = "delete-tag";
+
+const RenameTagSchema = z.object({
+	tagId: z.string(),
+	name: TagNameSchema,
+});
+
+const MergeTagSchema = z.object({
+	tagId: z.string(),
+	targetTagId: z.string({ required_error: "Choose a tag to merge into" }),
+});
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const userId = await requireUserId(request);
+	const tags = await prisma.tag.findMany({
+		select: { id: true, name: true, _count: { select: { notes: true } } },
+		where: { ownerId: userId },
+		orderBy: { name: "asc" },
+	});
+	return json({ tags });
+}
+
+type TagActionArgs = {
+	userId: string;
+	formData: FormData;
+	t: I18n["t"];
+};
+
+export async function action({ request }: ActionFunctionArgs) {
+	const userId = await requireUserId(request);
+	const formData = await request.formData();
+	const { t } = await getI18n(request, { userId });
+	const intent = formData.get("intent");
+	switch (intent) {
+		case renameTagActionIntent: {
+			return renameTagAction({ userId, formData, t });
+		}
+		case mergeTagActionIntent: {
+			return mergeTagAction({ userId, formData, t });
+		}
+		case deleteTagActionIntent: {
+			return deleteTagAction({ userId, formData, t });
+		}
+		default: {
+			throw new Response(`Invalid intent "${intent}"`, { status: 400 });
+		}
+	}
+}
+
+async function renameTagAction({ userId, formData, t }: TagActionArgs) {
+	const submission = await parseWithZod(formData, {
+		async: true,
+		schema: RenameTagSchema.superRefine(async ({ tagId, name }, ctx) => {
+			const existingTag = await prisma.tag.findUnique({
+				select: { id: true },
+				where: { ownerId_name: { ownerId: userId, name } },
+			});
+			if (existingTag && existingTag.id !== tagId) {
+				ctx.addIssue({
+					path: ["name"],
+					code: z.ZodIssueCode.custom,
+					message: t("tags.alreadyExists"),
+				});
+			}
+		}),
+	});
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	const { tagId, name } = submission.value;
+	const { count } = await prisma.tag.updateMany({
+		where: { id: tagId, ownerId: userId },
+		data: { name },
+	});
+	invariantResponse(count, "Tag not found", { status: 404 });
+
+	return json({ result: submission.reply() });
+}
+
+async function mergeTagAction({ userId, formData, t }: TagActionArgs) {
+	const submission = parseWithZod(formData, { schema: MergeTagSchema });
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	const { tagId, targetTagId } = submission.value;
+	invariantResponse(tagId !== targetTagId, "Cannot merge a tag into itself");
+	const [tag, targetTag] = await Promise.all([
+		prisma.tag.findFirst({
+			select: { name: true, notes: { select: { id: true } } },
+			where: { id: tagId, ownerId: userId },
+		}),
+		prisma.tag.findFirst({
+			select: { name: true },
+			where: { id: targetTagId, ownerId: userId },
+		}),
+	]);
+	invariantResponse(tag && targetTag, "Tag not found", { status: 404 });
+
+	await prisma.$transaction([
+		prisma.tag.update({
+			select: { id: true },
+			where: { id: targetTagId },
+			data: { notes: { connect: tag.notes } },
+		}),
+		prisma.tag.deleteMany({ where: { id: tagId, ownerId: userId } }),
+	]);
+
+	return json(
+		{ result: submission.reply() },
+		{
+			headers: await createToastHeaders({
+				type: "success",
+				title: t("tags.merged.title"),
+				description: t("tags.merged.description", {
+					from: tag.name,
+					to: targetTag.name,
+				}),
+			}),
+		},
+	);
+}
+
+async function deleteTagAction({ userId, formData }: TagActionArgs) {
+	const tagId = formData.get("tagId");
+	invariantResponse(typeof tagId === "string", "Invalid tagId");
+	const { count } = await prisma.tag.deleteMany({
+		where: { id: tagId, ownerId: userId },
+	});
+	invariantResponse(count, "Tag not found", { status: 404 });
+	return json({ status: "success" } as const);
+}
+
+export default function TagsRoute() {
+	const data = useLoaderData<typeof loader>();
+	const { t } = useI18n();
+
+	return (
+		<Flex direction="column" gap="5">
+			{data.tags.length ? (
+				data.tags.map((tag) => (
+					<TagSettings key={tag.id} tag={tag} tags={data.tags} />
+				))
+			) : (
+				<Text as="p">{t("tags.empty")}</Text>
+			)}
+		</Flex>
+	);
+}
+
+type TagData = SerializeFrom<typeof loader>["tags"][number];
+
+function TagSettings({ tag, tags }: { tag: TagData; tags: Array<TagData> }) {
+	const { t } = useI18n();
+	return (
+		<Flex
+			direction="column"
+			gap="2"
+			pb="4"
+			className="border-b border-[var(--gray-6)]"
+		>
+			<Text weight="bold">
+				{tag.name}{" "}
+				<Text weight="regular" color="gray" size="2">
+					({t("tags.noteCount", { count: tag._count.notes })})
+				</Text>
+			</Text>
+			<Flex wrap="wrap" align="start" gap="4">
+				<RenameTag tag={tag} />
+				{tags.length > 1 ? (
+					<MergeTag
+						tag={tag}
+						targets={tags.filter((target) => target.id !== tag.id)}
+					/>
+				) : null}
+				<DeleteTag tag={tag} />
+			</Flex>
+		</Flex>
+	);
+}
+
+function RenameTag({ tag }: { tag: TagData }) {
+	const fetcher = useFetcher<typeof renameTagAction>();
+	const { t } = useI18n();
+	const [form, fields] = useForm({
+		id: `rename-tag-${tag.id}`,
+		constraint: getZodConstraint(RenameTagSchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: RenameTagSchema });
+		},
+		defaultValue: { tagId: tag.id, name: tag.name },
+	});
+
+	return (
+		<fetcher.Form method="POST" {...getFormProps(form)}>
+			<input {...getInputProps(fields.tagId, { type: "hidden" })} />
+			<Flex align="start" gap="2">
+				<Field
+					labelProps={{ htmlFor: fields.name.id, children: t("common.name") }}
+					inputProps={getInputProps(fields.name, { type: "text" })}
+					errors={fields.name.errors}
+				/>
+				<Button
+					type="submit"
+					name="intent"
+					value={renameTagActionIntent}
+					variant="soft"
+					mt="5"
+					loading={fetcher.state !== "idle"}
+				>
+					{t("tags.rename")}
+				</Button>
+			</Flex>
+			<ErrorList errors={form.errors} id={form.errorId} />
+		</fetcher.Form>
+	);
+}
+
+function MergeTag({ tag, targets }: { tag: TagData; targets: Array<TagData> }) {
+	const fetcher = useFetcher<typeof mergeTagAction>();
+	const dc = useDoubleCheck();
+	const { t } = useI18n();
+	const [form, fields] = useForm({
+		id: `merge-tag-${tag.id}`,
+		lastResult: fetcher.data?.result,
+	});
+
+	return (
+		<fetcher.Form method="POST" {...getFormProps(form)}>
+			<input type="hidden" name="tagId" value={tag.id} />
+			<Flex align="end" gap="2" mt="5">
+				<label className="flex flex-col gap-1 text-body-xs">
+					{t("tags.mergeInto")}
+					<select name={fields.targetTagId.name}>
+						{targets.map((target) => (
+							<option key={target.id} value={target.id}>
+								{target.name}
+							</option>
+						))}
+					</select>
+				</label>
+				<Button
+					{...dc.getButtonProps({
+						type: "submit",
+						name: "intent",
+						value: mergeTagActionIntent,
+					})}
+					color={dc.doubleCheck ? "red" : undefined}
+					variant={dc.doubleCheck ? "solid" : "soft"}
+					loading={fetcher.state !== "idle"}
+				>
+					{dc.doubleCheck ? t("common.areYouSure") : t("tags.merge")}
+				</Button>
+			</Flex>
+			<ErrorList errors={fields.targetTagId.errors} />
+			<ErrorList errors={form.errors} id={form.errorId} />
+		</fetcher.Form>
+	);
+}
+
+function DeleteTag({ tag }: { tag: TagData }) {
+	const fetcher = useFetcher<typeof deleteTagAction>();
+	const dc = useDoubleCheck();
+	const { t } = useI18n();
+
+	return (
+		<fetcher.Form method="POST">
+			<input type="hidden" name="tagId" value={tag.id} />
+			<Button
+				{...dc.getButtonProps({
+					type: "submit",
+					name: "intent",
+					value: deleteTagActionIntent,
+				})}
+				color="red"
+				variant={dc.doubleCheck ? "solid" : "soft"}
+				mt="5"
+				loading={fetcher.state !== "idle"}
+			>
+				{dc.doubleCheck ? t("common.areYouSure") : t("common.delete")}
+			</Button>
+		</fetcher.Form>
+	);
+}
@@ -6,6 +6,7 @@ import { z } from "zod";
 import { Spacer } from "#app/components/spacer.tsx";
 import { requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
 import { useUser } from "#app/utils/user.ts";
 import { ChevronRightIcon, FileTextIcon } from "@radix-ui/react-icons";
 import { Button, Card, Container, Flex } from "@radix-ui/themes";
@@ -18,7 +19,7 @@ export const handle: BreadcrumbHandle & SEOHandle = {
 	breadcrumb: (
 		<Button variant="ghost">
 			<FileTextIcon />
-			Edit Profile
+			<Translate message="profile.breadcrumb" />
 		</Button>
 	),
 	getSitemapEntries: () => null,
@@ -41,6 +42,7 @@ const BreadcrumbHandleMatch = z.object({
 export default function EditUserProfile() {
 	const user = useUser();
 	const matches = useMatches();
+	const { t } = useI18n();
 	const breadcrumbs = matches
 		.map((m) => {
 			const result = BreadcrumbHandleMatch.safeParse(m);
@@ -58,7 +60,9 @@ export default function EditUserProfile() {
 			<Container>
 				<Flex gap="3" align="center">
 					<Button variant="ghost" asChild>
-						<Link to={`/users/${user.username}`}>Profile</Link>
+						<Link to={`/users/${user.username}`}>
+							{t("profile.profileLink")}
+						</Link>
 					</Button>
 
 					{breadcrumbs.map((breadcrumb, i, arr) => (
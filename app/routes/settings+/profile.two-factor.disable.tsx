@@ -6,8 +6,11 @@ import {
 } from "@remix-run/node";
 import { useFetcher } from "@remix-run/react";
 import { requireRecentVerification } from "#app/routes/_auth+/verify.server.ts";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
 import { requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
 import { useDoubleCheck } from "#app/utils/misc.tsx";
 import { redirectWithToast } from "#app/utils/toast.server.ts";
 import type { BreadcrumbHandle } from "./profile.tsx";
@@ -18,7 +21,7 @@ import { Button, Container, Text } from "@radix-ui/themes";
 export const handle: BreadcrumbHandle & SEOHandle = {
 	breadcrumb: (
 		<Button variant="ghost">
-			<LockOpen1Icon /> Disable
+			<LockOpen1Icon /> <Translate message="twoFactor.disable.breadcrumb" />
 		</Button>
 	),
 	getSitemapEntries: () => null,
@@ -32,26 +35,29 @@ export async function loader({ request }: LoaderFunctionArgs) {
 export async function action({ request }: ActionFunctionArgs) {
 	await requireRecentVerification(request);
 	const userId = await requireUserId(request);
-	await prisma.verification.delete({
-		where: { target_type: { target: userId, type: twoFAVerificationType } },
-	});
+	await prisma.$transaction([
+		prisma.verification.delete({
+			where: { target_type: { target: userId, type: twoFAVerificationType } },
+		}),
+		prisma.recoveryCode.deleteMany({ where: { userId } }),
+	]);
+	await recordAuditEvent({ request, type: "two-factor-disabled", userId });
+	const { t } = await getI18n(request, { userId });
 	return redirectWithToast("/settings/profile/two-factor", {
-		title: "2FA Disabled",
-		description: "Two factor authentication has been disabled.",
+		title: t("twoFactor.disabled.title"),
+		description: t("twoFactor.disabled.description"),
 	});
 }
 
 export default function TwoFactorDisableRoute() {
 	const disable2FAFetcher = useFetcher<typeof action>();
 	const dc = useDoubleCheck();
+	const { t } = useI18n();
 
 	return (
 		<Container className="mx-auto max-w-sm">
 			<disable2FAFetcher.Form method="POST">
-				<Text>
-					Disabling two factor authentication is not recommended. However, if
-					you would like to do so, click here:
-				</Text>
+				<Text>{t("twoFactor.disable.description")}</Text>
 				<Button
 					loading={disable2FAFetcher.state === "loading"}
 					{...dc.getButtonProps({
@@ -62,7 +68,7 @@ export default function TwoFactorDisableRoute() {
 					})}
 					color="red"
 				>
-					{dc.doubleCheck ? "Are you sure?" : "Disable 2FA"}
+					{dc.doubleCheck ? t("common.areYouSure") : t("twoFactor.disable")}
 				</Button>
 			</disable2FAFetcher.Form>
 		</Container>
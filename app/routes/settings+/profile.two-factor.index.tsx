@@ -8,10 +8,11 @@ import {
 import { Link, useFetcher, useLoaderData } from "@remix-run/react";
 import { requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
+import { useI18n } from "#app/utils/i18n.ts";
 import { generateTOTP } from "#app/utils/totp.server.ts";
 import { twoFAVerificationType } from "./profile.two-factor.tsx";
 import { twoFAVerifyVerificationType } from "./profile.two-factor.verify.tsx";
-import { CheckIcon, LockOpen1Icon } from "@radix-ui/react-icons";
+import { CheckIcon, IdCardIcon, LockOpen1Icon } from "@radix-ui/react-icons";
 import { Button, Flex, Text, Link as RadixLink } from "@radix-ui/themes";
 
 export const handle: SEOHandle = {
@@ -48,6 +49,9 @@ export async function action({ request }: ActionFunctionArgs) {
 export default function TwoFactorRoute() {
 	const data = useLoaderData<typeof loader>();
 	const enable2FAFetcher = useFetcher<typeof action>();
+	const { t } = useI18n();
+	// the app's name is a link, so it's put into the sentence here
+	const [beforeApp, afterApp] = t("twoFactor.description").split("{app}");
 
 	return (
 		<Flex direction="column" gap="4">
@@ -55,12 +59,18 @@ export default function TwoFactorRoute() {
 				<>
 					<Text size="6">
 						<CheckIcon name="check" />
-						You have enabled two-factor authentication.
+						{t("twoFactor.enabled")}
 					</Text>
+					<Button asChild variant="soft">
+						<Link to="recovery-codes">
+							<IdCardIcon name="id-card" />
+							{t("twoFactor.recoveryCodes")}
+						</Link>
+					</Button>
 					<Button asChild>
 						<Link to="disable">
 							<LockOpen1Icon name="lock-open-1" />
-							Disable 2FA
+							{t("twoFactor.disable")}
 						</Link>
 					</Button>
 				</>
@@ -68,18 +78,14 @@ export default function TwoFactorRoute() {
 				<>
 					<Flex align="center" gap="2">
 						<LockOpen1Icon name="lock-open-1" />
-						<Text as="div">
-							You have not enabled two-factor authentication yet.
-						</Text>
+						<Text as="div">{t("twoFactor.notEnabled")}</Text>
 					</Flex>
 					<Text size="2">
-						Two factor authentication adds an extra layer of security to your
-						account. You will need to enter a code from an authenticator app
-						like{" "}
+						{beforeApp}
 						<RadixLink underline="always" href="https://1password.com/">
 							1Password
-						</RadixLink>{" "}
-						to log in.
+						</RadixLink>
+						{afterApp}
 					</Text>
 					<enable2FAFetcher.Form method="POST">
 						<Button
@@ -89,7 +95,7 @@ export default function TwoFactorRoute() {
 							loading={enable2FAFetcher.state === "loading"}
 							className="mx-auto"
 						>
-							Enable 2FA
+							{t("profile.enableTwoFactor")}
 						</Button>
 					</enable2FAFetcher.Form>
 				</>
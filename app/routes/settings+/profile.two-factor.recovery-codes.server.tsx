@@ -0,0 +1,90 @@
+import * as E from "@react-email/components";
+import { completeTwoFactorVerification } from "#app/routes/_auth+/login.server.ts";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { queueEmail } from "#app/utils/email.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import type { I18n } from "#app/utils/i18n.ts";
+import { getDomainUrl } from "#app/utils/misc.tsx";
+import { getRemainingRecoveryCodeCount } from "#app/utils/recovery-codes.server.ts";
+
+/**
+ * Called once a recovery code has been accepted in place of a 2FA code. We let
+ * the user know by email since this is how an attacker would get around 2FA.
+ */
+export async function handleRecoveryCodeVerification({
+	request,
+	userId,
+	redirectTo,
+}: {
+	request: Request;
+	userId: string;
+	redirectTo?: string;
+}) {
+	const remainingCount = await getRemainingRecoveryCodeCount(userId);
+	await recordAuditEvent({
+		request,
+		type: "recovery-code-used",
+		userId,
+		metadata: { remaining: remainingCount },
+	});
+
+	const user = await prisma.user.findUniqueOrThrow({
+		select: { email: true },
+		where: { id: userId },
+	});
+	const recoveryCodesUrl = new URL(
+		"/settings/profile/two-factor/recovery-codes",
+		getDomainUrl(request),
+	);
+	const i18n = await getI18n(request, { userId });
+	await queueEmail({
+		to: user.email,
+		subject: i18n.t("recoveryCodes.usedEmail.subject"),
+		react: (
+			<RecoveryCodeUsedEmail
+				remainingCount={remainingCount}
+				recoveryCodesUrl={recoveryCodesUrl.toString()}
+				i18n={i18n}
+			/>
+		),
+	});
+
+	return completeTwoFactorVerification({
+		request,
+		redirectTo,
+		metadata: { recoveryCode: true },
+	});
+}
+
+function RecoveryCodeUsedEmail({
+	remainingCount,
+	recoveryCodesUrl,
+	i18n: { locale, t },
+}: {
+	remainingCount: number;
+	recoveryCodesUrl: string;
+	i18n: I18n;
+}) {
+	return (
+		<E.Html lang={locale} dir="ltr">
+			<E.Container>
+				<h1>
+					<E.Text>{t("recoveryCodes.usedEmail.heading")}</E.Text>
+				</h1>
+				<p>
+					<E.Text>
+						{t("recoveryCodes.usedEmail.body", { count: remainingCount })}
+					</E.Text>
+				</p>
+				<p>
+					<E.Text>{t("recoveryCodes.usedEmail.ifYou")}</E.Text>
+				</p>
+				<E.Link href={recoveryCodesUrl}>{recoveryCodesUrl}</E.Link>
+				<p>
+					<E.Text>{t("recoveryCodes.usedEmail.ifNotYou")}</E.Text>
+				</p>
+			</E.Container>
+		</E.Html>
+	);
+}
@@ -0,0 +1,145 @@
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { IdCardIcon } from "@radix-ui/react-icons";
+import {
+	Button,
+	Callout,
+	Card,
+	Code,
+	Flex,
+	Grid,
+	Text,
+} from "@radix-ui/themes";
+import {
+	json,
+	redirect,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { requireRecentVerification } from "#app/routes/_auth+/verify.server.ts";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
+import { useDoubleCheck } from "#app/utils/misc.tsx";
+import {
+	createRecoveryCodes,
+	flashRecoveryCodes,
+	getFlashedRecoveryCodes,
+	getRemainingRecoveryCodeCount,
+} from "#app/utils/recovery-codes.server.ts";
+import { redirectWithToast } from "#app/utils/toast.server.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+import { twoFAVerificationType } from "./profile.two-factor.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<IdCardIcon />
+			<Translate message="twoFactor.recoveryCodes" />
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+async function requireTwoFactor(userId: string) {
+	const verification = await prisma.verification.findUnique({
+		select: { id: true },
+		where: { target_type: { target: userId, type: twoFAVerificationType } },
+	});
+	if (!verification) throw redirect("/settings/profile/two-factor");
+}
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	const userId = await requireUserId(request);
+	await requireTwoFactor(userId);
+	// codes we just generated are only in this browser's signed cookie, so we
+	// can show them without asking the user to reverify first
+	const { codes, setCookie } = await getFlashedRecoveryCodes(request);
+	if (!codes) await requireRecentVerification(request);
+	const remainingCount = await getRemainingRecoveryCodeCount(userId);
+	return json(
+		{ codes, remainingCount },
+		{ headers: { "set-cookie": setCookie } },
+	);
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	await requireRecentVerification(request);
+	const userId = await requireUserId(request);
+	await requireTwoFactor(userId);
+	const codes = await createRecoveryCodes(userId);
+	await recordAuditEvent({
+		request,
+		type: "recovery-codes-regenerated",
+		userId,
+	});
+	const { t } = await getI18n(request, { userId });
+	return redirectWithToast(
+		"/settings/profile/two-factor/recovery-codes",
+		{
+			type: "success",
+			title: t("recoveryCodes.regenerated.title"),
+			description: t("recoveryCodes.regenerated.description"),
+		},
+		{ headers: { "set-cookie": await flashRecoveryCodes(request, codes) } },
+	);
+}
+
+export default function RecoveryCodesRoute() {
+	const data = useLoaderData<typeof loader>();
+	const { t } = useI18n();
+
+	return (
+		<Flex direction="column" gap="5">
+			<Text as="p">{t("recoveryCodes.description")}</Text>
+			{data.codes ? (
+				<>
+					<Callout.Root color="amber">
+						<Callout.Text>{t("recoveryCodes.saveThem")}</Callout.Text>
+					</Callout.Root>
+					<Card>
+						<Grid columns="2" gap="2" aria-label={t("twoFactor.recoveryCodes")}>
+							{data.codes.map((code) => (
+								<Code key={code} size="3" variant="ghost">
+									{code}
+								</Code>
+							))}
+						</Grid>
+					</Card>
+				</>
+			) : (
+				<Text as="p" color={data.remainingCount ? undefined : "red"}>
+					{t("recoveryCodes.remaining", { count: data.remainingCount })}
+				</Text>
+			)}
+			<RegenerateRecoveryCodes />
+		</Flex>
+	);
+}
+
+function RegenerateRecoveryCodes() {
+	const fetcher = useFetcher<typeof action>();
+	const dc = useDoubleCheck();
+	const { t } = useI18n();
+
+	return (
+		<fetcher.Form method="POST">
+			<Button
+				variant="soft"
+				loading={fetcher.state !== "idle"}
+				{...dc.getButtonProps({
+					type: "submit",
+					name: "intent",
+					value: "regenerate",
+				})}
+				color={dc.doubleCheck ? "red" : undefined}
+			>
+				{dc.doubleCheck
+					? t("recoveryCodes.regenerate.confirm")
+					: t("recoveryCodes.regenerate")}
+			</Button>
+		</fetcher.Form>
+	);
+}
@@ -1,6 +1,7 @@
 import type { SEOHandle } from "@nasa-gcn/remix-seo";
 import { Outlet } from "@remix-run/react";
 import type { VerificationTypes } from "#app/routes/_auth+/verify.tsx";
+import { Translate } from "#app/utils/i18n.ts";
 import type { BreadcrumbHandle } from "./profile.tsx";
 import { LockClosedIcon } from "@radix-ui/react-icons";
 import { Button } from "@radix-ui/themes";
@@ -9,7 +10,7 @@ export const handle: BreadcrumbHandle & SEOHandle = {
 	breadcrumb: (
 		<Button variant="ghost">
 			<LockClosedIcon />
-			2FA
+			<Translate message="twoFactor.breadcrumb" />
 		</Button>
 	),
 	getSitemapEntries: () => null,
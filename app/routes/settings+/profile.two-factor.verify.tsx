@@ -17,9 +17,16 @@ import * as QRCode from "qrcode";
 import { z } from "zod";
 import { ErrorList, OTPField } from "#app/components/forms.tsx";
 import { isCodeValid } from "#app/routes/_auth+/verify.server.ts";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
 import { requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
 import { getDomainUrl, useIsPending } from "#app/utils/misc.tsx";
+import {
+	createRecoveryCodes,
+	flashRecoveryCodes,
+} from "#app/utils/recovery-codes.server.ts";
 import { redirectWithToast } from "#app/utils/toast.server.ts";
 import { getTOTPAuthUri } from "#app/utils/totp.server.ts";
 import type { BreadcrumbHandle } from "./profile.tsx";
@@ -31,7 +38,7 @@ export const handle: BreadcrumbHandle & SEOHandle = {
 	breadcrumb: (
 		<Button variant="ghost">
 			<CheckIcon />
-			Verify
+			<Translate message="twoFactor.verify.breadcrumb" />
 		</Button>
 	),
 	getSitemapEntries: () => null,
@@ -84,6 +91,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
 export async function action({ request }: ActionFunctionArgs) {
 	const userId = await requireUserId(request);
 	const formData = await request.formData();
+	const { t } = await getI18n(request, { userId });
 
 	const submission = await parseWithZod(formData, {
 		schema: () =>
@@ -98,7 +106,7 @@ export async function action({ request }: ActionFunctionArgs) {
 					ctx.addIssue({
 						path: ["code"],
 						code: z.ZodIssueCode.custom,
-						message: "Invalid code",
+						message: t("twoFactor.verify.invalidCode"),
 					});
 					return z.NEVER;
 				}
@@ -127,11 +135,21 @@ export async function action({ request }: ActionFunctionArgs) {
 				},
 				data: { type: twoFAVerificationType },
 			});
-			return redirectWithToast("/settings/profile/two-factor", {
-				type: "success",
-				title: "Enabled",
-				description: "Two-factor authentication has been enabled.",
-			});
+			await recordAuditEvent({ request, type: "two-factor-enabled", userId });
+			const recoveryCodes = await createRecoveryCodes(userId);
+			return redirectWithToast(
+				"/settings/profile/two-factor/recovery-codes",
+				{
+					type: "success",
+					title: t("twoFactor.enabled.title"),
+					description: t("twoFactor.enabled.description"),
+				},
+				{
+					headers: {
+						"set-cookie": await flashRecoveryCodes(request, recoveryCodes),
+					},
+				},
+			);
 		}
 	}
 }
@@ -140,6 +158,7 @@ export default function TwoFactorRoute() {
 	const data = useLoaderData<typeof loader>();
 	const actionData = useActionData<typeof action>();
 	const navigation = useNavigation();
+	const { t } = useI18n();
 
 	const isPending = useIsPending();
 	const pendingIntent = isPending ? navigation.formData?.get("intent") : null;
@@ -157,27 +176,26 @@ export default function TwoFactorRoute() {
 	return (
 		<Box>
 			<Flex direction="column" align="center" gap="4">
-				<img alt="qr code" src={data.qrCode} className="h-56 w-56" />
-				<Text as="p">Scan this QR code with your authenticator app.</Text>
+				<img
+					alt={t("twoFactor.verify.qrCode")}
+					src={data.qrCode}
+					className="h-56 w-56"
+				/>
+				<Text as="p">{t("twoFactor.verify.scan")}</Text>
 				<Text as="p" size="2">
-					If you cannot scan the QR code, you can manually add this account to
-					your authenticator app using this code:
+					{t("twoFactor.verify.manual")}
 				</Text>
 				<Box p="3">
 					<Code
 						size="2"
 						className="whitespace-pre-wrap break-all"
-						aria-label="One-time Password URI"
+						aria-label={t("twoFactor.verify.otpUri")}
 					>
 						{data.otpUri}
 					</Code>
 				</Box>
 				<Text as="p" size="2">
-					Once you've added the account, enter the code from your authenticator
-					app below. Once you enable 2FA, you will need to enter a code from
-					your authenticator app every time you log in or perform important
-					actions. Do not lose access to your authenticator app, or you will
-					lose access to your account.
+					{t("twoFactor.verify.instructions")}
 				</Text>
 				<Flex direction="column" width="100%" justify="center" gap="4">
 					<Form method="POST" {...getFormProps(form)} className="flex-1">
@@ -185,7 +203,7 @@ export default function TwoFactorRoute() {
 							<OTPField
 								labelProps={{
 									htmlFor: fields.code.id,
-									children: "Code",
+									children: t("twoFactor.verify.code"),
 								}}
 								inputProps={{
 									...getInputProps(fields.code, { type: "text" }),
@@ -210,7 +228,7 @@ export default function TwoFactorRoute() {
 								name="intent"
 								value="verify"
 							>
-								Submit
+								{t("twoFactor.verify.submit")}
 							</Button>
 							<Button
 								variant="outline"
@@ -223,7 +241,7 @@ export default function TwoFactorRoute() {
 								value="cancel"
 								disabled={isPending}
 							>
-								Cancel
+								{t("common.cancel")}
 							</Button>
 						</Flex>
 					</Form>
@@ -0,0 +1,310 @@
+import { getFormProps, getInputProps, useForm } from "@conform-to/react";
+import { getZodConstraint, parseWithZod } from "@conform-to/zod";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { LightningBoltIcon } from "@radix-ui/react-icons";
+import {
+	Badge,
+	Button,
+	Card,
+	Checkbox,
+	Flex,
+	Heading,
+	Link as RadixLink,
+	Text,
+} from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+	type SerializeFrom,
+} from "@remix-run/node";
+import { Link, useFetcher, useLoaderData } from "@remix-run/react";
+import { z } from "zod";
+import { ErrorList, Field } from "#app/components/forms.tsx";
+import { requireRecentVerification } from "#app/routes/_auth+/verify.server.ts";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
+import { redirectWithToast } from "#app/utils/toast.server.ts";
+import {
+	createWebhookSecret,
+	getWebhookUrlError,
+} from "#app/utils/webhooks.server.ts";
+import {
+	WebhookEventSchema,
+	type WebhookDeliveryStatus,
+	parseWebhookEvents,
+	webhookEventLabels,
+	webhookEvents,
+} from "#app/utils/webhooks.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<LightningBoltIcon />
+			<Translate message="profile.webhooks" />
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+const MAX_WEBHOOKS = 10;
+
+const CreateWebhookSchema = z.object({
+	url: z.string().trim().url().max(2000),
+	events: z
+		.array(WebhookEventSchema)
+		.min(1, { message: "Choose at least one event" }),
+});
+
+export async function loader({ request }: LoaderFunctionArgs) {
+	await requireRecentVerification(request);
+	const userId = await requireUserId(request);
+	const { formatDate } = await getI18n(request, { userId });
+	const webhooks = await prisma.webhook.findMany({
+		select: {
+			id: true,
+			url: true,
+			events: true,
+			enabled: true,
+			disabledReason: true,
+			createdAt: true,
+			deliveries: {
+				select: { status: true, responseStatus: true, createdAt: true },
+				orderBy: { createdAt: "desc" },
+				take: 1,
+			},
+		},
+		where: { userId },
+		orderBy: { createdAt: "desc" },
+	});
+	return json({
+		webhooks: webhooks.map(
+			({ events, createdAt, deliveries: [lastDelivery], ...webhook }) => ({
+				...webhook,
+				events: parseWebhookEvents(events),
+				createdAtDisplay: formatDate(createdAt),
+				lastDelivery: lastDelivery
+					? {
+							status: lastDelivery.status,
+							responseStatus: lastDelivery.responseStatus,
+							createdAtDisplay: formatDate(lastDelivery.createdAt),
+						}
+					: null,
+			}),
+		),
+		canCreate: webhooks.length < MAX_WEBHOOKS,
+	});
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+	await requireRecentVerification(request);
+	const userId = await requireUserId(request);
+	const formData = await request.formData();
+	const { t } = await getI18n(request, { userId });
+	const submission = await parseWithZod(formData, {
+		async: true,
+		schema: CreateWebhookSchema.superRefine(async ({ url }, ctx) => {
+			const urlError = getWebhookUrlError(url);
+			if (urlError) {
+				ctx.addIssue({
+					path: ["url"],
+					code: z.ZodIssueCode.custom,
+					message: urlError,
+				});
+			}
+			const count = await prisma.webhook.count({ where: { userId } });
+			if (count >= MAX_WEBHOOKS) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					message: t("webhooks.tooMany", { count: MAX_WEBHOOKS }),
+				});
+			}
+		}),
+	});
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	const { url, events } = submission.value;
+	const webhook = await prisma.webhook.create({
+		select: { id: true },
+		data: {
+			url,
+			events: JSON.stringify(events),
+			secret: createWebhookSecret(),
+			userId,
+		},
+	});
+	await recordAuditEvent({
+		request,
+		type: "webhook-created",
+		userId,
+		metadata: { url, events },
+	});
+	return redirectWithToast(`/settings/profile/webhooks/${webhook.id}`, {
+		type: "success",
+		title: t("webhooks.created.title"),
+		description: t("webhooks.created.description"),
+	});
+}
+
+export default function WebhooksRoute() {
+	const data = useLoaderData<typeof loader>();
+	const { t } = useI18n();
+
+	return (
+		<Flex direction="column" gap="5">
+			<Text as="p">{t("webhooks.description")}</Text>
+			{data.webhooks.length ? (
+				<Flex direction="column" gap="3">
+					{data.webhooks.map((webhook) => (
+						<WebhookCard key={webhook.id} webhook={webhook} />
+					))}
+				</Flex>
+			) : (
+				<Text as="p" color="gray">
+					{t("webhooks.empty")}
+				</Text>
+			)}
+			{data.canCreate ? (
+				<CreateWebhook />
+			) : (
+				<Text as="p" color="gray">
+					{t("webhooks.limitReached")}
+				</Text>
+			)}
+		</Flex>
+	);
+}
+
+function WebhookCard({
+	webhook,
+}: {
+	webhook: SerializeFrom<typeof loader>["webhooks"][number];
+}) {
+	const { lastDelivery } = webhook;
+	const { t } = useI18n();
+	return (
+		<Card>
+			<Flex justify="between" align="center" gap="4">
+				<Flex direction="column" gap="1" className="min-w-0">
+					<Flex align="center" gap="2">
+						<Text weight="bold" className="truncate">
+							{webhook.url}
+						</Text>
+						{webhook.enabled ? null : (
+							<Badge color="red">{t("webhooks.off")}</Badge>
+						)}
+					</Flex>
+					<Flex gap="1" wrap="wrap">
+						{webhook.events.map((event) => (
+							<Badge key={event} variant="soft">
+								{t(webhookEventLabels[event])}
+							</Badge>
+						))}
+					</Flex>
+					<Text size="2" color="gray">
+						{webhook.disabledReason ??
+							(lastDelivery
+								? t(
+										lastDelivery.responseStatus
+											? "webhooks.lastDeliveryWithResponse"
+											: "webhooks.lastDelivery",
+										{
+											date: lastDelivery.createdAtDisplay,
+											status: t(
+												`webhooks.status.${
+													lastDelivery.status as WebhookDeliveryStatus
+												}`,
+											),
+											response: lastDelivery.responseStatus ?? "",
+										},
+									)
+								: t("webhooks.nothingDelivered", {
+										date: webhook.createdAtDisplay,
+									}))}
+					</Text>
+				</Flex>
+				<Button asChild variant="soft">
+					<Link to={webhook.id}>{t("webhooks.details")}</Link>
+				</Button>
+			</Flex>
+		</Card>
+	);
+}
+
+function CreateWebhook() {
+	const fetcher = useFetcher<typeof action>();
+	const [form, fields] = useForm({
+		id: "create-webhook",
+		constraint: getZodConstraint(CreateWebhookSchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: CreateWebhookSchema });
+		},
+		defaultValue: {
+			events: webhookEvents.filter((event) => event.startsWith("note.")),
+		},
+	});
+	const { t } = useI18n();
+	const [beforeDocs, afterDocs] = t("webhooks.add.seeDocs").split("{docs}");
+
+	return (
+		<fetcher.Form method="POST" {...getFormProps(form)}>
+			<Heading as="h2" size="4" mb="2">
+				{t("webhooks.add.heading")}
+			</Heading>
+			<Flex direction="column" gap="3">
+				<Field
+					labelProps={{
+						htmlFor: fields.url.id,
+						children: t("webhooks.add.url"),
+					}}
+					inputProps={{
+						...getInputProps(fields.url, { type: "url" }),
+						placeholder: "https://example.com/webhooks/epic-notes",
+					}}
+					errors={fields.url.errors}
+				/>
+				<fieldset className="flex flex-col gap-2">
+					<legend className="mb-2 text-body-xs">
+						{t("webhooks.add.events")}
+					</legend>
+					{webhookEvents.map((event) => (
+						<Text as="label" size="2" key={event}>
+							<Flex gap="2" align="center">
+								<Checkbox
+									name={fields.events.name}
+									value={event}
+									defaultChecked={fields.events.initialValue?.includes(event)}
+								/>
+								{t(webhookEventLabels[event])}
+							</Flex>
+						</Text>
+					))}
+					<ErrorList id={fields.events.errorId} errors={fields.events.errors} />
+				</fieldset>
+				<ErrorList errors={form.errors} id={form.errorId} />
+				<Text size="2" color="gray">
+					{beforeDocs}
+					<RadixLink asChild>
+						<Link to="/api/docs">{t("webhooks.add.apiDocs")}</Link>
+					</RadixLink>
+					{afterDocs}
+				</Text>
+				<div>
+					<Button type="submit" loading={fetcher.state !== "idle"}>
+						{t("webhooks.add.submit")}
+					</Button>
+				</div>
+			</Flex>
+		</fetcher.Form>
+	);
+}
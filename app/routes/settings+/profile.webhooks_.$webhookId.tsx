@@ -0,0 +1,395 @@
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { ArrowLeftIcon, LightningBoltIcon } from "@radix-ui/react-icons";
+import {
+	Badge,
+	Button,
+	Callout,
+	Code,
+	Flex,
+	Heading,
+	Table,
+	Text,
+} from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import { Link, useFetcher, useLoaderData } from "@remix-run/react";
+import { useState } from "react";
+import { requireRecentVerification } from "#app/routes/_auth+/verify.server.ts";
+import { recordAuditEvent } from "#app/utils/audit.server.ts";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { getI18n } from "#app/utils/i18n.server.ts";
+import { Translate, useI18n } from "#app/utils/i18n.ts";
+import { useDoubleCheck } from "#app/utils/misc.tsx";
+import {
+	createToastHeaders,
+	redirectWithToast,
+} from "#app/utils/toast.server.ts";
+import { sendTestWebhookEvent } from "#app/utils/webhooks.server.ts";
+import {
+	WEBHOOK_MAX_CONSECUTIVE_FAILURES,
+	WEBHOOK_SIGNATURE_HEADER,
+	type WebhookDeliveryStatus,
+	getWebhookEventLabel,
+	parseWebhookEvents,
+	webhookEventLabels,
+} from "#app/utils/webhooks.ts";
+import type { BreadcrumbHandle } from "./profile.tsx";
+
+export const handle: BreadcrumbHandle & SEOHandle = {
+	breadcrumb: (
+		<Button variant="ghost">
+			<LightningBoltIcon />
+			<Translate message="webhook.breadcrumb" />
+		</Button>
+	),
+	getSitemapEntries: () => null,
+};
+
+const deliveryLogSize = 50;
+
+const statusColors = {
+	pending: "gray",
+	succeeded: "green",
+	failed: "red",
+} as const satisfies Record<WebhookDeliveryStatus, string>;
+
+const sendTestEventActionIntent = "send-test-event";
+const enableWebhookActionIntent = "enable-webhook";
+const disableWebhookActionIntent = "disable-webhook";
+const deleteWebhookActionIntent = "delete-webhook";
+
+async function requireWebhook(request: Request, webhookId: string) {
+	const userId = await requireUserId(request);
+	const webhook = await prisma.webhook.findFirst({
+		select: { id: true, url: true },
+		where: { id: webhookId, userId },
+	});
+	invariantResponse(webhook, "Webhook not found", { status: 404 });
+	return { userId, webhook };
+}
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+	await requireRecentVerification(request);
+	const userId = await requireUserId(request);
+	const { formatDate, t } = await getI18n(request, { userId });
+	const webhook = await prisma.webhook.findFirst({
+		select: {
+			id: true,
+			url: true,
+			secret: true,
+			events: true,
+			enabled: true,
+			disabledReason: true,
+			consecutiveFailures: true,
+			deliveries: {
+				select: {
+					id: true,
+					event: true,
+					status: true,
+					attempts: true,
+					responseStatus: true,
+					responseBody: true,
+					error: true,
+					duration: true,
+					createdAt: true,
+				},
+				orderBy: { createdAt: "desc" },
+				take: deliveryLogSize,
+			},
+		},
+		where: { id: params.webhookId, userId },
+	});
+	invariantResponse(webhook, "Webhook not found", { status: 404 });
+	const { events, deliveries, ...rest } = webhook;
+	return json({
+		webhook: { ...rest, events: parseWebhookEvents(events) },
+		deliveries: deliveries.map(({ createdAt, ...delivery }) => ({
+			...delivery,
+			status: delivery.status as WebhookDeliveryStatus,
+			label: getWebhookEventLabel(delivery.event, t),
+			createdAtDisplay: formatDate(createdAt),
+		})),
+	});
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+	await requireRecentVerification(request);
+	const { userId, webhook } = await requireWebhook(
+		request,
+		params.webhookId ?? "",
+	);
+	const formData = await request.formData();
+	const { t } = await getI18n(request, { userId });
+	const intent = formData.get("intent");
+	switch (intent) {
+		case sendTestEventActionIntent: {
+			await sendTestWebhookEvent(webhook);
+			return json({ status: "success" } as const, {
+				headers: await createToastHeaders({
+					title: t("webhook.testSent.title"),
+					description: t("webhook.testSent.description"),
+				}),
+			});
+		}
+		case enableWebhookActionIntent: {
+			await prisma.webhook.update({
+				select: { id: true },
+				where: { id: webhook.id },
+				data: { enabled: true, disabledReason: null, consecutiveFailures: 0 },
+			});
+			return json({ status: "success" } as const);
+		}
+		case disableWebhookActionIntent: {
+			await prisma.webhook.update({
+				select: { id: true },
+				where: { id: webhook.id },
+				data: { enabled: false, disabledReason: null },
+			});
+			return json({ status: "success" } as const);
+		}
+		case deleteWebhookActionIntent: {
+			await prisma.webhook.delete({
+				select: { id: true },
+				where: { id: webhook.id },
+			});
+			await recordAuditEvent({
+				request,
+				type: "webhook-deleted",
+				userId,
+				metadata: { url: webhook.url },
+			});
+			return redirectWithToast("/settings/profile/webhooks", {
+				title: t("webhook.deleted.title"),
+				description: t("webhook.deleted.description", { url: webhook.url }),
+			});
+		}
+		default: {
+			throw new Response(`Invalid intent "${intent}"`, { status: 400 });
+		}
+	}
+}
+
+export default function WebhookRoute() {
+	const data = useLoaderData<typeof loader>();
+	const { webhook } = data;
+	const { t } = useI18n();
+
+	return (
+		<Flex direction="column" gap="5">
+			<Flex justify="between" align="center" gap="4">
+				<Heading as="h2" size="4" className="min-w-0 truncate">
+					{webhook.url}
+				</Heading>
+				<Button asChild variant="soft">
+					<Link to="/settings/profile/webhooks">
+						<ArrowLeftIcon />
+						{t("webhook.all")}
+					</Link>
+				</Button>
+			</Flex>
+			{webhook.enabled ? null : (
+				<Callout.Root color="red">
+					<Callout.Text>
+						{webhook.disabledReason ?? t("webhook.turnedOff")}{" "}
+						{t("webhook.offNotice")}
+					</Callout.Text>
+				</Callout.Root>
+			)}
+			<Flex gap="1" wrap="wrap">
+				{webhook.events.map((event) => (
+					<Badge key={event} variant="soft">
+						{t(webhookEventLabels[event])}
+					</Badge>
+				))}
+			</Flex>
+			<SigningSecret secret={webhook.secret} />
+			<WebhookActions enabled={webhook.enabled} />
+			<Flex direction="column" gap="3">
+				<Heading as="h3" size="3">
+					{t("webhook.recentDeliveries")}
+				</Heading>
+				{webhook.enabled && webhook.consecutiveFailures ? (
+					<Text as="p" size="2" color="red">
+						{t("webhook.failing", {
+							count: webhook.consecutiveFailures,
+							max: WEBHOOK_MAX_CONSECUTIVE_FAILURES,
+						})}
+					</Text>
+				) : null}
+				<DeliveryLog />
+			</Flex>
+		</Flex>
+	);
+}
+
+function SigningSecret({ secret }: { secret: string }) {
+	const [isRevealed, setIsRevealed] = useState(false);
+	const { t } = useI18n();
+	const [beforeHeader, afterHeader = ""] = t(
+		"webhook.secret.instructions",
+	).split("{header}");
+	const [beforeExample, afterExample = ""] = afterHeader.split("{example}");
+	const [beforeV1, afterV1 = ""] = afterExample.split("{v1}");
+	const [beforeId, afterId] = afterV1.split("{id}");
+
+	return (
+		<Flex direction="column" gap="2">
+			<Heading as="h3" size="3">
+				{t("webhook.secret.heading")}
+			</Heading>
+			<Flex align="center" gap="3">
+				<Code size="3" className="break-all">
+					{isRevealed ? secret : `${secret.slice(0, 6)}${"•".repeat(20)}`}
+				</Code>
+				<Button
+					variant="ghost"
+					size="1"
+					onClick={() => setIsRevealed((revealed) => !revealed)}
+				>
+					{isRevealed ? t("webhook.secret.hide") : t("webhook.secret.reveal")}
+				</Button>
+			</Flex>
+			<Text as="p" size="2" color="gray">
+				{beforeHeader}
+				<Code>{WEBHOOK_SIGNATURE_HEADER}</Code>
+				{beforeExample}
+				<Code>t=1700000000,v1=5257a8…</Code>
+				{beforeV1}
+				<Code>v1</Code>
+				{beforeId}
+				<Code>id</Code>
+				{afterId}
+			</Text>
+		</Flex>
+	);
+}
+
+function WebhookActions({ enabled }: { enabled: boolean }) {
+	const fetcher = useFetcher<typeof action>();
+	const dc = useDoubleCheck();
+	const submittingIntent =
+		fetcher.state === "idle" ? null : fetcher.formData?.get("intent");
+	const { t } = useI18n();
+
+	return (
+		<fetcher.Form method="POST">
+			<Flex gap="3" wrap="wrap">
+				<Button
+					type="submit"
+					name="intent"
+					value={sendTestEventActionIntent}
+					loading={submittingIntent === sendTestEventActionIntent}
+				>
+					{t("webhook.sendTest")}
+				</Button>
+				<Button
+					type="submit"
+					name="intent"
+					variant="soft"
+					value={
+						enabled ? disableWebhookActionIntent : enableWebhookActionIntent
+					}
+					loading={
+						submittingIntent === disableWebhookActionIntent ||
+						submittingIntent === enableWebhookActionIntent
+					}
+				>
+					{enabled ? t("webhook.turnOff") : t("webhook.turnOn")}
+				</Button>
+				<Button
+					{...dc.getButtonProps({
+						type: "submit",
+						name: "intent",
+						value: deleteWebhookActionIntent,
+					})}
+					color="red"
+					variant={dc.doubleCheck ? "solid" : "soft"}
+					loading={submittingIntent === deleteWebhookActionIntent}
+				>
+					{dc.doubleCheck ? t("common.areYouSure") : t("common.delete")}
+				</Button>
+			</Flex>
+		</fetcher.Form>
+	);
+}
+
+function DeliveryLog() {
+	const { deliveries } = useLoaderData<typeof loader>();
+	const { t } = useI18n();
+	if (!deliveries.length) {
+		return (
+			<Text as="p" color="gray">
+				{t("webhook.noDeliveries")}
+			</Text>
+		);
+	}
+
+	return (
+		<Table.Root variant="surface">
+			<Table.Header>
+				<Table.Row>
+					<Table.ColumnHeaderCell>
+						{t("webhook.column.event")}
+					</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>
+						{t("webhook.column.status")}
+					</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>
+						{t("webhook.column.response")}
+					</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>
+						{t("webhook.column.when")}
+					</Table.ColumnHeaderCell>
+				</Table.Row>
+			</Table.Header>
+			<Table.Body>
+				{deliveries.map((delivery) => (
+					<Table.Row key={delivery.id}>
+						<Table.RowHeaderCell>
+							{delivery.label}
+							<Text as="div" size="1" color="gray">
+								{delivery.id}
+							</Text>
+						</Table.RowHeaderCell>
+						<Table.Cell>
+							<Badge color={statusColors[delivery.status]}>
+								{delivery.status === "pending" && delivery.attempts
+									? t("webhook.retrying")
+									: t(`webhooks.status.${delivery.status}`)}
+							</Badge>
+							<Text as="div" size="1" color="gray">
+								{t("webhook.attempts", { count: delivery.attempts })}
+							</Text>
+						</Table.Cell>
+						<Table.Cell>
+							{delivery.responseStatus ?? "—"}
+							{delivery.duration !== null ? (
+								<Text as="span" size="1" color="gray">
+									{" "}
+									{t("webhook.duration", { duration: delivery.duration })}
+								</Text>
+							) : null}
+							{delivery.error || delivery.responseBody ? (
+								<Text
+									as="div"
+									size="1"
+									color="gray"
+									className="max-w-60 truncate"
+									title={delivery.responseBody ?? delivery.error ?? undefined}
+								>
+									{delivery.error ?? delivery.responseBody}
+								</Text>
+							) : null}
+						</Table.Cell>
+						<Table.Cell>{delivery.createdAtDisplay}</Table.Cell>
+					</Table.Row>
+				))}
+			</Table.Body>
+		</Table.Root>
+	);
+}
@@ -0,0 +1,87 @@
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { Container, Flex, Heading, Text } from "@radix-ui/themes";
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, type MetaFunction } from "@remix-run/react";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { Markdown } from "#app/components/markdown.tsx";
+import { prisma } from "#app/utils/db.server.ts";
+import { getNoteContentHtml } from "#app/utils/markdown.server.ts";
+import { getNoteImgSrc, getNoteImgSrcSet } from "#app/utils/misc.tsx";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+export async function loader({ params }: LoaderFunctionArgs) {
+	const link = await prisma.noteShareLink.findFirst({
+		select: {
+			note: {
+				select: {
+					id: true,
+					title: true,
+					content: true,
+					updatedAt: true,
+					owner: { select: { username: true, name: true } },
+					images: { select: { id: true, altText: true } },
+				},
+			},
+		},
+		where: {
+			token: params.token,
+			revokedAt: null,
+			OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+		},
+	});
+	// revoked and expired links look exactly like links that never existed
+	invariantResponse(link, "Not found", { status: 404 });
+
+	const { note } = link;
+	return json({
+		note: { title: note.title, owner: note.owner, images: note.images },
+		contentHtml: await getNoteContentHtml(note),
+	});
+}
+
+export default function SharedNoteRoute() {
+	const data = useLoaderData<typeof loader>();
+
+	return (
+		<Container size="3" px="6" pb="9">
+			<Heading size="8">{data.note.title}</Heading>
+			<Text as="p" size="2" color="gray" mt="2">
+				Shared by {data.note.owner.name ?? data.note.owner.username}
+			</Text>
+			<Flex wrap="wrap" gap="5" py="5">
+				{data.note.images.map((image) => (
+					<a key={image.id} href={getNoteImgSrc(image.id)}>
+						<img
+							src={getNoteImgSrc(image.id)}
+							srcSet={getNoteImgSrcSet(image.id, 128)}
+							alt={image.altText ?? ""}
+							className="h-32 w-32 rounded-lg object-cover"
+						/>
+					</a>
+				))}
+			</Flex>
+			<Markdown html={data.contentHtml} />
+		</Container>
+	);
+}
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+	return [
+		{ title: `${data?.note.title ?? "Shared note"} | Epic Notes` },
+		{ name: "robots", content: "noindex" },
+	];
+};
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				404: () => <p>This link is invalid, expired or has been revoked</p>,
+			}}
+		/>
+	);
+}
@@ -4,7 +4,7 @@ import { Form, Link, useLoaderData, type MetaFunction } from "@remix-run/react";
 import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
 import { Spacer } from "#app/components/spacer.tsx";
 import { prisma } from "#app/utils/db.server.ts";
-import { getUserImgSrc } from "#app/utils/misc.tsx";
+import { getUserImgSrc, getUserImgSrcSet } from "#app/utils/misc.tsx";
 import { useOptionalUser } from "#app/utils/user.ts";
 import {
 	Box,
@@ -63,6 +63,7 @@ export default function ProfileRoute() {
 				>
 					<img
 						src={getUserImgSrc(data.user.image?.id)}
+						srcSet={getUserImgSrcSet(data.user.image?.id, 208)}
 						alt={userDisplayName}
 						className="h-52 w-52 rounded-full object-cover"
 					/>
@@ -1,4 +1,5 @@
 import { parseWithZod } from "@conform-to/zod";
+import { invariant } from "@epic-web/invariant";
 import { createId as cuid } from "@paralleldrive/cuid2";
 import {
 	unstable_createMemoryUploadHandler as createMemoryUploadHandler,
@@ -10,6 +11,10 @@ import {
 import { z } from "zod";
 import { requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
+import { processImageUpload } from "#app/utils/image-upload.server.ts";
+import { userHasNotePermission } from "#app/utils/permissions.server.ts";
+import { storeImage } from "#app/utils/storage.server.ts";
+import { triggerNoteWebhookEvent } from "#app/utils/webhooks.server.ts";
 import {
 	MAX_UPLOAD_SIZE,
 	NoteEditorSchema,
@@ -36,54 +41,80 @@ export async function action({ request }: ActionFunctionArgs) {
 		createMemoryUploadHandler({ maxPartSize: MAX_UPLOAD_SIZE }),
 	);
 
+	// files are checked and cleaned up while validating, so problems show up on
+	// the right field, and then stored once everything is valid
+	const uploads = new Map<File, { contentType: string; blob: Buffer }>();
+	function getUpload(file: File) {
+		const upload = uploads.get(file);
+		invariant(upload, "Uploads are processed before they're stored");
+		return upload;
+	}
+
 	const submission = await parseWithZod(formData, {
 		schema: NoteEditorSchema.superRefine(async (data, ctx) => {
 			if (!data.id) return;
 
 			const note = await prisma.note.findUnique({
-				select: { id: true },
-				where: { id: data.id, ownerId: userId },
+				select: { id: true, ownerId: true },
+				where: { id: data.id },
 			});
-			if (!note) {
+			if (!note || !(await userHasNotePermission(userId, "update", note))) {
 				ctx.addIssue({
 					code: z.ZodIssueCode.custom,
 					message: "Note not found",
 				});
 			}
-		}).transform(async ({ images = [], ...data }) => {
-			return {
-				...data,
-				imageUpdates: await Promise.all(
-					images.filter(imageHasId).map(async (i) => {
-						if (imageHasFile(i)) {
-							return {
-								id: i.id,
-								altText: i.altText,
-								contentType: i.file.type,
-								blob: Buffer.from(await i.file.arrayBuffer()),
-							};
+		})
+			.superRefine(async ({ images = [] }, ctx) => {
+				await Promise.all(
+					images.map(async (image, index) => {
+						if (!imageHasFile(image)) return;
+						const upload = await processImageUpload(image.file);
+						if (upload.status === "error") {
+							ctx.addIssue({
+								code: z.ZodIssueCode.custom,
+								message: upload.error,
+								path: ["images", index, "file"],
+							});
 						} else {
-							return {
-								id: i.id,
-								altText: i.altText,
-							};
+							uploads.set(image.file, upload);
 						}
 					}),
-				),
-				newImages: await Promise.all(
-					images
-						.filter(imageHasFile)
-						.filter((i) => !i.id)
-						.map(async (image) => {
-							return {
-								altText: image.altText,
-								contentType: image.file.type,
-								blob: Buffer.from(await image.file.arrayBuffer()),
-							};
+				);
+			})
+			.transform(async ({ images = [], ...data }) => {
+				return {
+					...data,
+					imageUpdates: await Promise.all(
+						images.filter(imageHasId).map(async (i) => {
+							if (imageHasFile(i)) {
+								return {
+									id: i.id,
+									altText: i.altText,
+									blob: null,
+									...(await storeImage("note-images", getUpload(i.file))),
+								};
+							} else {
+								return {
+									id: i.id,
+									altText: i.altText,
+								};
+							}
 						}),
-				),
-			};
-		}),
+					),
+					newImages: await Promise.all(
+						images
+							.filter(imageHasFile)
+							.filter((i) => !i.id)
+							.map(async (image) => {
+								return {
+									altText: image.altText,
+									...(await storeImage("note-images", getUpload(image.file))),
+								};
+							}),
+					),
+				};
+			}),
 		async: true,
 	});
 
@@ -100,30 +131,76 @@ export async function action({ request }: ActionFunctionArgs) {
 		content,
 		imageUpdates = [],
 		newImages = [],
+		tags = [],
 	} = submission.value;
 
-	const updatedNote = await prisma.note.upsert({
-		select: { id: true, owner: { select: { username: true } } },
-		where: { id: noteId ?? "__new_note__" },
-		create: {
-			ownerId: userId,
-			title,
-			content,
-			images: { create: newImages },
-		},
-		update: {
-			title,
-			content,
-			images: {
-				deleteMany: { id: { notIn: imageUpdates.map((i) => i.id) } },
-				updateMany: imageUpdates.map((updates) => ({
-					where: { id: updates.id },
-					data: { ...updates, id: updates.blob ? cuid() : updates.id },
-				})),
-				create: newImages,
+	// tags belong to the note's owner, which isn't the current user when the
+	// note has been shared with them
+	const ownerId = noteId
+		? (
+				await prisma.note.findUniqueOrThrow({
+					select: { ownerId: true },
+					where: { id: noteId },
+				})
+			).ownerId
+		: userId;
+	const tagConnections = [...new Set(tags)].map((name) => ({
+		where: { ownerId_name: { ownerId, name } },
+		create: { ownerId, name },
+	}));
+
+	const updatedNote = await prisma.$transaction(async ($prisma) => {
+		const note = await $prisma.note.upsert({
+			select: { id: true, owner: { select: { username: true } } },
+			where: { id: noteId ?? "__new_note__" },
+			create: {
+				ownerId: userId,
+				title,
+				content,
+				images: { create: newImages },
+				tags: { connectOrCreate: tagConnections },
+			},
+			update: {
+				title,
+				content,
+				images: {
+					deleteMany: { id: { notIn: imageUpdates.map((i) => i.id) } },
+					updateMany: imageUpdates.map((updates) => ({
+						where: { id: updates.id },
+						data: {
+							...updates,
+							id: "objectKey" in updates ? cuid() : updates.id,
+						},
+					})),
+					create: newImages,
+				},
+				tags: { set: [], connectOrCreate: tagConnections },
 			},
-		},
+		});
+
+		// saving only the images shouldn't add an identical entry to the history
+		const latestRevision = await $prisma.noteRevision.findFirst({
+			select: { title: true, content: true },
+			where: { noteId: note.id },
+			orderBy: { createdAt: "desc" },
+		});
+		if (
+			latestRevision?.title !== title ||
+			latestRevision?.content !== content
+		) {
+			await $prisma.noteRevision.create({
+				select: { id: true },
+				data: { noteId: note.id, authorId: userId, title, content },
+			});
+		}
+
+		return note;
 	});
+	await triggerNoteWebhookEvent(
+		request,
+		noteId ? "note.updated" : "note.created",
+		{ id: updatedNote.id, ownerId },
+	);
 
 	return redirect(
 		`/users/${updatedNote.owner.username}/notes/${updatedNote.id}`,
@@ -8,30 +8,51 @@ import {
 	type FieldMetadata,
 } from "@conform-to/react";
 import { getZodConstraint, parseWithZod } from "@conform-to/zod";
-import type { Note, NoteImage } from "@prisma/client";
+import type { Note, NoteImage, Tag } from "@prisma/client";
 import type { SerializeFrom } from "@remix-run/node";
-import { Form, useActionData } from "@remix-run/react";
-import { useState } from "react";
+import { Form, useActionData, useFetcher } from "@remix-run/react";
+import { useEffect, useState } from "react";
 import { z } from "zod";
 import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
 import { ErrorList, Field, TextareaField } from "#app/components/forms.tsx";
+import { Markdown } from "#app/components/markdown.tsx";
 import { Label } from "#app/components/ui/label";
-import { cn, getNoteImgSrc, useIsPending } from "#app/utils/misc.tsx";
+import {
+	acceptedImageTypes,
+	acceptedImageTypesMessage,
+	isAcceptedImageType,
+} from "#app/utils/image-upload.ts";
+import type { action as markdownPreviewAction } from "#app/routes/resources+/markdown-preview.tsx";
+import {
+	cn,
+	getNoteImgSrc,
+	useDebounce,
+	useIsPending,
+} from "#app/utils/misc.tsx";
+import {
+	MAX_NOTE_IMAGES,
+	NoteContentSchema,
+	NoteTagsSchema,
+	NoteTitleSchema,
+} from "#app/utils/note-validation.ts";
 import type { action } from "./__note-editor.server";
 import {
+	Badge,
 	Box,
 	Button,
+	Code,
 	Flex,
+	Grid,
 	IconButton,
 	ScrollArea,
+	SegmentedControl,
+	Text,
 	TextArea,
+	TextField,
 } from "@radix-ui/themes";
 import { Cross1Icon, PlusIcon } from "@radix-ui/react-icons";
 
-const titleMinLength = 1;
-const titleMaxLength = 100;
-const contentMinLength = 1;
-const contentMaxLength = 10000;
+type PreviewMode = "write" | "split" | "preview";
 
 export const MAX_UPLOAD_SIZE = 1024 * 1024 * 3; // 3MB
 
@@ -42,7 +63,10 @@ const ImageFieldsetSchema = z.object({
 		.optional()
 		.refine((file) => {
 			return !file || file.size <= MAX_UPLOAD_SIZE;
-		}, "File size must be less than 3MB"),
+		}, "File size must be less than 3MB")
+		.refine((file) => {
+			return !file || file.size === 0 || isAcceptedImageType(file.type);
+		}, acceptedImageTypesMessage),
 	altText: z.string().optional(),
 });
 
@@ -50,19 +74,24 @@ export type ImageFieldset = z.infer<typeof ImageFieldsetSchema>;
 
 export const NoteEditorSchema = z.object({
 	id: z.string().optional(),
-	title: z.string().min(titleMinLength).max(titleMaxLength),
-	content: z.string().min(contentMinLength).max(contentMaxLength),
-	images: z.array(ImageFieldsetSchema).max(5).optional(),
+	title: NoteTitleSchema,
+	content: NoteContentSchema,
+	images: z.array(ImageFieldsetSchema).max(MAX_NOTE_IMAGES).optional(),
+	tags: NoteTagsSchema.optional(),
 });
 
 export function NoteEditor({
 	note,
+	tagSuggestions = [],
 }: {
 	note?: SerializeFrom<
 		Pick<Note, "id" | "title" | "content"> & {
 			images: Array<Pick<NoteImage, "id" | "altText">>;
+			tags: Array<Pick<Tag, "name">>;
 		}
 	>;
+	/** existing tags of the note's owner to autocomplete */
+	tagSuggestions?: Array<string>;
 }) {
 	const actionData = useActionData<typeof action>();
 	const isPending = useIsPending();
@@ -77,10 +106,35 @@ export function NoteEditor({
 		defaultValue: {
 			...note,
 			images: note?.images ?? [{}],
+			tags: note?.tags.map((tag) => tag.name) ?? [],
 		},
 		shouldRevalidate: "onBlur",
 	});
 	const imageList = fields.images.getFieldList();
+	const tagList = fields.tags.getFieldList();
+	const tagNames = tagList.map((tag) => tag.value ?? tag.initialValue);
+	const [tagDraft, setTagDraft] = useState("");
+	const tagSuggestionsId = `${fields.tags.id}-suggestions`;
+
+	function addTag() {
+		const name = tagDraft.trim().toLowerCase();
+		setTagDraft("");
+		if (!name || tagNames.includes(name)) return;
+		form.insert({ name: fields.tags.name, defaultValue: name });
+	}
+
+	const [previewMode, setPreviewMode] = useState<PreviewMode>("write");
+	const previewFetcher = useFetcher<typeof markdownPreviewAction>();
+	const updatePreview = useDebounce((content: string) => {
+		previewFetcher.submit(
+			{ content, noteId: note?.id ?? "" },
+			{ method: "POST", action: "/resources/markdown-preview" },
+		);
+	}, 300);
+	const content = fields.content.value ?? "";
+	useEffect(() => {
+		if (previewMode !== "write") updatePreview(content);
+	}, [previewMode, content, updatePreview]);
 
 	return (
 		<FormProvider context={form.context}>
@@ -108,13 +162,104 @@ export function NoteEditor({
 									}}
 									errors={fields.title.errors}
 								/>
-								<TextareaField
-									labelProps={{ children: "Content" }}
-									textareaProps={{
-										...getTextareaProps(fields.content),
-									}}
-									errors={fields.content.errors}
-								/>
+								<Flex justify="end">
+									<SegmentedControl.Root
+										size="1"
+										value={previewMode}
+										onValueChange={(value) =>
+											setPreviewMode(value as PreviewMode)
+										}
+									>
+										<SegmentedControl.Item value="write">
+											Write
+										</SegmentedControl.Item>
+										<SegmentedControl.Item value="split">
+											Side by side
+										</SegmentedControl.Item>
+										<SegmentedControl.Item value="preview">
+											Preview
+										</SegmentedControl.Item>
+									</SegmentedControl.Root>
+								</Flex>
+								<Grid columns={previewMode === "split" ? "2" : "1"} gap="4">
+									<TextareaField
+										className={cn({ hidden: previewMode === "preview" })}
+										labelProps={{ children: "Content" }}
+										textareaProps={{
+											rows: 12,
+											...getTextareaProps(fields.content),
+										}}
+										errors={fields.content.errors}
+									/>
+									{previewMode === "write" ? null : (
+										<Box
+											aria-label="Preview"
+											className={cn(
+												"min-h-24 rounded-lg border border-[var(--gray-6)] p-3",
+												{ "opacity-50": previewFetcher.state !== "idle" },
+											)}
+										>
+											<Markdown html={previewFetcher.data?.html ?? ""} />
+										</Box>
+									)}
+								</Grid>
+								<Text size="1" color="gray" mb="3">
+									Content supports Markdown. Show an image from this note with{" "}
+									<Code>![alt text](note-image:ID)</Code>.
+								</Text>
+								<div>
+									<Label htmlFor={fields.tags.id}>Tags</Label>
+									<Flex wrap="wrap" align="center" gap="2" pt="1">
+										{tagList.map((tag, index) => (
+											<Badge key={tag.key} size="2">
+												<input {...getInputProps(tag, { type: "hidden" })} />
+												{tagNames[index]}
+												<button
+													{...form.remove.getButtonProps({
+														name: fields.tags.name,
+														index,
+													})}
+												>
+													<Cross1Icon />
+													<span className="sr-only">
+														Remove tag {tagNames[index]}
+													</span>
+												</button>
+											</Badge>
+										))}
+										<TextField.Root
+											id={fields.tags.id}
+											size="2"
+											placeholder="Add a tag"
+											list={tagSuggestionsId}
+											value={tagDraft}
+											onChange={(e) => setTagDraft(e.currentTarget.value)}
+											onBlur={addTag}
+											onKeyDown={(e) => {
+												if (e.key === "Enter" || e.key === ",") {
+													e.preventDefault();
+													addTag();
+												}
+											}}
+										/>
+										<datalist id={tagSuggestionsId}>
+											{tagSuggestions
+												.filter((name) => !tagNames.includes(name))
+												.map((name) => (
+													<option key={name} value={name} />
+												))}
+										</datalist>
+									</Flex>
+									<Box minHeight="32px" px="4" pb="3" pt="1">
+										<ErrorList
+											id={fields.tags.errorId}
+											errors={[
+												...(fields.tags.errors ?? []),
+												...tagList.flatMap((tag) => tag.errors ?? []),
+											]}
+										/>
+									</Box>
+								</div>
 								<div>
 									<Label>Images</Label>
 									<Flex direction="column" gap="4">
@@ -230,7 +375,7 @@ function ImageChooser({ meta }: { meta: FieldMetadata<ImageFieldset> }) {
 										setPreviewImage(null);
 									}
 								}}
-								accept="image/*"
+								accept={acceptedImageTypes.join(",")}
 								{...getInputProps(fields.file, { type: "file" })}
 							/>
 						</label>
@@ -251,6 +396,12 @@ function ImageChooser({ meta }: { meta: FieldMetadata<ImageFieldset> }) {
 							errors={fields.altText.errors}
 						/>
 					</Box>
+					{existingImage ? (
+						<Text as="p" size="1" color="gray">
+							Use in content:{" "}
+							<Code>{`![${altText}](note-image:${fields.id.initialValue})`}</Code>
+						</Text>
+					) : null}
 				</Box>
 			</Flex>
 			<Box minHeight="32px" px="4" pb="3" pt="1">
@@ -5,6 +5,7 @@ import {
 	json,
 	type LoaderFunctionArgs,
 	type ActionFunctionArgs,
+	type SerializeFrom,
 } from "@remix-run/node";
 import {
 	Form,
@@ -17,25 +18,46 @@ import { formatDistanceToNow } from "date-fns";
 import { z } from "zod";
 import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
 import { ErrorList } from "#app/components/forms.tsx";
+import { Markdown } from "#app/components/markdown.tsx";
 import { requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
-import { getNoteImgSrc, useIsPending } from "#app/utils/misc.tsx";
-import { requireUserWithPermission } from "#app/utils/permissions.server.ts";
+import { getNoteContentHtml } from "#app/utils/markdown.server.ts";
+import {
+	getNoteImgSrc,
+	getNoteImgSrcSet,
+	useIsPending,
+} from "#app/utils/misc.tsx";
+import {
+	getNoteShareAccess,
+	requireUserWithNotePermission,
+} from "#app/utils/permissions.server.ts";
 import { redirectWithToast } from "#app/utils/toast.server.ts";
-import { userHasPermission, useOptionalUser } from "#app/utils/user.ts";
+import { triggerNoteWebhookEvent } from "#app/utils/webhooks.server.ts";
+import {
+	getNotePermission,
+	userHasPermission,
+	useOptionalUser,
+} from "#app/utils/user.ts";
 import type { loader as notesLoader } from "./notes.tsx";
 import {
+	Badge,
 	Box,
 	Button,
 	Flex,
-	Grid,
 	Heading,
 	ScrollArea,
 	Text,
 } from "@radix-ui/themes";
-import { ClockIcon, Pencil1Icon, TrashIcon } from "@radix-ui/react-icons";
+import {
+	ClockIcon,
+	Pencil1Icon,
+	Share1Icon,
+	TrashIcon,
+} from "@radix-ui/react-icons";
 
-export async function loader({ params }: LoaderFunctionArgs) {
+const historyLength = 10;
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
 	const note = await prisma.note.findUnique({
 		where: { id: params.noteId },
 		select: {
@@ -50,17 +72,45 @@ export async function loader({ params }: LoaderFunctionArgs) {
 					altText: true,
 				},
 			},
+			tags: { select: { id: true, name: true }, orderBy: { name: "asc" } },
+			revisions: {
+				select: {
+					id: true,
+					createdAt: true,
+					author: { select: { username: true, name: true } },
+				},
+				orderBy: { createdAt: "desc" },
+				// one extra so the oldest one shown can be compared to its predecessor
+				take: historyLength + 1,
+			},
+			_count: { select: { revisions: true } },
 		},
 	});
 
 	invariantResponse(note, "Not found", { status: 404 });
 
+	const userId = await requireUserWithNotePermission(request, "read", note);
+	const sharedAccess =
+		note.ownerId === userId ? null : await getNoteShareAccess(userId, note.id);
+
 	const date = new Date(note.updatedAt);
 	const timeAgo = formatDistanceToNow(date);
 
+	const { revisions, _count, ...noteData } = note;
+	const history = revisions.slice(0, historyLength).map((revision, index) => ({
+		id: revision.id,
+		author: revision.author,
+		previousId: revisions[index + 1]?.id ?? null,
+		timeAgo: formatDistanceToNow(revision.createdAt),
+	}));
+
 	return json({
-		note,
+		note: noteData,
+		contentHtml: await getNoteContentHtml(note),
+		sharedAccess,
 		timeAgo,
+		history,
+		revisionCount: _count.revisions,
 	});
 }
 
@@ -70,7 +120,7 @@ const DeleteFormSchema = z.object({
 });
 
 export async function action({ request }: ActionFunctionArgs) {
-	const userId = await requireUserId(request);
+	await requireUserId(request);
 	const formData = await request.formData();
 	const submission = parseWithZod(formData, {
 		schema: DeleteFormSchema,
@@ -90,13 +140,10 @@ export async function action({ request }: ActionFunctionArgs) {
 	});
 	invariantResponse(note, "Not found", { status: 404 });
 
-	const isOwner = note.ownerId === userId;
-	await requireUserWithPermission(
-		request,
-		isOwner ? "delete:note:own" : "delete:note:any",
-	);
+	await requireUserWithNotePermission(request, "delete", note);
 
 	await prisma.note.delete({ where: { id: note.id } });
+	await triggerNoteWebhookEvent(request, "note.deleted", note);
 
 	return redirectWithToast(`/users/${note.owner.username}/notes`, {
 		type: "success",
@@ -111,9 +158,21 @@ export default function NoteRoute() {
 	const isOwner = user?.id === data.note.ownerId;
 	const canDelete = userHasPermission(
 		user,
-		isOwner ? "delete:note:own" : "delete:note:any",
+		getNotePermission("delete", { isOwner }),
 	);
-	const displayBar = canDelete || isOwner;
+	const canEdit = userHasPermission(
+		user,
+		getNotePermission("update", {
+			isOwner,
+			sharedAccess: data.sharedAccess,
+		}),
+	);
+	// people the note has been shared with can't share it any further
+	const canShare = userHasPermission(
+		user,
+		getNotePermission("update", { isOwner }),
+	);
+	const displayBar = canDelete || canEdit || canShare;
 
 	return (
 		<Flex direction="column" position="absolute" inset="0">
@@ -125,35 +184,52 @@ export default function NoteRoute() {
 							<ClockIcon className="scale-125" />
 							<Text size="2">{data.timeAgo} ago</Text>
 						</Flex>
-						<Grid
-							flexShrink="1"
-							columns="2"
-							justify="end"
-							gap={{ initial: "1", md: "2" }}
-						>
+						<Flex flexShrink="1" justify="end" gap={{ initial: "1", md: "2" }}>
 							{canDelete ? <DeleteNote id={data.note.id} /> : null}
-							<Button asChild>
-								<Link to="edit">
-									<Pencil1Icon
-										name="pencil-1"
-										className="scale-125 max-md:scale-150"
-									/>
-									<span className="max-md:hidden">Edit</span>
-								</Link>
-							</Button>
-						</Grid>
+							{canShare ? (
+								<Button asChild variant="soft">
+									<Link to="share">
+										<Share1Icon className="scale-125 max-md:scale-150" />
+										<span className="max-md:hidden">Share</span>
+									</Link>
+								</Button>
+							) : null}
+							{canEdit ? (
+								<Button asChild>
+									<Link to="edit">
+										<Pencil1Icon
+											name="pencil-1"
+											className="scale-125 max-md:scale-150"
+										/>
+										<span className="max-md:hidden">Edit</span>
+									</Link>
+								</Button>
+							) : null}
+						</Flex>
 					</Flex>
 				) : null}
 			</Flex>
 
 			<ScrollArea scrollbars="vertical">
 				<Box p="4">
+					{data.note.tags.length ? (
+						<Flex wrap="wrap" gap="2">
+							{data.note.tags.map((tag) => (
+								<Badge key={tag.id} asChild size="2" variant="soft">
+									<Link to={`..?${new URLSearchParams({ tag: tag.name })}`}>
+										{tag.name}
+									</Link>
+								</Badge>
+							))}
+						</Flex>
+					) : null}
 					<Box pb={displayBar ? "4" : "2"}>
 						<Flex wrap="wrap" gap="5" py="5">
 							{data.note.images.map((image) => (
 								<a key={image.id} href={getNoteImgSrc(image.id)}>
 									<img
 										src={getNoteImgSrc(image.id)}
+										srcSet={getNoteImgSrcSet(image.id, 128)}
 										alt={image.altText ?? ""}
 										className="h-32 w-32 rounded-lg object-cover"
 									/>
@@ -162,13 +238,70 @@ export default function NoteRoute() {
 						</Flex>
 					</Box>
 
-					<Text className="whitespace-break-spaces">{data.note.content}</Text>
+					<Markdown html={data.contentHtml} />
+
+					{data.history.length ? (
+						<NoteHistory
+							history={data.history}
+							revisionCount={data.revisionCount}
+						/>
+					) : null}
 				</Box>
 			</ScrollArea>
 		</Flex>
 	);
 }
 
+function NoteHistory({
+	history,
+	revisionCount,
+}: {
+	history: SerializeFrom<typeof loader>["history"];
+	revisionCount: number;
+}) {
+	return (
+		<Box mt="6" pt="4" className="border-t border-[var(--gray-6)]">
+			<Flex align="center" justify="between" pb="2">
+				<Heading as="h2" size="4">
+					History
+				</Heading>
+				<Link to="revisions" className="text-body-xs underline">
+					{revisionCount > history.length
+						? `View all ${revisionCount} versions`
+						: "Compare versions"}
+				</Link>
+			</Flex>
+			<Flex asChild direction="column" gap="1">
+				<ul>
+					{history.map((revision) => (
+						<li key={revision.id}>
+							<Flex align="center" justify="between" gap="2">
+								<Text size="2">
+									{revision.author
+										? revision.author.name ?? revision.author.username
+										: "Deleted user"}{" "}
+									<Text color="gray">{revision.timeAgo} ago</Text>
+								</Text>
+								<Link
+									to={`revisions?${new URLSearchParams({
+										...(revision.previousId
+											? { from: revision.previousId }
+											: {}),
+										to: revision.id,
+									})}`}
+									className="text-body-xs underline"
+								>
+									{revision.previousId ? "View changes" : "View"}
+								</Link>
+							</Flex>
+						</li>
+					))}
+				</ul>
+			</Flex>
+		</Box>
+	);
+}
+
 export function DeleteNote({ id }: { id: string }) {
 	const actionData = useActionData<typeof action>();
 	const isPending = useIsPending();
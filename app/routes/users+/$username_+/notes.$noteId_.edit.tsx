@@ -2,17 +2,17 @@ import { invariantResponse } from "@epic-web/invariant";
 import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { useLoaderData } from "@remix-run/react";
 import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
-import { requireUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
+import { requireUserWithNotePermission } from "#app/utils/permissions.server.ts";
 import { NoteEditor } from "./__note-editor.tsx";
 
 export { action } from "./__note-editor.server.tsx";
 
 export async function loader({ params, request }: LoaderFunctionArgs) {
-	const userId = await requireUserId(request);
 	const note = await prisma.note.findFirst({
 		select: {
 			id: true,
+			ownerId: true,
 			title: true,
 			content: true,
 			images: {
@@ -21,26 +21,33 @@ export async function loader({ params, request }: LoaderFunctionArgs) {
 					altText: true,
 				},
 			},
+			tags: { select: { name: true }, orderBy: { name: "asc" } },
 		},
 		where: {
 			id: params.noteId,
-			ownerId: userId,
 		},
 	});
 	invariantResponse(note, "Not found", { status: 404 });
-	return json({ note: note });
+	await requireUserWithNotePermission(request, "update", note);
+	const tags = await prisma.tag.findMany({
+		select: { name: true },
+		where: { ownerId: note.ownerId },
+		orderBy: { name: "asc" },
+	});
+	return json({ note: note, tagSuggestions: tags.map((tag) => tag.name) });
 }
 
 export default function NoteEdit() {
 	const data = useLoaderData<typeof loader>();
 
-	return <NoteEditor note={data.note} />;
+	return <NoteEditor note={data.note} tagSuggestions={data.tagSuggestions} />;
 }
 
 export function ErrorBoundary() {
 	return (
 		<GeneralErrorBoundary
 			statusHandlers={{
+				403: () => <p>You are not allowed to do that</p>,
 				404: ({ params }) => (
 					<p>No note with the id "{params.noteId}" exists</p>
 				),
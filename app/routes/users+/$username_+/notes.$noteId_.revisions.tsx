@@ -0,0 +1,319 @@
+import { getFormProps, useForm } from "@conform-to/react";
+import { parseWithZod } from "@conform-to/zod";
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { ArrowLeftIcon, ResetIcon } from "@radix-ui/react-icons";
+import { Box, Button, Flex, Heading, ScrollArea } from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+} from "@remix-run/node";
+import {
+	Form,
+	Link,
+	useActionData,
+	useLoaderData,
+	type MetaFunction,
+} from "@remix-run/react";
+import { format } from "date-fns";
+import { z } from "zod";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { ErrorList } from "#app/components/forms.tsx";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { diffLines, type DiffLine } from "#app/utils/diff.ts";
+import { cn, useIsPending } from "#app/utils/misc.tsx";
+import {
+	getNoteShareAccess,
+	requireUserWithNotePermission,
+} from "#app/utils/permissions.server.ts";
+import { redirectWithToast } from "#app/utils/toast.server.ts";
+import { triggerNoteWebhookEvent } from "#app/utils/webhooks.server.ts";
+import {
+	getNotePermission,
+	userHasPermission,
+	useOptionalUser,
+} from "#app/utils/user.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+	const note = await prisma.note.findUnique({
+		select: {
+			id: true,
+			title: true,
+			ownerId: true,
+			revisions: {
+				select: {
+					id: true,
+					createdAt: true,
+					author: { select: { username: true, name: true } },
+				},
+				orderBy: { createdAt: "desc" },
+			},
+		},
+		where: { id: params.noteId },
+	});
+	invariantResponse(note, "Not found", { status: 404 });
+	const userId = await requireUserWithNotePermission(request, "read", note);
+	const sharedAccess =
+		note.ownerId === userId ? null : await getNoteShareAccess(userId, note.id);
+	invariantResponse(note.revisions.length, "No revisions", { status: 404 });
+
+	const searchParams = new URL(request.url).searchParams;
+	const toIndex = Math.max(
+		note.revisions.findIndex((r) => r.id === searchParams.get("to")),
+		0,
+	);
+	const fromParam = searchParams.get("from");
+	// without an explicit "from" we compare against the revision before "to"
+	const fromIndex = fromParam
+		? note.revisions.findIndex((r) => r.id === fromParam)
+		: toIndex + 1;
+	const toId = note.revisions[toIndex].id;
+	const fromId = note.revisions[fromIndex]?.id ?? null;
+
+	const [to, from] = await Promise.all([
+		prisma.noteRevision.findUniqueOrThrow({
+			select: { title: true, content: true },
+			where: { id: toId },
+		}),
+		fromId
+			? prisma.noteRevision.findUniqueOrThrow({
+					select: { title: true, content: true },
+					where: { id: fromId },
+				})
+			: null,
+	]);
+
+	return json({
+		note: { id: note.id, title: note.title, ownerId: note.ownerId },
+		sharedAccess,
+		revisions: note.revisions.map((revision) => ({
+			id: revision.id,
+			label: `${format(revision.createdAt, "PPp")} by ${
+				revision.author
+					? revision.author.name ?? revision.author.username
+					: "Deleted user"
+			}`,
+		})),
+		fromId,
+		toId,
+		isLatest: toIndex === 0,
+		titleDiff: diffLines(from?.title ?? "", to.title),
+		contentDiff: diffLines(from?.content ?? "", to.content),
+	});
+}
+
+const RestoreFormSchema = z.object({
+	intent: z.literal("restore-revision"),
+	revisionId: z.string(),
+});
+
+export async function action({ params, request }: ActionFunctionArgs) {
+	await requireUserId(request);
+	const formData = await request.formData();
+	const submission = parseWithZod(formData, {
+		schema: RestoreFormSchema,
+	});
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	const revision = await prisma.noteRevision.findFirst({
+		select: {
+			title: true,
+			content: true,
+			note: {
+				select: {
+					id: true,
+					ownerId: true,
+					owner: { select: { username: true } },
+				},
+			},
+		},
+		where: { id: submission.value.revisionId, noteId: params.noteId },
+	});
+	invariantResponse(revision, "Not found", { status: 404 });
+
+	const { note } = revision;
+	const userId = await requireUserWithNotePermission(request, "update", note);
+
+	// restoring is just another edit, so it gets its own revision and can be
+	// undone the same way
+	await prisma.$transaction([
+		prisma.note.update({
+			select: { id: true },
+			where: { id: note.id },
+			data: { title: revision.title, content: revision.content },
+		}),
+		prisma.noteRevision.create({
+			select: { id: true },
+			data: {
+				noteId: note.id,
+				authorId: userId,
+				title: revision.title,
+				content: revision.content,
+			},
+		}),
+	]);
+	await triggerNoteWebhookEvent(request, "note.updated", note);
+
+	return redirectWithToast(`/users/${note.owner.username}/notes/${note.id}`, {
+		type: "success",
+		title: "Restored",
+		description: "The note has been restored to the selected version.",
+	});
+}
+
+export default function NoteRevisionsRoute() {
+	const data = useLoaderData<typeof loader>();
+	const user = useOptionalUser();
+	const isOwner = user?.id === data.note.ownerId;
+	const canRestore =
+		!data.isLatest &&
+		userHasPermission(
+			user,
+			getNotePermission("update", {
+				isOwner,
+				sharedAccess: data.sharedAccess,
+			}),
+		);
+
+	return (
+		<Flex direction="column" position="absolute" inset="0">
+			<Flex justify="between" align="center" gap="4" pt="4" px="4">
+				<Heading size="6">History of "{data.note.title}"</Heading>
+				<Button asChild variant="soft">
+					<Link to=".." relative="path">
+						<ArrowLeftIcon />
+						<span className="max-md:hidden">Back to note</span>
+					</Link>
+				</Button>
+			</Flex>
+
+			<ScrollArea scrollbars="vertical">
+				<Box p="4">
+					<Form method="GET" className="flex flex-wrap items-end gap-4">
+						<label className="flex flex-col gap-1 text-body-xs">
+							Compare
+							<select name="from" defaultValue={data.fromId ?? ""}>
+								{data.revisions.map((revision) => (
+									<option key={revision.id} value={revision.id}>
+										{revision.label}
+									</option>
+								))}
+							</select>
+						</label>
+						<label className="flex flex-col gap-1 text-body-xs">
+							With
+							<select name="to" defaultValue={data.toId}>
+								{data.revisions.map((revision) => (
+									<option key={revision.id} value={revision.id}>
+										{revision.label}
+									</option>
+								))}
+							</select>
+						</label>
+						<Button type="submit" variant="soft">
+							Compare
+						</Button>
+					</Form>
+
+					<Box pt="5">
+						<Heading as="h3" size="3" mb="2">
+							Title
+						</Heading>
+						<Diff lines={data.titleDiff} />
+					</Box>
+					<Box pt="5">
+						<Heading as="h3" size="3" mb="2">
+							Content
+						</Heading>
+						<Diff lines={data.contentDiff} />
+					</Box>
+
+					{canRestore ? (
+						<Box pt="5">
+							<RestoreRevision id={data.toId} />
+						</Box>
+					) : null}
+				</Box>
+			</ScrollArea>
+		</Flex>
+	);
+}
+
+function Diff({ lines }: { lines: Array<DiffLine> }) {
+	return (
+		<pre className="overflow-x-auto whitespace-pre-wrap rounded-lg bg-[var(--gray-2)] p-2 text-body-xs">
+			{lines.map((line, index) => (
+				<div
+					// biome-ignore lint/suspicious/noArrayIndexKey: the diff is static
+					key={index}
+					className={cn("px-2", {
+						"bg-[var(--green-4)]": line.type === "added",
+						"bg-[var(--red-4)] line-through": line.type === "removed",
+					})}
+				>
+					<span aria-hidden className="select-none pr-2 text-muted-foreground">
+						{line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}
+					</span>
+					<span className="sr-only">
+						{line.type === "unchanged" ? "" : `${line.type}: `}
+					</span>
+					{line.value || " "}
+				</div>
+			))}
+		</pre>
+	);
+}
+
+function RestoreRevision({ id }: { id: string }) {
+	const actionData = useActionData<typeof action>();
+	const isPending = useIsPending();
+	const [form] = useForm({
+		id: "restore-revision",
+		lastResult: actionData?.result,
+	});
+
+	return (
+		<Form method="POST" {...getFormProps(form)}>
+			<input type="hidden" name="revisionId" value={id} />
+			<Button
+				type="submit"
+				name="intent"
+				value="restore-revision"
+				loading={isPending}
+				disabled={isPending}
+			>
+				<ResetIcon />
+				Restore this version
+			</Button>
+			<ErrorList errors={form.errors} id={form.errorId} />
+		</Form>
+	);
+}
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+	return [{ title: `History of ${data?.note.title ?? "Note"} | Epic Notes` }];
+};
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: () => <p>You are not allowed to do that</p>,
+				404: ({ params }) => (
+					<p>No note with the id "{params.noteId}" exists</p>
+				),
+			}}
+		/>
+	);
+}
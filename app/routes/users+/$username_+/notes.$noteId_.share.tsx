@@ -0,0 +1,480 @@
+import crypto from "node:crypto";
+import { getFormProps, getInputProps, useForm } from "@conform-to/react";
+import { getZodConstraint, parseWithZod } from "@conform-to/zod";
+import { invariantResponse } from "@epic-web/invariant";
+import type { SEOHandle } from "@nasa-gcn/remix-seo";
+import { ArrowLeftIcon, Cross1Icon, Link2Icon } from "@radix-ui/react-icons";
+import {
+	Box,
+	Button,
+	Flex,
+	Heading,
+	IconButton,
+	ScrollArea,
+	Separator,
+	Text,
+	Tooltip,
+} from "@radix-ui/themes";
+import {
+	json,
+	type ActionFunctionArgs,
+	type LoaderFunctionArgs,
+	type SerializeFrom,
+} from "@remix-run/node";
+import {
+	Link,
+	useFetcher,
+	useLoaderData,
+	type MetaFunction,
+} from "@remix-run/react";
+import { z } from "zod";
+import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { ErrorList, Field } from "#app/components/forms.tsx";
+import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { getDomainUrl, useDoubleCheck } from "#app/utils/misc.tsx";
+import { requireUserWithPermission } from "#app/utils/permissions.server.ts";
+import { createToastHeaders } from "#app/utils/toast.server.ts";
+import { UsernameSchema } from "#app/utils/user-validation.ts";
+import { getNotePermission } from "#app/utils/user.ts";
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+};
+
+const addShareActionIntent = "add-share";
+const removeShareActionIntent = "remove-share";
+const createLinkActionIntent = "create-link";
+const revokeLinkActionIntent = "revoke-link";
+
+const AddShareSchema = z.object({
+	username: UsernameSchema,
+	access: z.enum(["read", "edit"]),
+});
+
+const CreateLinkSchema = z.object({
+	expiresInDays: z.coerce.number().int().min(1).max(365).optional(),
+});
+
+/**
+ * Only the owner (or someone who can update any note) can manage who a note is
+ * shared with. People with edit access can't share it any further.
+ */
+async function requireNoteSharer(request: Request, noteId?: string) {
+	const userId = await requireUserId(request);
+	const note = await prisma.note.findUnique({
+		select: { id: true, ownerId: true },
+		where: { id: noteId },
+	});
+	invariantResponse(note, "Not found", { status: 404 });
+	await requireUserWithPermission(
+		request,
+		getNotePermission("update", { isOwner: note.ownerId === userId }),
+	);
+	return note;
+}
+
+export async function loader({ params, request }: LoaderFunctionArgs) {
+	await requireNoteSharer(request, params.noteId);
+	const note = await prisma.note.findUniqueOrThrow({
+		select: {
+			id: true,
+			title: true,
+			shares: {
+				select: {
+					id: true,
+					access: true,
+					user: { select: { username: true, name: true } },
+				},
+				orderBy: { createdAt: "asc" },
+			},
+			shareLinks: {
+				select: { id: true, token: true, expiresAt: true, createdAt: true },
+				where: {
+					revokedAt: null,
+					OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+				},
+				orderBy: { createdAt: "desc" },
+			},
+		},
+		where: { id: params.noteId },
+	});
+
+	const domainUrl = getDomainUrl(request);
+	return json({
+		note: {
+			id: note.id,
+			title: note.title,
+			shares: note.shares,
+			shareLinks: note.shareLinks.map((link) => ({
+				id: link.id,
+				url: `${domainUrl}/shared/${link.token}`,
+				createdAtFormatted: link.createdAt.toLocaleString(),
+				expiresAtFormatted: link.expiresAt?.toLocaleString() ?? null,
+			})),
+		},
+	});
+}
+
+type ShareActionArgs = {
+	note: { id: string; ownerId: string };
+	formData: FormData;
+};
+
+export async function action({ params, request }: ActionFunctionArgs) {
+	const note = await requireNoteSharer(request, params.noteId);
+	const formData = await request.formData();
+	const intent = formData.get("intent");
+	switch (intent) {
+		case addShareActionIntent: {
+			return addShareAction({ note, formData });
+		}
+		case removeShareActionIntent: {
+			return removeShareAction({ note, formData });
+		}
+		case createLinkActionIntent: {
+			return createLinkAction({ note, formData });
+		}
+		case revokeLinkActionIntent: {
+			return revokeLinkAction({ note, formData });
+		}
+		default: {
+			throw new Response(`Invalid intent "${intent}"`, { status: 400 });
+		}
+	}
+}
+
+async function addShareAction({ note, formData }: ShareActionArgs) {
+	const submission = await parseWithZod(formData, {
+		async: true,
+		schema: AddShareSchema.transform(async (data, ctx) => {
+			const user = await prisma.user.findUnique({
+				select: { id: true },
+				where: { username: data.username },
+			});
+			if (!user) {
+				ctx.addIssue({
+					path: ["username"],
+					code: z.ZodIssueCode.custom,
+					message: "No user with this username exists",
+				});
+				return z.NEVER;
+			}
+			if (user.id === note.ownerId) {
+				ctx.addIssue({
+					path: ["username"],
+					code: z.ZodIssueCode.custom,
+					message: "This user already owns the note",
+				});
+				return z.NEVER;
+			}
+			return { ...data, userId: user.id };
+		}),
+	});
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	const { userId, access, username } = submission.value;
+	await prisma.noteShare.upsert({
+		select: { id: true },
+		where: { noteId_userId: { noteId: note.id, userId } },
+		create: { noteId: note.id, userId, access },
+		update: { access },
+	});
+
+	return json(
+		{ result: submission.reply({ resetForm: true }) },
+		{
+			headers: await createToastHeaders({
+				type: "success",
+				title: "Shared",
+				description: `${username} can now ${
+					access === "edit" ? "edit" : "read"
+				} this note.`,
+			}),
+		},
+	);
+}
+
+async function removeShareAction({ note, formData }: ShareActionArgs) {
+	const shareId = formData.get("shareId");
+	invariantResponse(typeof shareId === "string", "Invalid shareId");
+	const { count } = await prisma.noteShare.deleteMany({
+		where: { id: shareId, noteId: note.id },
+	});
+	invariantResponse(count, "Share not found", { status: 404 });
+	return json({ status: "success" } as const);
+}
+
+async function createLinkAction({ note, formData }: ShareActionArgs) {
+	const submission = parseWithZod(formData, { schema: CreateLinkSchema });
+	if (submission.status !== "success") {
+		return json(
+			{ result: submission.reply() },
+			{ status: submission.status === "error" ? 400 : 200 },
+		);
+	}
+
+	const { expiresInDays } = submission.value;
+	await prisma.noteShareLink.create({
+		select: { id: true },
+		data: {
+			noteId: note.id,
+			token: crypto.randomBytes(32).toString("base64url"),
+			expiresAt: expiresInDays
+				? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+				: null,
+		},
+	});
+
+	return json({ result: submission.reply({ resetForm: true }) });
+}
+
+async function revokeLinkAction({ note, formData }: ShareActionArgs) {
+	const linkId = formData.get("linkId");
+	invariantResponse(typeof linkId === "string", "Invalid linkId");
+	const { count } = await prisma.noteShareLink.updateMany({
+		where: { id: linkId, noteId: note.id, revokedAt: null },
+		data: { revokedAt: new Date() },
+	});
+	invariantResponse(count, "Link not found", { status: 404 });
+	return json({ status: "success" } as const, {
+		headers: await createToastHeaders({
+			title: "Revoked",
+			description: "The link no longer gives access to this note.",
+		}),
+	});
+}
+
+export default function NoteShareRoute() {
+	const data = useLoaderData<typeof loader>();
+
+	return (
+		<Flex direction="column" position="absolute" inset="0">
+			<Flex justify="between" align="center" gap="4" pt="4" px="4">
+				<Heading size="6">Share "{data.note.title}"</Heading>
+				<Button asChild variant="soft">
+					<Link to=".." relative="path">
+						<ArrowLeftIcon />
+						<span className="max-md:hidden">Back to note</span>
+					</Link>
+				</Button>
+			</Flex>
+
+			<ScrollArea scrollbars="vertical">
+				<Flex direction="column" gap="5" p="4">
+					<Box>
+						<Heading as="h2" size="4" mb="2">
+							People
+						</Heading>
+						{data.note.shares.length ? (
+							<Flex direction="column" gap="2" mb="4">
+								{data.note.shares.map((share) => (
+									<NoteShare key={share.id} share={share} />
+								))}
+							</Flex>
+						) : (
+							<Text as="p" size="2" color="gray" mb="4">
+								This note hasn't been shared with anyone yet.
+							</Text>
+						)}
+						<AddShare />
+					</Box>
+
+					<Separator size="4" />
+
+					<Box>
+						<Heading as="h2" size="4" mb="2">
+							Public links
+						</Heading>
+						<Text as="p" size="2" color="gray" mb="4">
+							Anyone with a link can read this note without signing in.
+						</Text>
+						{data.note.shareLinks.length ? (
+							<Flex direction="column" gap="2" mb="4">
+								{data.note.shareLinks.map((link) => (
+									<NoteShareLink key={link.id} link={link} />
+								))}
+							</Flex>
+						) : null}
+						<CreateLink />
+					</Box>
+				</Flex>
+			</ScrollArea>
+		</Flex>
+	);
+}
+
+function NoteShare({
+	share,
+}: {
+	share: SerializeFrom<typeof loader>["note"]["shares"][number];
+}) {
+	const fetcher = useFetcher<typeof removeShareAction>();
+	return (
+		<Flex justify="between" align="center" gap="2">
+			<Text size="2">
+				{share.user.name ?? share.user.username}{" "}
+				<Text color="gray">
+					({share.access === "edit" ? "can edit" : "can read"})
+				</Text>
+			</Text>
+			<fetcher.Form method="POST">
+				<input type="hidden" name="shareId" value={share.id} />
+				<Tooltip content="Stop sharing with this user">
+					<IconButton
+						name="intent"
+						value={removeShareActionIntent}
+						color="red"
+						variant="soft"
+						loading={fetcher.state !== "idle"}
+					>
+						<Cross1Icon />
+					</IconButton>
+				</Tooltip>
+			</fetcher.Form>
+		</Flex>
+	);
+}
+
+function AddShare() {
+	const fetcher = useFetcher<typeof addShareAction>();
+	const [form, fields] = useForm({
+		id: "add-share",
+		constraint: getZodConstraint(AddShareSchema),
+		lastResult: fetcher.data?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: AddShareSchema });
+		},
+		defaultValue: { access: "read" },
+	});
+
+	return (
+		<fetcher.Form method="POST" {...getFormProps(form)}>
+			<Flex wrap="wrap" align="start" gap="4">
+				<Field
+					labelProps={{ htmlFor: fields.username.id, children: "Username" }}
+					inputProps={getInputProps(fields.username, { type: "text" })}
+					errors={fields.username.errors}
+				/>
+				<label className="flex flex-col gap-1 text-body-xs">
+					Access
+					<select
+						name={fields.access.name}
+						defaultValue={fields.access.initialValue}
+					>
+						<option value="read">Can read</option>
+						<option value="edit">Can edit</option>
+					</select>
+				</label>
+				<Button
+					type="submit"
+					name="intent"
+					value={addShareActionIntent}
+					loading={fetcher.state !== "idle"}
+					mt="5"
+				>
+					Share
+				</Button>
+			</Flex>
+			<ErrorList errors={form.errors} id={form.errorId} />
+		</fetcher.Form>
+	);
+}
+
+function NoteShareLink({
+	link,
+}: {
+	link: SerializeFrom<typeof loader>["note"]["shareLinks"][number];
+}) {
+	const fetcher = useFetcher<typeof revokeLinkAction>();
+	const dc = useDoubleCheck();
+	return (
+		<Flex justify="between" align="center" gap="2">
+			<Flex direction="column" className="min-w-0">
+				<Text size="2" className="truncate">
+					<a href={link.url} className="underline">
+						{link.url}
+					</a>
+				</Text>
+				<Text size="1" color="gray">
+					Created {link.createdAtFormatted}
+					{link.expiresAtFormatted
+						? `, expires ${link.expiresAtFormatted}`
+						: ", never expires"}
+				</Text>
+			</Flex>
+			<fetcher.Form method="POST">
+				<input type="hidden" name="linkId" value={link.id} />
+				<Button
+					{...dc.getButtonProps({
+						type: "submit",
+						name: "intent",
+						value: revokeLinkActionIntent,
+					})}
+					color="red"
+					variant={dc.doubleCheck ? "solid" : "soft"}
+					loading={fetcher.state !== "idle"}
+				>
+					{dc.doubleCheck ? "Are you sure?" : "Revoke"}
+				</Button>
+			</fetcher.Form>
+		</Flex>
+	);
+}
+
+function CreateLink() {
+	const fetcher = useFetcher<typeof createLinkAction>();
+	const [form, fields] = useForm({
+		id: "create-link",
+		lastResult: fetcher.data?.result,
+	});
+
+	return (
+		<fetcher.Form method="POST" {...getFormProps(form)}>
+			<Flex wrap="wrap" align="end" gap="4">
+				<label className="flex flex-col gap-1 text-body-xs">
+					Expires
+					<select name={fields.expiresInDays.name} defaultValue="">
+						<option value="">Never</option>
+						<option value="1">After 1 day</option>
+						<option value="7">After 7 days</option>
+						<option value="30">After 30 days</option>
+					</select>
+				</label>
+				<Button
+					type="submit"
+					name="intent"
+					value={createLinkActionIntent}
+					variant="soft"
+					loading={fetcher.state !== "idle"}
+				>
+					<Link2Icon />
+					Create link
+				</Button>
+			</Flex>
+			<ErrorList errors={form.errors} id={form.errorId} />
+		</fetcher.Form>
+	);
+}
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+	return [{ title: `Share ${data?.note.title ?? "Note"} | Epic Notes` }];
+};
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: () => <p>You are not allowed to do that</p>,
+				404: ({ params }) => (
+					<p>No note with the id "{params.noteId}" exists</p>
+				),
+			}}
+		/>
+	);
+}
@@ -1,12 +1,23 @@
 import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
 import { requireUserId } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
 import { NoteEditor } from "./__note-editor.tsx";
 
 export { action } from "./__note-editor.server.tsx";
 
 export async function loader({ request }: LoaderFunctionArgs) {
-	await requireUserId(request);
-	return json({});
+	const userId = await requireUserId(request);
+	const tags = await prisma.tag.findMany({
+		select: { name: true },
+		where: { ownerId: userId },
+		orderBy: { name: "asc" },
+	});
+	return json({ tagSuggestions: tags.map((tag) => tag.name) });
 }
 
-export default NoteEditor;
+export default function NoteNew() {
+	const data = useLoaderData<typeof loader>();
+
+	return <NoteEditor tagSuggestions={data.tagSuggestions} />;
+}
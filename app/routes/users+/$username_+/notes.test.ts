@@ -0,0 +1,101 @@
+import { expect, test } from "vitest";
+import { getSessionExpirationDate } from "#app/utils/auth.server.ts";
+import { prisma } from "#app/utils/db.server.ts";
+import { createUser } from "#tests/db-utils.ts";
+import { BASE_URL, getSessionCookieHeader } from "#tests/utils.ts";
+import { loader } from "./notes.tsx";
+
+async function setupOwnerWithNotes() {
+	const session = await prisma.session.create({
+		select: { id: true, userId: true },
+		data: {
+			expirationDate: getSessionExpirationDate(),
+			user: {
+				create: { ...createUser(), roles: { connect: { name: "user" } } },
+			},
+		},
+	});
+	const { username } = await prisma.user.findUniqueOrThrow({
+		select: { username: true },
+		where: { id: session.userId },
+	});
+	const createNote = (title: string, tags: Array<string>) =>
+		prisma.note.create({
+			select: { id: true, title: true },
+			data: {
+				title,
+				content: "Some content",
+				ownerId: session.userId,
+				tags: {
+					connectOrCreate: tags.map((name) => ({
+						where: { ownerId_name: { ownerId: session.userId, name } },
+						create: { name, ownerId: session.userId },
+					})),
+				},
+			},
+		});
+	return {
+		username,
+		cookie: await getSessionCookieHeader(session),
+		notes: {
+			work: await createNote("Work", ["work"]),
+			urgentWork: await createNote("Urgent work", ["work", "urgent"]),
+			untagged: await createNote("Untagged", []),
+		},
+	};
+}
+
+type NotesData = {
+	owner: { notes: Array<{ id: string; title: string }> };
+	selectedTags: Array<string>;
+};
+
+async function getNotes(username: string, cookie: string, search: string) {
+	const request = new Request(`${BASE_URL}/users/${username}/notes${search}`, {
+		headers: { cookie },
+	});
+	const response = await loader({ request, params: { username }, context: {} });
+	const data = (await response.json()) as NotesData;
+	return {
+		selectedTags: data.selectedTags,
+		titles: data.owner.notes.map(({ title }) => title).sort(),
+	};
+}
+
+test("without a tag all the notes are listed", async () => {
+	const { username, cookie } = await setupOwnerWithNotes();
+	expect(await getNotes(username, cookie, "")).toEqual({
+		selectedTags: [],
+		titles: ["Untagged", "Urgent work", "Work"],
+	});
+});
+
+test("a tag lists only the notes that have it", async () => {
+	const { username, cookie } = await setupOwnerWithNotes();
+	expect(await getNotes(username, cookie, "?tag=work")).toEqual({
+		selectedTags: ["work"],
+		titles: ["Urgent work", "Work"],
+	});
+});
+
+test("tags match whatever their case", async () => {
+	const { username, cookie } = await setupOwnerWithNotes();
+	expect(await getNotes(username, cookie, "?tag=%20WoRk%20")).toEqual({
+		selectedTags: ["work"],
+		titles: ["Urgent work", "Work"],
+	});
+});
+
+test("several tags list only the notes that have all of them", async () => {
+	const { username, cookie } = await setupOwnerWithNotes();
+	expect(
+		await getNotes(username, cookie, "?tag=work&tag=Urgent&tag=WORK"),
+	).toEqual({
+		selectedTags: ["work", "urgent"],
+		titles: ["Urgent work"],
+	});
+	expect(await getNotes(username, cookie, "?tag=work&tag=missing")).toEqual({
+		selectedTags: ["work", "missing"],
+		titles: [],
+	});
+});
@@ -1,12 +1,21 @@
 import { invariantResponse } from "@epic-web/invariant";
 import { json, type LoaderFunctionArgs } from "@remix-run/node";
-import { Link, NavLink, Outlet, useLoaderData } from "@remix-run/react";
+import {
+	Link,
+	NavLink,
+	Outlet,
+	useLoaderData,
+	useSearchParams,
+} from "@remix-run/react";
 import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
+import { getUserId } from "#app/utils/auth.server.ts";
 import { prisma } from "#app/utils/db.server.ts";
-import { getUserImgSrc } from "#app/utils/misc.tsx";
+import { getUserImgSrc, getUserImgSrcSet } from "#app/utils/misc.tsx";
+import { getReadableNotesWhere } from "#app/utils/permissions.server.ts";
 import { useOptionalUser } from "#app/utils/user.ts";
 import { PlusIcon } from "@radix-ui/react-icons";
 import {
+	Badge,
 	Box,
 	Button,
 	Container,
@@ -16,21 +25,45 @@ import {
 	ScrollArea,
 } from "@radix-ui/themes";
 
-export async function loader({ params }: LoaderFunctionArgs) {
+export async function loader({ params, request }: LoaderFunctionArgs) {
+	const userId = await getUserId(request);
+	// tags are stored in lowercase, so ?tag=Work finds notes tagged "work"
+	const selectedTags = [
+		...new Set(
+			new URL(request.url).searchParams
+				.getAll("tag")
+				.map((name) => name.trim().toLowerCase()),
+		),
+	];
+	const readableNotesWhere = await getReadableNotesWhere(userId);
 	const owner = await prisma.user.findFirst({
 		select: {
 			id: true,
 			name: true,
 			username: true,
 			image: { select: { id: true } },
-			notes: { select: { id: true, title: true } },
+			notes: {
+				select: { id: true, title: true },
+				// notes have to have every selected tag
+				where: {
+					AND: [
+						readableNotesWhere,
+						...selectedTags.map((name) => ({ tags: { some: { name } } })),
+					],
+				},
+			},
+			tags: {
+				select: { id: true, name: true },
+				where: { notes: { some: readableNotesWhere } },
+				orderBy: { name: "asc" },
+			},
 		},
 		where: { username: params.username },
 	});
 
 	invariantResponse(owner, "Owner not found", { status: 404 });
 
-	return json({ owner });
+	return json({ owner, selectedTags });
 }
 
 export default function NotesRoute() {
@@ -38,6 +71,17 @@ export default function NotesRoute() {
 	const user = useOptionalUser();
 	const isOwner = user?.id === data.owner.id;
 	const ownerDisplayName = data.owner.name ?? data.owner.username;
+	const [searchParams] = useSearchParams();
+
+	function getTagToggleSearch(name: string) {
+		const params = new URLSearchParams(searchParams);
+		params.delete("tag");
+		const tags = data.selectedTags.includes(name)
+			? data.selectedTags.filter((tag) => tag !== name)
+			: [...data.selectedTags, name];
+		for (const tag of tags) params.append("tag", tag);
+		return params.size ? `?${params}` : "";
+	}
 
 	return (
 		<Flex pb="6" minHeight="400px" height="100%" px="6" className="container">
@@ -62,6 +106,7 @@ export default function NotesRoute() {
 							<Link to={`/users/${data.owner.username}`}>
 								<img
 									src={getUserImgSrc(data.owner.image?.id)}
+									srcSet={getUserImgSrcSet(data.owner.image?.id, 96)}
 									alt={ownerDisplayName}
 									className="h-16 w-16 rounded-full object-cover lg:h-24 lg:w-24"
 								/>
@@ -77,6 +122,29 @@ export default function NotesRoute() {
 							</Link>
 						</Flex>
 
+						{data.owner.tags.length ? (
+							<Flex wrap="wrap" gap="2" px="3" pb="3">
+								{data.owner.tags.map((tag) => {
+									const isSelected = data.selectedTags.includes(tag.name);
+									return (
+										<Badge
+											key={tag.id}
+											asChild
+											size="2"
+											variant={isSelected ? "solid" : "soft"}
+										>
+											<Link
+												to={getTagToggleSearch(tag.name)}
+												preventScrollReset
+												aria-pressed={isSelected}
+											>
+												{tag.name}
+											</Link>
+										</Badge>
+									);
+								})}
+							</Flex>
+						) : null}
 						<ScrollArea scrollbars="vertical">
 							<Flex direction="column" gap="2" px="3">
 								{isOwner ? (
@@ -89,7 +157,14 @@ export default function NotesRoute() {
 								) : null}
 								{data.owner.notes.map((note) => (
 									<Button key={note.id} variant="soft" asChild>
-										<NavLink to={note.id} preventScrollReset prefetch="intent">
+										<NavLink
+											to={{
+												pathname: note.id,
+												search: searchParams.toString(),
+											}}
+											preventScrollReset
+											prefetch="intent"
+										>
 											{note.title}
 										</NavLink>
 									</Button>
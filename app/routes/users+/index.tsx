@@ -5,7 +5,12 @@ import { GeneralErrorBoundary } from "#app/components/error-boundary.tsx";
 import { ErrorList } from "#app/components/forms.tsx";
 import { SearchBar } from "#app/components/search-bar.tsx";
 import { prisma } from "#app/utils/db.server.ts";
-import { cn, getUserImgSrc, useDelayedIsPending } from "#app/utils/misc.tsx";
+import {
+	cn,
+	getUserImgSrc,
+	getUserImgSrcSet,
+	useDelayedIsPending,
+} from "#app/utils/misc.tsx";
 
 const UserSearchResultSchema = z.object({
 	id: z.string(),
@@ -83,6 +88,7 @@ export default function UsersRoute() {
 										<img
 											alt={user.name ?? user.username}
 											src={getUserImgSrc(user.imageId)}
+											srcSet={getUserImgSrcSet(user.imageId, 64)}
 											className="h-16 w-16 rounded-full"
 										/>
 										{user.name ? (
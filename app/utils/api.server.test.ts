@@ -0,0 +1,24 @@
+import { expect, test } from "vitest";
+import { getBearerToken, hashApiToken } from "./api.server.ts";
+
+function requestWith(authorization?: string) {
+	return new Request("https://example.com/api/v1/notes", {
+		headers: authorization ? { Authorization: authorization } : {},
+	});
+}
+
+test("the token is read from a Bearer Authorization header", () => {
+	expect(getBearerToken(requestWith("Bearer epic_abc123"))).toBe("epic_abc123");
+	expect(getBearerToken(requestWith("bearer  epic_abc123"))).toBe(
+		"epic_abc123",
+	);
+	expect(getBearerToken(requestWith("Basic dXNlcjpwYXNz"))).toBeNull();
+	expect(getBearerToken(requestWith("Bearer"))).toBeNull();
+	expect(getBearerToken(requestWith())).toBeNull();
+});
+
+test("tokens are stored as their SHA-256 hash", () => {
+	expect(hashApiToken("epic_abc123")).toMatch(/^[0-9a-f]{64}$/);
+	expect(hashApiToken("epic_abc123")).toBe(hashApiToken("epic_abc123"));
+	expect(hashApiToken("epic_abc123")).not.toBe(hashApiToken("epic_abc124"));
+});
@@ -0,0 +1,285 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { Prisma } from "@prisma/client";
+import { json } from "@remix-run/node";
+import type { z } from "zod";
+import type { ApiError, ApiNote, ApiNoteImage } from "./api.ts";
+import { getClientIp } from "./audit.server.ts";
+import { prisma } from "./db.server.ts";
+import { getDomainUrl, getNoteImgSrc } from "./misc.tsx";
+import { userHasNotePermission } from "./permissions.server.ts";
+import {
+	consumeRateLimit,
+	getRateLimitHeaders,
+	type RateLimitConfig,
+} from "./rate-limit.server.ts";
+import type { Action } from "./user.ts";
+
+// tokens start with this so they're easy to spot (and for secret scanners)
+export const API_TOKEN_PREFIX = "epic_";
+
+// how stale a token's lastUsedAt can get before we update it, like sessions
+const LAST_USED_UPDATE_INTERVAL = 1000 * 60 * 5;
+
+// per IP, for requests without a valid token, so tokens can't be guessed
+const unauthenticatedRateLimit: RateLimitConfig = {
+	max: 10,
+	window: 60 * 1000,
+};
+
+export function getApiRateLimitConfig(): RateLimitConfig {
+	return {
+		max: Number(process.env.API_RATE_LIMIT ?? 60),
+		window: 60 * 1000,
+	};
+}
+
+export function hashApiToken(token: string) {
+	return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Creates a token that can do the given actions on notes, as far as the
+ * user's roles allow them. The token itself is returned here and never again,
+ * we only keep its hash.
+ */
+export async function createApiToken({
+	userId,
+	name,
+	actions,
+	expiresAt,
+}: {
+	userId: string;
+	name: string;
+	actions: Array<Action>;
+	expiresAt: Date | null;
+}) {
+	const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+	const permissions = await prisma.permission.findMany({
+		select: { id: true },
+		where: {
+			entity: "note",
+			action: { in: actions },
+			roles: { some: { users: { some: { id: userId } } } },
+		},
+	});
+	const apiToken = await prisma.apiToken.create({
+		select: { id: true, name: true },
+		data: {
+			name,
+			hash: hashApiToken(token),
+			prefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+			expiresAt,
+			userId,
+			permissions: { connect: permissions },
+		},
+	});
+	return { token, apiToken };
+}
+
+export type ApiAuth = {
+	userId: string;
+	apiTokenId: string;
+	/** the rate limit headers every response should include */
+	headers: Headers;
+};
+
+export function getBearerToken(request: Request) {
+	const authorization = request.headers.get("Authorization");
+	const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+	return match?.[1] ?? null;
+}
+
+/**
+ * Authenticates an API request by its token and counts it against the token's
+ * rate limit. Throws the JSON error response when that fails.
+ */
+export async function requireApiAuth(request: Request): Promise<ApiAuth> {
+	const token = getBearerToken(request);
+	const apiToken = token
+		? await prisma.apiToken.findUnique({
+				select: { id: true, userId: true, lastUsedAt: true },
+				where: {
+					hash: hashApiToken(token),
+					OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+				},
+			})
+		: null;
+
+	if (!apiToken) {
+		const rateLimit = consumeRateLimit(
+			`api-unauthenticated:${getClientIp(request) ?? "unknown"}`,
+			unauthenticatedRateLimit,
+		);
+		const headers = getRateLimitHeaders(rateLimit);
+		if (!rateLimit.allowed) throw tooManyRequests(headers);
+		headers.set("WWW-Authenticate", "Bearer");
+		throw apiError(
+			401,
+			token
+				? "The API token is invalid or has expired"
+				: "An API token is required in the Authorization header",
+			{ headers },
+		);
+	}
+
+	const rateLimit = consumeRateLimit(
+		`api-token:${apiToken.id}`,
+		getApiRateLimitConfig(),
+	);
+	const headers = getRateLimitHeaders(rateLimit);
+	if (!rateLimit.allowed) throw tooManyRequests(headers);
+
+	if (
+		!apiToken.lastUsedAt ||
+		Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL
+	) {
+		// nobody needs to wait for this, and if it fails we'll try again next time
+		void prisma.apiToken
+			.update({
+				select: { id: true },
+				where: { id: apiToken.id },
+				data: { lastUsedAt: new Date() },
+			})
+			.catch(() => {});
+	}
+
+	return { userId: apiToken.userId, apiTokenId: apiToken.id, headers };
+}
+
+const errorNames: Record<number, string> = {
+	400: "Bad Request",
+	401: "Unauthorized",
+	403: "Forbidden",
+	404: "Not Found",
+	405: "Method Not Allowed",
+	413: "Payload Too Large",
+	429: "Too Many Requests",
+};
+
+/**
+ * Every API error has the same shape, so clients only need to handle one.
+ */
+export function apiError(
+	status: number,
+	message: string,
+	{
+		headers,
+		details,
+	}: { headers?: HeadersInit; details?: Pick<ApiError, "issues"> } = {},
+) {
+	return json<ApiError>(
+		{ error: errorNames[status] ?? "Error", message, ...details },
+		{ status, headers },
+	);
+}
+
+function tooManyRequests(headers: Headers) {
+	return apiError(429, "Too many requests, try again later", { headers });
+}
+
+export function methodNotAllowed(allowed: Array<string>, headers: Headers) {
+	const allowHeaders = new Headers(headers);
+	allowHeaders.set("Allow", allowed.join(", "));
+	return apiError(405, `Allowed methods: ${allowed.join(", ")}`, {
+		headers: allowHeaders,
+	});
+}
+
+/**
+ * Parses and validates a JSON body, throwing a 400 that lists what's wrong
+ * with each field when it isn't valid.
+ */
+export async function parseJsonBody<Schema extends z.ZodTypeAny>(
+	request: Request,
+	schema: Schema,
+	{ headers }: { headers: Headers },
+): Promise<z.output<Schema>> {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		throw apiError(400, "The request body must be valid JSON", { headers });
+	}
+	const result = await schema.safeParseAsync(body);
+	if (!result.success) {
+		throw apiError(400, "The request body is invalid", {
+			headers,
+			details: { issues: result.error.flatten() },
+		});
+	}
+	return result.data;
+}
+
+/**
+ * Finds a note the token can do the action on. Notes the token can't even
+ * read are a 404 so their existence isn't given away.
+ */
+export async function requireApiNote(
+	auth: ApiAuth,
+	noteId: string | undefined,
+	action: Action,
+) {
+	const note = noteId
+		? await prisma.note.findUnique({
+				select: { id: true, ownerId: true },
+				where: { id: noteId },
+			})
+		: null;
+	if (
+		!note ||
+		!(await userHasNotePermission(auth.userId, "read", note, auth))
+	) {
+		throw apiError(404, "Note not found", { headers: auth.headers });
+	}
+	if (
+		action !== "read" &&
+		!(await userHasNotePermission(auth.userId, action, note, auth))
+	) {
+		throw apiError(403, `You are not allowed to ${action} this note`, {
+			headers: auth.headers,
+		});
+	}
+	return note;
+}
+
+export const apiNoteImageSelect = {
+	id: true,
+	altText: true,
+	contentType: true,
+	createdAt: true,
+} satisfies Prisma.NoteImageSelect;
+
+export const apiNoteSelect = {
+	id: true,
+	title: true,
+	content: true,
+	createdAt: true,
+	updatedAt: true,
+	owner: { select: { id: true, username: true } },
+	tags: { select: { name: true }, orderBy: { name: "asc" } },
+	images: { select: apiNoteImageSelect, orderBy: { createdAt: "asc" } },
+} satisfies Prisma.NoteSelect;
+
+export function serializeApiNote(
+	request: Request,
+	note: Prisma.NoteGetPayload<{ select: typeof apiNoteSelect }>,
+): ApiNote {
+	return {
+		...note,
+		createdAt: note.createdAt.toISOString(),
+		updatedAt: note.updatedAt.toISOString(),
+		tags: note.tags.map((tag) => tag.name),
+		images: note.images.map((image) => serializeApiNoteImage(request, image)),
+	};
+}
+
+export function serializeApiNoteImage(
+	request: Request,
+	image: Prisma.NoteImageGetPayload<{ select: typeof apiNoteImageSelect }>,
+): ApiNoteImage {
+	return {
+		...image,
+		createdAt: image.createdAt.toISOString(),
+		url: new URL(getNoteImgSrc(image.id), getDomainUrl(request)).toString(),
+	};
+}
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import {
+	NoteContentSchema,
+	NoteTagsSchema,
+	NoteTitleSchema,
+} from "./note-validation.ts";
+
+// What the API accepts and returns. The handlers parse with these and the
+// OpenAPI document (see openapi.server.ts) is generated from them, so the docs
+// can't describe something the API doesn't do. The response schemas are strict
+// so the contract tests notice any field that isn't documented.
+
+export const ApiPaginationSchema = z.object({
+	limit: z.coerce
+		.number()
+		.int()
+		.min(1)
+		.max(100)
+		.default(20)
+		.describe("How many notes to return"),
+	cursor: z
+		.string()
+		.optional()
+		.describe("The `nextCursor` of the previous page"),
+});
+
+export const ApiCreateNoteSchema = z.object({
+	title: NoteTitleSchema,
+	content: NoteContentSchema.describe("Markdown"),
+	tags: NoteTagsSchema.default([]),
+});
+
+export const ApiUpdateNoteSchema = z
+	.object({
+		title: NoteTitleSchema.optional(),
+		content: NoteContentSchema.describe("Markdown").optional(),
+		tags: NoteTagsSchema.describe("Replaces all of the note's tags").optional(),
+	})
+	.describe("Only the fields that are sent are changed");
+
+export const ApiNoteImageUploadSchema = z.object({
+	file: z
+		.instanceof(File, { message: "An image is required in the file field" })
+		.refine((file) => file.size > 0, {
+			message: "An image is required in the file field",
+		}),
+	altText: z.string().optional(),
+});
+
+export const ApiNoteImageSchema = z
+	.object({
+		id: z.string(),
+		altText: z.string().nullable(),
+		contentType: z.string(),
+		createdAt: z.string().datetime(),
+		url: z.string().url(),
+	})
+	.strict();
+
+export const ApiNoteSchema = z
+	.object({
+		id: z.string(),
+		title: z.string(),
+		content: z.string(),
+		createdAt: z.string().datetime(),
+		updatedAt: z.string().datetime(),
+		owner: z.object({ id: z.string(), username: z.string() }).strict(),
+		tags: z.array(z.string()),
+		images: z.array(ApiNoteImageSchema),
+	})
+	.strict();
+
+export const ApiNoteListSchema = z
+	.object({
+		notes: z.array(ApiNoteSchema),
+		nextCursor: z
+			.string()
+			.nullable()
+			.describe("Pass this as `cursor` for the next page, null on the last"),
+	})
+	.strict();
+
+export const ApiNoteResponseSchema = z.object({ note: ApiNoteSchema }).strict();
+
+export const ApiNoteImageListSchema = z
+	.object({ images: z.array(ApiNoteImageSchema) })
+	.strict();
+
+export const ApiNoteImageResponseSchema = z
+	.object({ image: ApiNoteImageSchema })
+	.strict();
+
+export const ApiErrorSchema = z
+	.object({
+		error: z.string(),
+		message: z.string(),
+		issues: z
+			.object({
+				formErrors: z.array(z.string()),
+				fieldErrors: z.record(z.array(z.string()).optional()),
+			})
+			.strict()
+			.optional()
+			.describe("What's wrong with each field, for invalid input"),
+	})
+	.strict();
+
+export type ApiNote = z.infer<typeof ApiNoteSchema>;
+export type ApiNoteImage = z.infer<typeof ApiNoteImageSchema>;
+export type ApiError = z.infer<typeof ApiErrorSchema>;
@@ -0,0 +1,94 @@
+import type { Prisma } from "@prisma/client";
+import type { AuditEventType } from "./audit.ts";
+import { prisma } from "./db.server.ts";
+
+/**
+ * Fly sets Fly-Client-IP and prevents spoofing of X-Forwarded-For, so we trust
+ * those. Anywhere else the first X-Forwarded-For entry is the best we have.
+ */
+export function getClientIp(request: Request) {
+	const flyClientIp = request.headers.get("Fly-Client-IP");
+	if (flyClientIp) return flyClientIp;
+	const forwardedFor = request.headers.get("X-Forwarded-For");
+	return forwardedFor?.split(",")[0]?.trim() || null;
+}
+
+/**
+ * Records a security-relevant event. The actor defaults to the user because
+ * most events are things people do to their own account. Failing to record an
+ * event is logged but never fails the request that triggered it.
+ */
+export async function recordAuditEvent({
+	request,
+	type,
+	userId = null,
+	actorId = userId,
+	metadata = {},
+}: {
+	request: Request;
+	type: AuditEventType;
+	userId?: string | null;
+	actorId?: string | null;
+	metadata?: Record<string, unknown>;
+}) {
+	try {
+		await prisma.auditEvent.create({
+			select: { id: true },
+			data: {
+				type,
+				userId,
+				actorId,
+				ip: getClientIp(request),
+				userAgent: request.headers.get("User-Agent"),
+				metadata: JSON.stringify(metadata),
+			},
+		});
+	} catch (error) {
+		console.error(`Failed to record "${type}" audit event`, error);
+	}
+}
+
+/**
+ * Builds the filters for the admin audit page (and its CSV export) from the
+ * search params: `type`, `user` (matches the username or email of the user or
+ * the actor) and the `from`/`to` dates (inclusive).
+ */
+export function getAuditEventsWhere(
+	searchParams: URLSearchParams,
+): Prisma.AuditEventWhereInput {
+	const filters: Array<Prisma.AuditEventWhereInput> = [];
+	const type = searchParams.get("type");
+	if (type) filters.push({ type });
+	const user = searchParams.get("user");
+	if (user) {
+		const userWhere = {
+			OR: [{ username: { contains: user } }, { email: { contains: user } }],
+		};
+		filters.push({ OR: [{ user: userWhere }, { actor: userWhere }] });
+	}
+	const from = parseDate(searchParams.get("from"));
+	if (from) filters.push({ createdAt: { gte: from } });
+	const to = parseDate(searchParams.get("to"));
+	if (to) {
+		to.setUTCDate(to.getUTCDate() + 1);
+		filters.push({ createdAt: { lt: to } });
+	}
+	return { AND: filters };
+}
+
+function parseDate(value: string | null) {
+	if (!value) return null;
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export const auditEventSelect = {
+	id: true,
+	type: true,
+	ip: true,
+	userAgent: true,
+	metadata: true,
+	createdAt: true,
+	user: { select: { id: true, username: true } },
+	actor: { select: { id: true, username: true } },
+} satisfies Prisma.AuditEventSelect;
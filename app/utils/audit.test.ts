@@ -0,0 +1,17 @@
+import { expect, test } from "vitest";
+import { formatAuditMetadata, getAuditEventLabel } from "./audit.ts";
+
+test("known event types get a label", () => {
+	expect(getAuditEventLabel("login-failed")).toBe("Failed login");
+	expect(getAuditEventLabel("something-new")).toBe("something-new");
+});
+
+test("metadata is summarized", () => {
+	expect(
+		formatAuditMetadata(
+			JSON.stringify({ role: "moderator", permissions: ["a", "b"] }),
+		),
+	).toBe("role: moderator; permissions: a, b");
+	expect(formatAuditMetadata("{}")).toBe("");
+	expect(formatAuditMetadata("not json")).toBe("");
+});
@@ -0,0 +1,65 @@
+export const auditEventLabels = {
+	login: "Logged in",
+	"login-failed": "Failed login",
+	"account-locked": "Locked after too many failed attempts",
+	"account-unlocked": "Unlocked from the emailed link",
+	"password-changed": "Password changed",
+	"password-created": "Password created",
+	"password-reset": "Password reset",
+	"two-factor-enabled": "Two-factor authentication enabled",
+	"two-factor-disabled": "Two-factor authentication disabled",
+	"recovery-code-used": "Logged in with a recovery code",
+	"recovery-codes-regenerated": "Recovery codes regenerated",
+	"email-changed": "Email changed",
+	"connection-added": "Connection added",
+	"connection-removed": "Connection removed",
+	"passkey-added": "Passkey added",
+	"passkey-removed": "Passkey removed",
+	"session-revoked": "Signed out a session",
+	"sessions-revoked": "Signed out of other sessions",
+	"api-token-created": "API token created",
+	"api-token-revoked": "API token revoked",
+	"webhook-created": "Webhook created",
+	"webhook-deleted": "Webhook deleted",
+	"data-export-requested": "Data export requested",
+	"account-deleted": "Account deleted",
+	"admin-role-assigned": "Role assigned by an admin",
+	"admin-role-removed": "Role removed by an admin",
+	"admin-sessions-revoked": "Sessions revoked by an admin",
+	"admin-password-reset": "Password reset forced by an admin",
+	"admin-user-deleted": "Account deleted by an admin",
+	"admin-role-created": "Role created",
+	"admin-role-updated": "Role updated",
+	"admin-role-deleted": "Role deleted",
+	"admin-maintenance-run": "Maintenance run by an admin",
+} as const;
+
+export type AuditEventType = keyof typeof auditEventLabels;
+
+export const auditEventTypes = Object.keys(
+	auditEventLabels,
+) as Array<AuditEventType>;
+
+export function getAuditEventLabel(type: string) {
+	return type in auditEventLabels
+		? auditEventLabels[type as AuditEventType]
+		: type;
+}
+
+/**
+ * Turns the stored metadata JSON into a short "key: value" summary for display.
+ */
+export function formatAuditMetadata(metadata: string) {
+	try {
+		const data: unknown = JSON.parse(metadata);
+		if (!data || typeof data !== "object") return "";
+		return Object.entries(data)
+			.map(
+				([key, value]) =>
+					`${key}: ${Array.isArray(value) ? value.join(", ") : String(value)}`,
+			)
+			.join("; ");
+	} catch {
+		return "";
+	}
+}
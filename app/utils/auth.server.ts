@@ -3,11 +3,20 @@ import { redirect } from "@remix-run/node";
 import bcrypt from "bcryptjs";
 import { Authenticator } from "remix-auth";
 import { safeRedirect } from "remix-utils/safe-redirect";
+import { getClientIp, recordAuditEvent } from "./audit.server.ts";
 import { connectionSessionStorage, providers } from "./connections.server.ts";
 import { prisma } from "./db.server.ts";
+import {
+	clearFailedAttempts,
+	getLockoutStatus,
+	getUnknownUserLockoutStatus,
+	recordFailedAttempt,
+	recordUnknownUserFailedAttempt,
+} from "./lockout.server.ts";
 import { combineHeaders, downloadFile } from "./misc.tsx";
 import type { ProviderUser } from "./providers/provider.ts";
 import { authSessionStorage } from "./session.server.ts";
+import { storeImage } from "./storage.server.ts";
 
 export const SESSION_EXPIRATION_TIME = 1000 * 60 * 60 * 24 * 30;
 export const getSessionExpirationDate = () =>
@@ -15,6 +24,20 @@ export const getSessionExpirationDate = () =>
 
 export const sessionKey = "sessionId";
 
+// how stale a session's lastSeenAt can get before we update it, so we don't
+// write to the database on every request
+const LAST_SEEN_UPDATE_INTERVAL = 1000 * 60 * 5;
+
+/**
+ * What we record about the device a session is created from.
+ */
+export function getSessionDeviceData(request: Request) {
+	return {
+		userAgent: request.headers.get("User-Agent"),
+		ip: getClientIp(request),
+	};
+}
+
 export const authenticator = new Authenticator<ProviderUser>(
 	connectionSessionStorage,
 );
@@ -30,7 +53,7 @@ export async function getUserId(request: Request) {
 	const sessionId = authSession.get(sessionKey);
 	if (!sessionId) return null;
 	const session = await prisma.session.findUnique({
-		select: { user: { select: { id: true } } },
+		select: { lastSeenAt: true, user: { select: { id: true } } },
 		where: { id: sessionId, expirationDate: { gt: new Date() } },
 	});
 	if (!session?.user) {
@@ -40,6 +63,16 @@ export async function getUserId(request: Request) {
 			},
 		});
 	}
+	if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL) {
+		// nobody needs to wait for this, and if it fails we'll try again next time
+		void prisma.session
+			.update({
+				select: { id: true },
+				where: { id: sessionId },
+				data: { lastSeenAt: new Date() },
+			})
+			.catch(() => {});
+	}
 	return session.user.id;
 }
 
@@ -70,51 +103,120 @@ export async function requireAnonymous(request: Request) {
 	}
 }
 
+/**
+ * Checks a username and password and creates a session. Failed attempts are
+ * counted per account (see lockout.server.ts), so once someone has guessed
+ * wrong a few times they have to wait longer and longer before trying again,
+ * wherever the attempts come from.
+ */
 export async function login({
+	request,
 	username,
 	password,
 }: {
+	request: Request;
 	username: User["username"];
 	password: string;
 }) {
+	const existingUser = await prisma.user.findUnique({
+		select: { id: true },
+		where: { username },
+	});
+	// usernames that don't exist are locked out the same way, so the answer
+	// doesn't give away which ones do
+	const lockout = existingUser
+		? await getLockoutStatus({ userId: existingUser.id, type: "password" })
+		: getUnknownUserLockoutStatus(username);
+	if (lockout.retryAt) {
+		// don't even check the password, or the wait wouldn't mean anything
+		return {
+			status: "locked",
+			userId: existingUser?.id ?? null,
+			retryAt: lockout.retryAt,
+			locked: lockout.locked,
+			justLocked: false,
+		} as const;
+	}
+
 	const user = await verifyUserPassword({ username }, password);
-	if (!user) return null;
+	if (!user) {
+		await recordAuditEvent({
+			request,
+			type: "login-failed",
+			userId: existingUser?.id,
+			actorId: null,
+			metadata: { username },
+		});
+		const { justLocked, retryAt } = existingUser
+			? await recordFailedAttempt({ userId: existingUser.id, type: "password" })
+			: recordUnknownUserFailedAttempt(username);
+		if (justLocked && existingUser) {
+			await recordAuditEvent({
+				request,
+				type: "account-locked",
+				userId: existingUser.id,
+				actorId: null,
+				metadata: { reason: "password" },
+			});
+		}
+		return justLocked && retryAt
+			? ({
+					status: "locked",
+					userId: existingUser?.id ?? null,
+					retryAt,
+					locked: true,
+					justLocked,
+				} as const)
+			: ({ status: "invalid" } as const);
+	}
+	await clearFailedAttempts({ userId: user.id, type: "password" });
 	const session = await prisma.session.create({
 		select: { id: true, expirationDate: true, userId: true },
 		data: {
 			expirationDate: getSessionExpirationDate(),
 			userId: user.id,
+			...getSessionDeviceData(request),
 		},
 	});
-	return session;
+	return { status: "success", session } as const;
 }
 
 export async function resetUserPassword({
+	request,
 	username,
 	password,
 }: {
+	request: Request;
 	username: User["username"];
 	password: string;
 }) {
 	const hashedPassword = await getPasswordHash(password);
-	return prisma.user.update({
+	const user = await prisma.user.update({
+		select: { id: true },
 		where: { username },
 		data: {
 			password: {
-				update: {
-					hash: hashedPassword,
+				// an admin may have removed the password to force a reset
+				upsert: {
+					create: { hash: hashedPassword },
+					update: { hash: hashedPassword },
 				},
 			},
 		},
 	});
+	await clearFailedAttempts({ userId: user.id });
+	await recordAuditEvent({ request, type: "password-reset", userId: user.id });
+	return user;
 }
 
 export async function signup({
+	request,
 	email,
 	username,
 	password,
 	name,
 }: {
+	request: Request;
 	email: User["email"];
 	username: User["username"];
 	name: User["name"];
@@ -125,6 +227,7 @@ export async function signup({
 	const session = await prisma.session.create({
 		data: {
 			expirationDate: getSessionExpirationDate(),
+			...getSessionDeviceData(request),
 			user: {
 				create: {
 					email: email.toLowerCase(),
@@ -146,6 +249,7 @@ export async function signup({
 }
 
 export async function signupWithConnection({
+	request,
 	email,
 	username,
 	name,
@@ -153,6 +257,7 @@ export async function signupWithConnection({
 	providerName,
 	imageUrl,
 }: {
+	request: Request;
 	email: User["email"];
 	username: User["username"];
 	name: User["name"];
@@ -163,6 +268,7 @@ export async function signupWithConnection({
 	const session = await prisma.session.create({
 		data: {
 			expirationDate: getSessionExpirationDate(),
+			...getSessionDeviceData(request),
 			user: {
 				create: {
 					email: email.toLowerCase(),
@@ -171,7 +277,12 @@ export async function signupWithConnection({
 					roles: { connect: { name: "user" } },
 					connections: { create: { providerId, providerName } },
 					image: imageUrl
-						? { create: await downloadFile(imageUrl) }
+						? {
+								create: await storeImage(
+									"user-images",
+									await downloadFile(imageUrl),
+								),
+							}
 						: undefined,
 				},
 			},
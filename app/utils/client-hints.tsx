@@ -10,11 +10,23 @@ import {
 import { clientHint as timeZoneHint } from "@epic-web/client-hints/time-zone";
 import { useRevalidator } from "@remix-run/react";
 import * as React from "react";
+import { negotiateLocale } from "./i18n.ts";
 import { useRequestInfo } from "./request-info.ts";
 
+// the browser's languages in order of preference, narrowed down to one we
+// support (or null, so the server can try the Accept-Language header)
+const localeHint = {
+	cookieName: "CH-locale",
+	getValueCode: "(navigator.languages || [navigator.language]).join(',')",
+	fallback: "",
+	transform: (value: string) =>
+		value ? negotiateLocale(value.split(",")) : null,
+};
+
 const hintsUtils = getHintUtils({
 	theme: colorSchemeHint,
 	timeZone: timeZoneHint,
+	locale: localeHint,
 	// add other hints here
 });
 
@@ -1,6 +1,8 @@
 import { createCookieSessionStorage } from "@remix-run/node";
-import type { ProviderName } from "./connections.tsx";
+import { providerNames, type ProviderName } from "./connections.tsx";
 import { GitHubProvider } from "./providers/github.server.ts";
+import { GoogleProvider } from "./providers/google.server.ts";
+import { OIDCProvider } from "./providers/oidc.server.ts";
 import type { AuthProvider } from "./providers/provider.ts";
 import type { Timings } from "./timing.server.ts";
 
@@ -18,8 +20,24 @@ export const connectionSessionStorage = createCookieSessionStorage({
 
 export const providers: Record<ProviderName, AuthProvider> = {
 	github: new GitHubProvider(),
+	google: new GoogleProvider(),
+	oidc: new OIDCProvider(),
 };
 
+/**
+ * The providers people can use right now. Pass these to the UI rather than
+ * listing every provider we know about.
+ */
+export function getConfiguredProviderNames() {
+	return providerNames.filter((providerName) =>
+		providers[providerName].isConfigured(),
+	);
+}
+
+export function isProviderConfigured(providerName: ProviderName) {
+	return providers[providerName].isConfigured();
+}
+
 export function handleMockAction(providerName: ProviderName, request: Request) {
 	return providers[providerName].handleMockAction(request);
 }
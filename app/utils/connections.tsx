@@ -1,24 +1,49 @@
 import { Form } from "@remix-run/react";
 import { z } from "zod";
 import { useIsPending } from "./misc.tsx";
-import { GitHubLogoIcon } from "@radix-ui/react-icons";
+import { EnterIcon, GitHubLogoIcon } from "@radix-ui/react-icons";
 import { Button } from "@radix-ui/themes";
 
 export const GITHUB_PROVIDER_NAME = "github";
+export const GOOGLE_PROVIDER_NAME = "google";
+export const OIDC_PROVIDER_NAME = "oidc";
 // to add another provider, set their name here and add it to the providerNames below
 
-export const providerNames = [GITHUB_PROVIDER_NAME] as const;
+export const providerNames = [
+	GITHUB_PROVIDER_NAME,
+	GOOGLE_PROVIDER_NAME,
+	OIDC_PROVIDER_NAME,
+] as const;
 export const ProviderNameSchema = z.enum(providerNames);
 export type ProviderName = z.infer<typeof ProviderNameSchema>;
 
 export const providerLabels: Record<ProviderName, string> = {
 	[GITHUB_PROVIDER_NAME]: "GitHub",
+	[GOOGLE_PROVIDER_NAME]: "Google",
+	[OIDC_PROVIDER_NAME]: "Single Sign-On",
 } as const;
 
 export const providerIcons: Record<ProviderName, React.ReactNode> = {
 	[GITHUB_PROVIDER_NAME]: <GitHubLogoIcon />,
+	[GOOGLE_PROVIDER_NAME]: <GoogleLogoIcon />,
+	[OIDC_PROVIDER_NAME]: <EnterIcon />,
 } as const;
 
+// Radix doesn't have a Google logo, so this is a single color one to match
+function GoogleLogoIcon() {
+	return (
+		<svg
+			width="15"
+			height="15"
+			viewBox="0 0 24 24"
+			fill="currentColor"
+			aria-hidden="true"
+		>
+			<path d="M12.48 10.92v3.28h7.84c-.24 1.84-.853 3.187-1.787 4.133-1.147 1.147-2.933 2.4-6.053 2.4-4.827 0-8.6-3.893-8.6-8.72s3.773-8.72 8.6-8.72c2.6 0 4.507 1.027 5.907 2.347l2.307-2.307C18.747 1.44 16.133 0 12.48 0 5.867 0 .307 5.387.307 12s5.56 12 12.173 12c3.573 0 6.267-1.173 8.373-3.36 2.16-2.16 2.84-5.213 2.84-7.667 0-.76-.053-1.467-.173-2.053H12.48z" />
+		</svg>
+	);
+}
+
 export function ProviderConnectionForm({
 	redirectTo,
 	type,
@@ -0,0 +1,27 @@
+import { expect, test } from "vitest";
+import { toCsv } from "./csv.ts";
+
+test("joins rows with CRLF and leaves simple values unquoted", () => {
+	expect(
+		toCsv([
+			["type", "count"],
+			["login", 2],
+		]),
+	).toBe("type,count\r\nlogin,2");
+});
+
+test("quotes values with commas, quotes and newlines", () => {
+	expect(toCsv([['say "hi", please', "two\nlines"]])).toBe(
+		'"say ""hi"", please","two\nlines"',
+	);
+});
+
+test("empty values and dates", () => {
+	expect(toCsv([[null, undefined, new Date("2026-10-18T12:00:00.000Z")]])).toBe(
+		",,2026-10-18T12:00:00.000Z",
+	);
+});
+
+test("values that spreadsheets would run as formulas are escaped", () => {
+	expect(toCsv([["=1+1", "@SUM(A1)", "-2"]])).toBe("'=1+1,'@SUM(A1),'-2");
+});
@@ -0,0 +1,17 @@
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+function escapeCsvValue(value: CsvValue) {
+	if (value === null || value === undefined) return "";
+	const string = value instanceof Date ? value.toISOString() : String(value);
+	// spreadsheet apps run cells starting with these as formulas
+	const safe = /^[=+\-@\t\r]/.test(string) ? `'${string}` : string;
+	return /[",\r\n]/.test(safe) ? `"${safe.replaceAll('"', '""')}"` : safe;
+}
+
+/**
+ * Serializes rows to RFC 4180 CSV (with CRLF line endings), quoting values
+ * only when they need it.
+ */
+export function toCsv(rows: Array<Array<CsvValue>>) {
+	return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+}
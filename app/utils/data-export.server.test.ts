@@ -0,0 +1,96 @@
+import { createHash } from "node:crypto";
+import { strFromU8, strToU8, unzipSync } from "fflate";
+import { expect, test } from "vitest";
+import {
+	createArchive,
+	getNoteFileName,
+	getNoteMarkdown,
+} from "./data-export.server.tsx";
+
+test("archives the files with a manifest of their sizes and checksums", async () => {
+	const image = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]);
+	const archive = await createArchive(
+		[
+			{ path: "notes/hello-1.md", data: strToU8("# Hello\n") },
+			{ path: "images/notes/2.jpg", data: image, compress: false },
+		],
+		{ createdAt: new Date("2026-10-18T12:00:00.000Z") },
+	);
+
+	const files = unzipSync(archive);
+	expect(Object.keys(files).sort()).toEqual([
+		"images/notes/2.jpg",
+		"manifest.json",
+		"notes/hello-1.md",
+	]);
+	expect(strFromU8(files["notes/hello-1.md"] ?? new Uint8Array())).toBe(
+		"# Hello\n",
+	);
+	expect(files["images/notes/2.jpg"]).toEqual(image);
+	expect(
+		JSON.parse(strFromU8(files["manifest.json"] ?? new Uint8Array())),
+	).toEqual({
+		format: "epic-notes-export",
+		version: 1,
+		createdAt: "2026-10-18T12:00:00.000Z",
+		files: [
+			{
+				path: "notes/hello-1.md",
+				size: 8,
+				sha256: createHash("sha256").update("# Hello\n").digest("hex"),
+			},
+			{
+				path: "images/notes/2.jpg",
+				size: 7,
+				sha256: createHash("sha256").update(image).digest("hex"),
+			},
+		],
+	});
+});
+
+test("names note files after their title", () => {
+	expect(getNoteFileName({ id: "abc", title: "Grocery list: Week 3!" })).toBe(
+		"grocery-list-week-3-abc.md",
+	);
+	expect(getNoteFileName({ id: "abc", title: "Café crème" })).toBe(
+		"cafe-creme-abc.md",
+	);
+	expect(getNoteFileName({ id: "abc", title: "🙂" })).toBe("note-abc.md");
+});
+
+test("writes notes as Markdown with front matter and their images", () => {
+	const markdown = getNoteMarkdown({
+		id: "abc",
+		title: 'Koalas: "the" facts',
+		content: "They sleep a lot.\n",
+		createdAt: new Date("2026-01-02T03:04:05.000Z"),
+		updatedAt: new Date("2026-02-03T04:05:06.000Z"),
+		tags: ["animals", "australia"],
+		images: [
+			{ altText: "A sleepy koala", file: "images/notes/1.jpg" },
+			{ altText: null, file: "images/notes/2.png" },
+			// missing from storage, so not in the archive
+			{ altText: "Gone", file: null },
+		],
+	});
+	expect(markdown).toBe(
+		[
+			"---",
+			'id: "abc"',
+			'title: "Koalas: \\"the\\" facts"',
+			'createdAt: "2026-01-02T03:04:05.000Z"',
+			'updatedAt: "2026-02-03T04:05:06.000Z"',
+			'tags: ["animals","australia"]',
+			"---",
+			"",
+			'# Koalas: "the" facts',
+			"",
+			"They sleep a lot.",
+			"",
+			"![A sleepy koala](../images/notes/1.jpg)",
+			"",
+			"![](../images/notes/2.png)",
+			"",
+		].join("\n"),
+	);
+});
@@ -0,0 +1,425 @@
+import { createHash } from "node:crypto";
+import { createId as cuid } from "@paralleldrive/cuid2";
+import * as E from "@react-email/components";
+import { zip, type AsyncZippable } from "fflate";
+import { prisma } from "./db.server.ts";
+import { queueEmail } from "./email.server.ts";
+import { enqueueJob } from "./jobs/queue.server.ts";
+import { ensurePrimary } from "./litefs.server.ts";
+import { getStorage } from "./storage.server.ts";
+import { parseWebhookEvents } from "./webhooks.ts";
+
+// how long the emailed download link works before maintenance deletes it
+export const DATA_EXPORT_EXPIRY = 1000 * 60 * 60 * 24 * 7;
+
+export const dataExportStatuses = ["pending", "ready", "failed"] as const;
+export type DataExportStatus = (typeof dataExportStatuses)[number];
+
+const imageExtensions: Record<string, string> = {
+	"image/jpeg": "jpg",
+	"image/png": "png",
+	"image/webp": "webp",
+	"image/avif": "avif",
+	"image/gif": "gif",
+};
+
+export type ArchiveFile = {
+	path: string;
+	data: Uint8Array;
+	/** Images are already compressed, so they're stored as they are */
+	compress?: boolean;
+};
+
+/**
+ * Queues building an archive of everything the user has. Returns null when
+ * one is already being built, so an impatient user can't queue a pile of them.
+ */
+export async function requestDataExport({
+	userId,
+	origin,
+}: {
+	userId: string;
+	origin: string;
+}) {
+	await ensurePrimary();
+	const pending = await prisma.dataExport.findFirst({
+		select: { id: true },
+		where: { userId, status: "pending" },
+	});
+	if (pending) return null;
+	const dataExport = await prisma.dataExport.create({
+		select: { id: true },
+		data: { userId },
+	});
+	await enqueueJob("data-export", { dataExportId: dataExport.id, origin });
+	return dataExport;
+}
+
+/**
+ * Builds the archive, stores it and emails the user a link to it. Runs from
+ * the data-export job.
+ */
+export async function runDataExport({
+	dataExportId,
+	origin,
+}: {
+	dataExportId: string;
+	origin: string;
+}) {
+	const dataExport = await prisma.dataExport.findUnique({
+		select: { status: true, userId: true, user: { select: { email: true } } },
+		where: { id: dataExportId },
+	});
+	// the user was deleted or it was built by an earlier attempt
+	if (!dataExport || dataExport.status === "ready") return null;
+
+	const archive = await createUserDataArchive(dataExport.userId);
+	const objectKey = `data-exports/${cuid()}`;
+	await getStorage().put(objectKey, archive, {
+		contentType: "application/zip",
+	});
+	const expiresAt = new Date(Date.now() + DATA_EXPORT_EXPIRY);
+	await prisma.dataExport.update({
+		select: { id: true },
+		where: { id: dataExportId },
+		data: {
+			status: "ready",
+			objectKey,
+			size: archive.byteLength,
+			expiresAt,
+			completedAt: new Date(),
+		},
+	});
+
+	const downloadUrl = new URL(
+		`/resources/data-exports/${dataExportId}`,
+		origin,
+	);
+	await queueEmail({
+		to: dataExport.user.email,
+		subject: "Your Epic Notes data is ready to download",
+		react: (
+			<DataExportReadyEmail
+				downloadUrl={downloadUrl.toString()}
+				expiresInDays={DATA_EXPORT_EXPIRY / (1000 * 60 * 60 * 24)}
+			/>
+		),
+	});
+	return { objectKey, size: archive.byteLength };
+}
+
+export async function markDataExportFailed(dataExportId: string) {
+	await prisma.dataExport.updateMany({
+		where: { id: dataExportId, status: "pending" },
+		data: { status: "failed", completedAt: new Date() },
+	});
+}
+
+/**
+ * Everything we have about the user: JSON for the account and notes, each
+ * note as a Markdown file, the images as they were uploaded and a manifest
+ * listing all of it.
+ */
+async function createUserDataArchive(userId: string) {
+	// we're explicit about what goes in so nothing secret (like the password
+	// hash or passkey public keys) ends up in the archive by accident
+	const user = await prisma.user.findUniqueOrThrow({
+		where: { id: userId },
+		select: {
+			id: true,
+			email: true,
+			username: true,
+			name: true,
+			createdAt: true,
+			updatedAt: true,
+			image: {
+				select: {
+					id: true,
+					altText: true,
+					contentType: true,
+					objectKey: true,
+					blob: true,
+					createdAt: true,
+				},
+			},
+			preference: {
+				select: {
+					appearance: true,
+					accentColor: true,
+					grayColor: true,
+					radius: true,
+					scaling: true,
+					locale: true,
+				},
+			},
+			roles: { select: { name: true } },
+			tags: { select: { name: true, createdAt: true } },
+			connections: { select: { providerName: true, createdAt: true } },
+			passkeys: {
+				select: {
+					name: true,
+					deviceType: true,
+					backedUp: true,
+					createdAt: true,
+					lastUsedAt: true,
+				},
+			},
+			apiTokens: {
+				select: {
+					name: true,
+					prefix: true,
+					createdAt: true,
+					lastUsedAt: true,
+					expiresAt: true,
+				},
+			},
+			// the signing secrets stay out of the archive, like token hashes
+			webhooks: {
+				select: { url: true, events: true, enabled: true, createdAt: true },
+			},
+			sessions: {
+				select: {
+					userAgent: true,
+					ip: true,
+					location: true,
+					lastSeenAt: true,
+					createdAt: true,
+					expirationDate: true,
+				},
+			},
+			notes: {
+				select: {
+					id: true,
+					title: true,
+					content: true,
+					createdAt: true,
+					updatedAt: true,
+					tags: { select: { name: true } },
+					images: {
+						select: {
+							id: true,
+							altText: true,
+							contentType: true,
+							objectKey: true,
+							blob: true,
+							createdAt: true,
+						},
+					},
+				},
+				orderBy: { createdAt: "asc" },
+			},
+		},
+	});
+
+	const files: Array<ArchiveFile> = [];
+	async function addImage(
+		path: string,
+		image: {
+			contentType: string;
+			objectKey: string | null;
+			blob: Uint8Array | null;
+		},
+	) {
+		const file = `${path}.${imageExtensions[image.contentType] ?? "bin"}`;
+		const data = await readImageFile(image);
+		// a file that's gone missing from storage shouldn't sink the export
+		if (!data) return null;
+		files.push({ path: file, data, compress: false });
+		return file;
+	}
+
+	const { image, notes, ...account } = user;
+	const profileImage = image
+		? {
+				id: image.id,
+				altText: image.altText,
+				contentType: image.contentType,
+				createdAt: image.createdAt,
+				file: await addImage("images/profile", image),
+			}
+		: null;
+
+	const noteEntries = [];
+	for (const note of notes) {
+		const images = [];
+		for (const { objectKey, blob, ...noteImage } of note.images) {
+			images.push({
+				...noteImage,
+				file: await addImage(`images/notes/${noteImage.id}`, {
+					contentType: noteImage.contentType,
+					objectKey,
+					blob,
+				}),
+			});
+		}
+		const file = `notes/${getNoteFileName(note)}`;
+		const tags = note.tags.map((tag) => tag.name);
+		files.push({
+			path: file,
+			data: new TextEncoder().encode(
+				getNoteMarkdown({ ...note, tags, images }),
+			),
+		});
+		noteEntries.push({
+			id: note.id,
+			title: note.title,
+			createdAt: note.createdAt,
+			updatedAt: note.updatedAt,
+			tags,
+			file,
+			images,
+		});
+	}
+
+	files.push(
+		jsonFile("account.json", {
+			...account,
+			roles: account.roles.map((role) => role.name),
+			webhooks: account.webhooks.map((webhook) => ({
+				...webhook,
+				events: parseWebhookEvents(webhook.events),
+			})),
+			image: profileImage,
+		}),
+		jsonFile("notes.json", noteEntries),
+	);
+	return createArchive(files);
+}
+
+async function readImageFile(image: {
+	objectKey: string | null;
+	blob: Uint8Array | null;
+}) {
+	if (!image.objectKey) return image.blob;
+	const object = await getStorage().get(image.objectKey);
+	if (!object) return null;
+	return new Uint8Array(await new Response(object.body).arrayBuffer());
+}
+
+function jsonFile(path: string, data: unknown): ArchiveFile {
+	return {
+		path,
+		data: new TextEncoder().encode(JSON.stringify(data, null, 2)),
+	};
+}
+
+/**
+ * Something readable that's still unique, e.g. "grocery-list-cm1abc.md".
+ */
+export function getNoteFileName(note: { id: string; title: string }) {
+	const slug = note.title
+		.normalize("NFKD")
+		.toLowerCase()
+		.replace(/[^a-z0-9\s-]/g, "")
+		.trim()
+		.replace(/[\s-]+/g, "-")
+		.slice(0, 60)
+		.replace(/-$/, "");
+	return `${slug || "note"}-${note.id}.md`;
+}
+
+/**
+ * The note's content with its details as front matter (the values are JSON,
+ * which is valid YAML, so quotes and colons in titles don't need escaping)
+ * and its images linked at the end.
+ */
+export function getNoteMarkdown(note: {
+	id: string;
+	title: string;
+	content: string;
+	createdAt: Date;
+	updatedAt: Date;
+	tags: Array<string>;
+	images: Array<{ altText: string | null; file: string | null }>;
+}) {
+	const frontMatter = [
+		"---",
+		`id: ${JSON.stringify(note.id)}`,
+		`title: ${JSON.stringify(note.title)}`,
+		`createdAt: ${JSON.stringify(note.createdAt.toISOString())}`,
+		`updatedAt: ${JSON.stringify(note.updatedAt.toISOString())}`,
+		`tags: ${JSON.stringify(note.tags)}`,
+		"---",
+	];
+	const images = note.images
+		.filter((image) => image.file)
+		.map((image) => `![${image.altText ?? ""}](../${image.file})`);
+	return [
+		frontMatter.join("\n"),
+		`# ${note.title}`,
+		note.content.trim(),
+		...(images.length ? [images.join("\n\n")] : []),
+	]
+		.join("\n\n")
+		.concat("\n");
+}
+
+/**
+ * Zips the files up with a manifest.json listing each of them with its size
+ * and checksum, so it's possible to tell the archive arrived intact.
+ */
+export async function createArchive(
+	files: Array<ArchiveFile>,
+	{ createdAt = new Date() }: { createdAt?: Date } = {},
+) {
+	const manifest = {
+		format: "epic-notes-export",
+		version: 1,
+		createdAt: createdAt.toISOString(),
+		files: files.map((file) => ({
+			path: file.path,
+			size: file.data.byteLength,
+			sha256: createHash("sha256").update(file.data).digest("hex"),
+		})),
+	};
+	const zippable: AsyncZippable = {};
+	for (const file of [jsonFile("manifest.json", manifest), ...files]) {
+		zippable[file.path] = [
+			file.data,
+			{ level: file.compress === false ? 0 : 6, mtime: createdAt },
+		];
+	}
+	// the async version compresses in a worker thread, so building a big
+	// archive doesn't hold up requests
+	return new Promise<Uint8Array>((resolve, reject) => {
+		zip(zippable, (error, data) => (error ? reject(error) : resolve(data)));
+	});
+}
+
+function DataExportReadyEmail({
+	downloadUrl,
+	expiresInDays,
+}: {
+	downloadUrl: string;
+	expiresInDays: number;
+}) {
+	return (
+		<E.Html lang="en" dir="ltr">
+			<E.Container>
+				<h1>
+					<E.Text>Your Epic Notes data is ready</E.Text>
+				</h1>
+				<p>
+					<E.Text>
+						We've put everything in your account in a ZIP file: your notes as
+						Markdown, your images and the rest of your data as JSON.
+					</E.Text>
+				</p>
+				<p>
+					<E.Text>
+						You'll need to be logged in to download it. The link works for{" "}
+						{expiresInDays} days:
+					</E.Text>
+				</p>
+				<E.Link href={downloadUrl}>{downloadUrl}</E.Link>
+				<p>
+					<E.Text>
+						If you didn't ask for this, someone may have access to your account.
+						Consider changing your password and signing out of your other
+						sessions.
+					</E.Text>
+				</p>
+			</E.Container>
+		</E.Html>
+	);
+}
@@ -0,0 +1,56 @@
+import { expect, test } from "vitest";
+import { diffLines } from "./diff.ts";
+
+test("identical texts have no changes", () => {
+	expect(diffLines("a\nb", "a\nb")).toEqual([
+		{ type: "unchanged", value: "a" },
+		{ type: "unchanged", value: "b" },
+	]);
+});
+
+test("changed lines are removed then added", () => {
+	expect(diffLines("a\nb\nc", "a\nB\nc")).toEqual([
+		{ type: "unchanged", value: "a" },
+		{ type: "removed", value: "b" },
+		{ type: "added", value: "B" },
+		{ type: "unchanged", value: "c" },
+	]);
+});
+
+test("keeps the longest run of common lines", () => {
+	expect(diffLines("x\na\nb\nc", "a\nb\ny\nc\nz")).toEqual([
+		{ type: "removed", value: "x" },
+		{ type: "unchanged", value: "a" },
+		{ type: "unchanged", value: "b" },
+		{ type: "added", value: "y" },
+		{ type: "unchanged", value: "c" },
+		{ type: "added", value: "z" },
+	]);
+});
+
+test("treats windows line endings like unix ones", () => {
+	expect(diffLines("a\r\nb", "a\nb\nc")).toEqual([
+		{ type: "unchanged", value: "a" },
+		{ type: "unchanged", value: "b" },
+		{ type: "added", value: "c" },
+	]);
+});
+
+test("very different long texts are shown as removed and added", () => {
+	const from = [
+		"start",
+		...Array.from({ length: 2000 }, (_, i) => `a${i}`),
+		"end",
+	];
+	const to = [
+		"start",
+		...Array.from({ length: 2000 }, (_, i) => `b${i}`),
+		"end",
+	];
+	const lines = diffLines(from.join("\n"), to.join("\n"));
+	expect(lines).toHaveLength(4002);
+	expect(lines[0]).toEqual({ type: "unchanged", value: "start" });
+	expect(lines[1]).toEqual({ type: "removed", value: "a0" });
+	expect(lines[2001]).toEqual({ type: "added", value: "b0" });
+	expect(lines.at(-1)).toEqual({ type: "unchanged", value: "end" });
+});
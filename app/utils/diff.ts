@@ -0,0 +1,86 @@
+export type DiffLine = {
+	type: "added" | "removed" | "unchanged";
+	value: string;
+};
+
+// the table has a cell for every pair of changed lines, past this many we
+// show the changed lines as removed and added instead of keeping a huge table
+// in memory (5,000 changed lines on each side would be 25 million cells)
+const MAX_TABLE_SIZE = 1_000_000;
+
+/**
+ * Compares two texts line by line using the longest common subsequence of
+ * their lines. Lines that are the same at the start and end of both texts are
+ * skipped before building the table so small edits to long notes stay cheap.
+ */
+export function diffLines(from: string, to: string) {
+	const fromLines = from.split(/\r?\n/);
+	const toLines = to.split(/\r?\n/);
+
+	let start = 0;
+	while (
+		start < fromLines.length &&
+		start < toLines.length &&
+		fromLines[start] === toLines[start]
+	) {
+		start++;
+	}
+	let fromEnd = fromLines.length;
+	let toEnd = toLines.length;
+	while (
+		fromEnd > start &&
+		toEnd > start &&
+		fromLines[fromEnd - 1] === toLines[toEnd - 1]
+	) {
+		fromEnd--;
+		toEnd--;
+	}
+
+	const a = fromLines.slice(start, fromEnd);
+	const b = toLines.slice(start, toEnd);
+	const lines: Array<DiffLine> = fromLines
+		.slice(0, start)
+		.map((value) => ({ type: "unchanged", value }));
+	const unchangedEnd = fromLines
+		.slice(fromEnd)
+		.map((value): DiffLine => ({ type: "unchanged", value }));
+	if (a.length * b.length > MAX_TABLE_SIZE) {
+		for (const value of a) lines.push({ type: "removed", value });
+		for (const value of b) lines.push({ type: "added", value });
+		return [...lines, ...unchangedEnd];
+	}
+
+	// lengths[i][j] is the length of the longest common subsequence of a[i:]
+	// and b[j:]
+	const lengths = Array.from(
+		{ length: a.length + 1 },
+		() => new Uint32Array(b.length + 1),
+	);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] =
+				a[i] === b[j]
+					? lengths[i + 1][j + 1] + 1
+					: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			lines.push({ type: "unchanged", value: a[i] });
+			i++;
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			lines.push({ type: "removed", value: a[i] });
+			i++;
+		} else {
+			lines.push({ type: "added", value: b[j] });
+			j++;
+		}
+	}
+	for (; i < a.length; i++) lines.push({ type: "removed", value: a[i] });
+	for (; j < b.length; j++) lines.push({ type: "added", value: b[j] });
+	return [...lines, ...unchangedEnd];
+}
@@ -0,0 +1,94 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createId as cuid } from "@paralleldrive/cuid2";
+import { z } from "zod";
+import type { Email, EmailTransport, SendEmailResult } from "./transport.ts";
+
+// the same shape the test mocks write to tests/fixtures/email
+const OutboxEmailSchema = z.object({
+	id: z.string(),
+	createdAt: z.string(),
+	to: z.string(),
+	from: z.string(),
+	subject: z.string(),
+	text: z.string(),
+	html: z.string(),
+});
+
+export type OutboxEmail = z.infer<typeof OutboxEmailSchema>;
+
+export function getOutboxDir() {
+	return (
+		process.env.EMAIL_OUTBOX_DIR ??
+		path.join(process.cwd(), "other", "email-outbox")
+	);
+}
+
+/**
+ * Writes each email to a JSON file instead of sending it, so you can read them
+ * at /admin/emails while working on the app without any email service.
+ */
+export class OutboxTransport implements EmailTransport {
+	constructor(private dir = getOutboxDir()) {}
+
+	async send(email: Email): Promise<SendEmailResult> {
+		// time first so the files sort oldest to newest
+		const id = `${Date.now()}-${cuid()}`;
+		const outboxEmail: OutboxEmail = {
+			id,
+			createdAt: new Date().toISOString(),
+			...email,
+		};
+		try {
+			await fs.mkdir(this.dir, { recursive: true });
+			await fs.writeFile(
+				path.join(this.dir, `${id}.json`),
+				JSON.stringify(outboxEmail, null, 2),
+			);
+			return { status: "success", data: { id } };
+		} catch (error: unknown) {
+			return {
+				status: "error",
+				error: {
+					name: "OutboxError",
+					message:
+						error instanceof Error ? error.message : "Could not save the email",
+					statusCode: 500,
+					cause: error,
+				},
+			};
+		}
+	}
+}
+
+export async function listOutboxEmails(dir = getOutboxDir()) {
+	const files = (await fs.readdir(dir).catch(() => []))
+		.filter((file) => file.endsWith(".json"))
+		.sort()
+		.reverse();
+	const emails = await Promise.all(
+		files.map((file) => readOutboxFile(path.join(dir, file))),
+	);
+	return emails.filter((email): email is OutboxEmail => email !== null);
+}
+
+export async function getOutboxEmail(id: string, dir = getOutboxDir()) {
+	// ids come from the url, don't let them point outside the outbox
+	if (!/^[\w-]+$/.test(id)) return null;
+	return readOutboxFile(path.join(dir, `${id}.json`));
+}
+
+export async function clearOutbox(dir = getOutboxDir()) {
+	await fs.rm(dir, { recursive: true, force: true });
+}
+
+async function readOutboxFile(filePath: string) {
+	try {
+		const result = OutboxEmailSchema.safeParse(
+			JSON.parse(await fs.readFile(filePath, "utf8")),
+		);
+		return result.success ? result.data : null;
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import type { Email, EmailTransport, SendEmailResult } from "./transport.ts";
+
+const resendErrorSchema = z.union([
+	z.object({
+		name: z.string(),
+		message: z.string(),
+		statusCode: z.number(),
+	}),
+	z.object({
+		name: z.literal("UnknownError"),
+		message: z.literal("Unknown Error"),
+		statusCode: z.literal(500),
+		cause: z.any(),
+	}),
+]);
+
+const resendSuccessSchema = z.object({
+	id: z.string(),
+});
+
+export class ResendTransport implements EmailTransport {
+	constructor(private apiKey: string | undefined) {}
+
+	async send(email: Email): Promise<SendEmailResult> {
+		const response = await fetch("https://api.resend.com/emails", {
+			method: "POST",
+			body: JSON.stringify(email),
+			headers: {
+				Authorization: `Bearer ${this.apiKey}`,
+				"Content-Type": "application/json",
+			},
+		});
+		const data = await response.json();
+		const parsedData = resendSuccessSchema.safeParse(data);
+
+		if (response.ok && parsedData.success) {
+			return { status: "success", data: parsedData.data };
+		}
+		const parseResult = resendErrorSchema.safeParse(data);
+		if (parseResult.success) {
+			return { status: "error", error: parseResult.data };
+		}
+		return {
+			status: "error",
+			error: {
+				name: "UnknownError",
+				message: "Unknown Error",
+				statusCode: 500,
+				cause: data,
+			},
+		};
+	}
+}
@@ -0,0 +1,42 @@
+import { createTransport } from "nodemailer";
+import type { Email, EmailTransport, SendEmailResult } from "./transport.ts";
+
+export type SMTPOptions = {
+	host: string;
+	port: number;
+	/** Use TLS from the start (usually port 465) rather than STARTTLS */
+	secure: boolean;
+	user?: string;
+	password?: string;
+};
+
+export class SMTPTransport implements EmailTransport {
+	constructor(private options: SMTPOptions) {}
+
+	async send(email: Email): Promise<SendEmailResult> {
+		const { host, port, secure, user, password } = this.options;
+		const transporter = createTransport({
+			host,
+			port,
+			secure,
+			auth: user ? { user, pass: password } : undefined,
+		});
+		try {
+			const info = await transporter.sendMail(email);
+			return { status: "success", data: { id: info.messageId } };
+		} catch (error: unknown) {
+			return {
+				status: "error",
+				error: {
+					name: "SMTPError",
+					message:
+						error instanceof Error ? error.message : "Could not send the email",
+					statusCode: 500,
+					cause: error,
+				},
+			};
+		} finally {
+			transporter.close();
+		}
+	}
+}
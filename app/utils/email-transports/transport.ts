@@ -0,0 +1,23 @@
+export type Email = {
+	from: string;
+	to: string;
+	subject: string;
+	html: string;
+	text: string;
+};
+
+export type SendEmailResult =
+	| { status: "success"; data: { id: string } }
+	| {
+			status: "error";
+			error: {
+				name: string;
+				message: string;
+				statusCode: number;
+				cause?: unknown;
+			};
+	  };
+
+export interface EmailTransport {
+	send(email: Email): Promise<SendEmailResult>;
+}
@@ -0,0 +1,137 @@
+import { once } from "node:events";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import { SMTPServer } from "smtp-server";
+import { afterEach, expect, test, vi } from "vitest";
+import {
+	getOutboxEmail,
+	listOutboxEmails,
+} from "./email-transports/outbox.server.ts";
+import { sendEmail } from "./email.server.ts";
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+});
+
+test("sends emails over SMTP", async () => {
+	const received: Array<{ from: string; to: string[]; raw: string }> = [];
+	// a local sink that accepts anything and keeps what it was sent
+	const server = new SMTPServer({
+		authOptional: true,
+		disabledCommands: ["STARTTLS"],
+		onData(stream, session, callback) {
+			let raw = "";
+			stream.on("data", (chunk: Buffer) => {
+				raw += chunk.toString();
+			});
+			stream.on("end", () => {
+				received.push({
+					from: session.envelope.mailFrom
+						? session.envelope.mailFrom.address
+						: "",
+					to: session.envelope.rcptTo.map((rcpt) => rcpt.address),
+					raw,
+				});
+				callback();
+			});
+		},
+	});
+	server.listen(0, "127.0.0.1");
+	await once(server.server, "listening");
+	const { port } = server.server.address() as AddressInfo;
+
+	try {
+		vi.stubEnv("EMAIL_TRANSPORT", "smtp");
+		vi.stubEnv("SMTP_HOST", "127.0.0.1");
+		vi.stubEnv("SMTP_PORT", String(port));
+		const result = await sendEmail({
+			to: "kody@example.com",
+			subject: "Hello from SMTP",
+			html: "<p>Hi Kody</p>",
+			text: "Hi Kody",
+		});
+
+		expect(result.status).toBe("success");
+		expect(received).toHaveLength(1);
+		expect(received[0]?.from).toBe("hello@epicstack.dev");
+		expect(received[0]?.to).toEqual(["kody@example.com"]);
+		expect(received[0]?.raw).toContain("Subject: Hello from SMTP");
+		expect(received[0]?.raw).toContain("Hi Kody");
+	} finally {
+		server.close();
+	}
+});
+
+test("reports SMTP errors instead of throwing", async () => {
+	vi.stubEnv("EMAIL_TRANSPORT", "smtp");
+	vi.stubEnv("SMTP_HOST", "127.0.0.1");
+	// nothing is listening here
+	vi.stubEnv("SMTP_PORT", "1");
+	const result = await sendEmail({
+		to: "kody@example.com",
+		subject: "Nobody home",
+		html: "<p>Hi</p>",
+		text: "Hi",
+	});
+	expect(result.status).toBe("error");
+});
+
+test("saves emails to the outbox", async () => {
+	const dir = await fs.mkdtemp(path.join(os.tmpdir(), "email-outbox-"));
+	try {
+		vi.stubEnv("EMAIL_TRANSPORT", "outbox");
+		vi.stubEnv("EMAIL_OUTBOX_DIR", dir);
+		const first = await sendEmail({
+			to: "kody@example.com",
+			subject: "First",
+			html: "<p>First</p>",
+			text: "First",
+		});
+		const second = await sendEmail({
+			to: "kody@example.com",
+			subject: "Second",
+			html: "<p>Second</p>",
+			text: "Second",
+		});
+		expect(first.status).toBe("success");
+		expect(second.status).toBe("success");
+
+		const emails = await listOutboxEmails(dir);
+		expect(emails.map((email) => email.subject)).toEqual(["Second", "First"]);
+		expect(emails[0]).toMatchObject({
+			from: "hello@epicstack.dev",
+			to: "kody@example.com",
+			html: "<p>Second</p>",
+			text: "Second",
+		});
+
+		invariantSuccess(first);
+		expect(await getOutboxEmail(first.data.id, dir)).toMatchObject({
+			subject: "First",
+		});
+		expect(await getOutboxEmail("../../etc/passwd", dir)).toBeNull();
+	} finally {
+		await fs.rm(dir, { recursive: true, force: true });
+	}
+});
+
+test("refuses to use the outbox in production", async () => {
+	vi.stubEnv("NODE_ENV", "production");
+	vi.stubEnv("EMAIL_TRANSPORT", "outbox");
+	await expect(
+		sendEmail({
+			to: "kody@example.com",
+			subject: "Lost",
+			html: "<p>Lost</p>",
+			text: "Lost",
+		}),
+	).rejects.toThrow(/outbox/);
+});
+
+function invariantSuccess<Result extends { status: string }>(
+	result: Result,
+): asserts result is Extract<Result, { status: "success" }> {
+	if (result.status !== "success") throw new Error("Expected success");
+}
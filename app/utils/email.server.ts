@@ -1,25 +1,38 @@
 import { renderAsync } from "@react-email/components";
 import type { ReactElement } from "react";
-import { z } from "zod";
+import { OutboxTransport } from "./email-transports/outbox.server.ts";
+import { ResendTransport } from "./email-transports/resend.server.ts";
+import { SMTPTransport } from "./email-transports/smtp.server.ts";
+import type { EmailTransport } from "./email-transports/transport.ts";
+import { getEmailTransportName } from "./env.server.ts";
+import { enqueueJob } from "./jobs/queue.server.ts";
 
-const resendErrorSchema = z.union([
-	z.object({
-		name: z.string(),
-		message: z.string(),
-		statusCode: z.number(),
-	}),
-	z.object({
-		name: z.literal("UnknownError"),
-		message: z.literal("Unknown Error"),
-		statusCode: z.literal(500),
-		cause: z.any(),
-	}),
-]);
-type ResendError = z.infer<typeof resendErrorSchema>;
-
-const resendSuccessSchema = z.object({
-	id: z.string(),
-});
+export function getEmailTransport(): EmailTransport {
+	switch (getEmailTransportName()) {
+		case "smtp": {
+			return new SMTPTransport({
+				host: process.env.SMTP_HOST ?? "localhost",
+				port: Number(process.env.SMTP_PORT ?? 587),
+				secure: process.env.SMTP_SECURE === "true",
+				user: process.env.SMTP_USER,
+				password: process.env.SMTP_PASSWORD,
+			});
+		}
+		case "outbox": {
+			// init() already refuses to start like this, this covers anything that
+			// sends emails without going through it
+			if (process.env.NODE_ENV === "production") {
+				throw new Error(
+					"Emails can't be sent to the outbox in production, configure Resend or SMTP",
+				);
+			}
+			return new OutboxTransport();
+		}
+		default: {
+			return new ResendTransport(process.env.RESEND_API_KEY);
+		}
+	}
+}
 
 export async function sendEmail({
 	react,
@@ -31,65 +44,37 @@ export async function sendEmail({
 	| { html: string; text: string; react?: never }
 	| { react: ReactElement; html?: never; text?: never }
 )) {
-	const from = "hello@epicstack.dev";
-
-	const email = {
-		from,
-		...options,
-		...(react ? await renderReactEmail(react) : null),
-	};
+	const from = process.env.EMAIL_FROM ?? "hello@epicstack.dev";
 
-	// feel free to remove this condition once you've set up resend
-	if (!process.env.RESEND_API_KEY && !process.env.MOCKS) {
-		console.error(`RESEND_API_KEY not set and we're not in mocks mode.`);
-		console.error(
-			`To send emails, set the RESEND_API_KEY environment variable.`,
-		);
-		console.error(
-			`Would have sent the following email:`,
-			JSON.stringify(email),
-		);
-		return {
-			status: "success",
-			data: { id: "mocked" },
-		} as const;
-	}
+	const { html, text } = react
+		? await renderReactEmail(react)
+		: { html: options.html ?? "", text: options.text ?? "" };
 
-	const response = await fetch("https://api.resend.com/emails", {
-		method: "POST",
-		body: JSON.stringify(email),
-		headers: {
-			Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
-			"Content-Type": "application/json",
-		},
+	return getEmailTransport().send({
+		from,
+		to: options.to,
+		subject: options.subject,
+		html,
+		text,
 	});
-	const data = await response.json();
-	const parsedData = resendSuccessSchema.safeParse(data);
+}
 
-	if (response.ok && parsedData.success) {
-		return {
-			status: "success",
-			data: parsedData,
-		} as const;
-	} else {
-		const parseResult = resendErrorSchema.safeParse(data);
-		if (parseResult.success) {
-			return {
-				status: "error",
-				error: parseResult.data,
-			} as const;
-		} else {
-			return {
-				status: "error",
-				error: {
-					name: "UnknownError",
-					message: "Unknown Error",
-					statusCode: 500,
-					cause: data,
-				} satisfies ResendError,
-			} as const;
-		}
-	}
+/**
+ * Sends the email from the job queue, so it's retried if the email service is
+ * having a bad day. Use this when nobody is waiting on the result, like for
+ * notifications.
+ */
+export async function queueEmail({
+	react,
+	to,
+	subject,
+}: {
+	to: string;
+	subject: string;
+	react: ReactElement;
+}) {
+	const { html, text } = await renderReactEmail(react);
+	return enqueueJob("send-email", { to, subject, html, text });
 }
 
 async function renderReactEmail(react: ReactElement) {
@@ -12,11 +12,44 @@ const schema = z.object({
 	// SENTRY_DSN: z.string(),
 	// If you plan to use Resend, uncomment this line
 	// RESEND_API_KEY: z.string(),
+	// How emails are sent. Defaults to Resend when RESEND_API_KEY is set (or
+	// we're mocking) and to the file outbox you can read at /admin/emails
+	EMAIL_TRANSPORT: z.enum(["resend", "smtp", "outbox"]).optional(),
+	EMAIL_FROM: z.string().optional(),
+	EMAIL_OUTBOX_DIR: z.string().optional(),
+	SMTP_HOST: z.string().optional(),
+	SMTP_PORT: z.string().regex(/^\d+$/).optional(),
+	SMTP_SECURE: z.enum(["true", "false"]).optional(),
+	SMTP_USER: z.string().optional(),
+	SMTP_PASSWORD: z.string().optional(),
+	// Where uploaded images are kept: a local directory (the default, which
+	// only works with a single instance) or an S3-compatible bucket
+	STORAGE_DRIVER: z.enum(["fs", "s3"]).optional(),
+	STORAGE_DIR: z.string().optional(),
+	S3_ENDPOINT: z.string().url().optional(),
+	S3_BUCKET: z.string().optional(),
+	S3_REGION: z.string().optional(),
+	S3_ACCESS_KEY_ID: z.string().optional(),
+	S3_SECRET_ACCESS_KEY: z.string().optional(),
 	// If you plan to use GitHub auth, remove the default:
 	GITHUB_CLIENT_ID: z.string().default("MOCK_GITHUB_CLIENT_ID"),
 	GITHUB_CLIENT_SECRET: z.string().default("MOCK_GITHUB_CLIENT_SECRET"),
 	GITHUB_TOKEN: z.string().default("MOCK_GITHUB_TOKEN"),
+	// If you plan to use Google auth, remove the default:
+	GOOGLE_CLIENT_ID: z.string().default("MOCK_GOOGLE_CLIENT_ID"),
+	GOOGLE_CLIENT_SECRET: z.string().default("MOCK_GOOGLE_CLIENT_SECRET"),
+	// Any OpenID Connect provider, it's only offered when all three are set
+	OIDC_ISSUER: z.string().url().optional(),
+	OIDC_CLIENT_ID: z.string().optional(),
+	OIDC_CLIENT_SECRET: z.string().optional(),
 	ALLOW_INDEXING: z.enum(["true", "false"]).optional(),
+	// Failed password or 2FA attempts before an account is locked
+	LOCKOUT_THRESHOLD: z.string().regex(/^\d+$/).optional(),
+	LOCKOUT_DURATION_MINUTES: z.string().regex(/^\d+$/).optional(),
+	// Each failed attempt doubles the wait before the next one, starting here
+	LOCKOUT_BACKOFF_SECONDS: z.string().regex(/^\d+$/).optional(),
+	// Requests each API token can make per minute
+	API_RATE_LIMIT: z.string().regex(/^\d+$/).optional(),
 });
 
 declare global {
@@ -36,6 +69,28 @@ export function init() {
 
 		throw new Error("Invalid environment variables");
 	}
+
+	// nobody reads the outbox but us, so in production it would quietly swallow
+	// password reset codes and lock notices
+	if (
+		process.env.NODE_ENV === "production" &&
+		getEmailTransportName() === "outbox"
+	) {
+		throw new Error(
+			'No email transport is configured. Set RESEND_API_KEY or EMAIL_TRANSPORT="smtp".',
+		);
+	}
+}
+
+/**
+ * How emails are sent: EMAIL_TRANSPORT when it's set, otherwise Resend if
+ * it's configured (or mocked) and the file outbox when it isn't.
+ */
+export function getEmailTransportName() {
+	return (
+		process.env.EMAIL_TRANSPORT ??
+		(process.env.RESEND_API_KEY || process.env.MOCKS ? "resend" : "outbox")
+	);
 }
 
 /**
@@ -0,0 +1,34 @@
+import { expect, test } from "vitest";
+import { getLocale, parseAcceptLanguage } from "./i18n.server.ts";
+
+function createRequest(headers: Record<string, string> = {}) {
+	return new Request("https://example.com/", { headers });
+}
+
+test("orders Accept-Language by quality", () => {
+	expect(
+		parseAcceptLanguage("fr-CH, fr;q=0.9, en;q=0.8, de;q=0.7, *;q=0.5"),
+	).toEqual(["fr-CH", "fr", "en", "de"]);
+	expect(parseAcceptLanguage("en;q=0.5, es")).toEqual(["es", "en"]);
+	expect(parseAcceptLanguage("es;q=0, en")).toEqual(["en"]);
+	expect(parseAcceptLanguage(null)).toEqual([]);
+});
+
+test("prefers the user's setting, then the client hint, then the header", () => {
+	const request = createRequest({
+		cookie: `CH-locale=${encodeURIComponent("es-ES,es")}`,
+		"accept-language": "en-US,en;q=0.9",
+	});
+	expect(getLocale(request, { userLocale: "en" })).toBe("en");
+	expect(getLocale(request)).toBe("es");
+	expect(
+		getLocale(createRequest({ "accept-language": "es-MX,es;q=0.9" })),
+	).toBe("es");
+	expect(getLocale(createRequest({ "accept-language": "de" }))).toBe("en");
+	// a locale we used to support isn't an error
+	expect(
+		getLocale(createRequest({ "accept-language": "es" }), {
+			userLocale: "tlh",
+		}),
+	).toBe("es");
+});
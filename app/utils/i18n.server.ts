@@ -0,0 +1,75 @@
+import { getUserId } from "./auth.server.ts";
+import { getHints } from "./client-hints.tsx";
+import { prisma } from "./db.server.ts";
+import {
+	createI18n,
+	defaultLocale,
+	isLocale,
+	negotiateLocale,
+	type Locale,
+} from "./i18n.ts";
+
+/**
+ * The languages from an Accept-Language header, most preferred first, e.g.
+ * "fr-CH, fr;q=0.9, en;q=0.8" is ["fr-CH", "fr", "en"].
+ */
+export function parseAcceptLanguage(header: string | null) {
+	if (!header) return [];
+	return header
+		.split(",")
+		.map((part, index) => {
+			const [language = "", ...params] = part.trim().split(";");
+			const q = params
+				.map((param) => param.trim())
+				.find((param) => param.startsWith("q="));
+			return { language, index, quality: q ? Number(q.slice(2)) : 1 };
+		})
+		.filter(
+			({ language, quality }) =>
+				language && language !== "*" && quality > 0 && !Number.isNaN(quality),
+		)
+		.sort((a, b) => b.quality - a.quality || a.index - b.index)
+		.map(({ language }) => language);
+}
+
+/**
+ * Picks the locale for a request: the one the user chose in their settings,
+ * then the browser's languages (from the client hint, or the Accept-Language
+ * header on the very first visit before the hint is set) and English
+ * otherwise.
+ */
+export function getLocale(
+	request: Request,
+	{ userLocale }: { userLocale?: string | null } = {},
+): Locale {
+	if (isLocale(userLocale)) return userLocale;
+	return (
+		getHints(request).locale ??
+		negotiateLocale(
+			parseAcceptLanguage(request.headers.get("accept-language")),
+		) ??
+		defaultLocale
+	);
+}
+
+/**
+ * Translation and date formatting for a request. Pass the userId when the
+ * messages are for a specific user (like the email in a password reset) who
+ * might not be the one logged in.
+ */
+export async function getI18n(
+	request: Request,
+	{ userId }: { userId?: string | null } = {},
+) {
+	const localeUserId = userId === undefined ? await getUserId(request) : userId;
+	const preference = localeUserId
+		? await prisma.userPreference.findUnique({
+				select: { locale: true },
+				where: { userId: localeUserId },
+			})
+		: null;
+	return createI18n({
+		locale: getLocale(request, { userLocale: preference?.locale }),
+		timeZone: getHints(request).timeZone,
+	});
+}
@@ -0,0 +1,71 @@
+import { expect, test } from "vitest";
+import {
+	formatDate,
+	getMatchesLocale,
+	negotiateLocale,
+	translate,
+} from "./i18n.ts";
+
+test("negotiates the first supported language", () => {
+	expect(negotiateLocale(["fr-CA", "es-MX", "en"])).toBe("es");
+	expect(negotiateLocale(["EN-us"])).toBe("en");
+	expect(negotiateLocale(["fr", "de"])).toBeNull();
+	expect(negotiateLocale([])).toBeNull();
+});
+
+test("translates and fills in placeholders", () => {
+	expect(translate("en", "login.heading")).toBe("Welcome back!");
+	expect(translate("es", "login.heading")).toBe("¡Hola de nuevo!");
+	expect(
+		translate("en", "onboarding.heading", { email: "kody@example.com" }),
+	).toBe("Welcome aboard kody@example.com!");
+	// a value that wasn't passed is left for someone to notice
+	expect(translate("en", "onboarding.heading")).toBe("Welcome aboard {email}!");
+});
+
+test("picks the plural form for the count", () => {
+	expect(translate("en", "profile.signOutOfSessions", { count: 1 })).toBe(
+		"Sign out of 1 other session",
+	);
+	expect(translate("en", "profile.signOutOfSessions", { count: 3 })).toBe(
+		"Sign out of 3 other sessions",
+	);
+	expect(translate("es", "profile.signOutOfSessions", { count: 1 })).toBe(
+		"Cerrar 1 sesión más",
+	);
+});
+
+test("formats dates for the locale in the user's time zone", () => {
+	const date = new Date("2026-10-18T23:30:00.000Z");
+	expect(
+		formatDate(date, { locale: "en", timeZone: "UTC", dateStyle: "long" }),
+	).toBe("October 18, 2026");
+	expect(
+		formatDate(date, {
+			locale: "en",
+			timeZone: "Asia/Tokyo",
+			dateStyle: "long",
+		}),
+	).toBe("October 19, 2026");
+	expect(
+		formatDate(date, { locale: "es", timeZone: "UTC", dateStyle: "long" }),
+	).toBe("18 de octubre de 2026");
+	// the time zone comes from a cookie, so it could be anything
+	expect(
+		formatDate(date, {
+			locale: "en",
+			timeZone: "Not/AZone",
+			dateStyle: "long",
+		}),
+	).toBe("October 18, 2026");
+});
+
+test("reads the locale the root loader picked", () => {
+	expect(
+		getMatchesLocale([
+			{ id: "root", data: { requestInfo: { locale: "es" } } },
+			{ id: "routes/_auth+/login", data: null },
+		]),
+	).toBe("es");
+	expect(getMatchesLocale([{ id: "root", data: undefined }])).toBe("en");
+});
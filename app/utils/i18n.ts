@@ -0,0 +1,149 @@
+import { useMemo } from "react";
+import { en } from "./locales/en.ts";
+import { es } from "./locales/es.ts";
+import { useRequestInfo } from "./request-info.ts";
+
+export type Message = string | ({ other: string } & PluralForms);
+type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>>;
+export type MessageKey = keyof typeof en;
+
+export const locales = ["en", "es"] as const;
+export type Locale = (typeof locales)[number];
+export const defaultLocale: Locale = "en";
+
+/** Each language's name in that language, for the language picker */
+export const localeNames: Record<Locale, string> = {
+	en: "English",
+	es: "Español",
+};
+
+const catalogs: Record<Locale, Record<MessageKey, Message>> = { en, es };
+
+export function isLocale(value: unknown): value is Locale {
+	return locales.includes(value as Locale);
+}
+
+/**
+ * Picks the first supported locale from a list of language tags in order of
+ * preference, e.g. from `navigator.languages`. "es-MX" gets "es" if we don't
+ * have anything more specific.
+ */
+export function negotiateLocale(languages: Array<string>): Locale | null {
+	for (const language of languages) {
+		const tag = language.trim().toLowerCase();
+		if (isLocale(tag)) return tag;
+		const base = tag.split("-")[0];
+		if (isLocale(base)) return base;
+	}
+	return null;
+}
+
+/**
+ * Looks up a message, falling back to English, and fills in its
+ * {placeholders}. A `count` value picks the plural form.
+ */
+export function translate(
+	locale: Locale,
+	key: MessageKey,
+	values: Record<string, string | number> = {},
+) {
+	const message = catalogs[locale][key] ?? en[key];
+	const text =
+		typeof message === "string"
+			? message
+			: message[new Intl.PluralRules(locale).select(Number(values.count))] ??
+				message.other;
+	return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		name in values ? String(values[name]) : placeholder,
+	);
+}
+
+/**
+ * Formats a date for the user's locale in their time zone (from the client
+ * hint) rather than the server's.
+ */
+export function formatDate(
+	date: Date | string | number,
+	{
+		locale,
+		timeZone,
+		...options
+	}: Intl.DateTimeFormatOptions & { locale: Locale; timeZone: string },
+) {
+	const format = Object.keys(options).length
+		? options
+		: ({ dateStyle: "medium", timeStyle: "short" } as const);
+	try {
+		return new Intl.DateTimeFormat(locale, { ...format, timeZone }).format(
+			new Date(date),
+		);
+	} catch (error: unknown) {
+		// the hint comes from a cookie, so it might not be a real time zone
+		if (!(error instanceof RangeError)) throw error;
+		return new Intl.DateTimeFormat(locale, {
+			...format,
+			timeZone: "UTC",
+		}).format(new Date(date));
+	}
+}
+
+export function createI18n({
+	locale,
+	timeZone,
+}: {
+	locale: Locale;
+	timeZone: string;
+}) {
+	return {
+		locale,
+		timeZone,
+		t: (key: MessageKey, values?: Record<string, string | number>) =>
+			translate(locale, key, values),
+		formatDate: (
+			date: Date | string | number,
+			options?: Intl.DateTimeFormatOptions,
+		) => formatDate(date, { locale, timeZone, ...options }),
+	};
+}
+export type I18n = ReturnType<typeof createI18n>;
+
+/**
+ * @returns the translation and formatting helpers for the locale the root
+ * loader picked
+ */
+export function useI18n() {
+	const { locale, hints } = useRequestInfo();
+	return useMemo(
+		() => createI18n({ locale, timeZone: hints.timeZone }),
+		[locale, hints.timeZone],
+	);
+}
+
+/**
+ * The locale the root loader picked, for `meta` functions which can't use
+ * hooks. English when the root loader didn't run (e.g. it threw).
+ */
+export function getMatchesLocale(
+	matches: Array<{ id: string; data?: unknown }>,
+): Locale {
+	const data = matches.find((match) => match.id === "root")?.data;
+	const locale =
+		data && typeof data === "object" && "requestInfo" in data
+			? (data.requestInfo as { locale?: unknown }).locale
+			: null;
+	return isLocale(locale) ? locale : defaultLocale;
+}
+
+/**
+ * A translated message as a component, for places hooks can't go like route
+ * handles (e.g. breadcrumbs).
+ */
+export function Translate({
+	message,
+	values,
+}: {
+	message: MessageKey;
+	values?: Record<string, string | number>;
+}) {
+	return useI18n().t(message, values);
+}
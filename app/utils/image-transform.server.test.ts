@@ -0,0 +1,101 @@
+import sharp from "sharp";
+import { expect, test } from "vitest";
+import {
+	parseImageTransform,
+	transformImage,
+} from "./image-transform.server.ts";
+import { getImageSize, getImageSrcSet } from "./image-transform.ts";
+
+async function createJpeg(width: number, height: number, orientation = 1) {
+	const blob = await sharp({
+		create: { width, height, channels: 3, background: "#7c3aed" },
+	})
+		.jpeg()
+		.withMetadata({ orientation })
+		.toBuffer();
+	return { contentType: "image/jpeg", blob };
+}
+
+test("there's nothing to do without transform params", () => {
+	expect(parseImageTransform(new URLSearchParams())).toBeNull();
+	expect(parseImageTransform(new URLSearchParams("v=2"))).toBeNull();
+});
+
+test("parses the allowed transforms", () => {
+	expect(
+		parseImageTransform(
+			new URLSearchParams("width=64&height=128&fit=contain&format=avif"),
+		),
+	).toEqual({ width: 64, height: 128, fit: "contain", format: "avif" });
+});
+
+test.each([
+	"width=65",
+	"width=100000",
+	"height=-16",
+	"width=abc",
+	"fit=stretch",
+	"format=gif",
+])("rejects %s", async (search) => {
+	let response: unknown;
+	try {
+		parseImageTransform(new URLSearchParams(search));
+	} catch (error) {
+		response = error;
+	}
+	expect(response).toBeInstanceOf(Response);
+	expect((response as Response).status).toBe(400);
+});
+
+test("resizes and converts images", async () => {
+	const image = await createJpeg(300, 200);
+	const result = await transformImage(image, {
+		width: 64,
+		height: 64,
+		format: "webp",
+	});
+	expect(result.contentType).toBe("image/webp");
+	const metadata = await sharp(result.blob).metadata();
+	expect(metadata).toMatchObject({ format: "webp", width: 64, height: 64 });
+
+	const contained = await transformImage(image, { width: 96, fit: "inside" });
+	expect(contained.contentType).toBe("image/jpeg");
+	expect(await sharp(contained.blob).metadata()).toMatchObject({
+		width: 96,
+		height: 64,
+	});
+});
+
+test("never makes images bigger than they are", async () => {
+	const result = await transformImage(await createJpeg(40, 20), {
+		width: 512,
+	});
+	expect(await sharp(result.blob).metadata()).toMatchObject({
+		width: 40,
+		height: 20,
+	});
+});
+
+test("turns photos the right way up", async () => {
+	// orientation 6 means the camera was held sideways
+	const result = await transformImage(await createJpeg(300, 200, 6), {
+		format: "png",
+	});
+	expect(await sharp(result.blob).metadata()).toMatchObject({
+		format: "png",
+		width: 200,
+		height: 300,
+	});
+});
+
+test("srcSets use the allowed sizes for each pixel density", () => {
+	expect(getImageSize(1)).toBe(16);
+	expect(getImageSize(100)).toBe(128);
+	expect(getImageSize(5000)).toBe(2048);
+	expect(getImageSrcSet((transform) => `/img?w=${transform.width}`, 100)).toBe(
+		"/img?w=128 1x, /img?w=256 2x",
+	);
+	expect(getImageSrcSet((transform) => `/img?w=${transform.width}`, 2048)).toBe(
+		"/img?w=2048 1x",
+	);
+});
@@ -0,0 +1,110 @@
+import { json } from "@remix-run/node";
+import sharp from "sharp";
+import { z } from "zod";
+import { cache, cachified } from "./cache.server.ts";
+import {
+	getImageTransformSearch,
+	imageFits,
+	imageFormats,
+	imageSizes,
+	type ImageSize,
+	type ImageTransform,
+} from "./image-transform.ts";
+
+// refuse to decode anything bigger than a 50 megapixel photo
+const MAX_INPUT_PIXELS = 50_000_000;
+// image urls change whenever the image does, so this only bounds the cache size
+const TRANSFORMED_IMAGE_TTL = 1000 * 60 * 60 * 24 * 30;
+
+const ImageSizeSchema = z.coerce
+	.number()
+	.refine((size): size is ImageSize => imageSizes.includes(size as ImageSize), {
+		message: `Must be one of ${imageSizes.join(", ")}`,
+	});
+
+const ImageTransformSchema = z.object({
+	width: ImageSizeSchema.optional(),
+	height: ImageSizeSchema.optional(),
+	fit: z.enum(imageFits).optional(),
+	format: z.enum(imageFormats).optional(),
+});
+
+/**
+ * Reads the transform from an image url's search params. Returns null when
+ * there's nothing to do and throws a 400 when the params aren't allowed.
+ */
+export function parseImageTransform(
+	searchParams: URLSearchParams,
+): ImageTransform | null {
+	const result = ImageTransformSchema.safeParse({
+		width: searchParams.get("width") ?? undefined,
+		height: searchParams.get("height") ?? undefined,
+		fit: searchParams.get("fit") ?? undefined,
+		format: searchParams.get("format") ?? undefined,
+	});
+	if (!result.success) {
+		throw json(
+			{ error: "Invalid image transform", ...result.error.flatten() },
+			{ status: 400 },
+		);
+	}
+	const transform = result.data;
+	return Object.values(transform).some((value) => value !== undefined)
+		? transform
+		: null;
+}
+
+export async function transformImage(
+	image: { contentType: string; blob: Uint8Array },
+	{ width, height, fit = "cover", format }: ImageTransform,
+) {
+	let pipeline = sharp(image.blob, { limitInputPixels: MAX_INPUT_PIXELS })
+		// photos are often stored sideways with an EXIF note to turn them
+		.rotate();
+	if (width || height) {
+		pipeline = pipeline.resize({
+			width,
+			height,
+			fit,
+			withoutEnlargement: true,
+		});
+	}
+	if (format) pipeline = pipeline.toFormat(format);
+	return {
+		contentType: format ? `image/${format}` : image.contentType,
+		blob: await pipeline.toBuffer(),
+	};
+}
+
+/**
+ * Transforms an image, caching the result under `cacheKey` (which should
+ * change whenever the image does).
+ */
+export async function getTransformedImage({
+	cacheKey,
+	transform,
+	getImage,
+}: {
+	cacheKey: string;
+	transform: ImageTransform;
+	getImage: () => Promise<{ contentType: string; blob: Uint8Array }>;
+}) {
+	const cached = await cachified({
+		key: `image:${cacheKey}${getImageTransformSearch(transform)}`,
+		cache,
+		ttl: TRANSFORMED_IMAGE_TTL,
+		// the SQLite cache stores JSON so the bytes go in as base64
+		checkValue: z.object({ contentType: z.string(), base64: z.string() }),
+		async getFreshValue() {
+			const { contentType, blob } = await transformImage(
+				await getImage(),
+				transform,
+			);
+			return { contentType, base64: Buffer.from(blob).toString("base64") };
+		},
+	});
+	return {
+		contentType: cached.contentType,
+		blob: Buffer.from(cached.base64, "base64"),
+	};
+}
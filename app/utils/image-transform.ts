@@ -0,0 +1,77 @@
+/**
+ * Images can be resized and converted on the fly with query params, e.g.
+ * `/resources/user-images/abc?width=64&height=64&format=webp`. Only the sizes
+ * listed here are allowed so nobody can fill the cache (or keep the CPU busy)
+ * by asking for every width between 1 and 10,000.
+ */
+
+export const imageSizes = [
+	16, 32, 48, 64, 96, 128, 192, 256, 384, 512, 640, 768, 1024, 1280, 1536, 2048,
+] as const;
+export const imageFits = [
+	"cover",
+	"contain",
+	"inside",
+	"outside",
+	"fill",
+] as const;
+export const imageFormats = ["webp", "avif", "jpeg", "png"] as const;
+
+export type ImageSize = (typeof imageSizes)[number];
+export type ImageFit = (typeof imageFits)[number];
+export type ImageFormat = (typeof imageFormats)[number];
+
+export type ImageTransform = {
+	width?: ImageSize;
+	height?: ImageSize;
+	fit?: ImageFit;
+	format?: ImageFormat;
+};
+
+// most screens are 1x or 2x, anything denser gets the 2x image
+const pixelDensities = [1, 2];
+
+/**
+ * The smallest allowed size that's at least `pixels` (or the largest allowed
+ * size when none are big enough).
+ */
+export function getImageSize(pixels: number): ImageSize {
+	return (
+		imageSizes.find((size) => size >= pixels) ??
+		imageSizes[imageSizes.length - 1]
+	);
+}
+
+export function getImageTransformSearch(transform: ImageTransform = {}) {
+	const searchParams = new URLSearchParams();
+	for (const name of ["width", "height", "fit", "format"] as const) {
+		const value = transform[name];
+		if (value !== undefined) searchParams.set(name, String(value));
+	}
+	const search = searchParams.toString();
+	return search ? `?${search}` : "";
+}
+
+/**
+ * A `srcSet` for an image shown in a square `size` CSS pixels wide, cropped to
+ * fill it and converted to WebP.
+ */
+export function getImageSrcSet(
+	getSrc: (transform: ImageTransform) => string,
+	size: number,
+) {
+	const sizes = new Set(
+		pixelDensities.map((density) => getImageSize(size * density)),
+	);
+	return [...sizes]
+		.map((pixels, index) => {
+			const src = getSrc({
+				width: pixels,
+				height: pixels,
+				fit: "cover",
+				format: "webp",
+			});
+			return `${src} ${pixelDensities[index]}x`;
+		})
+		.join(", ");
+}
@@ -0,0 +1,97 @@
+import sharp, { type Sharp } from "sharp";
+import { expect, test } from "vitest";
+import { processImageUpload, sniffImageType } from "./image-upload.server.ts";
+
+function createImage(
+	width: number,
+	height: number,
+	format: "jpeg" | "png" | "webp" | "gif" | "avif" = "jpeg",
+) {
+	return sharp({
+		create: { width, height, channels: 3, background: "#0ea5e9" },
+	}).toFormat(format);
+}
+
+async function toFile(image: Sharp | Buffer, name = "photo.jpg") {
+	const bytes = Buffer.isBuffer(image) ? image : await image.toBuffer();
+	return new File([bytes], name, { type: "image/jpeg" });
+}
+
+test.each(["jpeg", "png", "webp", "gif", "avif"] as const)(
+	"recognizes %s images from their bytes",
+	async (format) => {
+		const bytes = await createImage(8, 8, format).toBuffer();
+		expect(sniffImageType(bytes)).toBe(`image/${format}`);
+	},
+);
+
+test("rejects files that aren't images whatever they claim to be", async () => {
+	const file = new File(["<script>alert(1)</script>"], "evil.png", {
+		type: "image/png",
+	});
+	expect(sniffImageType(new Uint8Array(await file.arrayBuffer()))).toBeNull();
+	expect(await processImageUpload(file)).toEqual({
+		status: "error",
+		error: "Only JPEG, PNG, WebP, AVIF, GIF images are allowed",
+	});
+});
+
+test("limits the size per type", async () => {
+	const gif = Buffer.concat([
+		Buffer.from("GIF89a"),
+		Buffer.alloc(1024 * 1024 + 1),
+	]);
+	expect(await processImageUpload(await toFile(gif, "big.gif"))).toEqual({
+		status: "error",
+		error: "GIF images must be smaller than 1MB",
+	});
+});
+
+test("rejects images it can't read", async () => {
+	const broken = Buffer.concat([
+		Buffer.from([0xff, 0xd8, 0xff]),
+		Buffer.from("not really a jpeg"),
+	]);
+	expect(await processImageUpload(await toFile(broken))).toEqual({
+		status: "error",
+		error: "This image couldn't be read",
+	});
+});
+
+test("rejects images with huge dimensions", async () => {
+	const result = await processImageUpload(
+		await toFile(createImage(10_001, 1, "png"), "wide.png"),
+	);
+	expect(result).toEqual({
+		status: "error",
+		error: "Images can be at most 10,000 pixels wide and tall",
+	});
+});
+
+test("strips EXIF and GPS metadata", async () => {
+	const photo = createImage(64, 48).withExif({
+		IFD0: { Make: "Camera Co", Model: "Snapper" },
+		IFD3: { GPSLatitudeRef: "N", GPSLatitude: "51/1 30/1 0/1" },
+	});
+	expect((await sharp(await photo.toBuffer()).metadata()).exif).toBeDefined();
+
+	const result = await processImageUpload(await toFile(photo));
+	if (result.status !== "success") throw new Error(result.error);
+	expect(result.contentType).toBe("image/jpeg");
+	const metadata = await sharp(result.blob).metadata();
+	expect(metadata.exif).toBeUndefined();
+	expect(metadata).toMatchObject({ width: 64, height: 48 });
+});
+
+test("shrinks oversized photos and keeps their type", async () => {
+	const result = await processImageUpload(
+		await toFile(createImage(3000, 1500, "png"), "big.png"),
+	);
+	if (result.status !== "success") throw new Error(result.error);
+	expect(result.contentType).toBe("image/png");
+	expect(await sharp(result.blob).metadata()).toMatchObject({
+		format: "png",
+		width: 2048,
+		height: 1024,
+	});
+});
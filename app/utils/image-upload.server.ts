@@ -0,0 +1,128 @@
+import sharp, { type Sharp } from "sharp";
+import {
+	acceptedImageTypesMessage,
+	imageUploadLimits,
+	type UploadImageType,
+} from "./image-upload.ts";
+
+// bigger than this on either side and it's not a photo anyone took
+const MAX_IMAGE_DIMENSION = 10_000;
+// we never show images bigger than this, so there's no point keeping more
+const MAX_STORED_DIMENSION = 2048;
+
+const sharpFormats = {
+	"image/jpeg": "jpeg",
+	"image/png": "png",
+	"image/webp": "webp",
+	"image/avif": "avif",
+	"image/gif": "gif",
+} as const satisfies Record<UploadImageType, Parameters<Sharp["toFormat"]>[0]>;
+
+function startsWith(bytes: Uint8Array, signature: Array<number>, offset = 0) {
+	return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+/**
+ * Works out what kind of image the bytes are from their signature rather
+ * than trusting the type the browser sent. Null when it's not one we accept.
+ */
+export function sniffImageType(bytes: Uint8Array): UploadImageType | null {
+	if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+	if (startsWith(bytes, [0x89, ...ascii("PNG\r\n"), 0x1a, 0x0a])) {
+		return "image/png";
+	}
+	if (
+		startsWith(bytes, ascii("GIF87a")) ||
+		startsWith(bytes, ascii("GIF89a"))
+	) {
+		return "image/gif";
+	}
+	if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) {
+		return "image/webp";
+	}
+	if (
+		startsWith(bytes, ascii("ftyp"), 4) &&
+		(startsWith(bytes, ascii("avif"), 8) || startsWith(bytes, ascii("avis"), 8))
+	) {
+		return "image/avif";
+	}
+	return null;
+}
+
+function formatSize(bytes: number) {
+	return `${Math.round((bytes / 1024 / 1024) * 10) / 10}MB`;
+}
+
+/**
+ * Checks an uploaded file really is an image we accept, then re-encodes it:
+ * that turns it the right way up, drops metadata like EXIF and GPS location
+ * and shrinks anything bigger than we'll ever show.
+ */
+export async function processImageUpload(
+	file: File,
+): Promise<
+	| { status: "success"; contentType: UploadImageType; blob: Buffer }
+	| { status: "error"; error: string }
+> {
+	const bytes = Buffer.from(await file.arrayBuffer());
+	const contentType = sniffImageType(bytes);
+	if (!contentType) {
+		return {
+			status: "error",
+			error: acceptedImageTypesMessage,
+		};
+	}
+	const { label, maxSize } = imageUploadLimits[contentType];
+	if (bytes.byteLength > maxSize) {
+		return {
+			status: "error",
+			error: `${label} images must be smaller than ${formatSize(maxSize)}`,
+		};
+	}
+
+	const animated = contentType === "image/gif" || contentType === "image/webp";
+	const image = sharp(bytes, {
+		animated,
+		limitInputPixels: MAX_IMAGE_DIMENSION * MAX_IMAGE_DIMENSION,
+	});
+	let width: number | undefined;
+	let height: number | undefined;
+	try {
+		const metadata = await image.metadata();
+		width = metadata.width;
+		// animated images report the height of all their frames together
+		height = metadata.pageHeight ?? metadata.height;
+	} catch {
+		return { status: "error", error: "This image couldn't be read" };
+	}
+	if (!width || !height) {
+		return { status: "error", error: "This image couldn't be read" };
+	}
+	if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION) {
+		return {
+			status: "error",
+			error: `Images can be at most ${MAX_IMAGE_DIMENSION.toLocaleString(
+				"en-US",
+			)} pixels wide and tall`,
+		};
+	}
+
+	try {
+		// sharp leaves all the metadata out unless we ask it to keep it
+		const blob = await image
+			.rotate()
+			.resize({
+				width: MAX_STORED_DIMENSION,
+				height: MAX_STORED_DIMENSION,
+				fit: "inside",
+				withoutEnlargement: true,
+			})
+			.toFormat(sharpFormats[contentType])
+			.toBuffer();
+		return { status: "success", contentType, blob };
+	} catch {
+		return { status: "error", error: "This image couldn't be read" };
+	}
+}
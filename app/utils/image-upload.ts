@@ -0,0 +1,25 @@
+/**
+ * The image types people can upload and how big each can be. Photos get some
+ * room, but animated GIFs are expensive to process so they get less.
+ */
+export const imageUploadLimits = {
+	"image/jpeg": { label: "JPEG", maxSize: 1024 * 1024 * 3 },
+	"image/png": { label: "PNG", maxSize: 1024 * 1024 * 3 },
+	"image/webp": { label: "WebP", maxSize: 1024 * 1024 * 3 },
+	"image/avif": { label: "AVIF", maxSize: 1024 * 1024 * 3 },
+	"image/gif": { label: "GIF", maxSize: 1024 * 1024 * 1 },
+} as const;
+
+export type UploadImageType = keyof typeof imageUploadLimits;
+
+export const acceptedImageTypes = Object.keys(
+	imageUploadLimits,
+) as Array<UploadImageType>;
+
+export function isAcceptedImageType(type: string): type is UploadImageType {
+	return type in imageUploadLimits;
+}
+
+export const acceptedImageTypesMessage = `Only ${acceptedImageTypes
+	.map((type) => imageUploadLimits[type].label)
+	.join(", ")} images are allowed`;
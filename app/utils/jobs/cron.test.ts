@@ -0,0 +1,66 @@
+import { expect, test } from "vitest";
+import { getNextCronDate, parseCron } from "./cron.ts";
+
+const next = (expression: string, after: string) =>
+	getNextCronDate(expression, new Date(after)).toISOString();
+
+test("parses ranges, steps and lists", () => {
+	const schedule = parseCron("*/15 9-17/4 1,15 * 1-5");
+	expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+	expect([...schedule.hours]).toEqual([9, 13, 17]);
+	expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+	expect(schedule.months.size).toBe(12);
+	expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+});
+
+test("treats 7 as Sunday", () => {
+	expect(parseCron("0 0 * * 7").daysOfWeek.has(0)).toBe(true);
+});
+
+test("rejects invalid schedules", () => {
+	expect(() => parseCron("* * * *")).toThrow(/5 fields/);
+	expect(() => parseCron("60 * * * *")).toThrow(/minute/);
+	expect(() => parseCron("* * 0 * *")).toThrow(/day of month/);
+	expect(() => parseCron("5-1 * * * *")).toThrow(/minute/);
+	expect(() => parseCron("*/0 * * * *")).toThrow(/minute/);
+});
+
+test("finds the next matching minute strictly after the given date", () => {
+	expect(next("* * * * *", "2026-01-01T00:00:00Z")).toBe(
+		"2026-01-01T00:01:00.000Z",
+	);
+	expect(next("*/15 * * * *", "2026-01-01T00:14:59Z")).toBe(
+		"2026-01-01T00:15:00.000Z",
+	);
+	expect(next("0 3 * * *", "2026-01-01T03:00:00Z")).toBe(
+		"2026-01-02T03:00:00.000Z",
+	);
+});
+
+test("rolls over months and years", () => {
+	expect(next("30 4 1 * *", "2026-01-31T12:00:00Z")).toBe(
+		"2026-02-01T04:30:00.000Z",
+	);
+	expect(next("0 0 1 1 *", "2026-06-01T00:00:00Z")).toBe(
+		"2027-01-01T00:00:00.000Z",
+	);
+	expect(next("0 0 29 2 *", "2026-03-01T00:00:00Z")).toBe(
+		"2028-02-29T00:00:00.000Z",
+	);
+});
+
+test("matches either day field when both are restricted", () => {
+	// 2026-01-05 is a Monday
+	expect(next("0 0 15 * 1", "2026-01-01T00:00:00Z")).toBe(
+		"2026-01-05T00:00:00.000Z",
+	);
+	expect(next("0 0 * * 1", "2026-01-05T00:00:00Z")).toBe(
+		"2026-01-12T00:00:00.000Z",
+	);
+});
+
+test("gives up on schedules that never match", () => {
+	expect(() => getNextCronDate("0 0 31 2 *", new Date())).toThrow(
+		/never matches/,
+	);
+});
@@ -0,0 +1,115 @@
+/**
+ * A small parser for standard five field cron schedules
+ * ("minute hour day-of-month month day-of-week"), evaluated in UTC. Each field
+ * can be `*`, a number, a range (`1-5`), a step (`*\/15`, `0-30/10`) or a comma
+ * separated list of those.
+ */
+
+const fieldRanges = [
+	{ name: "minute", min: 0, max: 59 },
+	{ name: "hour", min: 0, max: 23 },
+	{ name: "day of month", min: 1, max: 31 },
+	{ name: "month", min: 1, max: 12 },
+	// 7 is also Sunday
+	{ name: "day of week", min: 0, max: 7 },
+] as const;
+
+export type CronSchedule = {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	// when both day fields are restricted a day matches if either does
+	restrictsDayOfMonth: boolean;
+	restrictsDayOfWeek: boolean;
+};
+
+function parseField(
+	field: string,
+	{ name, min, max }: (typeof fieldRanges)[number],
+) {
+	const values = new Set<number>();
+	for (const part of field.split(",")) {
+		const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+		if (!match) throw new Error(`Invalid cron ${name}: "${part}"`);
+		const [, range, start, end, step] = match;
+		const from = range === "*" ? min : Number(start);
+		const to =
+			range === "*" ? max : end !== undefined ? Number(end) : step ? max : from;
+		const increment = step ? Number(step) : 1;
+		if (from < min || to > max || from > to || increment < 1) {
+			throw new Error(`Invalid cron ${name}: "${part}"`);
+		}
+		for (let value = from; value <= to; value += increment) {
+			values.add(value);
+		}
+	}
+	return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== fieldRanges.length) {
+		throw new Error(
+			`Cron schedules need ${fieldRanges.length} fields, got "${expression}"`,
+		);
+	}
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = fieldRanges.map(
+		(range, index) => parseField(fields[index] ?? "", range),
+	) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+	if (daysOfWeek.has(7)) daysOfWeek.add(0);
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		restrictsDayOfMonth: fields[2] !== "*",
+		restrictsDayOfWeek: fields[4] !== "*",
+	};
+}
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+	const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+	const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+	if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+		return dayOfMonth || dayOfWeek;
+	}
+	return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` that matches the schedule.
+ */
+export function getNextCronDate(expression: string, after: Date) {
+	const schedule = parseCron(expression);
+	const date = new Date(after);
+	date.setUTCSeconds(0, 0);
+	date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+	// a schedule like "0 0 31 2 *" never matches, so give up after a few years
+	const limit = after.getTime() + 1000 * 60 * 60 * 24 * 366 * 5;
+	while (date.getTime() <= limit) {
+		if (!schedule.months.has(date.getUTCMonth() + 1)) {
+			date.setUTCMonth(date.getUTCMonth() + 1, 1);
+			date.setUTCHours(0, 0);
+			continue;
+		}
+		if (!matchesDay(schedule, date)) {
+			date.setUTCDate(date.getUTCDate() + 1);
+			date.setUTCHours(0, 0);
+			continue;
+		}
+		if (!schedule.hours.has(date.getUTCHours())) {
+			date.setUTCHours(date.getUTCHours() + 1, 0);
+			continue;
+		}
+		if (!schedule.minutes.has(date.getUTCMinutes())) {
+			date.setUTCMinutes(date.getUTCMinutes() + 1);
+			continue;
+		}
+		return date;
+	}
+	throw new Error(`Cron schedule never matches: "${expression}"`);
+}
@@ -0,0 +1,271 @@
+import type { Job } from "@prisma/client";
+import type { ZodTypeAny } from "zod";
+import { prisma } from "../db.server.ts";
+import { ensurePrimary, getInstanceInfo } from "../litefs.server.ts";
+import { getErrorMessage } from "../misc.tsx";
+import { getNextCronDate } from "./cron.ts";
+import {
+	cronJobs,
+	isJobType,
+	jobDefinitions,
+	type JobDefinition,
+	type JobPayload,
+	type JobType,
+} from "./registry.server.ts";
+
+export const jobStatuses = [
+	"pending",
+	"running",
+	"completed",
+	"failed",
+	"cancelled",
+] as const;
+export type JobStatus = (typeof jobStatuses)[number];
+
+// a job that's been running this long belonged to a worker that died
+const STALE_JOB_TIMEOUT = 1000 * 60 * 10;
+const MAX_RETRY_DELAY = 1000 * 60 * 60;
+
+/**
+ * How long to wait before trying a failed job again: 10s, 20s, 40s... up to
+ * an hour.
+ */
+export function getRetryDelay(attempts: number) {
+	return Math.min(1000 * 10 * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+}
+
+/**
+ * Queues a job for the worker. Writes have to happen on the LiteFS primary, so
+ * when this is called from a request on a replica the request gets replayed
+ * there.
+ */
+export async function enqueueJob<Type extends JobType>(
+	type: Type,
+	payload: JobPayload<Type>,
+	{
+		runAt = new Date(),
+		maxAttempts = jobDefinitions[type].maxAttempts ?? 5,
+		uniqueKey,
+	}: { runAt?: Date; maxAttempts?: number; uniqueKey?: string } = {},
+) {
+	await ensurePrimary();
+	const data = {
+		type,
+		payload: JSON.stringify(payload),
+		runAt,
+		maxAttempts,
+		uniqueKey,
+	};
+	if (uniqueKey) {
+		return prisma.job.upsert({
+			select: { id: true },
+			where: { uniqueKey },
+			create: data,
+			update: {},
+		});
+	}
+	return prisma.job.create({ select: { id: true }, data });
+}
+
+/**
+ * Claims the next due job. The update only matches if the job is still
+ * pending, so two workers can't both pick up the same one.
+ */
+async function claimNextJob(): Promise<Job | null> {
+	const next = await prisma.job.findFirst({
+		select: { id: true },
+		where: { status: "pending", runAt: { lte: new Date() } },
+		orderBy: { runAt: "asc" },
+	});
+	if (!next) return null;
+	const { count } = await prisma.job.updateMany({
+		where: { id: next.id, status: "pending" },
+		data: {
+			status: "running",
+			lockedAt: new Date(),
+			attempts: { increment: 1 },
+		},
+	});
+	if (count !== 1) return claimNextJob();
+	return prisma.job.findUniqueOrThrow({ where: { id: next.id } });
+}
+
+async function runJob(job: Job) {
+	let definition: JobDefinition<ZodTypeAny> | undefined;
+	let payload: unknown;
+	try {
+		if (!isJobType(job.type)) {
+			throw new Error(`Unknown job type "${job.type}"`);
+		}
+		definition = jobDefinitions[job.type];
+		payload = definition.schema.parse(JSON.parse(job.payload));
+		await definition.run(payload);
+		await prisma.job.update({
+			select: { id: true },
+			where: { id: job.id },
+			data: {
+				status: "completed",
+				completedAt: new Date(),
+				lockedAt: null,
+				lastError: null,
+			},
+		});
+	} catch (error: unknown) {
+		const canRetry = job.attempts < job.maxAttempts;
+		console.error(`Job ${job.id} (${job.type}) failed:`, error);
+		await prisma.job.update({
+			select: { id: true },
+			where: { id: job.id },
+			data: {
+				status: canRetry ? "pending" : "failed",
+				runAt: canRetry
+					? new Date(Date.now() + getRetryDelay(job.attempts))
+					: undefined,
+				lockedAt: null,
+				lastError: getErrorMessage(error),
+			},
+		});
+		if (!canRetry && definition?.onFailed && payload !== undefined) {
+			await definition.onFailed(payload, error).catch((hookError: unknown) => {
+				console.error(`Job ${job.id} (${job.type}) onFailed threw:`, hookError);
+			});
+		}
+	}
+	if (job.uniqueKey?.startsWith("cron:")) await scheduleCronJobs();
+}
+
+/**
+ * Makes sure each cron job has its next run queued. The unique key is per
+ * slot, so calling this again (or from a restarted worker) is harmless.
+ */
+export async function scheduleCronJobs(now = new Date()) {
+	for (const cronJob of cronJobs) {
+		await scheduleCronJob(cronJob, now);
+	}
+}
+
+async function scheduleCronJob(
+	cronJob: (typeof cronJobs)[number],
+	after: Date,
+) {
+	const runAt = getNextCronDate(cronJob.schedule, after);
+	await prisma.job.upsert({
+		select: { id: true },
+		where: { uniqueKey: `cron:${cronJob.name}:${runAt.toISOString()}` },
+		create: {
+			type: cronJob.type,
+			runAt,
+			uniqueKey: `cron:${cronJob.name}:${runAt.toISOString()}`,
+		},
+		update: {},
+	});
+}
+
+async function releaseStaleJobs() {
+	await prisma.job.updateMany({
+		where: {
+			status: "running",
+			lockedAt: { lt: new Date(Date.now() - STALE_JOB_TIMEOUT) },
+		},
+		data: { status: "pending", lockedAt: null },
+	});
+}
+
+/**
+ * Runs every job that's due, one at a time. Returns how many ran.
+ */
+export async function runDueJobs({
+	shouldStop = () => false,
+}: { shouldStop?: () => boolean } = {}) {
+	let count = 0;
+	while (!shouldStop()) {
+		const job = await claimNextJob();
+		if (!job) break;
+		await runJob(job);
+		count++;
+	}
+	return count;
+}
+
+/**
+ * Queues a failed or cancelled job to run again right away. Returns false if
+ * the job wasn't in a state that can be retried.
+ */
+export async function retryJob(id: string) {
+	const { count } = await prisma.job.updateMany({
+		where: { id, status: { in: ["failed", "cancelled"] } },
+		data: {
+			status: "pending",
+			attempts: 0,
+			runAt: new Date(),
+			lastError: null,
+		},
+	});
+	return count > 0;
+}
+
+/**
+ * Stops a job that hasn't started yet. Returns false if it already has.
+ */
+export async function cancelJob(id: string) {
+	const { count } = await prisma.job.updateMany({
+		where: { id, status: "pending" },
+		data: { status: "cancelled" },
+	});
+	if (count === 0) return false;
+
+	// cron jobs queue their next run once they've run, so a cancelled one has
+	// to be replaced by the slot after it or the schedule would stop
+	const job = await prisma.job.findUnique({
+		select: { uniqueKey: true, runAt: true },
+		where: { id },
+	});
+	const cronJob = cronJobs.find((cronJob) =>
+		job?.uniqueKey?.startsWith(`cron:${cronJob.name}:`),
+	);
+	if (job && cronJob) await scheduleCronJob(cronJob, job.runAt);
+	return true;
+}
+
+/**
+ * Polls for due jobs until stopped. Only the LiteFS primary runs jobs since
+ * they write to the database. Returns a function that stops the worker once
+ * the job it's running (if any) has finished.
+ */
+export function startJobWorker({
+	pollInterval = 1000,
+}: { pollInterval?: number } = {}) {
+	let stopped = false;
+	let timeout: ReturnType<typeof setTimeout> | undefined;
+	let current: Promise<unknown> = Promise.resolve();
+	let scheduled = false;
+
+	async function tick() {
+		const { currentIsPrimary } = await getInstanceInfo();
+		if (!currentIsPrimary) return;
+		if (!scheduled) {
+			await releaseStaleJobs();
+			await scheduleCronJobs();
+			scheduled = true;
+		}
+		await runDueJobs({ shouldStop: () => stopped });
+	}
+
+	function loop() {
+		if (stopped) return;
+		current = tick()
+			.catch((error: unknown) => {
+				console.error("The job worker ran into a problem:", error);
+			})
+			.finally(() => {
+				if (!stopped) timeout = setTimeout(loop, pollInterval);
+			});
+	}
+	loop();
+
+	return async function stopJobWorker() {
+		stopped = true;
+		clearTimeout(timeout);
+		await current;
+	};
+}
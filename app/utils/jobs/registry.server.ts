@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { markDataExportFailed, runDataExport } from "../data-export.server.tsx";
+import { sendEmail } from "../email.server.ts";
+import { runMaintenance } from "../maintenance.server.ts";
+import {
+	deliverWebhook,
+	markWebhookDeliveryFailed,
+} from "../webhooks.server.ts";
+
+export type JobDefinition<Schema extends z.ZodTypeAny> = {
+	schema: Schema;
+	/** Throw to fail the attempt, it'll be retried with backoff */
+	run(payload: z.infer<Schema>): Promise<unknown>;
+	/** Called once the last attempt has failed and the job won't be retried */
+	onFailed?(payload: z.infer<Schema>, error: unknown): Promise<unknown>;
+	maxAttempts?: number;
+};
+
+function defineJob<Schema extends z.ZodTypeAny>(
+	definition: JobDefinition<Schema>,
+) {
+	return definition;
+}
+
+/**
+ * Everything the worker knows how to run. Add a job here and queue it with
+ * `enqueueJob` from queue.server.ts.
+ */
+export const jobDefinitions = {
+	"send-email": defineJob({
+		schema: z.object({
+			to: z.string(),
+			subject: z.string(),
+			html: z.string(),
+			text: z.string(),
+		}),
+		async run(email) {
+			const result = await sendEmail(email);
+			if (result.status === "error") {
+				throw new Error(result.error.message);
+			}
+			return result.data;
+		},
+	}),
+	maintenance: defineJob({
+		schema: z.object({}),
+		run: () => runMaintenance({ trigger: "scheduled" }),
+	}),
+	"data-export": defineJob({
+		schema: z.object({ dataExportId: z.string(), origin: z.string() }),
+		run: (payload) => runDataExport(payload),
+		onFailed: ({ dataExportId }) => markDataExportFailed(dataExportId),
+		maxAttempts: 3,
+	}),
+	"webhook-delivery": defineJob({
+		schema: z.object({ deliveryId: z.string() }),
+		run: (payload) => deliverWebhook(payload),
+		onFailed: (payload) => markWebhookDeliveryFailed(payload),
+		// with the backoff that's about five minutes of retries
+		maxAttempts: 6,
+	}),
+};
+
+export type JobType = keyof typeof jobDefinitions;
+export type JobPayload<Type extends JobType> = z.input<
+	(typeof jobDefinitions)[Type]["schema"]
+>;
+
+/**
+ * Jobs the worker queues on a schedule (see cron.ts for the format).
+ */
+export const cronJobs: Array<{
+	name: string;
+	schedule: string;
+	type: JobType;
+}> = [{ name: "maintenance", schedule: "0 4 * * *", type: "maintenance" }];
+
+export function isJobType(type: string): type is JobType {
+	return type in jobDefinitions;
+}
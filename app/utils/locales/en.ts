@@ -0,0 +1,390 @@
+import type { Message } from "../i18n.ts";
+
+/**
+ * The English messages, which every other catalog has to have all of. Values
+ * can have {placeholders}, and ones that depend on a count have a form for
+ * each plural category the language uses.
+ */
+export const en = {
+	"common.username": "Username",
+	"common.name": "Name",
+	"common.email": "Email",
+	"common.password": "Password",
+	"common.confirmPassword": "Confirm Password",
+	"common.rememberMe": "Remember me",
+	"common.saveChanges": "Save changes",
+	"common.areYouSure": "Are you sure?",
+	"common.cancel": "Cancel",
+	"common.delete": "Delete",
+	"common.remove": "Remove",
+	"common.save": "Save",
+
+	"email.verificationCode": "Here's your verification code:",
+
+	"login.meta.title": "Login to Epic Notes",
+	"login.heading": "Welcome back!",
+	"login.description": "Please enter your details.",
+	"login.forgotPassword": "Forgot password?",
+	"login.submit": "Log in",
+	"login.newHere": "New here?",
+	"login.createAccount": "Create an account",
+	"login.invalidCredentials": "Invalid username or password",
+
+	"signup.meta.title": "Sign Up | Epic Notes",
+	"signup.heading": "Let's start your journey!",
+	"signup.description": "Please enter your email.",
+	"signup.submit": "Submit",
+	"signup.emailTaken": "A user already exists with this email",
+	"signup.email.subject": "Welcome to Epic Notes!",
+	"signup.email.link": "Or click the link to get started:",
+
+	"onboarding.meta.title": "Setup Epic Notes Account",
+	"onboarding.heading": "Welcome aboard {email}!",
+	"onboarding.description": "Please enter your details.",
+	"onboarding.agreeToTerms":
+		"Do you agree to our Terms of Service and Privacy Policy?",
+	"onboarding.submit": "Create an account",
+	"onboarding.toast.title": "Welcome",
+	"onboarding.toast.description": "Thanks for signing up!",
+
+	"forgotPassword.meta.title": "Password Recovery for Epic Notes",
+	"forgotPassword.heading": "Forgot Password",
+	"forgotPassword.description":
+		"No worries, we'll send you reset instructions.",
+	"forgotPassword.usernameOrEmail": "Username or Email",
+	"forgotPassword.submit": "Recover password",
+	"forgotPassword.backToLogin": "Back to Login",
+	"forgotPassword.userNotFound": "No user exists with this username or email",
+	"forgotPassword.email.subject": "Epic Notes Password Reset",
+	"forgotPassword.email.link": "Or click the link:",
+
+	"resetPassword.meta.title": "Reset Password | Epic Notes",
+	"resetPassword.heading": "Password Reset",
+	"resetPassword.description":
+		"Hi, {username}. No worries. It happens all the time.",
+	"resetPassword.newPassword": "New Password",
+	"resetPassword.submit": "Reset password",
+
+	"profile.breadcrumb": "Edit Profile",
+	"profile.profileLink": "Profile",
+	"profile.changePhoto": "Change profile photo",
+	"profile.changeEmail": "Change email from {email}",
+	"profile.twoFactorEnabled": "2FA is enabled",
+	"profile.enableTwoFactor": "Enable 2FA",
+	"profile.managePasskeys": "Manage passkeys",
+	"profile.changePassword": "Change Password",
+	"profile.createPassword": "Create a Password",
+	"profile.manageConnections": "Manage connections",
+	"profile.manageTags": "Manage tags",
+	"profile.appearance": "Appearance",
+	"profile.language": "Language",
+	"profile.apiTokens": "API tokens",
+	"profile.webhooks": "Webhooks",
+	"profile.securityHistory": "Security history",
+	"profile.downloadData": "Download your data",
+	"profile.manageSessions": "Manage sessions",
+	"profile.signOutOfSessions": {
+		one: "Sign out of {count} other session",
+		other: "Sign out of {count} other sessions",
+	},
+	"profile.onlySession": "This is your only session",
+	"profile.deleteData": "Delete all your data",
+
+	"language.description":
+		"Pick the language Epic Notes is shown in, and the emails we send you are written in.",
+	"language.label": "Language",
+	"language.matchBrowser": "Match my browser ({language})",
+	"language.saved.title": "Language saved",
+	"language.saved.description": "Epic Notes will use it wherever you log in.",
+
+	"password.breadcrumb": "Password",
+	"password.current": "Current Password",
+	"password.new": "New Password",
+	"password.confirmNew": "Confirm New Password",
+	"password.incorrect": "Incorrect password.",
+	"password.create": "Create Password",
+	"password.changed.title": "Password Changed",
+	"password.changed.description": "Your password has been changed.",
+
+	"changeEmail.heading": "Change Email",
+	"changeEmail.description":
+		"You will receive an email at the new email address to confirm.",
+	"changeEmail.oldAddressNotice":
+		"An email notice will also be sent to your old address {email}.",
+	"changeEmail.newEmail": "New Email",
+	"changeEmail.submit": "Send Confirmation",
+	"changeEmail.emailTaken": "This email is already in use.",
+	"changeEmail.sameDevice":
+		"You must submit the code on the same device that requested the email change.",
+	"changeEmail.changed.title": "Email Changed",
+	"changeEmail.changed.description": "Your email has been changed to {email}",
+	"changeEmail.email.subject": "Epic Notes Email Change Verification",
+	"changeEmail.email.heading": "Epic Notes Email Change",
+	"changeEmail.noticeEmail.subject": "Epic Stack email changed",
+	"changeEmail.noticeEmail.heading": "Your Epic Notes email has been changed",
+	"changeEmail.noticeEmail.body":
+		"We're writing to let you know that your Epic Notes email has been changed.",
+	"changeEmail.noticeEmail.ifNotYou":
+		"If you changed your email address, then you can safely ignore this. But if you did not change your email address, then please contact support immediately.",
+	"changeEmail.noticeEmail.accountId": "Your Account ID: {userId}",
+
+	"photo.breadcrumb": "Photo",
+	"photo.change": "Change",
+	"photo.save": "Save Photo",
+	"photo.reset": "Reset",
+
+	"tags.breadcrumb": "Tags",
+	"tags.empty":
+		"You don't have any tags yet. Add tags to your notes in the note editor.",
+	"tags.noteCount": { one: "{count} note", other: "{count} notes" },
+	"tags.rename": "Rename",
+	"tags.alreadyExists": "You already have this tag, merge them instead",
+	"tags.mergeInto": "Merge into",
+	"tags.merge": "Merge",
+	"tags.merged.title": "Merged",
+	"tags.merged.description": 'Notes tagged "{from}" are now tagged "{to}".',
+
+	"twoFactor.breadcrumb": "2FA",
+	"twoFactor.enabled": "You have enabled two-factor authentication.",
+	"twoFactor.notEnabled": "You have not enabled two-factor authentication yet.",
+	"twoFactor.description":
+		"Two factor authentication adds an extra layer of security to your account. You will need to enter a code from an authenticator app like {app} to log in.",
+	"twoFactor.recoveryCodes": "Recovery codes",
+	"twoFactor.disable": "Disable 2FA",
+	"twoFactor.disable.breadcrumb": "Disable",
+	"twoFactor.disable.description":
+		"Disabling two factor authentication is not recommended. However, if you would like to do so, click here:",
+	"twoFactor.disabled.title": "2FA Disabled",
+	"twoFactor.disabled.description":
+		"Two factor authentication has been disabled.",
+
+	"twoFactor.verify.breadcrumb": "Verify",
+	"twoFactor.verify.qrCode": "QR code",
+	"twoFactor.verify.scan": "Scan this QR code with your authenticator app.",
+	"twoFactor.verify.manual":
+		"If you cannot scan the QR code, you can manually add this account to your authenticator app using this code:",
+	"twoFactor.verify.otpUri": "One-time Password URI",
+	"twoFactor.verify.instructions":
+		"Once you've added the account, enter the code from your authenticator app below. Once you enable 2FA, you will need to enter a code from your authenticator app every time you log in or perform important actions. Do not lose access to your authenticator app, or you will lose access to your account.",
+	"twoFactor.verify.code": "Code",
+	"twoFactor.verify.submit": "Submit",
+	"twoFactor.verify.invalidCode": "Invalid code",
+	"twoFactor.enabled.title": "Enabled",
+	"twoFactor.enabled.description":
+		"Two-factor authentication has been enabled.",
+
+	"recoveryCodes.description":
+		"If you lose access to your authenticator app, you can log in with one of your recovery codes instead. Each code can only be used once.",
+	"recoveryCodes.saveThem":
+		"Save these codes somewhere safe, like your password manager. This is the only time we will show them to you.",
+	"recoveryCodes.remaining": {
+		one: "You have {count} unused recovery code left.",
+		other: "You have {count} unused recovery codes left.",
+	},
+	"recoveryCodes.regenerate": "Generate new recovery codes",
+	"recoveryCodes.regenerate.confirm":
+		"Your old codes will stop working. Are you sure?",
+	"recoveryCodes.regenerated.title": "New recovery codes",
+	"recoveryCodes.regenerated.description":
+		"Your old recovery codes no longer work.",
+	"recoveryCodes.usedEmail.subject": "Epic Notes recovery code used",
+	"recoveryCodes.usedEmail.heading":
+		"A recovery code was used on your Epic Notes account",
+	"recoveryCodes.usedEmail.body": {
+		one: "Someone just logged in to your Epic Notes account with one of your two-factor recovery codes. You have {count} unused code left.",
+		other:
+			"Someone just logged in to your Epic Notes account with one of your two-factor recovery codes. You have {count} unused codes left.",
+	},
+	"recoveryCodes.usedEmail.ifYou":
+		"If this was you, you may want to generate a new set of codes:",
+	"recoveryCodes.usedEmail.ifNotYou":
+		"If this was not you, then please change your password and contact support immediately.",
+
+	"passkeys.breadcrumb": "Passkeys",
+	"passkeys.description":
+		"Passkeys let you sign in with your fingerprint, face, screen lock or a security key instead of your password. If you've enabled 2FA, you can also use one instead of a code from your authenticator app.",
+	"passkeys.empty": "You don't have any passkeys yet.",
+	"passkeys.synced": "Synced between your devices",
+	"passkeys.singleDevice": "Only on this device",
+	"passkeys.addedAndUsed": "Added {added}, last used {used}",
+	"passkeys.addedNeverUsed": "Added {added}, never used",
+	"passkeys.add.heading": "Add a passkey",
+	"passkeys.add.placeholder": "e.g. My laptop",
+	"passkeys.add.submit": "Add passkey",
+	"passkeys.removed.title": "Passkey removed",
+	"passkeys.removed.description": 'You can no longer sign in with "{name}".',
+
+	"sessions.breadcrumb": "Sessions",
+	"sessions.thisDevice": "This device",
+	"sessions.unknownIp": "Unknown IP",
+	"sessions.lastActive": "Last active {lastSeen}, signed in {created}",
+	"sessions.signOut": "Sign out",
+	"sessions.revoked.title": "Signed out",
+	"sessions.revoked.description": "That session has been signed out.",
+
+	"data.description":
+		"Get a ZIP file with your notes as Markdown, the images you've uploaded and everything else in your account as JSON. Bigger accounts can take a while, so we'll email you a link to download it once it's ready.",
+	"data.export": "Export your data",
+	"data.rightAway": "Need it right away?",
+	"data.downloadJson": "Download your account as JSON",
+	"data.withoutImages": "without the images.",
+	"data.requestedAt": "Requested {date}",
+	"data.status.pending": "pending",
+	"data.status.ready": "ready",
+	"data.status.failed": "failed",
+	"data.status.expired": "expired",
+	"data.pending": "We're putting it together.",
+	"data.failed": "Something went wrong, please try again.",
+	"data.available": "{size} MB, available until {date}",
+	"data.expired": "The download link has expired.",
+	"data.download": "Download",
+	"data.alreadyRequested.title": "Already on it",
+	"data.alreadyRequested.description":
+		"We're still putting your last export together.",
+	"data.requested.title": "Export requested",
+	"data.requested.description": "We'll email you a link when it's ready.",
+
+	"appearance.accentColor": "Accent color",
+	"appearance.grayColor": "Gray color",
+	"appearance.radius": "Radius",
+	"appearance.scaling": "Scaling",
+	"appearance.preview": "Preview",
+	"appearance.preview.title": "Koala facts",
+	"appearance.preview.tag": "animals",
+	"appearance.preview.content":
+		"Koalas sleep up to 22 hours a day, which is how this note took so long to write.",
+	"appearance.preview.search": "Search notes",
+	"appearance.preview.pinned": "Pinned",
+	"appearance.saved.title": "Appearance saved",
+	"appearance.saved.description":
+		"It'll look like this wherever you're logged in.",
+
+	"apiTokens.description":
+		"API tokens let your scripts use your notes through the API at {url}. Send the token in the {header} header. A token can only do what you choose when you create it, and never more than your account can.",
+	"apiTokens.empty": "You don't have any API tokens yet.",
+	"apiTokens.action.read": "Read notes",
+	"apiTokens.action.create": "Create notes",
+	"apiTokens.action.update": "Update notes",
+	"apiTokens.action.delete": "Delete notes",
+	"apiTokens.expiresIn.30": "30 days",
+	"apiTokens.expiresIn.90": "90 days",
+	"apiTokens.expiresIn.365": "1 year",
+	"apiTokens.expiresIn.never": "Never",
+	"apiTokens.expired": "Expired",
+	"apiTokens.createdAt": "Created {date}",
+	"apiTokens.lastUsedAt": "last used {date}",
+	"apiTokens.neverUsed": "never used",
+	"apiTokens.expiresAt": "expires {date}",
+	"apiTokens.expiredAt": "expired {date}",
+	"apiTokens.neverExpires": "never expires",
+	"apiTokens.newToken":
+		"Here's your new token \"{name}\". Copy it now, you won't be able to see it again:",
+	"apiTokens.create.heading": "Create a token",
+	"apiTokens.create.placeholder": "e.g. Backup script",
+	"apiTokens.create.actions": "What it can do",
+	"apiTokens.create.expiresIn": "Expires after",
+	"apiTokens.create.submit": "Create token",
+	"apiTokens.revoke": "Revoke",
+	"apiTokens.revoked.title": "API token revoked",
+	"apiTokens.revoked.description":
+		'Requests made with "{name}" will no longer work.',
+
+	"webhooks.description":
+		"Webhooks send a signed JSON payload to your URL when your notes or profile change, so your tools don't have to keep asking. Failed deliveries are retried for a few minutes, and a webhook that keeps failing is turned off.",
+	"webhooks.empty": "You don't have any webhooks yet.",
+	"webhooks.limitReached":
+		"You have as many webhooks as you can. Delete one to add another.",
+	"webhooks.tooMany": "You can have up to {count} webhooks",
+	"webhooks.off": "Off",
+	"webhooks.lastDelivery": "Last delivery {date}: {status}",
+	"webhooks.lastDeliveryWithResponse":
+		"Last delivery {date}: {status} ({response})",
+	"webhooks.nothingDelivered": "Created {date}, nothing delivered yet",
+	"webhooks.details": "Details",
+	"webhooks.status.pending": "pending",
+	"webhooks.status.succeeded": "succeeded",
+	"webhooks.status.failed": "failed",
+	"webhooks.event.noteCreated": "Note created",
+	"webhooks.event.noteUpdated": "Note updated",
+	"webhooks.event.noteDeleted": "Note deleted",
+	"webhooks.event.profileUpdated": "Profile updated",
+	"webhooks.event.test": "Test event",
+	"webhooks.add.heading": "Add a webhook",
+	"webhooks.add.url": "Payload URL",
+	"webhooks.add.events": "Events",
+	"webhooks.add.seeDocs":
+		"See what gets sent in the {docs}, note payloads use the same format.",
+	"webhooks.add.apiDocs": "API docs",
+	"webhooks.add.submit": "Add webhook",
+	"webhooks.created.title": "Webhook created",
+	"webhooks.created.description":
+		"Use its signing secret to check the payloads you receive.",
+
+	"webhook.breadcrumb": "Webhook",
+	"webhook.all": "All webhooks",
+	"webhook.turnedOff": "You turned this webhook off.",
+	"webhook.offNotice":
+		"No events are sent until it's turned back on, but you can still send a test event to check your endpoint.",
+	"webhook.recentDeliveries": "Recent deliveries",
+	"webhook.failing": {
+		one: "The last delivery failed. After {max} in a row the webhook is turned off.",
+		other:
+			"The last {count} deliveries failed. After {max} in a row the webhook is turned off.",
+	},
+	"webhook.secret.heading": "Signing secret",
+	"webhook.secret.hide": "Hide",
+	"webhook.secret.reveal": "Reveal",
+	"webhook.secret.instructions":
+		"Every request has a {header} header like {example}. Compute the HMAC-SHA256 of the timestamp, a dot and the raw request body with this secret, and only accept the request if it matches {v1} and the timestamp is recent. The {id} in the payload stays the same when a delivery is retried.",
+	"webhook.sendTest": "Send test event",
+	"webhook.turnOff": "Turn off",
+	"webhook.turnOn": "Turn on",
+	"webhook.noDeliveries":
+		"Nothing has been sent yet. Send a test event to try your endpoint.",
+	"webhook.column.event": "Event",
+	"webhook.column.status": "Status",
+	"webhook.column.response": "Response",
+	"webhook.column.when": "When",
+	"webhook.retrying": "retrying",
+	"webhook.attempts": { one: "{count} attempt", other: "{count} attempts" },
+	"webhook.duration": "in {duration}ms",
+	"webhook.testSent.title": "Test event sent",
+	"webhook.testSent.description":
+		"It'll show up in the delivery log in a moment.",
+	"webhook.deleted.title": "Webhook deleted",
+	"webhook.deleted.description": "Events will no longer be sent to {url}.",
+
+	"verify.checkEmail.heading": "Check your email",
+	"verify.checkEmail.description":
+		"We've sent you a code to verify your email address.",
+	"verify.unlockAccount.heading": "Unlock your account",
+	"verify.unlockAccount.description":
+		"Enter the code we emailed you to unlock your account.",
+	"verify.twoFactor.heading": "Check your 2FA app",
+	"verify.twoFactor.description":
+		"Please enter your 2FA code to verify your identity.",
+	"verify.invalidType": "Invalid Verification Type",
+	"verify.code": "Code",
+	"verify.submit": "Submit",
+	"verify.invalidCode": "Invalid code",
+	"verify.lostAccess": "Lost access to your 2FA app?",
+	"verify.recoveryCode": "Recovery code",
+	"verify.useRecoveryCode": "Use a recovery code",
+	"verify.invalidRecoveryCode": "Invalid recovery code",
+	"verify.invalidSession.title": "Invalid session",
+	"verify.invalidSession.description":
+		"Could not find session to verify. Please try again.",
+	"verify.reverify.title": "Please Reverify",
+	"verify.reverify.description":
+		"Please reverify your account before proceeding",
+	"verify.passkey": "Use a passkey",
+	"login.passkey": "Sign in with a passkey",
+	"lockout.wait": "Too many failed attempts. Please try again in {wait}.",
+	"lockout.locked":
+		"Too many failed attempts, so your account is locked for {wait}. We've emailed you a link to unlock it.",
+	"lockout.seconds": { one: "{count} second", other: "{count} seconds" },
+	"lockout.minutes": { one: "{count} minute", other: "{count} minutes" },
+
+	"verify.unlocked.title": "Account unlocked",
+	"verify.unlocked.description": "You can log in again now.",
+} satisfies Record<string, Message>;
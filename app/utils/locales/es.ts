@@ -0,0 +1,395 @@
+import type { Message, MessageKey } from "../i18n.ts";
+
+export const es: Record<MessageKey, Message> = {
+	"common.username": "Nombre de usuario",
+	"common.name": "Nombre",
+	"common.email": "Correo electrónico",
+	"common.password": "Contraseña",
+	"common.confirmPassword": "Confirmar contraseña",
+	"common.rememberMe": "Recordarme",
+	"common.saveChanges": "Guardar cambios",
+	"common.areYouSure": "¿Estás seguro?",
+	"common.cancel": "Cancelar",
+	"common.delete": "Eliminar",
+	"common.remove": "Quitar",
+	"common.save": "Guardar",
+
+	"email.verificationCode": "Este es tu código de verificación:",
+
+	"login.meta.title": "Inicia sesión en Epic Notes",
+	"login.heading": "¡Hola de nuevo!",
+	"login.description": "Introduce tus datos.",
+	"login.forgotPassword": "¿Olvidaste tu contraseña?",
+	"login.submit": "Iniciar sesión",
+	"login.newHere": "¿Eres nuevo?",
+	"login.createAccount": "Crea una cuenta",
+	"login.invalidCredentials": "Nombre de usuario o contraseña incorrectos",
+
+	"signup.meta.title": "Regístrate | Epic Notes",
+	"signup.heading": "¡Empecemos!",
+	"signup.description": "Introduce tu correo electrónico.",
+	"signup.submit": "Enviar",
+	"signup.emailTaken": "Ya existe un usuario con este correo electrónico",
+	"signup.email.subject": "¡Bienvenido a Epic Notes!",
+	"signup.email.link": "O haz clic en el enlace para empezar:",
+
+	"onboarding.meta.title": "Configura tu cuenta de Epic Notes",
+	"onboarding.heading": "¡Bienvenido a bordo, {email}!",
+	"onboarding.description": "Introduce tus datos.",
+	"onboarding.agreeToTerms":
+		"¿Aceptas nuestras Condiciones del servicio y nuestra Política de privacidad?",
+	"onboarding.submit": "Crear una cuenta",
+	"onboarding.toast.title": "Bienvenido",
+	"onboarding.toast.description": "¡Gracias por registrarte!",
+
+	"forgotPassword.meta.title": "Recupera tu contraseña de Epic Notes",
+	"forgotPassword.heading": "Contraseña olvidada",
+	"forgotPassword.description":
+		"No te preocupes, te enviaremos instrucciones para restablecerla.",
+	"forgotPassword.usernameOrEmail": "Nombre de usuario o correo electrónico",
+	"forgotPassword.submit": "Recuperar contraseña",
+	"forgotPassword.backToLogin": "Volver a iniciar sesión",
+	"forgotPassword.userNotFound":
+		"No existe ningún usuario con este nombre de usuario o correo electrónico",
+	"forgotPassword.email.subject": "Restablecer tu contraseña de Epic Notes",
+	"forgotPassword.email.link": "O haz clic en el enlace:",
+
+	"resetPassword.meta.title": "Restablecer contraseña | Epic Notes",
+	"resetPassword.heading": "Restablecer contraseña",
+	"resetPassword.description":
+		"Hola, {username}. No te preocupes, le pasa a todo el mundo.",
+	"resetPassword.newPassword": "Nueva contraseña",
+	"resetPassword.submit": "Restablecer contraseña",
+
+	"profile.breadcrumb": "Editar perfil",
+	"profile.profileLink": "Perfil",
+	"profile.changePhoto": "Cambiar foto de perfil",
+	"profile.changeEmail": "Cambiar el correo electrónico {email}",
+	"profile.twoFactorEnabled": "La verificación en dos pasos está activada",
+	"profile.enableTwoFactor": "Activar la verificación en dos pasos",
+	"profile.managePasskeys": "Gestionar llaves de acceso",
+	"profile.changePassword": "Cambiar contraseña",
+	"profile.createPassword": "Crear una contraseña",
+	"profile.manageConnections": "Gestionar conexiones",
+	"profile.manageTags": "Gestionar etiquetas",
+	"profile.appearance": "Apariencia",
+	"profile.language": "Idioma",
+	"profile.apiTokens": "Tokens de API",
+	"profile.webhooks": "Webhooks",
+	"profile.securityHistory": "Historial de seguridad",
+	"profile.downloadData": "Descargar tus datos",
+	"profile.manageSessions": "Gestionar sesiones",
+	"profile.signOutOfSessions": {
+		one: "Cerrar {count} sesión más",
+		other: "Cerrar {count} sesiones más",
+	},
+	"profile.onlySession": "Esta es tu única sesión",
+	"profile.deleteData": "Eliminar todos tus datos",
+
+	"language.description":
+		"Elige el idioma en el que se muestra Epic Notes y en el que te escribimos los correos.",
+	"language.label": "Idioma",
+	"language.matchBrowser": "Usar el de mi navegador ({language})",
+	"language.saved.title": "Idioma guardado",
+	"language.saved.description":
+		"Epic Notes lo usará en cualquier dispositivo en el que inicies sesión.",
+
+	"password.breadcrumb": "Contraseña",
+	"password.current": "Contraseña actual",
+	"password.new": "Nueva contraseña",
+	"password.confirmNew": "Confirmar nueva contraseña",
+	"password.incorrect": "Contraseña incorrecta.",
+	"password.create": "Crear contraseña",
+	"password.changed.title": "Contraseña cambiada",
+	"password.changed.description": "Tu contraseña se ha cambiado.",
+
+	"changeEmail.heading": "Cambiar correo electrónico",
+	"changeEmail.description":
+		"Recibirás un correo en la nueva dirección para confirmarla.",
+	"changeEmail.oldAddressNotice":
+		"También enviaremos un aviso a tu dirección anterior, {email}.",
+	"changeEmail.newEmail": "Nuevo correo electrónico",
+	"changeEmail.submit": "Enviar confirmación",
+	"changeEmail.emailTaken": "Este correo electrónico ya está en uso.",
+	"changeEmail.sameDevice":
+		"Tienes que enviar el código desde el mismo dispositivo en el que pediste el cambio de correo.",
+	"changeEmail.changed.title": "Correo electrónico cambiado",
+	"changeEmail.changed.description": "Tu correo electrónico ahora es {email}",
+	"changeEmail.email.subject":
+		"Verificación del cambio de correo de Epic Notes",
+	"changeEmail.email.heading": "Cambio de correo de Epic Notes",
+	"changeEmail.noticeEmail.subject": "Se cambió tu correo de Epic Stack",
+	"changeEmail.noticeEmail.heading":
+		"Se cambió el correo de tu cuenta de Epic Notes",
+	"changeEmail.noticeEmail.body":
+		"Te escribimos para avisarte de que se cambió el correo electrónico de tu cuenta de Epic Notes.",
+	"changeEmail.noticeEmail.ifNotYou":
+		"Si lo cambiaste tú, puedes ignorar este mensaje. Si no fuiste tú, ponte en contacto con soporte de inmediato.",
+	"changeEmail.noticeEmail.accountId": "ID de tu cuenta: {userId}",
+
+	"photo.breadcrumb": "Foto",
+	"photo.change": "Cambiar",
+	"photo.save": "Guardar foto",
+	"photo.reset": "Descartar",
+
+	"tags.breadcrumb": "Etiquetas",
+	"tags.empty":
+		"Todavía no tienes etiquetas. Añádelas a tus notas desde el editor.",
+	"tags.noteCount": { one: "{count} nota", other: "{count} notas" },
+	"tags.rename": "Renombrar",
+	"tags.alreadyExists": "Ya tienes esta etiqueta, combínalas en su lugar",
+	"tags.mergeInto": "Combinar con",
+	"tags.merge": "Combinar",
+	"tags.merged.title": "Combinadas",
+	"tags.merged.description":
+		'Las notas con la etiqueta "{from}" ahora tienen la etiqueta "{to}".',
+
+	"twoFactor.breadcrumb": "2FA",
+	"twoFactor.enabled": "Has activado la autenticación en dos pasos.",
+	"twoFactor.notEnabled":
+		"Todavía no has activado la autenticación en dos pasos.",
+	"twoFactor.description":
+		"La autenticación en dos pasos añade una capa extra de seguridad a tu cuenta. Para iniciar sesión tendrás que introducir un código de una app de autenticación como {app}.",
+	"twoFactor.recoveryCodes": "Códigos de recuperación",
+	"twoFactor.disable": "Desactivar 2FA",
+	"twoFactor.disable.breadcrumb": "Desactivar",
+	"twoFactor.disable.description":
+		"No te recomendamos desactivar la autenticación en dos pasos. Aun así, si quieres hacerlo, haz clic aquí:",
+	"twoFactor.disabled.title": "2FA desactivada",
+	"twoFactor.disabled.description":
+		"Se ha desactivado la autenticación en dos pasos.",
+
+	"twoFactor.verify.breadcrumb": "Verificar",
+	"twoFactor.verify.qrCode": "Código QR",
+	"twoFactor.verify.scan":
+		"Escanea este código QR con tu app de autenticación.",
+	"twoFactor.verify.manual":
+		"Si no puedes escanear el código QR, puedes añadir la cuenta a tu app de autenticación a mano con este código:",
+	"twoFactor.verify.otpUri": "URI de la contraseña de un solo uso",
+	"twoFactor.verify.instructions":
+		"Cuando hayas añadido la cuenta, introduce abajo el código de tu app de autenticación. Con la 2FA activada tendrás que introducir un código de la app cada vez que inicies sesión o hagas algo importante. No pierdas el acceso a tu app de autenticación, o perderás el acceso a tu cuenta.",
+	"twoFactor.verify.code": "Código",
+	"twoFactor.verify.submit": "Enviar",
+	"twoFactor.verify.invalidCode": "Código no válido",
+	"twoFactor.enabled.title": "Activada",
+	"twoFactor.enabled.description":
+		"Se ha activado la autenticación en dos pasos.",
+
+	"recoveryCodes.description":
+		"Si pierdes el acceso a tu app de autenticación, puedes iniciar sesión con uno de tus códigos de recuperación. Cada código solo se puede usar una vez.",
+	"recoveryCodes.saveThem":
+		"Guarda estos códigos en un lugar seguro, como tu gestor de contraseñas. Es la única vez que te los mostraremos.",
+	"recoveryCodes.remaining": {
+		one: "Te queda {count} código de recuperación sin usar.",
+		other: "Te quedan {count} códigos de recuperación sin usar.",
+	},
+	"recoveryCodes.regenerate": "Generar nuevos códigos de recuperación",
+	"recoveryCodes.regenerate.confirm":
+		"Tus códigos anteriores dejarán de funcionar. ¿Estás seguro?",
+	"recoveryCodes.regenerated.title": "Nuevos códigos de recuperación",
+	"recoveryCodes.regenerated.description":
+		"Tus códigos de recuperación anteriores ya no funcionan.",
+	"recoveryCodes.usedEmail.subject":
+		"Se usó un código de recuperación de Epic Notes",
+	"recoveryCodes.usedEmail.heading":
+		"Se usó un código de recuperación en tu cuenta de Epic Notes",
+	"recoveryCodes.usedEmail.body": {
+		one: "Alguien acaba de iniciar sesión en tu cuenta de Epic Notes con uno de tus códigos de recuperación. Te queda {count} código sin usar.",
+		other:
+			"Alguien acaba de iniciar sesión en tu cuenta de Epic Notes con uno de tus códigos de recuperación. Te quedan {count} códigos sin usar.",
+	},
+	"recoveryCodes.usedEmail.ifYou":
+		"Si fuiste tú, quizá quieras generar un nuevo juego de códigos:",
+	"recoveryCodes.usedEmail.ifNotYou":
+		"Si no fuiste tú, cambia tu contraseña y ponte en contacto con soporte de inmediato.",
+
+	"passkeys.breadcrumb": "Llaves de acceso",
+	"passkeys.description":
+		"Las llaves de acceso te permiten iniciar sesión con tu huella, tu cara, el bloqueo de pantalla o una llave de seguridad en lugar de tu contraseña. Si tienes la 2FA activada, también puedes usarlas en lugar de un código de tu app de autenticación.",
+	"passkeys.empty": "Todavía no tienes llaves de acceso.",
+	"passkeys.synced": "Sincronizada entre tus dispositivos",
+	"passkeys.singleDevice": "Solo en este dispositivo",
+	"passkeys.addedAndUsed": "Añadida el {added}, último uso el {used}",
+	"passkeys.addedNeverUsed": "Añadida el {added}, nunca usada",
+	"passkeys.add.heading": "Añadir una llave de acceso",
+	"passkeys.add.placeholder": "p. ej. Mi portátil",
+	"passkeys.add.submit": "Añadir llave de acceso",
+	"passkeys.removed.title": "Llave de acceso eliminada",
+	"passkeys.removed.description": 'Ya no puedes iniciar sesión con "{name}".',
+
+	"sessions.breadcrumb": "Sesiones",
+	"sessions.thisDevice": "Este dispositivo",
+	"sessions.unknownIp": "IP desconocida",
+	"sessions.lastActive":
+		"Última actividad el {lastSeen}, sesión iniciada el {created}",
+	"sessions.signOut": "Cerrar sesión",
+	"sessions.revoked.title": "Sesión cerrada",
+	"sessions.revoked.description": "Se ha cerrado esa sesión.",
+
+	"data.description":
+		"Recibe un archivo ZIP con tus notas en Markdown, las imágenes que has subido y todo lo demás de tu cuenta en JSON. Las cuentas más grandes pueden tardar un poco, así que te enviaremos un enlace por correo cuando esté listo.",
+	"data.export": "Exportar tus datos",
+	"data.rightAway": "¿Lo necesitas ya?",
+	"data.downloadJson": "Descarga tu cuenta en JSON",
+	"data.withoutImages": "sin las imágenes.",
+	"data.requestedAt": "Solicitada el {date}",
+	"data.status.pending": "pendiente",
+	"data.status.ready": "lista",
+	"data.status.failed": "fallida",
+	"data.status.expired": "caducada",
+	"data.pending": "La estamos preparando.",
+	"data.failed": "Algo salió mal, inténtalo de nuevo.",
+	"data.available": "{size} MB, disponible hasta el {date}",
+	"data.expired": "El enlace de descarga ha caducado.",
+	"data.download": "Descargar",
+	"data.alreadyRequested.title": "Ya estamos en ello",
+	"data.alreadyRequested.description":
+		"Todavía estamos preparando tu última exportación.",
+	"data.requested.title": "Exportación solicitada",
+	"data.requested.description":
+		"Te enviaremos un enlace por correo cuando esté lista.",
+
+	"appearance.accentColor": "Color de acento",
+	"appearance.grayColor": "Color gris",
+	"appearance.radius": "Radio",
+	"appearance.scaling": "Escala",
+	"appearance.preview": "Vista previa",
+	"appearance.preview.title": "Datos sobre koalas",
+	"appearance.preview.tag": "animales",
+	"appearance.preview.content":
+		"Los koalas duermen hasta 22 horas al día, por eso esta nota tardó tanto en escribirse.",
+	"appearance.preview.search": "Buscar notas",
+	"appearance.preview.pinned": "Fijada",
+	"appearance.saved.title": "Apariencia guardada",
+	"appearance.saved.description":
+		"Se verá así dondequiera que hayas iniciado sesión.",
+
+	"apiTokens.description":
+		"Los tokens de API permiten que tus scripts usen tus notas a través de la API en {url}. Envía el token en la cabecera {header}. Un token solo puede hacer lo que elijas al crearlo, y nunca más que tu cuenta.",
+	"apiTokens.empty": "Todavía no tienes tokens de API.",
+	"apiTokens.action.read": "Leer notas",
+	"apiTokens.action.create": "Crear notas",
+	"apiTokens.action.update": "Actualizar notas",
+	"apiTokens.action.delete": "Eliminar notas",
+	"apiTokens.expiresIn.30": "30 días",
+	"apiTokens.expiresIn.90": "90 días",
+	"apiTokens.expiresIn.365": "1 año",
+	"apiTokens.expiresIn.never": "Nunca",
+	"apiTokens.expired": "Caducado",
+	"apiTokens.createdAt": "Creado el {date}",
+	"apiTokens.lastUsedAt": "último uso el {date}",
+	"apiTokens.neverUsed": "nunca usado",
+	"apiTokens.expiresAt": "caduca el {date}",
+	"apiTokens.expiredAt": "caducó el {date}",
+	"apiTokens.neverExpires": "nunca caduca",
+	"apiTokens.newToken":
+		'Este es tu nuevo token "{name}". Cópialo ahora, no podrás volver a verlo:',
+	"apiTokens.create.heading": "Crear un token",
+	"apiTokens.create.placeholder": "p. ej. Script de copias de seguridad",
+	"apiTokens.create.actions": "Qué puede hacer",
+	"apiTokens.create.expiresIn": "Caduca después de",
+	"apiTokens.create.submit": "Crear token",
+	"apiTokens.revoke": "Revocar",
+	"apiTokens.revoked.title": "Token de API revocado",
+	"apiTokens.revoked.description":
+		'Las peticiones hechas con "{name}" dejarán de funcionar.',
+
+	"webhooks.description":
+		"Los webhooks envían un JSON firmado a tu URL cuando cambian tus notas o tu perfil, para que tus herramientas no tengan que estar preguntando. Las entregas fallidas se reintentan durante unos minutos, y un webhook que sigue fallando se desactiva.",
+	"webhooks.empty": "Todavía no tienes webhooks.",
+	"webhooks.limitReached":
+		"Ya tienes todos los webhooks que puedes. Elimina uno para añadir otro.",
+	"webhooks.tooMany": "Puedes tener hasta {count} webhooks",
+	"webhooks.off": "Desactivado",
+	"webhooks.lastDelivery": "Última entrega el {date}: {status}",
+	"webhooks.lastDeliveryWithResponse":
+		"Última entrega el {date}: {status} ({response})",
+	"webhooks.nothingDelivered": "Creado el {date}, todavía sin entregas",
+	"webhooks.details": "Detalles",
+	"webhooks.status.pending": "pendiente",
+	"webhooks.status.succeeded": "correcta",
+	"webhooks.status.failed": "fallida",
+	"webhooks.event.noteCreated": "Nota creada",
+	"webhooks.event.noteUpdated": "Nota actualizada",
+	"webhooks.event.noteDeleted": "Nota eliminada",
+	"webhooks.event.profileUpdated": "Perfil actualizado",
+	"webhooks.event.test": "Evento de prueba",
+	"webhooks.add.heading": "Añadir un webhook",
+	"webhooks.add.url": "URL de destino",
+	"webhooks.add.events": "Eventos",
+	"webhooks.add.seeDocs":
+		"Consulta lo que se envía en la {docs}, los datos de las notas usan el mismo formato.",
+	"webhooks.add.apiDocs": "documentación de la API",
+	"webhooks.add.submit": "Añadir webhook",
+	"webhooks.created.title": "Webhook creado",
+	"webhooks.created.description":
+		"Usa su secreto de firma para comprobar los datos que recibes.",
+
+	"webhook.breadcrumb": "Webhook",
+	"webhook.all": "Todos los webhooks",
+	"webhook.turnedOff": "Desactivaste este webhook.",
+	"webhook.offNotice":
+		"No se envían eventos hasta que se vuelva a activar, pero puedes enviar un evento de prueba para comprobar tu servidor.",
+	"webhook.recentDeliveries": "Entregas recientes",
+	"webhook.failing": {
+		one: "La última entrega falló. Después de {max} seguidas el webhook se desactiva.",
+		other:
+			"Las últimas {count} entregas fallaron. Después de {max} seguidas el webhook se desactiva.",
+	},
+	"webhook.secret.heading": "Secreto de firma",
+	"webhook.secret.hide": "Ocultar",
+	"webhook.secret.reveal": "Mostrar",
+	"webhook.secret.instructions":
+		"Cada petición tiene una cabecera {header} como {example}. Calcula el HMAC-SHA256 de la marca de tiempo, un punto y el cuerpo sin procesar de la petición con este secreto, y acepta la petición solo si coincide con {v1} y la marca de tiempo es reciente. El {id} de los datos se mantiene cuando se reintenta una entrega.",
+	"webhook.sendTest": "Enviar evento de prueba",
+	"webhook.turnOff": "Desactivar",
+	"webhook.turnOn": "Activar",
+	"webhook.noDeliveries":
+		"Todavía no se ha enviado nada. Envía un evento de prueba para probar tu servidor.",
+	"webhook.column.event": "Evento",
+	"webhook.column.status": "Estado",
+	"webhook.column.response": "Respuesta",
+	"webhook.column.when": "Cuándo",
+	"webhook.retrying": "reintentando",
+	"webhook.attempts": { one: "{count} intento", other: "{count} intentos" },
+	"webhook.duration": "en {duration} ms",
+	"webhook.testSent.title": "Evento de prueba enviado",
+	"webhook.testSent.description":
+		"Aparecerá en el registro de entregas en un momento.",
+	"webhook.deleted.title": "Webhook eliminado",
+	"webhook.deleted.description": "Ya no se enviarán eventos a {url}.",
+
+	"verify.checkEmail.heading": "Revisa tu correo",
+	"verify.checkEmail.description":
+		"Te hemos enviado un código para verificar tu dirección de correo.",
+	"verify.unlockAccount.heading": "Desbloquea tu cuenta",
+	"verify.unlockAccount.description":
+		"Introduce el código que te enviamos por correo para desbloquear tu cuenta.",
+	"verify.twoFactor.heading": "Revisa tu app de 2FA",
+	"verify.twoFactor.description":
+		"Introduce tu código 2FA para verificar tu identidad.",
+	"verify.invalidType": "Tipo de verificación no válido",
+	"verify.code": "Código",
+	"verify.submit": "Enviar",
+	"verify.invalidCode": "Código no válido",
+	"verify.lostAccess": "¿Has perdido el acceso a tu app de 2FA?",
+	"verify.recoveryCode": "Código de recuperación",
+	"verify.useRecoveryCode": "Usar un código de recuperación",
+	"verify.invalidRecoveryCode": "Código de recuperación no válido",
+	"verify.invalidSession.title": "Sesión no válida",
+	"verify.invalidSession.description":
+		"No se encontró la sesión que verificar. Inténtalo de nuevo.",
+	"verify.reverify.title": "Vuelve a verificar",
+	"verify.reverify.description":
+		"Vuelve a verificar tu cuenta antes de continuar",
+	"verify.passkey": "Usar una llave de acceso",
+	"login.passkey": "Iniciar sesión con una llave de acceso",
+	"lockout.wait": "Demasiados intentos fallidos. Inténtalo de nuevo en {wait}.",
+	"lockout.locked":
+		"Demasiados intentos fallidos, así que tu cuenta está bloqueada durante {wait}. Te hemos enviado por correo un enlace para desbloquearla.",
+	"lockout.seconds": { one: "{count} segundo", other: "{count} segundos" },
+	"lockout.minutes": { one: "{count} minuto", other: "{count} minutos" },
+
+	"verify.unlocked.title": "Cuenta desbloqueada",
+	"verify.unlocked.description": "Ya puedes volver a iniciar sesión.",
+};
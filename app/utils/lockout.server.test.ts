@@ -0,0 +1,118 @@
+import { faker } from "@faker-js/faker";
+import { expect, test, vi } from "vitest";
+import { createI18n } from "./i18n.ts";
+import {
+	formatRetryAfter,
+	getLockoutMessage,
+	getRetryAt,
+	getUnknownUserLockoutStatus,
+	recordUnknownUserFailedAttempt,
+} from "./lockout.server.ts";
+
+const config = { threshold: 5, duration: 15 * 60 * 1000, backoff: 1000 };
+const now = new Date("2026-01-01T00:00:00Z");
+const secondsAgo = (seconds: number) =>
+	new Date(now.getTime() - seconds * 1000);
+
+test("there is no wait before any failures", () => {
+	expect(getRetryAt(null, config, now)).toBeNull();
+});
+
+test("the wait doubles after each failure past the first couple", () => {
+	const lastFailedAt = now;
+	expect(
+		getRetryAt(
+			{ failedCount: 2, lastFailedAt, lockedUntil: null },
+			config,
+			now,
+		),
+	).toBeNull();
+	expect(
+		getRetryAt(
+			{ failedCount: 3, lastFailedAt, lockedUntil: null },
+			config,
+			now,
+		),
+	).toEqual(new Date(now.getTime() + 1000));
+	expect(
+		getRetryAt(
+			{ failedCount: 5, lastFailedAt, lockedUntil: null },
+			config,
+			now,
+		),
+	).toEqual(new Date(now.getTime() + 4000));
+});
+
+test("once the wait has passed they can try again", () => {
+	expect(
+		getRetryAt(
+			{ failedCount: 3, lastFailedAt: secondsAgo(5), lockedUntil: null },
+			config,
+			now,
+		),
+	).toBeNull();
+});
+
+test("a lock lasts until it expires", () => {
+	const lockedUntil = new Date(now.getTime() + 60_000);
+	expect(
+		getRetryAt({ failedCount: 5, lastFailedAt: now, lockedUntil }, config, now),
+	).toEqual(lockedUntil);
+	expect(
+		getRetryAt(
+			{
+				failedCount: 5,
+				lastFailedAt: secondsAgo(120),
+				lockedUntil: secondsAgo(1),
+			},
+			config,
+			now,
+		),
+	).toBeNull();
+});
+
+test("formats how long to wait", () => {
+	const { t } = createI18n({ locale: "en", timeZone: "UTC" });
+	expect(formatRetryAfter(new Date(now.getTime() + 1000), t, now)).toBe(
+		"1 second",
+	);
+	expect(formatRetryAfter(new Date(now.getTime() + 30_500), t, now)).toBe(
+		"31 seconds",
+	);
+	expect(formatRetryAfter(new Date(now.getTime() + 60_000), t, now)).toBe(
+		"1 minute",
+	);
+	expect(formatRetryAfter(new Date(now.getTime() + 61_000), t, now)).toBe(
+		"2 minutes",
+	);
+});
+
+test("lockout messages are translated", () => {
+	const { t } = createI18n({ locale: "es", timeZone: "UTC" });
+	const inSeconds = (seconds: number) =>
+		new Date(Date.now() + seconds * 1000 - 1);
+	expect(getLockoutMessage({ retryAt: inSeconds(1), locked: false }, t)).toBe(
+		"Demasiados intentos fallidos. Inténtalo de nuevo en 1 segundo.",
+	);
+	expect(
+		getLockoutMessage({ retryAt: inSeconds(15 * 60), locked: true }, t),
+	).toMatch(/bloqueada durante 15 minutos\./);
+});
+
+test("usernames that don't exist are locked out like real ones", () => {
+	vi.stubEnv("LOCKOUT_THRESHOLD", "3");
+	try {
+		const username = faker.internet.userName();
+		expect(getUnknownUserLockoutStatus(username).retryAt).toBeNull();
+		expect(recordUnknownUserFailedAttempt(username).justLocked).toBe(false);
+		expect(recordUnknownUserFailedAttempt(username).justLocked).toBe(false);
+		const { justLocked, retryAt } = recordUnknownUserFailedAttempt(username);
+		expect(justLocked).toBe(true);
+		expect(getUnknownUserLockoutStatus(username.toUpperCase())).toEqual({
+			retryAt,
+			locked: true,
+		});
+	} finally {
+		vi.unstubAllEnvs();
+	}
+});
@@ -0,0 +1,179 @@
+import { remember } from "@epic-web/remember";
+import { LRUCache } from "lru-cache";
+import { prisma } from "./db.server.ts";
+import type { I18n } from "./i18n.ts";
+
+/**
+ * What someone is trying to guess. They're counted separately so someone who
+ * knows the password can't get locked out of it by bad 2FA codes.
+ */
+export type LockoutType = "password" | "2fa";
+
+// a couple of typos shouldn't slow anyone down
+const freeAttempts = 2;
+
+export function getLockoutConfig() {
+	const threshold = Number(process.env.LOCKOUT_THRESHOLD ?? 10);
+	const durationMinutes = Number(process.env.LOCKOUT_DURATION_MINUTES ?? 15);
+	const backoffSeconds = Number(process.env.LOCKOUT_BACKOFF_SECONDS ?? 1);
+	return {
+		threshold,
+		duration: durationMinutes * 60 * 1000,
+		backoff: backoffSeconds * 1000,
+	};
+}
+
+type LockoutRecord = {
+	failedCount: number;
+	lastFailedAt: Date;
+	lockedUntil: Date | null;
+};
+
+/**
+ * Works out when the next attempt is allowed. After the first couple of
+ * failures the wait doubles each time, and once there have been `threshold` failures in a row the account
+ * is locked for `duration`. Returns null when they can try right away.
+ */
+export function getRetryAt(
+	record: LockoutRecord | null,
+	config = getLockoutConfig(),
+	now = new Date(),
+) {
+	if (!record) return null;
+	if (record.lockedUntil) {
+		return record.lockedUntil > now ? record.lockedUntil : null;
+	}
+	if (record.failedCount <= freeAttempts || config.backoff <= 0) return null;
+	const delay = Math.min(
+		config.backoff * 2 ** (record.failedCount - freeAttempts - 1),
+		config.duration,
+	);
+	const retryAt = new Date(record.lastFailedAt.getTime() + delay);
+	return retryAt > now ? retryAt : null;
+}
+
+export async function getLockoutStatus({
+	userId,
+	type,
+}: {
+	userId: string;
+	type: LockoutType;
+}) {
+	const record = await prisma.accountLockout.findUnique({
+		select: { failedCount: true, lastFailedAt: true, lockedUntil: true },
+		where: { userId_type: { userId, type } },
+	});
+	const retryAt = getRetryAt(record);
+	return {
+		retryAt,
+		locked: Boolean(retryAt && record?.lockedUntil),
+	};
+}
+
+/**
+ * Counts a failed attempt. `justLocked` is true when this attempt is the one
+ * that locked the account, which is when we email the user.
+ */
+export async function recordFailedAttempt({
+	userId,
+	type,
+}: {
+	userId: string;
+	type: LockoutType;
+}) {
+	const existing = await prisma.accountLockout.findUnique({
+		select: { failedCount: true, lockedUntil: true },
+		where: { userId_type: { userId, type } },
+	});
+	const { data, justLocked, retryAt } = countFailedAttempt(existing);
+	await prisma.accountLockout.upsert({
+		select: { id: true },
+		where: { userId_type: { userId, type } },
+		create: { userId, type, ...data },
+		update: data,
+	});
+	return { justLocked, retryAt };
+}
+
+function countFailedAttempt(
+	existing: Pick<LockoutRecord, "failedCount" | "lockedUntil"> | null,
+) {
+	const config = getLockoutConfig();
+	const now = new Date();
+	// once a lock has expired they get a fresh set of attempts
+	const failedCount =
+		existing?.lockedUntil && existing.lockedUntil <= now
+			? 1
+			: (existing?.failedCount ?? 0) + 1;
+	const justLocked = config.threshold > 0 && failedCount >= config.threshold;
+	const lockedUntil = justLocked
+		? new Date(now.getTime() + config.duration)
+		: null;
+	const data = { failedCount, lastFailedAt: now, lockedUntil };
+	return { data, justLocked, retryAt: getRetryAt(data, config, now) };
+}
+
+// usernames that don't exist have no account to store attempts on, but they
+// need to be slowed down and locked the same way or the answers would tell
+// which usernames are real. Keeping them in memory is good enough for that.
+const unknownUserLockouts = remember(
+	"unknown-user-lockouts",
+	() =>
+		new LRUCache<string, LockoutRecord>({
+			max: 10_000,
+			ttl: 1000 * 60 * 60 * 24,
+		}),
+);
+
+export function getUnknownUserLockoutStatus(username: string) {
+	const record = unknownUserLockouts.get(username.toLowerCase()) ?? null;
+	const retryAt = getRetryAt(record);
+	return {
+		retryAt,
+		locked: Boolean(retryAt && record?.lockedUntil),
+	};
+}
+
+export function recordUnknownUserFailedAttempt(username: string) {
+	const key = username.toLowerCase();
+	const { data, justLocked, retryAt } = countFailedAttempt(
+		unknownUserLockouts.get(key) ?? null,
+	);
+	unknownUserLockouts.set(key, data);
+	return { justLocked, retryAt };
+}
+
+/**
+ * Forgets failed attempts after a successful one, or all of them when the
+ * account is unlocked or its password is reset.
+ */
+export async function clearFailedAttempts({
+	userId,
+	type,
+}: {
+	userId: string;
+	type?: LockoutType;
+}) {
+	await prisma.accountLockout.deleteMany({ where: { userId, type } });
+}
+
+export function formatRetryAfter(
+	retryAt: Date,
+	t: I18n["t"],
+	now = new Date(),
+) {
+	const seconds = Math.max(
+		1,
+		Math.ceil((retryAt.getTime() - now.getTime()) / 1000),
+	);
+	if (seconds < 60) return t("lockout.seconds", { count: seconds });
+	return t("lockout.minutes", { count: Math.ceil(seconds / 60) });
+}
+
+export function getLockoutMessage(
+	{ retryAt, locked }: { retryAt: Date; locked: boolean },
+	t: I18n["t"],
+) {
+	const wait = formatRetryAfter(retryAt, t);
+	return locked ? t("lockout.locked", { wait }) : t("lockout.wait", { wait });
+}
@@ -0,0 +1,192 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { beforeEach, expect, test, vi } from "vitest";
+import { createUser } from "#tests/db-utils.ts";
+import { prisma } from "./db.server.ts";
+import { getInstanceInfo } from "./litefs.server.ts";
+import { runMaintenance } from "./maintenance.server.ts";
+import { getStorageDir } from "./storage-drivers/fs.server.ts";
+import { getStorage } from "./storage.server.ts";
+
+vi.mock("./litefs.server.ts", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./litefs.server.ts")>()),
+	getInstanceInfo: vi.fn(async () => ({
+		primaryInstance: "primary",
+		currentInstance: "primary",
+		currentIsPrimary: true,
+	})),
+}));
+
+// other test files in this worker may have left files behind
+beforeEach(async () => {
+	await fs.rm(getStorageDir(), { recursive: true, force: true });
+});
+
+const hour = 1000 * 60 * 60;
+const day = hour * 24;
+const ago = (ms: number) => new Date(Date.now() - ms);
+const fromNow = (ms: number) => new Date(Date.now() + ms);
+
+function createVerification(target: string, expiresAt: Date) {
+	return prisma.verification.create({
+		select: { id: true },
+		data: {
+			type: "onboarding",
+			target,
+			secret: "secret",
+			algorithm: "SHA-256",
+			digits: 6,
+			period: 600,
+			charSet: "0123456789",
+			expiresAt,
+		},
+	});
+}
+
+async function storeFile(key: string, lastModified: Date) {
+	await getStorage().put(key, new TextEncoder().encode(key), {
+		contentType: "text/plain",
+	});
+	const filePath = path.join(getStorageDir(), key);
+	await fs.utimes(filePath, lastModified, lastModified);
+}
+
+async function listKeys(prefix: string) {
+	return (await getStorage().list(prefix)).map(({ key }) => key).sort();
+}
+
+test("only expired sessions and verifications are removed", async () => {
+	const user = await prisma.user.create({
+		select: { id: true },
+		data: {
+			...createUser(),
+			sessions: {
+				create: [
+					{ expirationDate: ago(day) },
+					{ expirationDate: fromNow(day) },
+				],
+			},
+		},
+	});
+	await createVerification("expired@example.com", ago(hour));
+	const current = await createVerification(
+		"current@example.com",
+		fromNow(hour),
+	);
+
+	const run = await runMaintenance({ trigger: "manual" });
+	expect(run).toMatchObject({ sessions: 1, verifications: 1 });
+	const sessions = await prisma.session.findMany({
+		select: { expirationDate: true },
+		where: { userId: user.id },
+	});
+	expect(sessions).toHaveLength(1);
+	expect(sessions[0]?.expirationDate.getTime()).toBeGreaterThan(Date.now());
+	expect(await prisma.verification.findMany({ select: { id: true } })).toEqual([
+		current,
+	]);
+});
+
+test("stored files are kept while they're referenced or new", async () => {
+	const note = await prisma.note.create({
+		select: { id: true },
+		data: {
+			title: "Koalas",
+			content: "Sleepy",
+			owner: { create: createUser() },
+		},
+	});
+	await prisma.noteImage.create({
+		select: { id: true },
+		data: {
+			noteId: note.id,
+			contentType: "text/plain",
+			objectKey: "note-images/referenced",
+		},
+	});
+	await storeFile("note-images/referenced", ago(day));
+	await storeFile("note-images/orphaned", ago(day));
+	// uploaded but its record isn't saved yet
+	await storeFile("note-images/uploading", ago(hour / 2));
+	await storeFile("user-images/orphaned", ago(day));
+
+	const run = await runMaintenance({ trigger: "manual" });
+	expect(run?.images).toBe(2);
+	expect(await listKeys("note-images/")).toEqual([
+		"note-images/referenced",
+		"note-images/uploading",
+	]);
+	expect(await listKeys("user-images/")).toEqual([]);
+});
+
+test("replicas don't do anything", async () => {
+	vi.mocked(getInstanceInfo).mockResolvedValueOnce({
+		primaryInstance: "primary",
+		currentInstance: "replica",
+		currentIsPrimary: false,
+	});
+	await prisma.user.create({
+		select: { id: true },
+		data: {
+			...createUser(),
+			sessions: { create: { expirationDate: ago(day) } },
+		},
+	});
+	await createVerification("expired@example.com", ago(hour));
+	await storeFile("note-images/orphaned", ago(day));
+
+	expect(await runMaintenance({ trigger: "scheduled" })).toBeNull();
+	expect(await prisma.session.count()).toBe(1);
+	expect(await prisma.verification.count()).toBe(1);
+	expect(await listKeys("note-images/")).toEqual(["note-images/orphaned"]);
+	expect(await prisma.maintenanceRun.count()).toBe(0);
+});
+
+test("each run is recorded with what it removed", async () => {
+	await prisma.user.create({
+		select: { id: true },
+		data: {
+			...createUser(),
+			sessions: {
+				create: [{ expirationDate: ago(day) }, { expirationDate: ago(hour) }],
+			},
+		},
+	});
+	await createVerification("expired@example.com", ago(hour));
+	await storeFile("user-images/orphaned", ago(day));
+	for (const [status, updatedAt] of [
+		["completed", ago(day * 31)],
+		["failed", ago(day * 31)],
+		["cancelled", ago(day * 31)],
+		// still shown on the admin page
+		["completed", ago(day)],
+		["failed", ago(day)],
+		// not finished, however old
+		["pending", ago(day * 31)],
+	] as const) {
+		await prisma.job.create({
+			select: { id: true },
+			data: { type: "maintenance", status, updatedAt },
+		});
+	}
+
+	const run = await runMaintenance({ trigger: "scheduled" });
+	const expected = {
+		trigger: "scheduled",
+		sessions: 2,
+		verifications: 1,
+		images: 1,
+		jobs: 3,
+		dataExports: 0,
+		webhookDeliveries: 0,
+	};
+	expect(run).toMatchObject(expected);
+	expect(await prisma.maintenanceRun.findMany()).toEqual([
+		expect.objectContaining(expected),
+	]);
+	expect(
+		(await prisma.job.findMany({ select: { status: true } }))
+			.map(({ status }) => status)
+			.sort(),
+	).toEqual(["completed", "failed", "pending"]);
+});
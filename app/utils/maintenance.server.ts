@@ -0,0 +1,140 @@
+import { prisma } from "./db.server.ts";
+import { getInstanceInfo } from "./litefs.server.ts";
+import { getStorage, imageKinds, type ImageKind } from "./storage.server.ts";
+
+// finished jobs are kept around for a while so they show up on the admin page,
+// failed ones too so there's time to look into them and retry them from there
+const FINISHED_JOB_RETENTION = 1000 * 60 * 60 * 24 * 30;
+// the delivery log only needs to cover what someone might still be debugging
+const WEBHOOK_DELIVERY_RETENTION = 1000 * 60 * 60 * 24 * 14;
+// files are stored before their record is saved, so give uploads in progress
+// time to finish before we call them orphaned
+const UNREFERENCED_FILE_GRACE_PERIOD = 1000 * 60 * 60;
+
+export type MaintenanceTrigger = "scheduled" | "manual";
+
+/**
+ * Deletes rows we only ever filter out at read time: expired sessions and
+ * verifications, images whose note or user is gone (and stored files no image
+ * points to), old finished and failed jobs, data exports that can't be downloaded
+ * anymore and old webhook deliveries. Records how many of each it removed.
+ * Does nothing (and returns null) unless this is the LiteFS primary, because
+ * replicas can't write.
+ */
+export async function runMaintenance({
+	trigger,
+}: {
+	trigger: MaintenanceTrigger;
+}) {
+	const { currentIsPrimary } = await getInstanceInfo();
+	if (!currentIsPrimary) return null;
+
+	const now = new Date();
+	const sessions = await prisma.session.deleteMany({
+		where: { expirationDate: { lt: now } },
+	});
+	const verifications = await prisma.verification.deleteMany({
+		where: { expiresAt: { lt: now } },
+	});
+	// the foreign keys cascade, but rows written while they were off (e.g. from
+	// the sqlite3 CLI) can still be left behind
+	const noteImages = await prisma.$executeRaw`
+		DELETE FROM "NoteImage" WHERE "noteId" NOT IN (SELECT "id" FROM "Note")
+	`;
+	const userImages = await prisma.$executeRaw`
+		DELETE FROM "UserImage" WHERE "userId" NOT IN (SELECT "id" FROM "User")
+	`;
+	let files = 0;
+	for (const kind of imageKinds) {
+		files += await deleteUnreferencedFiles(kind, now);
+	}
+	const jobs = await prisma.job.deleteMany({
+		where: {
+			status: { in: ["completed", "failed", "cancelled"] },
+			updatedAt: { lt: new Date(now.getTime() - FINISHED_JOB_RETENTION) },
+		},
+	});
+	const dataExports = await deleteFinishedDataExports(now);
+	const dataExportFiles = await deleteUnreferencedFiles("data-exports", now);
+	const webhookDeliveries = await prisma.webhookDelivery.deleteMany({
+		where: {
+			status: { not: "pending" },
+			createdAt: { lt: new Date(now.getTime() - WEBHOOK_DELIVERY_RETENTION) },
+		},
+	});
+
+	return prisma.maintenanceRun.create({
+		data: {
+			trigger,
+			sessions: sessions.count,
+			verifications: verifications.count,
+			images: noteImages + userImages + files,
+			jobs: jobs.count,
+			dataExports: dataExports + dataExportFiles,
+			webhookDeliveries: webhookDeliveries.count,
+		},
+	});
+}
+
+/**
+ * Removes exports whose download link has expired along with their archives,
+ * and ones that failed long enough ago that nobody's looking at them.
+ */
+async function deleteFinishedDataExports(now: Date) {
+	const where = {
+		OR: [
+			{ expiresAt: { lt: now } },
+			{
+				status: "failed",
+				createdAt: { lt: new Date(now.getTime() - FINISHED_JOB_RETENTION) },
+			},
+		],
+	};
+	const dataExports = await prisma.dataExport.findMany({
+		select: { objectKey: true },
+		where,
+	});
+	const storage = getStorage();
+	for (const { objectKey } of dataExports) {
+		if (objectKey) await storage.delete(objectKey);
+	}
+	const { count } = await prisma.dataExport.deleteMany({ where });
+	return count;
+}
+
+/**
+ * Removes stored files that no record points to anymore, like the old file
+ * when an image is replaced, the files of a deleted note or the export of a
+ * deleted user.
+ */
+async function deleteUnreferencedFiles(
+	prefix: ImageKind | "data-exports",
+	now: Date,
+) {
+	const storage = getStorage();
+	const cutoff = now.getTime() - UNREFERENCED_FILE_GRACE_PERIOD;
+	const candidates = (await storage.list(`${prefix}/`))
+		.filter(({ lastModified }) => lastModified.getTime() < cutoff)
+		.map(({ key }) => key);
+	let count = 0;
+	// keep the IN lists well under SQLite's variable limit
+	for (let index = 0; index < candidates.length; index += 500) {
+		const keys = candidates.slice(index, index + 500);
+		const where = { objectKey: { in: keys } };
+		const select = { objectKey: true };
+		const referenced = new Set(
+			(prefix === "note-images"
+				? await prisma.noteImage.findMany({ select, where })
+				: prefix === "user-images"
+					? await prisma.userImage.findMany({ select, where })
+					: await prisma.dataExport.findMany({ select, where })
+			).map(({ objectKey }) => objectKey),
+		);
+		for (const key of keys) {
+			if (referenced.has(key)) continue;
+			await storage.delete(key);
+			count++;
+		}
+	}
+	return count;
+}
@@ -0,0 +1,38 @@
+import { expect, test } from "vitest";
+import { renderMarkdown } from "./markdown.server.ts";
+
+test("renders GFM tables and task lists", async () => {
+	const html = await renderMarkdown(
+		"| a | b |\n| - | - |\n| 1 | 2 |\n\n- [x] done\n- [ ] todo",
+	);
+	expect(html).toContain("<table>");
+	expect(html).toContain("<td>1</td>");
+	expect(html).toContain('<input type="checkbox" checked disabled>');
+	expect(html).toContain('<input type="checkbox" disabled>');
+});
+
+test("highlights fenced code with a language", async () => {
+	const html = await renderMarkdown("```js\nconst a = 1\n```");
+	expect(html).toContain('class="hljs language-js"');
+	expect(html).toContain('<span class="hljs-keyword">const</span>');
+});
+
+test("escapes raw html and drops dangerous links", async () => {
+	const html = await renderMarkdown(
+		'<script>alert(1)</script>\n\n<img src=x onerror="alert(1)">\n\n[click](javascript:alert(1))',
+	);
+	expect(html).not.toContain("<script");
+	expect(html).not.toContain("onerror");
+	expect(html).not.toContain("javascript:");
+});
+
+test("only the note's own images can be referenced", async () => {
+	const html = await renderMarkdown(
+		"![koala](note-image:abc)\n\n![other](note-image:xyz)\n\n![remote](https://example.com/a.png)",
+		{ imageIds: ["abc"] },
+	);
+	expect(html).toContain('src="/resources/note-images/abc"');
+	expect(html).toContain('alt="koala"');
+	expect(html).not.toContain("xyz");
+	expect(html).not.toContain("example.com");
+});
@@ -0,0 +1,95 @@
+import type { Element, Root } from "hast";
+import rehypeHighlight from "rehype-highlight";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import rehypeStringify from "rehype-stringify";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import remarkRehype from "remark-rehype";
+import { unified } from "unified";
+import { SKIP, visit } from "unist-util-visit";
+import { cachified, lruCache } from "./cache.server.ts";
+import { getNoteImgSrc } from "./misc.tsx";
+import type { Timings } from "./timing.server.ts";
+
+export const noteImageProtocol = "note-image:";
+
+/**
+ * Points `![alt](note-image:ID)` images at the note image resource route. Only
+ * the note's own images can be referenced, and anything that isn't one of them
+ * (including external images, which the CSP wouldn't load anyway) is dropped.
+ */
+function rehypeNoteImages({ imageIds }: { imageIds: Array<string> }) {
+	return (tree: Root) => {
+		visit(tree, "element", (node: Element, index, parent) => {
+			if (node.tagName !== "img" || !parent || index === undefined) return;
+			const src = String(node.properties.src ?? "");
+			const imageId = src.startsWith(noteImageProtocol)
+				? src.slice(noteImageProtocol.length)
+				: null;
+			if (imageId && imageIds.includes(imageId)) {
+				node.properties.src = getNoteImgSrc(imageId);
+				node.properties.loading = "lazy";
+				return;
+			}
+			parent.children.splice(index, 1);
+			return [SKIP, index];
+		});
+	};
+}
+
+// GitHub's schema with note-image: allowed as an image source so our plugin
+// gets to see it (it runs after sanitizing and rewrites or removes them).
+const sanitizeSchema = {
+	...defaultSchema,
+	protocols: {
+		...defaultSchema.protocols,
+		src: [
+			...(defaultSchema.protocols?.src ?? []),
+			noteImageProtocol.slice(0, -1),
+		],
+	},
+};
+
+/**
+ * Renders CommonMark + GFM to HTML that's safe to put in the page. Raw HTML in
+ * the markdown is escaped and the output is sanitized, so there are never any
+ * scripts, event handlers or inline styles (which the CSP wouldn't allow).
+ * Syntax highlighting runs after sanitizing and only adds `hljs-*` classes.
+ */
+export async function renderMarkdown(
+	markdown: string,
+	{ imageIds = [] }: { imageIds?: Array<string> } = {},
+) {
+	const file = await unified()
+		.use(remarkParse)
+		.use(remarkGfm)
+		.use(remarkRehype)
+		.use(rehypeSanitize, sanitizeSchema)
+		.use(rehypeNoteImages, { imageIds })
+		.use(rehypeHighlight, { detect: false })
+		.use(rehypeStringify)
+		.process(markdown);
+	return String(file);
+}
+
+export async function getNoteContentHtml(
+	note: {
+		id: string;
+		content: string;
+		updatedAt: Date;
+		images: Array<{ id: string }>;
+	},
+	{ timings }: { timings?: Timings } = {},
+) {
+	const imageIds = note.images.map((image) => image.id);
+	return cachified({
+		// images can be added or removed without the content changing
+		key: `note-html:${note.id}:${note.updatedAt.getTime()}:${imageIds.join(
+			",",
+		)}`,
+		cache: lruCache,
+		timings,
+		ttl: 1000 * 60 * 60 * 24,
+		getFreshValue: () => renderMarkdown(note.content, { imageIds }),
+	});
+}
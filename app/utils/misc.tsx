@@ -3,14 +3,43 @@ import { clsx, type ClassValue } from "clsx";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useSpinDelay } from "spin-delay";
 import { extendedTheme } from "./extended-theme.ts";
+import {
+	getImageSrcSet,
+	getImageTransformSearch,
+	type ImageTransform,
+} from "./image-transform.ts";
 import { extendTailwindMerge, twMerge } from "tailwind-merge";
 
-export function getUserImgSrc(imageId?: string | null) {
-	return imageId ? `/resources/user-images/${imageId}` : "/img/user.png";
+export function getUserImgSrc(
+	imageId?: string | null,
+	transform?: ImageTransform,
+) {
+	return imageId
+		? `/resources/user-images/${imageId}${getImageTransformSearch(transform)}`
+		: "/img/user.png";
+}
+
+/**
+ * Sizes for a user's image shown `size` CSS pixels wide. Undefined when they
+ * don't have one, the placeholder is already small.
+ */
+export function getUserImgSrcSet(
+	imageId: string | null | undefined,
+	size: number,
+) {
+	return imageId
+		? getImageSrcSet((transform) => getUserImgSrc(imageId, transform), size)
+		: undefined;
+}
+
+export function getNoteImgSrc(imageId: string, transform?: ImageTransform) {
+	return `/resources/note-images/${imageId}${getImageTransformSearch(
+		transform,
+	)}`;
 }
 
-export function getNoteImgSrc(imageId: string) {
-	return `/resources/note-images/${imageId}`;
+export function getNoteImgSrcSet(imageId: string, size: number) {
+	return getImageSrcSet((transform) => getNoteImgSrc(imageId, transform), size);
 }
 
 export function getErrorMessage(error: unknown) {
@@ -0,0 +1,9 @@
+import { z } from "zod";
+import { TagNameSchema } from "./tag-validation.ts";
+
+export const MAX_NOTE_IMAGES = 5;
+export const MAX_NOTE_TAGS = 10;
+
+export const NoteTitleSchema = z.string().min(1).max(100);
+export const NoteContentSchema = z.string().min(1).max(10000);
+export const NoteTagsSchema = z.array(TagNameSchema).max(MAX_NOTE_TAGS);
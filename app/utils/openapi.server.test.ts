@@ -0,0 +1,70 @@
+import { expect, test } from "vitest";
+import { getOpenApiDocument } from "./openapi.server.ts";
+
+const document = getOpenApiDocument({ serverUrl: "https://example.com" });
+
+function findRefs(value: unknown): Array<string> {
+	if (Array.isArray(value)) return value.flatMap(findRefs);
+	if (!value || typeof value !== "object") return [];
+	return Object.entries(value).flatMap(([key, child]) =>
+		key === "$ref" && typeof child === "string" ? [child] : findRefs(child),
+	);
+}
+
+test("every $ref points at a schema in the document", () => {
+	const refs = new Set(findRefs(document));
+	expect(refs.size).toBeGreaterThan(0);
+	for (const ref of refs) {
+		const name = ref.replace("#/components/schemas/", "");
+		expect(document.components.schemas).toHaveProperty(name);
+	}
+});
+
+test("query parameters come from the pagination schema", () => {
+	expect(document.paths["/api/v1/notes"]?.get?.parameters).toEqual([
+		expect.objectContaining({
+			name: "limit",
+			in: "query",
+			required: false,
+			schema: expect.objectContaining({ type: "integer", maximum: 100 }),
+		}),
+		expect.objectContaining({ name: "cursor", in: "query", required: false }),
+	]);
+	expect(document.paths["/api/v1/notes/{noteId}"]?.get?.parameters).toEqual([
+		{ name: "noteId", in: "path", required: true, schema: { type: "string" } },
+	]);
+});
+
+test("request bodies describe what can be sent", () => {
+	const createSchema =
+		document.paths["/api/v1/notes"]?.post?.requestBody?.content[
+			"application/json"
+		]?.schema;
+	// tags have a default, so they can be left out
+	expect(createSchema?.required).toEqual(["title", "content"]);
+
+	const uploadSchema =
+		document.paths["/api/v1/notes/{noteId}/images"]?.post?.requestBody?.content[
+			"multipart/form-data"
+		]?.schema;
+	expect(uploadSchema?.properties).toMatchObject({
+		file: { type: "string", contentMediaType: "application/octet-stream" },
+		altText: { type: "string" },
+	});
+});
+
+test("every operation documents its errors with the shared schema", () => {
+	for (const methods of Object.values(document.paths)) {
+		for (const operation of Object.values(methods)) {
+			const errors = Object.entries(operation.responses).filter(
+				([status]) => Number(status) >= 400,
+			);
+			expect(errors.map(([status]) => status)).toContain("401");
+			for (const [, response] of errors) {
+				expect(response.content?.["application/json"]?.schema).toEqual({
+					$ref: "#/components/schemas/Error",
+				});
+			}
+		}
+	}
+});
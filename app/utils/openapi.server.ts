@@ -0,0 +1,341 @@
+import type { z } from "zod";
+import { type JsonSchema7Type, zodToJsonSchema } from "zod-to-json-schema";
+import {
+	ApiCreateNoteSchema,
+	ApiErrorSchema,
+	ApiNoteImageListSchema,
+	ApiNoteImageResponseSchema,
+	ApiNoteImageSchema,
+	ApiNoteImageUploadSchema,
+	ApiNoteListSchema,
+	ApiNoteResponseSchema,
+	ApiNoteSchema,
+	ApiPaginationSchema,
+	ApiUpdateNoteSchema,
+} from "./api.ts";
+import type { Action } from "./user.ts";
+
+export type ApiMethod = "get" | "post" | "patch" | "delete";
+
+type ApiOperation = {
+	method: ApiMethod;
+	/** with path parameters in braces, the way OpenAPI writes them */
+	path: string;
+	operationId: string;
+	summary: string;
+	description?: string;
+	/** what the token has to be allowed to do with notes */
+	permission: Action;
+	query?: z.AnyZodObject;
+	requestBody?: {
+		contentType: "application/json" | "multipart/form-data";
+		schema: z.ZodTypeAny;
+		/** multipart fields that are files, which JSON Schema can't infer */
+		files?: Array<string>;
+	};
+	/** the success response, errors are listed by status in `errors` */
+	response: { status: number; description: string; schema?: z.ZodTypeAny };
+	errors: Array<keyof typeof errorDescriptions>;
+};
+
+const errorDescriptions = {
+	400: "The request is invalid",
+	401: "The API token is missing, invalid or has expired",
+	403: "The token or its user isn't allowed to do this",
+	404: "The note doesn't exist or the token can't read it",
+	413: "The upload is too large",
+	429: "The token has made too many requests, see Retry-After",
+};
+
+// schemas that are used in several places are listed once under components.
+// zod-to-json-schema refers to where it first saw a schema, so anything a
+// component is made of has to come before it
+const componentSchemas: Record<string, z.ZodTypeAny> = {
+	NoteImage: ApiNoteImageSchema,
+	Note: ApiNoteSchema,
+	Error: ApiErrorSchema,
+};
+
+export const apiOperations: Array<ApiOperation> = [
+	{
+		method: "get",
+		path: "/api/v1/notes",
+		operationId: "listNotes",
+		summary: "List notes",
+		description:
+			"The notes the token can read, most recently updated first, including notes shared with the user.",
+		permission: "read",
+		query: ApiPaginationSchema,
+		response: {
+			status: 200,
+			description: "A page of notes",
+			schema: ApiNoteListSchema,
+		},
+		errors: [400, 401, 429],
+	},
+	{
+		method: "post",
+		path: "/api/v1/notes",
+		operationId: "createNote",
+		summary: "Create a note",
+		permission: "create",
+		requestBody: {
+			contentType: "application/json",
+			schema: ApiCreateNoteSchema,
+		},
+		response: {
+			status: 201,
+			description: "The note that was created",
+			schema: ApiNoteResponseSchema,
+		},
+		errors: [400, 401, 403, 429],
+	},
+	{
+		method: "get",
+		path: "/api/v1/notes/{noteId}",
+		operationId: "getNote",
+		summary: "Get a note",
+		permission: "read",
+		response: {
+			status: 200,
+			description: "The note",
+			schema: ApiNoteResponseSchema,
+		},
+		errors: [401, 404, 429],
+	},
+	{
+		method: "patch",
+		path: "/api/v1/notes/{noteId}",
+		operationId: "updateNote",
+		summary: "Update a note",
+		description:
+			"Changes to the title or content are added to the note's history like edits in the app.",
+		permission: "update",
+		requestBody: {
+			contentType: "application/json",
+			schema: ApiUpdateNoteSchema,
+		},
+		response: {
+			status: 200,
+			description: "The updated note",
+			schema: ApiNoteResponseSchema,
+		},
+		errors: [400, 401, 403, 404, 429],
+	},
+	{
+		method: "delete",
+		path: "/api/v1/notes/{noteId}",
+		operationId: "deleteNote",
+		summary: "Delete a note",
+		permission: "delete",
+		response: { status: 204, description: "The note was deleted" },
+		errors: [401, 403, 404, 429],
+	},
+	{
+		method: "get",
+		path: "/api/v1/notes/{noteId}/images",
+		operationId: "listNoteImages",
+		summary: "List a note's images",
+		permission: "read",
+		response: {
+			status: 200,
+			description: "The note's images",
+			schema: ApiNoteImageListSchema,
+		},
+		errors: [401, 404, 429],
+	},
+	{
+		method: "post",
+		path: "/api/v1/notes/{noteId}/images",
+		operationId: "uploadNoteImage",
+		summary: "Add an image to a note",
+		description:
+			"JPEG, PNG, WebP, AVIF or GIF. Metadata is removed and large images are scaled down, like uploads in the app.",
+		permission: "update",
+		requestBody: {
+			contentType: "multipart/form-data",
+			schema: ApiNoteImageUploadSchema,
+			files: ["file"],
+		},
+		response: {
+			status: 201,
+			description: "The image that was added",
+			schema: ApiNoteImageResponseSchema,
+		},
+		errors: [400, 401, 403, 404, 413, 429],
+	},
+];
+
+export function getApiOperation(method: ApiMethod, path: string) {
+	return apiOperations.find(
+		(operation) => operation.method === method && operation.path === path,
+	);
+}
+
+// loose on purpose: JSON Schema's own types are too deep to serialize for the
+// docs page, which only prints them
+type JsonSchema = Record<string, unknown>;
+
+type OpenApiParameter = {
+	name: string;
+	in: "path" | "query";
+	required: boolean;
+	description?: string;
+	schema: JsonSchema;
+};
+
+type OpenApiOperation = {
+	operationId: string;
+	summary: string;
+	description: string;
+	tags: Array<string>;
+	parameters: Array<OpenApiParameter>;
+	requestBody?: {
+		required: boolean;
+		content: Record<string, { schema: JsonSchema }>;
+	};
+	responses: Record<
+		string,
+		{ description: string; content?: Record<string, { schema: JsonSchema }> }
+	>;
+};
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+	const components = Object.entries(componentSchemas);
+	const index = components.findIndex(([, component]) => component === schema);
+	const { $schema, schemas, ...jsonSchema } = zodToJsonSchema(schema, {
+		target: "jsonSchema7",
+		basePath: ["#", "components"],
+		definitionPath: "schemas",
+		// a component can only refer to the ones before it
+		definitions: Object.fromEntries(
+			index === -1 ? components : components.slice(0, index),
+		),
+		removeAdditionalStrategy: "strict",
+		// requests are described by what can be sent, before defaults and coercion
+		effectStrategy: "input",
+		pipeStrategy: "input",
+	}) as JsonSchema7Type & { $schema?: string; schemas?: unknown };
+	return jsonSchema;
+}
+
+function getProperties(schema: JsonSchema) {
+	return (schema.properties ?? {}) as Record<string, JsonSchema>;
+}
+
+function getParameters(operation: ApiOperation): Array<OpenApiParameter> {
+	const pathParameters = [...operation.path.matchAll(/\{(\w+)\}/g)].map(
+		([, name = ""]) => ({
+			name,
+			in: "path" as const,
+			required: true,
+			schema: { type: "string" },
+		}),
+	);
+	const querySchema = operation.query ? toJsonSchema(operation.query) : {};
+	const required = (querySchema.required ?? []) as Array<string>;
+	const queryParameters = Object.entries(getProperties(querySchema)).map(
+		([name, { description, ...schema }]) => ({
+			name,
+			in: "query" as const,
+			required: required.includes(name),
+			description: description as string | undefined,
+			schema,
+		}),
+	);
+	return [...pathParameters, ...queryParameters];
+}
+
+function getRequestBody(
+	requestBody: ApiOperation["requestBody"],
+): OpenApiOperation["requestBody"] {
+	if (!requestBody) return undefined;
+	const schema = toJsonSchema(requestBody.schema);
+	for (const name of requestBody.files ?? []) {
+		getProperties(schema)[name] = {
+			type: "string",
+			contentMediaType: "application/octet-stream",
+		};
+	}
+	return {
+		required: true,
+		content: { [requestBody.contentType]: { schema } },
+	};
+}
+
+/**
+ * The OpenAPI 3.1 document for the API, generated from the same zod schemas
+ * the handlers use.
+ */
+export function getOpenApiDocument({ serverUrl }: { serverUrl: string }) {
+	const paths: Record<
+		string,
+		Partial<Record<ApiMethod, OpenApiOperation>>
+	> = {};
+	for (const operation of apiOperations) {
+		const { response } = operation;
+		const pathItem = paths[operation.path] ?? {};
+		paths[operation.path] = pathItem;
+		pathItem[operation.method] = {
+			operationId: operation.operationId,
+			summary: operation.summary,
+			description: [
+				operation.description,
+				`Requires a token that can ${operation.permission} notes.`,
+			]
+				.filter(Boolean)
+				.join("\n\n"),
+			tags: ["Notes"],
+			parameters: getParameters(operation),
+			requestBody: getRequestBody(operation.requestBody),
+			responses: {
+				[response.status]: {
+					description: response.description,
+					content: response.schema
+						? { "application/json": { schema: toJsonSchema(response.schema) } }
+						: undefined,
+				},
+				...Object.fromEntries(
+					operation.errors.map((status) => [
+						status,
+						{
+							description: errorDescriptions[status],
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+					]),
+				),
+			},
+		};
+	}
+
+	return {
+		openapi: "3.1.0",
+		info: {
+			title: "Epic Notes API",
+			version: "1.0.0",
+			description:
+				"Create a token in your profile settings and send it in the Authorization header as a Bearer token.",
+		},
+		servers: [{ url: serverUrl }],
+		security: [{ apiToken: [] }],
+		tags: [{ name: "Notes" }],
+		paths,
+		components: {
+			securitySchemes: {
+				apiToken: { type: "http", scheme: "bearer" },
+			},
+			schemas: Object.fromEntries(
+				Object.entries(componentSchemas).map(([name, schema]) => [
+					name,
+					toJsonSchema(schema),
+				]),
+			),
+		},
+	};
+}
+
+export type OpenApiDocument = ReturnType<typeof getOpenApiDocument>;
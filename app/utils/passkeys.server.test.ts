@@ -0,0 +1,145 @@
+import { expect, test } from "vitest";
+import { createPasskeyAuthenticator } from "#tests/passkey-authenticator.ts";
+import {
+	getPasskeyAuthenticationOptions,
+	getPasskeyRegistrationOptions,
+	getRelyingParty,
+	parseAuthenticationResponse,
+	verifyPasskeyAuthentication,
+	verifyPasskeyRegistration,
+} from "./passkeys.server.ts";
+
+const request = new Request("http://localhost:3000/settings/profile/passkeys", {
+	headers: { host: "localhost:3000" },
+});
+const user = { id: "user-id", username: "kody", name: "Kody" };
+
+async function registerPasskey(
+	authenticator: ReturnType<typeof createPasskeyAuthenticator>,
+) {
+	const rp = getRelyingParty(request);
+	const { options } = await getPasskeyRegistrationOptions({
+		request,
+		user,
+		passkeys: [],
+	});
+	const passkey = await verifyPasskeyRegistration({
+		request,
+		response: authenticator.createCredential({
+			rpId: rp.id,
+			origin: rp.origin,
+			challenge: options.challenge,
+		}),
+		expectedChallenge: options.challenge,
+	});
+	if (!passkey) throw new Error("Passkey should have registered");
+	return passkey;
+}
+
+async function getChallenge() {
+	const { options } = await getPasskeyAuthenticationOptions({ request });
+	return options.challenge;
+}
+
+test("registers and signs in with a passkey", async () => {
+	const authenticator = createPasskeyAuthenticator();
+	const passkey = await registerPasskey(authenticator);
+	expect(passkey).toMatchObject({
+		id: authenticator.id,
+		counter: 0,
+		transports: "internal",
+		deviceType: "singleDevice",
+		backedUp: false,
+	});
+
+	const rp = getRelyingParty(request);
+	const challenge = await getChallenge();
+	const response = authenticator.getAssertion({
+		rpId: rp.id,
+		origin: rp.origin,
+		challenge,
+	});
+	const result = await verifyPasskeyAuthentication({
+		request,
+		response,
+		expectedChallenge: challenge,
+		passkey,
+		requireUserVerification: true,
+	});
+	expect(result).toEqual({ newCounter: 1, userVerified: true });
+});
+
+test("rejects a passkey that signed a different challenge", async () => {
+	const authenticator = createPasskeyAuthenticator();
+	const passkey = await registerPasskey(authenticator);
+	const rp = getRelyingParty(request);
+
+	const response = authenticator.getAssertion({
+		rpId: rp.id,
+		origin: rp.origin,
+		challenge: await getChallenge(),
+	});
+	const result = await verifyPasskeyAuthentication({
+		request,
+		response,
+		expectedChallenge: await getChallenge(),
+		passkey,
+		requireUserVerification: true,
+	});
+	expect(result).toBeNull();
+});
+
+test("rejects a passkey used from another site", async () => {
+	const authenticator = createPasskeyAuthenticator();
+	const passkey = await registerPasskey(authenticator);
+	const challenge = await getChallenge();
+
+	const response = authenticator.getAssertion({
+		rpId: "evil.example.com",
+		origin: "https://evil.example.com",
+		challenge,
+	});
+	const result = await verifyPasskeyAuthentication({
+		request,
+		response,
+		expectedChallenge: challenge,
+		passkey,
+		requireUserVerification: false,
+	});
+	expect(result).toBeNull();
+});
+
+test("requires user verification only when asked to", async () => {
+	const authenticator = createPasskeyAuthenticator({
+		userVerification: false,
+	});
+	const passkey = await registerPasskey(authenticator);
+	const rp = getRelyingParty(request);
+
+	async function authenticate(requireUserVerification: boolean) {
+		const challenge = await getChallenge();
+		return verifyPasskeyAuthentication({
+			request,
+			response: authenticator.getAssertion({
+				rpId: rp.id,
+				origin: rp.origin,
+				challenge,
+			}),
+			expectedChallenge: challenge,
+			passkey,
+			requireUserVerification,
+		});
+	}
+
+	expect(await authenticate(true)).toBeNull();
+	expect(await authenticate(false)).toEqual({
+		newCounter: 2,
+		userVerified: false,
+	});
+});
+
+test("ignores malformed passkey responses", () => {
+	expect(parseAuthenticationResponse(undefined)).toBeNull();
+	expect(parseAuthenticationResponse("not json")).toBeNull();
+	expect(parseAuthenticationResponse(JSON.stringify({ id: "abc" }))).toBeNull();
+});
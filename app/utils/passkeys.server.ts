@@ -0,0 +1,229 @@
+import {
+	generateAuthenticationOptions,
+	generateRegistrationOptions,
+	verifyAuthenticationResponse,
+	verifyRegistrationResponse,
+	type AuthenticationResponseJSON,
+	type AuthenticatorTransportFuture,
+	type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { z } from "zod";
+import { getDomainUrl } from "./misc.tsx";
+import { verifySessionStorage } from "./verification.server.ts";
+
+const passkeyChallengeKey = "passkey-challenge";
+
+/**
+ * The relying party is this app. The ID has to be the hostname (without the
+ * port) the browser is on, and the origin has to match exactly.
+ */
+export function getRelyingParty(request: Request) {
+	const origin = getDomainUrl(request);
+	return { name: "Epic Notes", id: new URL(origin).hostname, origin };
+}
+
+// we only check the shape here, @simplewebauthn/server does the real checks
+const CredentialResponseSchema = z
+	.object({
+		id: z.string(),
+		rawId: z.string(),
+		type: z.literal("public-key"),
+		response: z.object({ clientDataJSON: z.string() }).passthrough(),
+	})
+	.passthrough();
+
+function parseCredentialResponse(json: unknown) {
+	if (typeof json !== "string") return null;
+	try {
+		const result = CredentialResponseSchema.safeParse(JSON.parse(json));
+		return result.success ? result.data : null;
+	} catch {
+		return null;
+	}
+}
+
+export function parseRegistrationResponse(json: unknown) {
+	return parseCredentialResponse(json) as RegistrationResponseJSON | null;
+}
+
+export function parseAuthenticationResponse(json: unknown) {
+	return parseCredentialResponse(json) as AuthenticationResponseJSON | null;
+}
+
+/**
+ * Stores the challenge in the verification cookie so we can check the
+ * authenticator signed the one we gave it. Returns the set-cookie header.
+ */
+async function storeChallenge(request: Request, challenge: string) {
+	const verifySession = await verifySessionStorage.getSession(
+		request.headers.get("cookie"),
+	);
+	verifySession.set(passkeyChallengeKey, challenge);
+	return verifySessionStorage.commitSession(verifySession);
+}
+
+/**
+ * Gets the challenge we stored and removes it so it can only be used once.
+ */
+export async function consumePasskeyChallenge(request: Request) {
+	const verifySession = await verifySessionStorage.getSession(
+		request.headers.get("cookie"),
+	);
+	const challenge = verifySession.get(passkeyChallengeKey);
+	verifySession.unset(passkeyChallengeKey);
+	return {
+		challenge: typeof challenge === "string" ? challenge : null,
+		setCookie: await verifySessionStorage.commitSession(verifySession),
+	};
+}
+
+export function getPasskeyTransports(transports: string) {
+	return transports
+		? (transports.split(",") as Array<AuthenticatorTransportFuture>)
+		: undefined;
+}
+
+export async function getPasskeyRegistrationOptions({
+	request,
+	user,
+	passkeys,
+}: {
+	request: Request;
+	user: { id: string; username: string; name: string | null };
+	passkeys: Array<{ id: string; transports: string }>;
+}) {
+	const rp = getRelyingParty(request);
+	const options = await generateRegistrationOptions({
+		rpName: rp.name,
+		rpID: rp.id,
+		userID: new TextEncoder().encode(user.id),
+		userName: user.username,
+		userDisplayName: user.name ?? user.username,
+		attestationType: "none",
+		// don't let them register the same authenticator twice
+		excludeCredentials: passkeys.map((passkey) => ({
+			id: passkey.id,
+			transports: getPasskeyTransports(passkey.transports),
+		})),
+		authenticatorSelection: {
+			// discoverable credentials are what let people log in without a username
+			residentKey: "required",
+			userVerification: "preferred",
+		},
+	});
+	return {
+		options,
+		setCookie: await storeChallenge(request, options.challenge),
+	};
+}
+
+/**
+ * Verifies a new passkey and returns the data we need to store for it, or null
+ * if it can't be verified.
+ */
+export async function verifyPasskeyRegistration({
+	request,
+	response,
+	expectedChallenge,
+}: {
+	request: Request;
+	response: RegistrationResponseJSON;
+	expectedChallenge: string;
+}) {
+	const rp = getRelyingParty(request);
+	const verification = await verifyRegistrationResponse({
+		response,
+		expectedChallenge,
+		expectedOrigin: rp.origin,
+		expectedRPID: rp.id,
+		requireUserVerification: false,
+	}).catch((error: unknown) => {
+		console.warn("Passkey registration failed to verify", error);
+		return null;
+	});
+	if (!verification?.verified) return null;
+
+	const { credential, credentialDeviceType, credentialBackedUp, aaguid } =
+		verification.registrationInfo;
+	return {
+		id: credential.id,
+		publicKey: Buffer.from(credential.publicKey),
+		counter: credential.counter,
+		transports: (credential.transports ?? []).join(","),
+		deviceType: credentialDeviceType,
+		backedUp: credentialBackedUp,
+		aaguid,
+	};
+}
+
+export async function getPasskeyAuthenticationOptions({
+	request,
+	passkeys,
+}: {
+	request: Request;
+	/**
+	 * The passkeys the user may use. Leave this out when we don't know who the
+	 * user is yet and the browser will offer any passkey it has for this site.
+	 */
+	passkeys?: Array<{ id: string; transports: string }>;
+}) {
+	const rp = getRelyingParty(request);
+	const options = await generateAuthenticationOptions({
+		rpID: rp.id,
+		allowCredentials: passkeys?.map((passkey) => ({
+			id: passkey.id,
+			transports: getPasskeyTransports(passkey.transports),
+		})),
+		userVerification: "preferred",
+	});
+	return {
+		options,
+		setCookie: await storeChallenge(request, options.challenge),
+	};
+}
+
+/**
+ * Verifies a signed challenge from a stored passkey. Returns the new signature
+ * counter and whether the user was verified (PIN, biometrics, etc.), or null
+ * if it can't be verified.
+ */
+export async function verifyPasskeyAuthentication({
+	request,
+	response,
+	expectedChallenge,
+	passkey,
+	requireUserVerification,
+}: {
+	request: Request;
+	response: AuthenticationResponseJSON;
+	expectedChallenge: string;
+	passkey: {
+		id: string;
+		publicKey: Uint8Array;
+		counter: number;
+		transports: string;
+	};
+	requireUserVerification: boolean;
+}) {
+	const rp = getRelyingParty(request);
+	const verification = await verifyAuthenticationResponse({
+		response,
+		expectedChallenge,
+		expectedOrigin: rp.origin,
+		expectedRPID: rp.id,
+		credential: {
+			id: passkey.id,
+			publicKey: new Uint8Array(passkey.publicKey),
+			counter: passkey.counter,
+			transports: getPasskeyTransports(passkey.transports),
+		},
+		requireUserVerification,
+	}).catch((error: unknown) => {
+		console.warn("Passkey authentication failed to verify", error);
+		return null;
+	});
+	if (!verification?.verified) return null;
+
+	const { newCounter, userVerified } = verification.authenticationInfo;
+	return { newCounter, userVerified };
+}
@@ -0,0 +1,97 @@
+import { useFetcher } from "@remix-run/react";
+import { startAuthentication } from "@simplewebauthn/browser";
+import { useState } from "react";
+import type { action as passkeyAuthenticationAction } from "#app/routes/resources+/passkey-authentication.tsx";
+import { ErrorList } from "#app/components/forms.tsx";
+import { useI18n } from "./i18n.ts";
+import { getErrorMessage } from "./misc.tsx";
+import { FaceIcon } from "@radix-ui/react-icons";
+import { Button, Flex } from "@radix-ui/themes";
+
+export const passkeyAuthenticationRoute = "/resources/passkey-authentication";
+
+/**
+ * Gets a fresh challenge (the options) from a passkey resource route. The
+ * challenge is kept in a cookie, so this has to happen right before asking the
+ * browser for the passkey.
+ */
+export async function fetchPasskeyOptions<Options>(url: string) {
+	const response = await fetch(url, {
+		headers: { accept: "application/json" },
+	});
+	if (!response.ok) {
+		throw new Error("Could not start using your passkey, please try again");
+	}
+	const { options } = (await response.json()) as { options: Options };
+	return options;
+}
+
+/**
+ * The browser throws when the user cancels the passkey prompt, which isn't
+ * really an error so we use a friendlier message for it.
+ */
+export function getPasskeyErrorMessage(error: unknown) {
+	if (error instanceof Error && error.name === "NotAllowedError") {
+		return "The passkey request was cancelled or timed out";
+	}
+	return getErrorMessage(error);
+}
+
+export function PasskeyLoginButton({
+	type,
+	redirectTo,
+}: {
+	/** "login" for passwordless login, "2fa" to use a passkey as a second factor */
+	type: "login" | "2fa";
+	redirectTo?: string | null;
+}) {
+	const fetcher = useFetcher<typeof passkeyAuthenticationAction>();
+	const [error, setError] = useState<string | null>(null);
+	const [isStarting, setIsStarting] = useState(false);
+	const { t } = useI18n();
+
+	async function handleClick() {
+		setError(null);
+		setIsStarting(true);
+		try {
+			const optionsJSON = await fetchPasskeyOptions<
+				Parameters<typeof startAuthentication>[0]["optionsJSON"]
+			>(`${passkeyAuthenticationRoute}?type=${type}`);
+			const response = await startAuthentication({ optionsJSON });
+			fetcher.submit(
+				{
+					type,
+					response: JSON.stringify(response),
+					redirectTo: redirectTo ?? "",
+				},
+				{ method: "POST", action: passkeyAuthenticationRoute },
+			);
+		} catch (error: unknown) {
+			setError(getPasskeyErrorMessage(error));
+		} finally {
+			setIsStarting(false);
+		}
+	}
+
+	const errors = [
+		error,
+		fetcher.state === "idle" && fetcher.data?.status === "error"
+			? fetcher.data.error
+			: null,
+	].filter((e): e is string => Boolean(e));
+
+	return (
+		<Flex direction="column" align="center" gap="2">
+			<Button
+				type="button"
+				variant="soft"
+				loading={isStarting || fetcher.state !== "idle"}
+				onClick={handleClick}
+			>
+				<FaceIcon />
+				{type === "login" ? t("login.passkey") : t("verify.passkey")}
+			</Button>
+			<ErrorList errors={errors} />
+		</Flex>
+	);
+}
@@ -1,13 +1,139 @@
+import type { Prisma } from "@prisma/client";
 import { json } from "@remix-run/node";
 import { requireUserId } from "./auth.server.ts";
 import { prisma } from "./db.server.ts";
-import { type PermissionString, parsePermissionString } from "./user.ts";
+import {
+	type AccessLevel,
+	type Action,
+	type NoteShareAccess,
+	type PermissionString,
+	getNotePermission,
+	parsePermissionString,
+} from "./user.ts";
+
+/**
+ * Requests made with an API token can only do what both the user's roles and
+ * the token allow, so checks for them pass the token along.
+ */
+export type PermissionCheckOptions = { apiTokenId?: string | null };
 
 export async function requireUserWithPermission(
 	request: Request,
 	permission: PermissionString,
 ) {
 	const userId = await requireUserId(request);
+	if (!(await userHasPermissionById(userId, permission))) {
+		throw unauthorizedPermission(permission);
+	}
+	return userId;
+}
+
+function unauthorizedPermission(permission: PermissionString) {
+	return json(
+		{
+			error: "Unauthorized",
+			requiredPermission: parsePermissionString(permission),
+			message: `Unauthorized: required permissions: ${permission}`,
+		},
+		{ status: 403 },
+	);
+}
+
+/**
+ * Like `requireUserWithPermission`, but for a specific note so access to notes
+ * that have been shared with the user is taken into account.
+ */
+export async function requireUserWithNotePermission(
+	request: Request,
+	action: Action,
+	note: { id: string; ownerId: string },
+) {
+	const userId = await requireUserId(request);
+	const permission = await getUserNotePermission(userId, action, note);
+	if (!(await userHasPermissionById(userId, permission))) {
+		throw unauthorizedPermission(permission);
+	}
+	return userId;
+}
+
+export async function userHasNotePermission(
+	userId: string,
+	action: Action,
+	note: { id: string; ownerId: string },
+	options?: PermissionCheckOptions,
+) {
+	return userHasPermissionById(
+		userId,
+		await getUserNotePermission(userId, action, note),
+		options,
+	);
+}
+
+async function getUserNotePermission(
+	userId: string,
+	action: Action,
+	note: { id: string; ownerId: string },
+) {
+	const isOwner = note.ownerId === userId;
+	return getNotePermission(action, {
+		isOwner,
+		sharedAccess: isOwner ? null : await getNoteShareAccess(userId, note.id),
+	});
+}
+
+export async function getNoteShareAccess(
+	userId: string | null,
+	noteId: string,
+) {
+	if (!userId) return null;
+	const share = await prisma.noteShare.findUnique({
+		select: { access: true },
+		where: { noteId_userId: { noteId, userId } },
+	});
+	return (share?.access ?? null) as NoteShareAccess | null;
+}
+
+/**
+ * The access levels the user has for an action on notes in general, useful for
+ * filtering lists of notes down to the ones the user can see.
+ */
+export async function getUserNoteAccessLevels(
+	userId: string,
+	action: Action,
+	{ apiTokenId }: PermissionCheckOptions = {},
+) {
+	const permissions = await prisma.permission.findMany({
+		select: { access: true },
+		where: {
+			action,
+			entity: "note",
+			roles: { some: { users: { some: { id: userId } } } },
+			apiTokens: apiTokenId ? { some: { id: apiTokenId } } : undefined,
+		},
+	});
+	return permissions.map((p) => p.access as AccessLevel);
+}
+
+export async function getReadableNotesWhere(
+	userId: string | null,
+	options?: PermissionCheckOptions,
+): Promise<Prisma.NoteWhereInput> {
+	if (!userId) return { id: { in: [] } };
+	const accessLevels = await getUserNoteAccessLevels(userId, "read", options);
+	if (accessLevels.includes("any")) return {};
+	const filters: Array<Prisma.NoteWhereInput> = [];
+	if (accessLevels.includes("own")) filters.push({ ownerId: userId });
+	if (accessLevels.includes("shared")) {
+		filters.push({ shares: { some: { userId } } });
+	}
+	return { OR: filters };
+}
+
+export async function userHasPermissionById(
+	userId: string,
+	permission: PermissionString,
+	{ apiTokenId }: PermissionCheckOptions = {},
+) {
 	const permissionData = parsePermissionString(permission);
 	const user = await prisma.user.findFirst({
 		select: { id: true },
@@ -21,23 +147,14 @@ export async function requireUserWithPermission(
 							access: permissionData.access
 								? { in: permissionData.access }
 								: undefined,
+							apiTokens: apiTokenId ? { some: { id: apiTokenId } } : undefined,
 						},
 					},
 				},
 			},
 		},
 	});
-	if (!user) {
-		throw json(
-			{
-				error: "Unauthorized",
-				requiredPermission: permissionData,
-				message: `Unauthorized: required permissions: ${permission}`,
-			},
-			{ status: 403 },
-		);
-	}
-	return user.id;
+	return Boolean(user);
 }
 
 export async function requireUserWithRole(request: Request, name: string) {
@@ -22,6 +22,12 @@ const GitHubUserParseResult = z
 const shouldMock = process.env.GITHUB_CLIENT_ID?.startsWith("MOCK_");
 
 export class GitHubProvider implements AuthProvider {
+	isConfigured() {
+		return Boolean(
+			process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET,
+		);
+	}
+
 	getAuthStrategy() {
 		return new GitHubStrategy(
 			{
@@ -0,0 +1,50 @@
+import type { Timings } from "../timing.server.ts";
+import {
+	OIDCStrategy,
+	getOIDCConnectionData,
+	getOIDCProviderUser,
+	redirectToMockCallback,
+	rememberOIDCConnectionData,
+} from "./oidc.server.ts";
+import type { AuthProvider } from "./provider.ts";
+
+const shouldMock = process.env.GOOGLE_CLIENT_ID?.startsWith("MOCK_");
+
+export class GoogleProvider implements AuthProvider {
+	isConfigured() {
+		return Boolean(
+			process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET,
+		);
+	}
+
+	getAuthStrategy() {
+		// Google is an OpenID Connect provider, we just skip the discovery
+		return new OIDCStrategy(
+			{
+				authorizationURL: "https://accounts.google.com/o/oauth2/v2/auth",
+				tokenURL: "https://oauth2.googleapis.com/token",
+				userInfoURL: "https://openidconnect.googleapis.com/v1/userinfo",
+				clientID: process.env.GOOGLE_CLIENT_ID,
+				clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+				callbackURL: "/auth/google/callback",
+			},
+			async ({ profile }) => {
+				const user = getOIDCProviderUser(profile);
+				await rememberOIDCConnectionData("google", user);
+				return user;
+			},
+		);
+	}
+
+	async resolveConnectionData(
+		providerId: string,
+		options?: { timings?: Timings },
+	) {
+		return getOIDCConnectionData("google", providerId, options);
+	}
+
+	async handleMockAction(request: Request) {
+		if (!shouldMock) return;
+		await redirectToMockCallback("google", request);
+	}
+}
@@ -0,0 +1,285 @@
+import { createId as cuid } from "@paralleldrive/cuid2";
+import { redirect } from "@remix-run/node";
+import type { AuthenticateOptions, StrategyVerifyCallback } from "remix-auth";
+import {
+	OAuth2Strategy,
+	type OAuth2Profile,
+	type OAuth2StrategyVerifyParams,
+} from "remix-auth-oauth2";
+import { z } from "zod";
+import { cache, cachified } from "../cache.server.ts";
+import { connectionSessionStorage } from "../connections.server.ts";
+import type { Timings } from "../timing.server.ts";
+import type { AuthProvider, ProviderUser } from "./provider.ts";
+
+const OIDCDiscoveryDocumentSchema = z.object({
+	issuer: z.string().url(),
+	authorization_endpoint: z.string().url(),
+	token_endpoint: z.string().url(),
+	userinfo_endpoint: z.string().url(),
+});
+
+const OIDCUserInfoSchema = z.object({
+	sub: z.string(),
+	email: z.string().email(),
+	// some providers send this as a string
+	email_verified: z
+		.union([z.boolean(), z.enum(["true", "false"])])
+		.transform((verified) => verified === true || verified === "true")
+		.optional(),
+	name: z.string().optional(),
+	given_name: z.string().optional(),
+	preferred_username: z.string().optional(),
+	picture: z.string().url().optional(),
+});
+
+export type OIDCProfile = OAuth2Profile & {
+	id: string;
+	_json: z.infer<typeof OIDCUserInfoSchema>;
+};
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, "");
+
+export async function getOIDCDiscoveryDocument(issuer: string) {
+	return cachified({
+		key: `oidc-discovery:${issuer}`,
+		cache,
+		ttl: 1000 * 60 * 60,
+		swr: 1000 * 60 * 60 * 24,
+		async getFreshValue() {
+			const response = await fetch(
+				`${trimTrailingSlash(issuer)}/.well-known/openid-configuration`,
+			);
+			if (!response.ok) {
+				throw new Error(
+					`Could not load the OpenID configuration for ${issuer}: ${response.status}`,
+				);
+			}
+			const document = OIDCDiscoveryDocumentSchema.parse(await response.json());
+			// the spec requires these to match exactly so one provider can't
+			// pretend to be another
+			if (trimTrailingSlash(document.issuer) !== trimTrailingSlash(issuer)) {
+				throw new Error(
+					`The OpenID configuration issuer "${document.issuer}" does not match "${issuer}"`,
+				);
+			}
+			return document;
+		},
+		checkValue: OIDCDiscoveryDocumentSchema,
+	});
+}
+
+type OIDCStrategyOptions = {
+	clientID: string;
+	clientSecret: string;
+	callbackURL: string;
+	scope?: string;
+} & (
+	| {
+			/** The endpoints are looked up from the issuer's discovery document */
+			issuer: string;
+	  }
+	| {
+			authorizationURL: string;
+			tokenURL: string;
+			userInfoURL: string;
+	  }
+);
+
+/**
+ * An OAuth2 strategy for OpenID Connect providers. The user's profile comes
+ * from the userinfo endpoint using the access token, so we don't need to
+ * verify the ID token ourselves.
+ */
+export class OIDCStrategy<User> extends OAuth2Strategy<User, OIDCProfile> {
+	name = "oidc";
+	private issuer?: string;
+	private userInfoURL = "";
+
+	constructor(
+		options: OIDCStrategyOptions,
+		verify: StrategyVerifyCallback<
+			User,
+			OAuth2StrategyVerifyParams<OIDCProfile>
+		>,
+	) {
+		super(
+			{
+				clientID: options.clientID,
+				clientSecret: options.clientSecret,
+				callbackURL: options.callbackURL,
+				scope: options.scope ?? "openid email profile",
+				authorizationURL:
+					"authorizationURL" in options ? options.authorizationURL : "",
+				tokenURL: "tokenURL" in options ? options.tokenURL : "",
+			},
+			verify,
+		);
+		if ("issuer" in options) {
+			this.issuer = options.issuer;
+		} else {
+			this.userInfoURL = options.userInfoURL;
+		}
+	}
+
+	async authenticate(
+		request: Request,
+		sessionStorage: Parameters<
+			OAuth2Strategy<User, OIDCProfile>["authenticate"]
+		>[1],
+		options: AuthenticateOptions,
+	) {
+		if (this.issuer) {
+			const document = await getOIDCDiscoveryDocument(this.issuer);
+			this.authorizationURL = document.authorization_endpoint;
+			this.tokenURL = document.token_endpoint;
+			this.userInfoURL = document.userinfo_endpoint;
+		}
+		return super.authenticate(request, sessionStorage, options);
+	}
+
+	protected async userProfile(accessToken: string): Promise<OIDCProfile> {
+		const response = await fetch(this.userInfoURL, {
+			headers: { Authorization: `Bearer ${accessToken}` },
+		});
+		if (!response.ok) {
+			throw new Error(`Could not load the user's profile: ${response.status}`);
+		}
+		const userInfo = OIDCUserInfoSchema.parse(await response.json());
+		return {
+			provider: this.name,
+			id: userInfo.sub,
+			displayName: userInfo.name ?? userInfo.email,
+			name: { givenName: userInfo.given_name },
+			emails: [{ value: userInfo.email }],
+			photos: userInfo.picture ? [{ value: userInfo.picture }] : [],
+			_json: userInfo,
+		};
+	}
+}
+
+/**
+ * Turns an OIDC profile into our user. We link accounts by email, so we
+ * refuse emails the provider hasn't said it verified, including when it
+ * leaves the claim out.
+ */
+export function getOIDCProviderUser(profile: OIDCProfile): ProviderUser {
+	if (profile._json.email_verified !== true) {
+		throw new Error("Your email address has not been verified");
+	}
+	const email = profile._json.email.trim().toLowerCase();
+	return {
+		id: profile.id,
+		email,
+		username: profile._json.preferred_username ?? email.split("@")[0],
+		name: profile._json.given_name ?? profile._json.name,
+		imageUrl: profile.photos?.[0]?.value,
+	};
+}
+
+const ConnectionDataSchema = z.object({ displayName: z.string() });
+const connectionDataTtl = 1000 * 60 * 60 * 24 * 365;
+
+/**
+ * OIDC providers don't let us look people up later, so we remember who they
+ * were when they logged in for the connections page.
+ */
+export async function rememberOIDCConnectionData(
+	providerName: string,
+	user: ProviderUser,
+) {
+	await cachified({
+		key: `connection-data:${providerName}:${user.id}`,
+		cache,
+		forceFresh: true,
+		ttl: connectionDataTtl,
+		getFreshValue: () => ({ displayName: user.email }),
+	});
+}
+
+export async function getOIDCConnectionData(
+	providerName: string,
+	providerId: string,
+	{ timings }: { timings?: Timings } = {},
+) {
+	const data = await cachified({
+		key: `connection-data:${providerName}:${providerId}`,
+		cache,
+		timings,
+		ttl: connectionDataTtl,
+		getFreshValue(context) {
+			// nothing to remember yet, so don't cache this
+			context.metadata.ttl = 0;
+			return { displayName: "Unknown" };
+		},
+		checkValue: ConnectionDataSchema,
+	});
+	return { displayName: data.displayName, link: null };
+}
+
+/**
+ * Skips the provider's login page in development and tests by sending the
+ * user straight to the callback with a code the mocks know about.
+ */
+export async function redirectToMockCallback(
+	providerName: string,
+	request: Request,
+) {
+	const connectionSession = await connectionSessionStorage.getSession(
+		request.headers.get("cookie"),
+	);
+	const state = cuid();
+	connectionSession.set("oauth2:state", state);
+	const code = `MOCK_CODE_${providerName.toUpperCase()}_KODY`;
+	const searchParams = new URLSearchParams({ code, state });
+	throw redirect(`/auth/${providerName}/callback?${searchParams}`, {
+		headers: {
+			"set-cookie":
+				await connectionSessionStorage.commitSession(connectionSession),
+		},
+	});
+}
+
+const shouldMock = process.env.OIDC_CLIENT_ID?.startsWith("MOCK_");
+
+/**
+ * A generic OpenID Connect provider (Okta, Auth0, Keycloak, Microsoft Entra,
+ * etc.) configured with the OIDC_* environment variables.
+ */
+export class OIDCProvider implements AuthProvider {
+	isConfigured() {
+		return Boolean(
+			process.env.OIDC_ISSUER &&
+				process.env.OIDC_CLIENT_ID &&
+				process.env.OIDC_CLIENT_SECRET,
+		);
+	}
+
+	getAuthStrategy() {
+		return new OIDCStrategy(
+			{
+				issuer: process.env.OIDC_ISSUER ?? "",
+				clientID: process.env.OIDC_CLIENT_ID ?? "",
+				clientSecret: process.env.OIDC_CLIENT_SECRET ?? "",
+				callbackURL: "/auth/oidc/callback",
+			},
+			async ({ profile }) => {
+				const user = getOIDCProviderUser(profile);
+				await rememberOIDCConnectionData("oidc", user);
+				return user;
+			},
+		);
+	}
+
+	async resolveConnectionData(
+		providerId: string,
+		options?: { timings?: Timings },
+	) {
+		return getOIDCConnectionData("oidc", providerId, options);
+	}
+
+	async handleMockAction(request: Request) {
+		if (!shouldMock) return;
+		await redirectToMockCallback("oidc", request);
+	}
+}
@@ -11,6 +11,8 @@ export type ProviderUser = {
 };
 
 export interface AuthProvider {
+	/** Whether the environment has what this provider needs to be offered */
+	isConfigured(): boolean;
 	getAuthStrategy(): Strategy<ProviderUser, any>;
 	handleMockAction(request: Request): Promise<void>;
 	resolveConnectionData(
@@ -0,0 +1,60 @@
+import { LRUCache } from "lru-cache";
+import { expect, test } from "vitest";
+import { consumeRateLimit, getRateLimitHeaders } from "./rate-limit.server.ts";
+
+const config = { max: 2, window: 60 * 1000 };
+const now = new Date("2026-01-01T00:00:00Z").getTime();
+
+function createStore() {
+	return new LRUCache<string, { count: number; resetAt: number }>({ max: 10 });
+}
+
+test("requests are allowed until the limit is reached", () => {
+	const store = createStore();
+	expect(consumeRateLimit("token", config, now, store)).toEqual({
+		allowed: true,
+		limit: 2,
+		remaining: 1,
+		resetAt: now + config.window,
+	});
+	expect(consumeRateLimit("token", config, now + 1000, store)).toMatchObject({
+		allowed: true,
+		remaining: 0,
+	});
+	expect(consumeRateLimit("token", config, now + 2000, store)).toMatchObject({
+		allowed: false,
+		remaining: 0,
+	});
+	// each key has its own window
+	expect(consumeRateLimit("other", config, now + 2000, store).allowed).toBe(
+		true,
+	);
+});
+
+test("the count starts over in the next window", () => {
+	const store = createStore();
+	for (let i = 0; i < 3; i++) consumeRateLimit("token", config, now, store);
+	const next = consumeRateLimit("token", config, now + config.window, store);
+	expect(next).toMatchObject({ allowed: true, remaining: 1 });
+	expect(next.resetAt).toBe(now + config.window * 2);
+});
+
+test("Retry-After is only sent once the limit is reached", () => {
+	const allowed = {
+		allowed: true,
+		limit: 2,
+		remaining: 1,
+		resetAt: now + 30_500,
+	};
+	const headers = getRateLimitHeaders(allowed, now);
+	expect(Object.fromEntries(headers)).toEqual({
+		"ratelimit-limit": "2",
+		"ratelimit-remaining": "1",
+		"ratelimit-reset": "31",
+	});
+	expect(
+		getRateLimitHeaders({ ...allowed, allowed: false, remaining: 0 }, now).get(
+			"Retry-After",
+		),
+	).toBe("31");
+});
@@ -0,0 +1,58 @@
+import { remember } from "@epic-web/remember";
+import { LRUCache } from "lru-cache";
+
+export type RateLimitConfig = {
+	/** how many requests are allowed in each window */
+	max: number;
+	window: number;
+};
+
+type RateLimitWindow = { count: number; resetAt: number };
+
+// counted per instance like the express limiters, which is close enough with
+// the handful of instances we run
+const windows = remember(
+	"rate-limit-windows",
+	() => new LRUCache<string, RateLimitWindow>({ max: 10_000 }),
+);
+
+/**
+ * Counts a request against a fixed window for the key. Every request counts,
+ * including the ones that are turned away, so hammering doesn't pay off.
+ */
+export function consumeRateLimit(
+	key: string,
+	config: RateLimitConfig,
+	now = Date.now(),
+	store: Pick<LRUCache<string, RateLimitWindow>, "get" | "set"> = windows,
+) {
+	let window = store.get(key);
+	if (!window || window.resetAt <= now) {
+		window = { count: 0, resetAt: now + config.window };
+	}
+	window.count++;
+	store.set(key, window, { ttl: window.resetAt - now });
+	return {
+		allowed: window.count <= config.max,
+		limit: config.max,
+		remaining: Math.max(config.max - window.count, 0),
+		resetAt: window.resetAt,
+	};
+}
+
+export type RateLimitResult = ReturnType<typeof consumeRateLimit>;
+
+/**
+ * The same RateLimit-* headers express-rate-limit sends, plus Retry-After
+ * once the limit has been reached.
+ */
+export function getRateLimitHeaders(result: RateLimitResult, now = Date.now()) {
+	const reset = Math.max(Math.ceil((result.resetAt - now) / 1000), 0);
+	const headers = new Headers({
+		"RateLimit-Limit": result.limit.toString(),
+		"RateLimit-Remaining": result.remaining.toString(),
+		"RateLimit-Reset": reset.toString(),
+	});
+	if (!result.allowed) headers.set("Retry-After", reset.toString());
+	return headers;
+}
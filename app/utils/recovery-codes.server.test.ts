@@ -0,0 +1,24 @@
+import { expect, test } from "vitest";
+import {
+	generateRecoveryCodes,
+	hashRecoveryCode,
+	recoveryCodeCount,
+} from "./recovery-codes.server.ts";
+
+test("generates unique codes that are easy to type", () => {
+	const codes = generateRecoveryCodes();
+	expect(codes).toHaveLength(recoveryCodeCount);
+	expect(new Set(codes).size).toBe(recoveryCodeCount);
+	for (const code of codes) {
+		expect(code).toMatch(/^[a-hjkmnp-z2-9]{5}-[a-hjkmnp-z2-9]{5}$/);
+	}
+});
+
+test("hashes codes the same however they are typed", () => {
+	const hash = hashRecoveryCode("abcde-fghjk");
+	expect(hash).toMatch(/^[0-9a-f]{64}$/);
+	expect(hashRecoveryCode("ABCDE-FGHJK")).toBe(hash);
+	expect(hashRecoveryCode(" abcde fghjk ")).toBe(hash);
+	expect(hashRecoveryCode("abcdefghjk")).toBe(hash);
+	expect(hashRecoveryCode("abcde-fghjm")).not.toBe(hash);
+});
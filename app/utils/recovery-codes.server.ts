@@ -0,0 +1,93 @@
+import crypto from "node:crypto";
+import { prisma } from "./db.server.ts";
+import { verifySessionStorage } from "./verification.server.ts";
+
+export const recoveryCodeCount = 10;
+// no 0/o, 1/l/i so they're easy to copy by hand
+const charSet = "abcdefghjkmnpqrstuvwxyz23456789";
+const newRecoveryCodesKey = "new-recovery-codes";
+
+function generateRecoveryCode() {
+	const chars = Array.from(
+		{ length: 10 },
+		() => charSet[crypto.randomInt(charSet.length)],
+	).join("");
+	return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+export function generateRecoveryCodes() {
+	return Array.from({ length: recoveryCodeCount }, generateRecoveryCode);
+}
+
+/**
+ * People will type these in however they like, so we ignore case, spaces and
+ * dashes before hashing.
+ */
+export function hashRecoveryCode(code: string) {
+	const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+	return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Replaces all of the user's recovery codes with new ones. The codes are only
+ * returned here, we just keep their hashes.
+ */
+export async function createRecoveryCodes(userId: string) {
+	const codes = generateRecoveryCodes();
+	await prisma.$transaction([
+		prisma.recoveryCode.deleteMany({ where: { userId } }),
+		...codes.map((code) =>
+			prisma.recoveryCode.create({
+				select: { id: true },
+				data: { userId, codeHash: hashRecoveryCode(code) },
+			}),
+		),
+	]);
+	return codes;
+}
+
+/**
+ * Marks the code as used and returns true if it was a valid, unused code for
+ * this user.
+ */
+export async function redeemRecoveryCode({
+	userId,
+	code,
+}: {
+	userId: string;
+	code: string;
+}) {
+	// updateMany with usedAt: null so two requests can't both use the same code
+	const { count } = await prisma.recoveryCode.updateMany({
+		where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+		data: { usedAt: new Date() },
+	});
+	return count > 0;
+}
+
+export async function getRemainingRecoveryCodeCount(userId: string) {
+	return prisma.recoveryCode.count({ where: { userId, usedAt: null } });
+}
+
+/**
+ * New codes are shown once on the next page load, so we pass them along in
+ * the (signed, short lived) verification cookie. Returns the set-cookie header.
+ */
+export async function flashRecoveryCodes(request: Request, codes: string[]) {
+	const verifySession = await verifySessionStorage.getSession(
+		request.headers.get("cookie"),
+	);
+	verifySession.flash(newRecoveryCodesKey, codes);
+	return verifySessionStorage.commitSession(verifySession);
+}
+
+export async function getFlashedRecoveryCodes(request: Request) {
+	const verifySession = await verifySessionStorage.getSession(
+		request.headers.get("cookie"),
+	);
+	const codes: unknown = verifySession.get(newRecoveryCodesKey);
+	return {
+		codes: Array.isArray(codes) ? (codes as string[]) : null,
+		setCookie: await verifySessionStorage.commitSession(verifySession),
+	};
+}
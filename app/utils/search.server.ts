@@ -0,0 +1,79 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./db.server.ts";
+import { getNoteSearchQuery, highlightEnd, highlightStart } from "./search.ts";
+import type { AccessLevel } from "./user.ts";
+
+const NoteSearchResultSchema = z.object({
+	id: z.string(),
+	title: z.string(),
+	titleHighlight: z.string(),
+	contentSnippet: z.string(),
+	ownerId: z.string(),
+	ownerUsername: z.string(),
+	ownerName: z.string().nullable(),
+});
+
+const NoteSearchResultsSchema = z.array(NoteSearchResultSchema);
+
+export type NoteSearchResult = z.infer<typeof NoteSearchResultSchema>;
+
+/**
+ * Full-text search over note titles and content, ranked with bm25 (matches in
+ * the title count ten times as much as matches in the content).
+ *
+ * @param userId the user searching, only notes they can read are searched
+ * @param accessLevels the user's read access levels for notes
+ */
+export async function searchNotes({
+	searchTerm,
+	userId,
+	accessLevels,
+	limit,
+	offset = 0,
+}: {
+	searchTerm: string;
+	userId: string;
+	accessLevels: Array<AccessLevel>;
+	limit: number;
+	offset?: number;
+}) {
+	const query = getNoteSearchQuery(searchTerm);
+	if (!query) return [];
+
+	const accessFilter = accessLevels.includes("any")
+		? Prisma.empty
+		: Prisma.sql`AND (${
+				accessLevels.includes("own")
+					? Prisma.sql`Note.ownerId = ${userId}`
+					: Prisma.sql`0`
+			} OR ${
+				accessLevels.includes("shared")
+					? Prisma.sql`EXISTS (
+						SELECT 1 FROM NoteShare
+						WHERE NoteShare.noteId = Note.id AND NoteShare.userId = ${userId}
+					)`
+					: Prisma.sql`0`
+			})`;
+
+	const rawResults = await prisma.$queryRaw`
+		SELECT
+			Note.id,
+			Note.title,
+			highlight(NoteSearch, 1, ${highlightStart}, ${highlightEnd}) AS titleHighlight,
+			snippet(NoteSearch, 2, ${highlightStart}, ${highlightEnd}, '…', 24) AS contentSnippet,
+			User.id AS ownerId,
+			User.username AS ownerUsername,
+			User.name AS ownerName
+		FROM NoteSearch
+		JOIN Note ON Note.id = NoteSearch.noteId
+		JOIN User ON User.id = Note.ownerId
+		WHERE NoteSearch MATCH ${query}
+		${accessFilter}
+		ORDER BY bm25(NoteSearch, 0.0, 10.0, 1.0)
+		LIMIT ${limit}
+		OFFSET ${offset}
+	`;
+
+	return NoteSearchResultsSchema.parse(rawResults);
+}
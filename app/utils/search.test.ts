@@ -0,0 +1,39 @@
+import { expect, test } from "vitest";
+import {
+	getHighlightSegments,
+	getNoteSearchQuery,
+	highlightEnd,
+	highlightStart,
+} from "./search.ts";
+
+test("each word is quoted and the last one is a prefix match", () => {
+	expect(getNoteSearchQuery("koala facts")).toBe(
+		'{title content} : ("koala" AND "facts"*)',
+	);
+});
+
+test("FTS5 syntax in the search term is treated as text", () => {
+	expect(getNoteSearchQuery('title:"koala" OR NEAR(a b)')).toBe(
+		'{title content} : ("title" AND "koala" AND "OR" AND "NEAR" AND "a" AND "b"*)',
+	);
+});
+
+test("returns null when there is nothing to search for", () => {
+	expect(getNoteSearchQuery("")).toBeNull();
+	expect(getNoteSearchQuery(' "* ')).toBeNull();
+});
+
+test("splits highlighted text into segments", () => {
+	const text = `${highlightStart}Koala${highlightEnd} facts about ${highlightStart}koalas${highlightEnd}`;
+	expect(getHighlightSegments(text)).toEqual([
+		{ text: "Koala", highlighted: true },
+		{ text: " facts about ", highlighted: false },
+		{ text: "koalas", highlighted: true },
+	]);
+});
+
+test("text without highlights is a single segment", () => {
+	expect(getHighlightSegments("Basic Koala Facts")).toEqual([
+		{ text: "Basic Koala Facts", highlighted: false },
+	]);
+});
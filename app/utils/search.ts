@@ -0,0 +1,43 @@
+// These characters are used by the search query to mark the start and end of
+// matched terms. They're control characters so they'll never show up in user
+// content and we don't have to render the search results as raw HTML.
+export const highlightStart = "\u0002";
+export const highlightEnd = "\u0003";
+
+/**
+ * Turns whatever the user typed into a safe FTS5 query. Every word is quoted
+ * so FTS5 syntax (like `AND`, `NEAR` or `column:`) in the search term is
+ * treated as plain text, and the last word is a prefix match so results show
+ * up while the user is still typing.
+ *
+ * @returns the FTS5 query or null if there's nothing to search for
+ */
+export function getNoteSearchQuery(searchTerm: string) {
+	const words = searchTerm.match(/[\p{L}\p{N}_]+/gu);
+	if (!words?.length) return null;
+	const phrases = words.map((word, index) =>
+		index === words.length - 1 ? `"${word}"*` : `"${word}"`,
+	);
+	return `{title content} : (${phrases.join(" AND ")})`;
+}
+
+/**
+ * Splits text returned from the search query into highlighted and regular
+ * segments.
+ */
+export function getHighlightSegments(text: string) {
+	const segments: Array<{ text: string; highlighted: boolean }> = [];
+	let highlighted = false;
+	let current = "";
+	for (const char of text) {
+		if (char === highlightStart || char === highlightEnd) {
+			if (current) segments.push({ text: current, highlighted });
+			current = "";
+			highlighted = char === highlightStart;
+		} else {
+			current += char;
+		}
+	}
+	if (current) segments.push({ text: current, highlighted });
+	return segments;
+}
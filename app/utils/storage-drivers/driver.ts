@@ -0,0 +1,28 @@
+export type StoredObject = {
+	body: ReadableStream<Uint8Array>;
+	size: number;
+};
+
+export type StoredObjectInfo = {
+	key: string;
+	lastModified: Date;
+};
+
+export interface StorageDriver {
+	put(
+		key: string,
+		body: Uint8Array,
+		options: { contentType: string },
+	): Promise<void>;
+	/** Resolves to null when there's nothing stored under the key */
+	get(key: string): Promise<StoredObject | null>;
+	/** Deleting a key that doesn't exist isn't an error */
+	delete(key: string): Promise<void>;
+	list(prefix: string): Promise<Array<StoredObjectInfo>>;
+	/**
+	 * A URL the browser can download the object from directly for the next
+	 * `expiresIn` seconds. Drivers that can't do this leave it out and we stream
+	 * the object through the app instead.
+	 */
+	getSignedUrl?(key: string, options: { expiresIn: number }): Promise<string>;
+}
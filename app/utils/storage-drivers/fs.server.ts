@@ -0,0 +1,81 @@
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import type {
+	StorageDriver,
+	StoredObject,
+	StoredObjectInfo,
+} from "./driver.ts";
+
+export function getStorageDir() {
+	return (
+		process.env.STORAGE_DIR ?? path.join(process.cwd(), "other", "uploads")
+	);
+}
+
+function isNotFound(error: unknown) {
+	return error instanceof Error && "code" in error && error.code === "ENOENT";
+}
+
+/**
+ * Keeps objects as files in a directory. Every instance needs to see the same
+ * directory, so with more than one instance use S3 instead.
+ */
+export class FileSystemStorage implements StorageDriver {
+	constructor(private dir = getStorageDir()) {}
+
+	private getPath(key: string) {
+		const filePath = path.resolve(this.dir, key);
+		// keys can come from the database, don't let them point outside the dir
+		if (!filePath.startsWith(path.resolve(this.dir) + path.sep)) {
+			throw new Error(`Invalid storage key "${key}"`);
+		}
+		return filePath;
+	}
+
+	async put(key: string, body: Uint8Array) {
+		const filePath = this.getPath(key);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(filePath, body);
+	}
+
+	async get(key: string): Promise<StoredObject | null> {
+		const filePath = this.getPath(key);
+		try {
+			const { size } = await fs.stat(filePath);
+			const stream = createReadStream(filePath);
+			return {
+				body: Readable.toWeb(stream) as ReadableStream<Uint8Array>,
+				size,
+			};
+		} catch (error: unknown) {
+			if (isNotFound(error)) return null;
+			throw error;
+		}
+	}
+
+	async delete(key: string) {
+		await fs.rm(this.getPath(key), { force: true });
+	}
+
+	async list(prefix: string): Promise<Array<StoredObjectInfo>> {
+		const dir = path.resolve(this.dir);
+		const files = await fs
+			.readdir(dir, { recursive: true, withFileTypes: true })
+			.catch((error: unknown) => {
+				if (isNotFound(error)) return [];
+				throw error;
+			});
+		const objects: Array<StoredObjectInfo> = [];
+		for (const file of files) {
+			if (!file.isFile()) continue;
+			const filePath = path.join(file.parentPath, file.name);
+			const key = path.relative(dir, filePath).split(path.sep).join("/");
+			if (!key.startsWith(prefix)) continue;
+			const { mtime } = await fs.stat(filePath);
+			objects.push({ key, lastModified: mtime });
+		}
+		return objects;
+	}
+}
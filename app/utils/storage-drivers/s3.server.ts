@@ -0,0 +1,143 @@
+import { AwsClient } from "aws4fetch";
+import type {
+	StorageDriver,
+	StoredObject,
+	StoredObjectInfo,
+} from "./driver.ts";
+
+/**
+ * Talks to anything with an S3-compatible API (AWS, Cloudflare R2, Tigris,
+ * MinIO...). Buckets are addressed by path rather than subdomain because
+ * that's the one every provider supports.
+ */
+export class S3Storage implements StorageDriver {
+	private client: AwsClient;
+	private endpoint: string;
+	private bucket: string;
+
+	constructor({
+		endpoint,
+		bucket,
+		region,
+		accessKeyId,
+		secretAccessKey,
+	}: {
+		endpoint: string;
+		bucket: string;
+		region: string;
+		accessKeyId: string;
+		secretAccessKey: string;
+	}) {
+		this.client = new AwsClient({
+			accessKeyId,
+			secretAccessKey,
+			region,
+			service: "s3",
+		});
+		this.endpoint = endpoint.replace(/\/+$/, "");
+		this.bucket = bucket;
+	}
+
+	private getUrl(key = "") {
+		const path = key.split("/").map(encodeURIComponent).join("/");
+		return new URL(`${this.endpoint}/${this.bucket}/${path}`);
+	}
+
+	private async request(url: URL, init?: RequestInit) {
+		const response = await this.client.fetch(url, init);
+		if (!response.ok && response.status !== 404) {
+			throw new Error(
+				`S3 ${init?.method ?? "GET"} ${url.pathname} failed with ${
+					response.status
+				}: ${await response.text()}`,
+			);
+		}
+		return response;
+	}
+
+	async put(
+		key: string,
+		body: Uint8Array,
+		{ contentType }: { contentType: string },
+	) {
+		const response = await this.request(this.getUrl(key), {
+			method: "PUT",
+			body,
+			headers: {
+				"Content-Type": contentType,
+				"Content-Length": String(body.byteLength),
+			},
+		});
+		if (response.status === 404) {
+			throw new Error(`The S3 bucket "${this.bucket}" doesn't exist`);
+		}
+	}
+
+	async get(key: string): Promise<StoredObject | null> {
+		const response = await this.request(this.getUrl(key));
+		if (response.status === 404 || !response.body) {
+			await response.body?.cancel();
+			return null;
+		}
+		return {
+			body: response.body,
+			size: Number(response.headers.get("Content-Length")),
+		};
+	}
+
+	async delete(key: string) {
+		await this.request(this.getUrl(key), { method: "DELETE" });
+	}
+
+	async list(prefix: string) {
+		const objects: Array<StoredObjectInfo> = [];
+		let continuationToken: string | undefined;
+		do {
+			const url = this.getUrl();
+			url.searchParams.set("list-type", "2");
+			url.searchParams.set("prefix", prefix);
+			if (continuationToken) {
+				url.searchParams.set("continuation-token", continuationToken);
+			}
+			const response = await this.request(url);
+			if (response.status === 404) {
+				throw new Error(`The S3 bucket "${this.bucket}" doesn't exist`);
+			}
+			const xml = await response.text();
+			for (const [, contents = ""] of xml.matchAll(
+				/<Contents>([\s\S]*?)<\/Contents>/g,
+			)) {
+				const key = getXmlValue(contents, "Key");
+				const lastModified = getXmlValue(contents, "LastModified");
+				if (key && lastModified) {
+					objects.push({ key, lastModified: new Date(lastModified) });
+				}
+			}
+			continuationToken =
+				getXmlValue(xml, "IsTruncated") === "true"
+					? getXmlValue(xml, "NextContinuationToken")
+					: undefined;
+		} while (continuationToken);
+		return objects;
+	}
+
+	async getSignedUrl(key: string, { expiresIn }: { expiresIn: number }) {
+		const url = this.getUrl(key);
+		url.searchParams.set("X-Amz-Expires", String(expiresIn));
+		const request = await this.client.sign(url, {
+			method: "GET",
+			aws: { signQuery: true },
+		});
+		return request.url;
+	}
+}
+
+function getXmlValue(xml: string, tag: string) {
+	const value = new RegExp(`<${tag}>([^<]*)</${tag}>`).exec(xml)?.[1];
+	return value
+		?.replaceAll("&lt;", "<")
+		.replaceAll("&gt;", ">")
+		.replaceAll("&quot;", '"')
+		.replaceAll("&apos;", "'")
+		.replaceAll("&amp;", "&");
+}
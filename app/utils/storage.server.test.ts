@@ -0,0 +1,204 @@
+import { once } from "node:events";
+import fs from "node:fs/promises";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { http as mswHttp, passthrough } from "msw";
+import { afterEach, expect, test } from "vitest";
+import { server as mockServer } from "#tests/mocks/index.ts";
+import type { StorageDriver } from "./storage-drivers/driver.ts";
+import { FileSystemStorage } from "./storage-drivers/fs.server.ts";
+import { S3Storage } from "./storage-drivers/s3.server.ts";
+
+const cleanups: Array<() => Promise<unknown>> = [];
+afterEach(async () => {
+	await Promise.all(cleanups.splice(0).map((cleanup) => cleanup()));
+});
+
+const text = (value: string) => new TextEncoder().encode(value);
+const read = (body: ReadableStream<Uint8Array>) => new Response(body).text();
+
+/**
+ * A tiny stand-in for an S3-compatible service (like MinIO) that keeps objects
+ * in memory. It lists two keys per page so we exercise continuation tokens.
+ */
+async function startS3Server() {
+	const objects = new Map<string, { body: Buffer; contentType: string }>();
+	const server = http.createServer(async (req, res) => {
+		const url = new URL(req.url ?? "/", "http://localhost");
+		const signed =
+			req.headers.authorization?.startsWith("AWS4-HMAC-SHA256") ||
+			url.searchParams.has("X-Amz-Signature");
+		if (!signed) return res.writeHead(403).end("unsigned");
+		const [, bucket, ...rest] = url.pathname.split("/");
+		if (bucket !== "bucket") return res.writeHead(404).end("NoSuchBucket");
+		const key = rest.map(decodeURIComponent).join("/");
+
+		if (req.method === "PUT") {
+			const chunks: Array<Buffer> = [];
+			for await (const chunk of req) chunks.push(chunk as Buffer);
+			objects.set(key, {
+				body: Buffer.concat(chunks),
+				contentType: req.headers["content-type"] ?? "",
+			});
+			return res.writeHead(200).end();
+		}
+		if (req.method === "DELETE") {
+			objects.delete(key);
+			return res.writeHead(204).end();
+		}
+		if (!key && url.searchParams.get("list-type") === "2") {
+			const prefix = url.searchParams.get("prefix") ?? "";
+			const keys = [...objects.keys()].filter((k) => k.startsWith(prefix));
+			const start = Number(url.searchParams.get("continuation-token") ?? 0);
+			const page = keys.slice(start, start + 2);
+			const truncated = start + 2 < keys.length;
+			return res
+				.writeHead(200, { "Content-Type": "application/xml" })
+				.end(
+					`<?xml version="1.0" encoding="UTF-8"?><ListBucketResult>${page
+						.map(
+							(k) =>
+								`<Contents><Key>${k.replaceAll(
+									"&",
+									"&amp;",
+								)}</Key><LastModified>2026-01-01T00:00:00.000Z</LastModified></Contents>`,
+						)
+						.join("")}<IsTruncated>${truncated}</IsTruncated>${
+						truncated
+							? `<NextContinuationToken>${start + 2}</NextContinuationToken>`
+							: ""
+					}</ListBucketResult>`,
+				);
+		}
+		const object = objects.get(key);
+		if (!object) return res.writeHead(404).end("NoSuchKey");
+		res
+			.writeHead(200, {
+				"Content-Type": object.contentType,
+				"Content-Length": object.body.byteLength,
+			})
+			.end(object.body);
+	});
+	server.listen(0, "127.0.0.1");
+	await once(server, "listening");
+	cleanups.push(
+		() => new Promise((resolve) => server.close(() => resolve(null))),
+	);
+	const { port } = server.address() as AddressInfo;
+	const endpoint = `http://127.0.0.1:${port}`;
+	mockServer.use(mswHttp.all(`${endpoint}/*`, () => passthrough()));
+	return { endpoint, objects };
+}
+
+function createS3Storage(endpoint: string, bucket = "bucket") {
+	return new S3Storage({
+		endpoint,
+		bucket,
+		region: "auto",
+		accessKeyId: "test-access-key",
+		secretAccessKey: "test-secret-key",
+	});
+}
+
+test("stores, reads, lists and deletes objects in S3", async () => {
+	const { endpoint, objects } = await startS3Server();
+	const storage = createS3Storage(endpoint);
+
+	await storage.put("note-images/a", text("first"), {
+		contentType: "image/png",
+	});
+	await storage.put("note-images/b&c", text("second"), {
+		contentType: "image/png",
+	});
+	await storage.put("note-images/d", text("third"), {
+		contentType: "image/png",
+	});
+	await storage.put("user-images/e", text("fourth"), {
+		contentType: "image/jpeg",
+	});
+	expect(objects.get("note-images/a")?.contentType).toBe("image/png");
+
+	const object = await storage.get("note-images/a");
+	expect(object?.size).toBe(5);
+	expect(object && (await read(object.body))).toBe("first");
+	expect(await storage.get("note-images/missing")).toBeNull();
+
+	const listed = await storage.list("note-images/");
+	expect(listed.map(({ key }) => key)).toEqual([
+		"note-images/a",
+		"note-images/b&c",
+		"note-images/d",
+	]);
+	expect(listed[0]?.lastModified).toEqual(new Date("2026-01-01T00:00:00Z"));
+
+	await storage.delete("note-images/a");
+	await storage.delete("note-images/a");
+	expect(objects.has("note-images/a")).toBe(false);
+});
+
+test("signs urls the browser can download S3 objects from", async () => {
+	const { endpoint } = await startS3Server();
+	const storage = createS3Storage(endpoint);
+	await storage.put("user-images/a", text("avatar"), {
+		contentType: "image/jpeg",
+	});
+
+	const url = new URL(
+		await storage.getSignedUrl("user-images/a", { expiresIn: 60 }),
+	);
+	expect(url.searchParams.get("X-Amz-Expires")).toBe("60");
+	expect(url.searchParams.get("X-Amz-Signature")).toBeTruthy();
+	const response = await fetch(url);
+	expect(response.headers.get("Content-Type")).toBe("image/jpeg");
+	expect(await response.text()).toBe("avatar");
+});
+
+test("S3 errors are thrown", async () => {
+	const { endpoint } = await startS3Server();
+	const storage = createS3Storage(endpoint, "missing-bucket");
+	await expect(
+		storage.put("note-images/a", text("first"), { contentType: "image/png" }),
+	).rejects.toThrow(/doesn't exist/);
+	await expect(storage.list("")).rejects.toThrow(/doesn't exist/);
+});
+
+test("stores objects on the filesystem", async () => {
+	const dir = await fs.mkdtemp(path.join(os.tmpdir(), "storage-"));
+	cleanups.push(() => fs.rm(dir, { recursive: true, force: true }));
+	const storage: StorageDriver = new FileSystemStorage(dir);
+
+	await storage.put("note-images/a", text("first"), {
+		contentType: "image/png",
+	});
+	await storage.put("user-images/b", text("second"), {
+		contentType: "image/png",
+	});
+	const object = await storage.get("note-images/a");
+	expect(object?.size).toBe(5);
+	expect(object && (await read(object.body))).toBe("first");
+	expect(await storage.get("note-images/missing")).toBeNull();
+	expect((await storage.list("note-images/")).map(({ key }) => key)).toEqual([
+		"note-images/a",
+	]);
+
+	await storage.delete("note-images/a");
+	await storage.delete("note-images/a");
+	expect(await storage.get("note-images/a")).toBeNull();
+	expect(await new FileSystemStorage(path.join(dir, "nope")).list("")).toEqual(
+		[],
+	);
+});
+
+test("filesystem keys can't point outside the storage directory", async () => {
+	const storage: StorageDriver = new FileSystemStorage(
+		path.join(os.tmpdir(), "storage"),
+	);
+	await expect(storage.get("../../etc/passwd")).rejects.toThrow(
+		/Invalid storage key/,
+	);
+	await expect(
+		storage.put("../outside", text("nope"), { contentType: "text/plain" }),
+	).rejects.toThrow(/Invalid storage key/);
+});
@@ -0,0 +1,145 @@
+import { invariant, invariantResponse } from "@epic-web/invariant";
+import { createId as cuid } from "@paralleldrive/cuid2";
+import { redirect } from "@remix-run/node";
+import { getTransformedImage } from "./image-transform.server.ts";
+import type { ImageTransform } from "./image-transform.ts";
+import type { StorageDriver } from "./storage-drivers/driver.ts";
+import { FileSystemStorage } from "./storage-drivers/fs.server.ts";
+import { S3Storage } from "./storage-drivers/s3.server.ts";
+
+// how long the links we redirect image requests to are valid for
+const SIGNED_URL_EXPIRY = 60 * 60;
+
+export const imageKinds = ["note-images", "user-images"] as const;
+export type ImageKind = (typeof imageKinds)[number];
+
+/**
+ * Picks where uploaded files are kept from STORAGE_DRIVER: a local directory
+ * (the default) or an S3-compatible bucket.
+ */
+export function getStorage(): StorageDriver {
+	switch (process.env.STORAGE_DRIVER) {
+		case "s3": {
+			const {
+				S3_ENDPOINT,
+				S3_BUCKET,
+				S3_REGION,
+				S3_ACCESS_KEY_ID,
+				S3_SECRET_ACCESS_KEY,
+			} = process.env;
+			invariant(
+				S3_ENDPOINT && S3_BUCKET && S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY,
+				"S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for S3 storage",
+			);
+			return new S3Storage({
+				endpoint: S3_ENDPOINT,
+				bucket: S3_BUCKET,
+				region: S3_REGION ?? "auto",
+				accessKeyId: S3_ACCESS_KEY_ID,
+				secretAccessKey: S3_SECRET_ACCESS_KEY,
+			});
+		}
+		default: {
+			return new FileSystemStorage();
+		}
+	}
+}
+
+/**
+ * Saves an uploaded image and returns the fields to create the image record
+ * with. The key is new every time so the image URLs can be cached forever.
+ */
+export async function storeImage(
+	kind: ImageKind,
+	{ contentType, blob }: { contentType: string; blob: Uint8Array },
+) {
+	const objectKey = `${kind}/${cuid()}`;
+	await getStorage().put(objectKey, blob, { contentType });
+	return { contentType, objectKey };
+}
+
+/**
+ * Serves an image record, resized and converted when there's a transform.
+ * Otherwise with S3 the browser is redirected to a signed URL so the bytes
+ * don't go through the app, and with the filesystem they're streamed. Images
+ * that haven't been moved out of the database yet are served from their blob.
+ */
+export async function getImageResponse(
+	image: {
+		id: string;
+		contentType: string;
+		objectKey: string | null;
+		blob: Uint8Array | null;
+	},
+	{ transform }: { transform?: ImageTransform | null } = {},
+) {
+	const headers = {
+		"Content-Type": image.contentType,
+		"Content-Disposition": `inline; filename="${image.id}"`,
+		"Cache-Control": "public, max-age=31536000, immutable",
+	};
+	if (transform) {
+		try {
+			const transformed = await getTransformedImage({
+				cacheKey: image.id,
+				transform,
+				getImage: () => readImage(image),
+			});
+			return new Response(transformed.blob, {
+				headers: {
+					...headers,
+					"Content-Type": transformed.contentType,
+					"Content-Length": transformed.blob.byteLength.toString(),
+				},
+			});
+		} catch (error: unknown) {
+			if (error instanceof Response) throw error;
+			// a format sharp can't read is still better shown at the wrong size
+			console.error(`Failed to transform image ${image.id}`, error);
+		}
+	}
+
+	if (!image.objectKey) {
+		invariantResponse(image.blob, "Not found", { status: 404 });
+		return new Response(image.blob, {
+			headers: {
+				...headers,
+				"Content-Length": image.blob.byteLength.toString(),
+			},
+		});
+	}
+
+	const storage = getStorage();
+	if (storage.getSignedUrl) {
+		const url = await storage.getSignedUrl(image.objectKey, {
+			expiresIn: SIGNED_URL_EXPIRY,
+		});
+		// the redirect can't be cached for longer than the link works
+		return redirect(url, {
+			headers: {
+				"Cache-Control": `public, max-age=${SIGNED_URL_EXPIRY / 2}`,
+			},
+		});
+	}
+
+	const object = await storage.get(image.objectKey);
+	invariantResponse(object, "Not found", { status: 404 });
+	return new Response(object.body, {
+		headers: { ...headers, "Content-Length": object.size.toString() },
+	});
+}
+
+async function readImage(image: {
+	contentType: string;
+	objectKey: string | null;
+	blob: Uint8Array | null;
+}) {
+	if (!image.objectKey) {
+		invariantResponse(image.blob, "Not found", { status: 404 });
+		return { contentType: image.contentType, blob: image.blob };
+	}
+	const object = await getStorage().get(image.objectKey);
+	invariantResponse(object, "Not found", { status: 404 });
+	const blob = new Uint8Array(await new Response(object.body).arrayBuffer());
+	return { contentType: image.contentType, blob };
+}
@@ -0,0 +1,36 @@
+import { expect, test } from "vitest";
+import { TagNameSchema } from "./tag-validation.ts";
+
+function getError(value: unknown) {
+	const result = TagNameSchema.safeParse(value);
+	return result.success ? null : result.error.issues[0]?.message;
+}
+
+test("tags are trimmed and lowercased", () => {
+	expect(TagNameSchema.parse("  Work ")).toBe("work");
+	expect(TagNameSchema.parse("ÉTÉ")).toBe("été");
+});
+
+test("letters, numbers, dashes and underscores are allowed", () => {
+	expect(TagNameSchema.parse("to-do_2")).toBe("to-do_2");
+	expect(TagNameSchema.parse("日本")).toBe("日本");
+});
+
+test("tags must have something other than whitespace", () => {
+	expect(getError(undefined)).toBe("Tag is required");
+	expect(getError("")).toBe("Tag is too short");
+	expect(getError("   ")).toBe("Tag is too short");
+});
+
+test("tags can be at most 30 characters once trimmed", () => {
+	expect(TagNameSchema.parse(` ${"a".repeat(30)} `)).toBe("a".repeat(30));
+	expect(getError("a".repeat(31))).toBe("Tag is too long");
+});
+
+test("spaces and punctuation aren't allowed", () => {
+	for (const value of ["two words", "comma,separated", "#hash", "a.b"]) {
+		expect(getError(value)).toBe(
+			"Tags can only include letters, numbers, dashes and underscores",
+		);
+	}
+});
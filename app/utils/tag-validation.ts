@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const TagNameSchema = z
+	.string({ required_error: "Tag is required" })
+	.trim()
+	.min(1, { message: "Tag is too short" })
+	.max(30, { message: "Tag is too long" })
+	.regex(/^[\p{L}\p{N}_-]+$/u, {
+		message: "Tags can only include letters, numbers, dashes and underscores",
+	})
+	// tags are case insensitive, so we store them in lowercase
+	.transform((value) => value.toLowerCase());
@@ -0,0 +1,35 @@
+import { expect, test } from "vitest";
+import { describeUserAgent } from "./user-agent.ts";
+
+test("describes common browsers", () => {
+	expect(
+		describeUserAgent(
+			"Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
+		),
+	).toBe("Chrome on macOS");
+	expect(
+		describeUserAgent(
+			"Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:125.0) Gecko/20100101 Firefox/125.0",
+		),
+	).toBe("Firefox on Windows");
+	expect(
+		describeUserAgent(
+			"Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0",
+		),
+	).toBe("Edge on Windows");
+	expect(
+		describeUserAgent(
+			"Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1",
+		),
+	).toBe("Safari on iOS");
+	expect(
+		describeUserAgent(
+			"Mozilla/5.0 (Linux; Android 14) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36",
+		),
+	).toBe("Chrome on Android");
+});
+
+test("falls back when it can't tell", () => {
+	expect(describeUserAgent(null)).toBe("Unknown device");
+	expect(describeUserAgent("curl/8.4.0")).toBe("Unknown device");
+});
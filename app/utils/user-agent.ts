@@ -0,0 +1,33 @@
+// order matters: Edge and Opera also say Chrome, and Chrome also says Safari
+const browsers: Array<[name: string, pattern: RegExp]> = [
+	["Edge", /Edg(e|A|iOS)?\//],
+	["Opera", /OPR\/|Opera/],
+	["Firefox", /Firefox\/|FxiOS\//],
+	["Chrome", /Chrome\/|CriOS\//],
+	["Safari", /Safari\//],
+];
+
+// and iOS devices say "like Mac OS X"
+const operatingSystems: Array<[name: string, pattern: RegExp]> = [
+	["iOS", /iPhone|iPad|iPod/],
+	["Android", /Android/],
+	["Windows", /Windows/],
+	["macOS", /Mac OS X|Macintosh/],
+	["ChromeOS", /CrOS/],
+	["Linux", /Linux/],
+];
+
+/**
+ * A rough, human friendly description of a user agent like "Firefox on
+ * Windows". It's only for helping people recognize their own devices, so
+ * don't use it for anything that matters.
+ */
+export function describeUserAgent(userAgent: string | null | undefined) {
+	if (!userAgent) return "Unknown device";
+	const browser = browsers.find(([, pattern]) => pattern.test(userAgent))?.[0];
+	const os = operatingSystems.find(([, pattern]) =>
+		pattern.test(userAgent),
+	)?.[0];
+	if (browser && os) return `${browser} on ${os}`;
+	return browser ?? os ?? "Unknown device";
+}
@@ -0,0 +1,36 @@
+import { expect, test } from "vitest";
+import {
+	defaultUserPreferences,
+	parseUserPreferences,
+} from "./user-preferences.ts";
+
+test("uses the defaults for users who haven't picked anything", () => {
+	expect(parseUserPreferences(null)).toEqual(defaultUserPreferences);
+	expect(parseUserPreferences(undefined)).toEqual(defaultUserPreferences);
+});
+
+test("keeps valid stored preferences", () => {
+	const preferences = {
+		appearance: "dark",
+		accentColor: "crimson",
+		grayColor: "mauve",
+		radius: "none",
+		scaling: "110%",
+	};
+	expect(parseUserPreferences(preferences)).toEqual(preferences);
+});
+
+test("falls back to the default for values it doesn't recognize", () => {
+	expect(
+		parseUserPreferences({
+			appearance: "sepia",
+			accentColor: "chartreuse",
+			grayColor: "slate",
+			radius: "huge",
+			scaling: "100%",
+		}),
+	).toEqual({
+		...defaultUserPreferences,
+		grayColor: "slate",
+	});
+});
@@ -0,0 +1,107 @@
+import type { ThemeProps } from "@radix-ui/themes";
+import { z } from "zod";
+
+export const appearances = ["system", "light", "dark"] as const;
+
+export const accentColors = [
+	"gray",
+	"gold",
+	"bronze",
+	"brown",
+	"yellow",
+	"amber",
+	"orange",
+	"tomato",
+	"red",
+	"ruby",
+	"crimson",
+	"pink",
+	"plum",
+	"purple",
+	"violet",
+	"iris",
+	"indigo",
+	"blue",
+	"cyan",
+	"teal",
+	"jade",
+	"green",
+	"grass",
+	"lime",
+	"mint",
+	"sky",
+] as const satisfies ReadonlyArray<NonNullable<ThemeProps["accentColor"]>>;
+
+export const grayColors = [
+	"auto",
+	"gray",
+	"mauve",
+	"slate",
+	"sage",
+	"olive",
+	"sand",
+] as const satisfies ReadonlyArray<NonNullable<ThemeProps["grayColor"]>>;
+
+export const radii = [
+	"none",
+	"small",
+	"medium",
+	"large",
+	"full",
+] as const satisfies ReadonlyArray<NonNullable<ThemeProps["radius"]>>;
+
+export const scalings = [
+	"90%",
+	"95%",
+	"100%",
+	"105%",
+	"110%",
+] as const satisfies ReadonlyArray<NonNullable<ThemeProps["scaling"]>>;
+
+export const UserPreferencesSchema = z.object({
+	appearance: z.enum(appearances),
+	accentColor: z.enum(accentColors),
+	grayColor: z.enum(grayColors),
+	radius: z.enum(radii),
+	scaling: z.enum(scalings),
+});
+export type UserPreferences = z.infer<typeof UserPreferencesSchema>;
+
+/** What everyone sees until they pick something else */
+export const defaultUserPreferences: UserPreferences = {
+	appearance: "system",
+	accentColor: "mint",
+	grayColor: "olive",
+	radius: "full",
+	scaling: "100%",
+};
+
+// anything unrecognized (like a color a Radix upgrade dropped) falls back to
+// the default rather than breaking every page for that user
+const StoredUserPreferencesSchema = z.object({
+	appearance: UserPreferencesSchema.shape.appearance.catch(
+		defaultUserPreferences.appearance,
+	),
+	accentColor: UserPreferencesSchema.shape.accentColor.catch(
+		defaultUserPreferences.accentColor,
+	),
+	grayColor: UserPreferencesSchema.shape.grayColor.catch(
+		defaultUserPreferences.grayColor,
+	),
+	radius: UserPreferencesSchema.shape.radius.catch(
+		defaultUserPreferences.radius,
+	),
+	scaling: UserPreferencesSchema.shape.scaling.catch(
+		defaultUserPreferences.scaling,
+	),
+});
+
+/**
+ * Turns a stored UserPreference row (or the lack of one) into preferences we
+ * can hand to the Radix Theme.
+ */
+export function parseUserPreferences(
+	preference: Partial<Record<keyof UserPreferences, string>> | null | undefined,
+): UserPreferences {
+	return StoredUserPreferencesSchema.parse(preference ?? {});
+}
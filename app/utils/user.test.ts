@@ -0,0 +1,67 @@
+import { expect, test } from "vitest";
+import {
+	getNotePermission,
+	PermissionStringSchema,
+	userHasPermission,
+	type PermissionString,
+} from "./user.ts";
+
+test("owners need the own access", () => {
+	expect(getNotePermission("update", { isOwner: true })).toBe(
+		"update:note:own,any",
+	);
+});
+
+test("read shares allow reading but not updating", () => {
+	expect(
+		getNotePermission("read", { isOwner: false, sharedAccess: "read" }),
+	).toBe("read:note:shared,any");
+	expect(
+		getNotePermission("update", { isOwner: false, sharedAccess: "read" }),
+	).toBe("update:note:any");
+});
+
+test("edit shares allow updating but not deleting", () => {
+	expect(
+		getNotePermission("update", { isOwner: false, sharedAccess: "edit" }),
+	).toBe("update:note:shared,any");
+	expect(
+		getNotePermission("delete", { isOwner: false, sharedAccess: "edit" }),
+	).toBe("delete:note:any");
+});
+
+test("everyone else needs the any access", () => {
+	expect(getNotePermission("read", { isOwner: false })).toBe("read:note:any");
+});
+
+test("permission strings are validated at runtime", () => {
+	expect(PermissionStringSchema.safeParse("read:note").success).toBe(true);
+	expect(PermissionStringSchema.safeParse("read:note:own,any").success).toBe(
+		true,
+	);
+	expect(PermissionStringSchema.safeParse("read:note:own,own").success).toBe(
+		false,
+	);
+	expect(PermissionStringSchema.safeParse("publish:note:own").success).toBe(
+		false,
+	);
+	expect(PermissionStringSchema.safeParse("read:role").success).toBe(false);
+	expect(PermissionStringSchema.safeParse("read:note:own:any").success).toBe(
+		false,
+	);
+});
+
+test("malformed permissions are never granted", () => {
+	const user = {
+		roles: [
+			{
+				name: "user",
+				permissions: [{ action: "read", entity: "note", access: "own" }],
+			},
+		],
+	};
+	expect(userHasPermission(user, "read:note:own")).toBe(true);
+	expect(
+		userHasPermission(user, "read:note:own,everyone" as PermissionString),
+	).toBe(false);
+});
@@ -1,5 +1,6 @@
 import type { SerializeFrom } from "@remix-run/node";
 import { useRouteLoaderData } from "@remix-run/react";
+import { z } from "zod";
 import type { loader as rootLoader } from "#app/root.tsx";
 
 function isUser(user: any): user is SerializeFrom<typeof rootLoader>["user"] {
@@ -24,12 +25,46 @@ export function useUser() {
 	return maybeUser;
 }
 
-type Action = "create" | "read" | "update" | "delete";
-type Entity = "user" | "note";
-type Access = "own" | "any" | "own,any" | "any,own";
+export const ActionSchema = z.enum(["create", "read", "update", "delete"]);
+export const EntitySchema = z.enum(["user", "note"]);
+export const AccessLevelSchema = z.enum(["own", "shared", "any"]);
+
+export type Action = z.infer<typeof ActionSchema>;
+type Entity = z.infer<typeof EntitySchema>;
+export type AccessLevel = z.infer<typeof AccessLevelSchema>;
+type Access =
+	| AccessLevel
+	| `${AccessLevel},${AccessLevel}`
+	| `${AccessLevel},${AccessLevel},${AccessLevel}`;
 export type PermissionString =
 	| `${Action}:${Entity}`
 	| `${Action}:${Entity}:${Access}`;
+export type NoteShareAccess = "read" | "edit";
+
+/**
+ * The runtime counterpart of `PermissionString`, for permission strings that
+ * don't come from our own code (like forms in the admin UI).
+ */
+export const PermissionStringSchema = z
+	.string()
+	.refine(
+		(value) => {
+			const [action, entity, access, ...rest] = value.split(":");
+			if (rest.length) return false;
+			if (!ActionSchema.safeParse(action).success) return false;
+			if (!EntitySchema.safeParse(entity).success) return false;
+			if (access === undefined) return true;
+			const accessLevels = access.split(",");
+			return (
+				accessLevels.length === new Set(accessLevels).size &&
+				accessLevels.every(
+					(level) => AccessLevelSchema.safeParse(level).success,
+				)
+			);
+		},
+		{ message: "Invalid permission" },
+	)
+	.transform((value) => value as PermissionString);
 
 export function parsePermissionString(permissionString: PermissionString) {
 	const [action, entity, access] = permissionString.split(":") as [
@@ -40,7 +75,7 @@ export function parsePermissionString(permissionString: PermissionString) {
 	return {
 		action,
 		entity,
-		access: access ? (access.split(",") as Array<Access>) : undefined,
+		access: access ? (access.split(",") as Array<AccessLevel>) : undefined,
 	};
 }
 
@@ -49,6 +84,9 @@ export function userHasPermission(
 	permission: PermissionString,
 ) {
 	if (!user) return false;
+	// the type doesn't guarantee much for strings that were cast or came from
+	// the database, and a malformed one should never grant anything
+	if (!PermissionStringSchema.safeParse(permission).success) return false;
 	const { action, entity, access } = parsePermissionString(permission);
 	return user.roles.some((role) =>
 		role.permissions.some(
@@ -60,6 +98,30 @@ export function userHasPermission(
 	);
 }
 
+/**
+ * Builds the permission needed to perform an action on a note. Owners need the
+ * "own" access, users the note has been shared with need the "shared" access
+ * (edit shares allow reading and updating, read shares only reading) and
+ * anyone else needs the "any" access.
+ */
+export function getNotePermission(
+	action: Action,
+	{
+		isOwner,
+		sharedAccess,
+	}: { isOwner: boolean; sharedAccess?: NoteShareAccess | null },
+): PermissionString {
+	const shareAllowsAction =
+		(action === "read" && Boolean(sharedAccess)) ||
+		(action === "update" && sharedAccess === "edit");
+	const access: Array<AccessLevel> = isOwner
+		? ["own", "any"]
+		: shareAllowsAction
+			? ["shared", "any"]
+			: ["any"];
+	return `${action}:note:${access.join(",") as Access}`;
+}
+
 export function userHasRole(
 	user: Pick<ReturnType<typeof useUser>, "roles"> | null,
 	role: string,
@@ -0,0 +1,475 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import dns from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import { isIPv4, isIPv6, type LookupFunction } from "node:net";
+import { createId as cuid } from "@paralleldrive/cuid2";
+import { apiNoteSelect, serializeApiNote } from "./api.server.ts";
+import { prisma } from "./db.server.ts";
+import { enqueueJob } from "./jobs/queue.server.ts";
+import { getErrorMessage } from "./misc.tsx";
+import {
+	WEBHOOK_MAX_CONSECUTIVE_FAILURES,
+	WEBHOOK_SIGNATURE_HEADER,
+	WEBHOOK_TEST_EVENT,
+	parseWebhookEvents,
+	type WebhookEvent,
+} from "./webhooks.ts";
+
+// how old a signature's timestamp can be before receivers should reject it,
+// so a captured request can't be replayed later
+const SIGNATURE_TOLERANCE = 60 * 5;
+const DELIVERY_TIMEOUT = 1000 * 10;
+// enough of the response to see what went wrong in the delivery log
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+export function createWebhookSecret() {
+	return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Refuses the URLs we can tell are private from the URL alone, so people find
+ * out when they save the webhook. Names are checked again by what they resolve
+ * to when a delivery connects. Anything goes outside of production so a local
+ * receiver can be used while developing.
+ */
+export function getWebhookUrlError(url: string) {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return "Must be a valid URL";
+	}
+	if (parsed.username || parsed.password) {
+		return "Must not include a username or password";
+	}
+	if (process.env.NODE_ENV !== "production") {
+		return ["http:", "https:"].includes(parsed.protocol)
+			? null
+			: "Must be an http or https URL";
+	}
+	if (parsed.protocol !== "https:") return "Must be an https URL";
+	if (isPrivateHost(parsed.hostname)) return "Must be a public address";
+	return null;
+}
+
+function isPrivateHost(hostname: string) {
+	const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+	if (
+		host === "localhost" ||
+		host.endsWith(".localhost") ||
+		host.endsWith(".local") ||
+		host.endsWith(".internal")
+	) {
+		return true;
+	}
+	return (isIPv4(host) || isIPv6(host)) && isPrivateAddress(host);
+}
+
+function isPrivateAddress(address: string) {
+	if (isIPv4(address)) return isPrivateIPv4(address.split(".").map(Number));
+	if (isIPv6(address)) return isPrivateIPv6(getIPv6Groups(address));
+	// not something we can check, so not something we connect to
+	return true;
+}
+
+function isPrivateIPv4([a = 0, b = 0]: Array<number>) {
+	return (
+		a === 0 ||
+		a === 10 ||
+		a === 127 ||
+		(a === 100 && b >= 64 && b <= 127) ||
+		(a === 169 && b === 254) ||
+		(a === 172 && b >= 16 && b <= 31) ||
+		(a === 192 && b === 168) ||
+		// multicast and reserved
+		a >= 224
+	);
+}
+
+function isPrivateIPv6(groups: Array<number>) {
+	const [first = 0, second = 0, third = 0] = groups;
+	const isZero = (from: number, to: number) =>
+		groups.slice(from, to).every((group) => group === 0);
+	const getIPv4 = (high = 0, low = 0) => [
+		high >> 8,
+		high & 0xff,
+		low >> 8,
+		low & 0xff,
+	];
+	// these carry an IPv4 address in their last 32 bits: the unspecified and
+	// loopback addresses (0.0.0.0 and 0.0.0.1 that way), IPv4-compatible
+	// ones like ::7f00:1, IPv4-mapped ones and NAT64
+	if (
+		isZero(0, 6) ||
+		(isZero(0, 5) && groups[5] === 0xffff) ||
+		(first === 0x64 && second === 0xff9b && isZero(2, 6))
+	) {
+		return isPrivateIPv4(getIPv4(groups[6], groups[7]));
+	}
+	// 6to4 has it right after the prefix
+	if (first === 0x2002) return isPrivateIPv4(getIPv4(second, third));
+	return (
+		// unique local
+		(first & 0xfe00) === 0xfc00 ||
+		// link-local and the old site-local
+		(first & 0xffc0) === 0xfe80 ||
+		(first & 0xffc0) === 0xfec0 ||
+		// multicast
+		(first & 0xff00) === 0xff00
+	);
+}
+
+function getIPv6Groups(address: string) {
+	let text = address.toLowerCase().split("%")[0] ?? "";
+	// the last 32 bits can be written like an IPv4 address
+	const ipv4 = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+	if (ipv4) {
+		const [a = 0, b = 0, c = 0, d = 0] = ipv4.slice(1).map(Number);
+		const high = ((a << 8) | b).toString(16);
+		const low = ((c << 8) | d).toString(16);
+		text = `${text.slice(0, ipv4.index)}${high}:${low}`;
+	}
+	const [head = "", tail] = text.split("::");
+	const headGroups = head ? head.split(":") : [];
+	const tailGroups = tail ? tail.split(":") : [];
+	return [
+		...headGroups,
+		...Array<string>(8 - headGroups.length - tailGroups.length).fill("0"),
+		...tailGroups,
+	].map((group) => Number.parseInt(group, 16));
+}
+
+/**
+ * Resolves the webhook's host for the connection itself, so the addresses we
+ * check are the ones we connect to and a name can't be pointed somewhere
+ * private between the check and the request.
+ */
+const lookupWebhookAddress: LookupFunction = (hostname, options, callback) => {
+	dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+		if (error) return callback(error, []);
+		const privateAddress =
+			process.env.NODE_ENV === "production"
+				? addresses.find(({ address }) => isPrivateAddress(address))
+				: undefined;
+		if (privateAddress) {
+			return callback(
+				new Error(
+					`${hostname} resolves to ${privateAddress.address}, which isn't a public address`,
+				),
+				[],
+			);
+		}
+		if (options.all) return callback(null, addresses);
+		const [first] = addresses;
+		callback(null, first?.address ?? "", first?.family);
+	});
+};
+
+/**
+ * POSTs a delivery and keeps just the start of the response. Redirects
+ * aren't followed, they could point anywhere, including somewhere we refuse.
+ */
+export function sendWebhookRequest(
+	url: string,
+	{ headers, body }: { headers: Record<string, string>; body: string },
+) {
+	return new Promise<{ status: number; body: string }>((resolve, reject) => {
+		const parsed = new URL(url);
+		const request = (parsed.protocol === "https:" ? https : http).request(
+			parsed,
+			{
+				method: "POST",
+				headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+				lookup: lookupWebhookAddress,
+				signal: AbortSignal.timeout(DELIVERY_TIMEOUT),
+			},
+		);
+		request.on("error", reject);
+		request.on("response", (response) => {
+			let text = "";
+			response.setEncoding("utf8");
+			response.on("data", (chunk: string) => {
+				text += chunk;
+				// there's no need to wait for the rest of a big response
+				if (text.length >= MAX_RESPONSE_BODY_LENGTH) response.destroy();
+			});
+			response.on("error", reject);
+			response.on("close", () =>
+				resolve({
+					status: response.statusCode ?? 0,
+					body: text.slice(0, MAX_RESPONSE_BODY_LENGTH),
+				}),
+			);
+		});
+		request.end(body);
+	});
+}
+
+/**
+ * The signature header for a payload: `t=<unix seconds>,v1=<hex HMAC-SHA256
+ * of "<t>.<payload>">`. The timestamp is signed too so it can't be changed.
+ */
+export function signWebhookPayload(
+	secret: string,
+	payload: string,
+	timestamp = Math.floor(Date.now() / 1000),
+) {
+	const signature = createHmac("sha256", secret)
+		.update(`${timestamp}.${payload}`)
+		.digest("hex");
+	return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * What a receiver does with the signature header, here for our tests and as
+ * a reference for anyone writing one.
+ */
+export function verifyWebhookSignature({
+	secret,
+	payload,
+	header,
+	now = Date.now(),
+}: {
+	secret: string;
+	payload: string;
+	header: string | null;
+	now?: number;
+}) {
+	const parts = new Map(
+		(header ?? "").split(",").map((part) => {
+			const [key = "", ...value] = part.split("=");
+			return [key.trim(), value.join("=")] as const;
+		}),
+	);
+	const timestamp = Number(parts.get("t"));
+	const signature = parts.get("v1");
+	if (!Number.isInteger(timestamp) || !signature) return false;
+	if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE) return false;
+
+	const expected = Buffer.from(
+		signWebhookPayload(secret, payload, timestamp).split("v1=")[1] ?? "",
+	);
+	const actual = Buffer.from(signature);
+	return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function queueWebhookDelivery(
+	webhookId: string,
+	event: WebhookEvent | typeof WEBHOOK_TEST_EVENT,
+	data: unknown,
+) {
+	// the payload includes its own id so receivers can ignore a retry of a
+	// delivery they already handled
+	const id = cuid();
+	const payload = JSON.stringify({
+		id,
+		event,
+		createdAt: new Date().toISOString(),
+		data,
+	});
+	await prisma.webhookDelivery.create({
+		select: { id: true },
+		data: { id, webhookId, event, payload },
+	});
+	await enqueueJob("webhook-delivery", { deliveryId: id });
+	return { id };
+}
+
+/**
+ * Queues a delivery of the event to each of the user's webhooks that wants
+ * it. The data is only loaded when there's at least one.
+ */
+export async function triggerWebhookEvent({
+	userId,
+	event,
+	getData,
+}: {
+	userId: string;
+	event: WebhookEvent;
+	getData: () => unknown;
+}) {
+	const webhooks = (
+		await prisma.webhook.findMany({
+			select: { id: true, events: true },
+			where: { userId, enabled: true },
+		})
+	).filter((webhook) => parseWebhookEvents(webhook.events).includes(event));
+	if (!webhooks.length) return [];
+
+	const data = await getData();
+	return Promise.all(
+		webhooks.map((webhook) => queueWebhookDelivery(webhook.id, event, data)),
+	);
+}
+
+/**
+ * Note events go to the owner's webhooks, whoever made the change. The note
+ * is sent the way the API returns it, except for deleted notes which only
+ * have their id left.
+ */
+export function triggerNoteWebhookEvent(
+	request: Request,
+	event: "note.created" | "note.updated" | "note.deleted",
+	note: { id: string; ownerId: string },
+) {
+	return triggerWebhookEvent({
+		userId: note.ownerId,
+		event,
+		getData: async () => {
+			if (event === "note.deleted") return { note: { id: note.id } };
+			const data = await prisma.note.findUniqueOrThrow({
+				select: apiNoteSelect,
+				where: { id: note.id },
+			});
+			return { note: serializeApiNote(request, data) };
+		},
+	});
+}
+
+export function triggerProfileWebhookEvent(
+	userId: string,
+	changes: Array<"name" | "username" | "email" | "photo">,
+) {
+	return triggerWebhookEvent({
+		userId,
+		event: "profile.updated",
+		getData: async () => ({
+			user: await prisma.user.findUniqueOrThrow({
+				select: { id: true, username: true, name: true, email: true },
+				where: { id: userId },
+			}),
+			changes,
+		}),
+	});
+}
+
+export function sendTestWebhookEvent(webhook: { id: string; url: string }) {
+	return queueWebhookDelivery(webhook.id, WEBHOOK_TEST_EVENT, {
+		webhook: { id: webhook.id, url: webhook.url },
+	});
+}
+
+/**
+ * Makes one attempt at a delivery and records how it went. Runs from the
+ * webhook-delivery job, so throwing gets it retried with backoff.
+ */
+export async function deliverWebhook({ deliveryId }: { deliveryId: string }) {
+	const delivery = await prisma.webhookDelivery.findUnique({
+		select: {
+			id: true,
+			event: true,
+			payload: true,
+			status: true,
+			webhook: {
+				select: { id: true, url: true, secret: true, enabled: true },
+			},
+		},
+		where: { id: deliveryId },
+	});
+	// the webhook was deleted or an earlier attempt got through
+	if (!delivery || delivery.status !== "pending") return null;
+	const { webhook } = delivery;
+	// test events still go out so a fix can be checked before turning it on
+	if (!webhook.enabled && delivery.event !== WEBHOOK_TEST_EVENT) {
+		await prisma.webhookDelivery.update({
+			select: { id: true },
+			where: { id: delivery.id },
+			data: {
+				status: "failed",
+				error: "The webhook was turned off before this could be delivered",
+			},
+		});
+		return null;
+	}
+
+	const startedAt = Date.now();
+	let responseStatus: number | null = null;
+	let responseBody: string | null = null;
+	let error: string | null = null;
+	try {
+		const urlError = getWebhookUrlError(webhook.url);
+		if (urlError) throw new Error(`The URL isn't allowed: ${urlError}`);
+		const response = await sendWebhookRequest(webhook.url, {
+			headers: {
+				"Content-Type": "application/json",
+				"User-Agent": "EpicNotes-Webhooks/1.0",
+				"Webhook-Id": delivery.id,
+				"Webhook-Event": delivery.event,
+				[WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+					webhook.secret,
+					delivery.payload,
+				),
+			},
+			body: delivery.payload,
+		});
+		responseStatus = response.status;
+		responseBody = response.body;
+		if (response.status < 200 || response.status >= 300) {
+			error = `The endpoint responded with ${response.status}`;
+		}
+	} catch (attemptError: unknown) {
+		error = getErrorMessage(attemptError);
+	}
+
+	await prisma.webhookDelivery.update({
+		select: { id: true },
+		where: { id: delivery.id },
+		data: {
+			status: error ? "pending" : "succeeded",
+			attempts: { increment: 1 },
+			responseStatus,
+			responseBody,
+			error,
+			duration: Date.now() - startedAt,
+			lastAttemptAt: new Date(),
+		},
+	});
+	if (error) throw new Error(error);
+
+	await prisma.webhook.updateMany({
+		where: { id: webhook.id, consecutiveFailures: { gt: 0 } },
+		data: { consecutiveFailures: 0 },
+	});
+	return { responseStatus };
+}
+
+/**
+ * Called once the last attempt has failed. Turns the webhook off when it's
+ * been failing for a while, a receiver that's gone shouldn't be retried
+ * forever.
+ */
+export async function markWebhookDeliveryFailed({
+	deliveryId,
+}: {
+	deliveryId: string;
+}) {
+	const delivery = await prisma.webhookDelivery.findUnique({
+		select: { status: true, webhookId: true },
+		where: { id: deliveryId },
+	});
+	if (!delivery || delivery.status !== "pending") return;
+	await prisma.webhookDelivery.update({
+		select: { id: true },
+		where: { id: deliveryId },
+		data: { status: "failed" },
+	});
+	const webhook = await prisma.webhook.update({
+		select: { enabled: true, consecutiveFailures: true },
+		where: { id: delivery.webhookId },
+		data: { consecutiveFailures: { increment: 1 } },
+	});
+	if (
+		webhook.enabled &&
+		webhook.consecutiveFailures >= WEBHOOK_MAX_CONSECUTIVE_FAILURES
+	) {
+		await prisma.webhook.update({
+			select: { id: true },
+			where: { id: delivery.webhookId },
+			data: {
+				enabled: false,
+				disabledReason: `Turned off after ${webhook.consecutiveFailures} deliveries in a row failed`,
+			},
+		});
+	}
+}
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import type { I18n, MessageKey } from "./i18n.ts";
+
+export const webhookEventLabels = {
+	"note.created": "webhooks.event.noteCreated",
+	"note.updated": "webhooks.event.noteUpdated",
+	"note.deleted": "webhooks.event.noteDeleted",
+	"profile.updated": "webhooks.event.profileUpdated",
+} as const satisfies Record<string, MessageKey>;
+
+export type WebhookEvent = keyof typeof webhookEventLabels;
+
+export const webhookEvents = Object.keys(
+	webhookEventLabels,
+) as Array<WebhookEvent>;
+
+export const WebhookEventSchema = z.enum(
+	webhookEvents as [WebhookEvent, ...Array<WebhookEvent>],
+);
+
+export const WEBHOOK_SIGNATURE_HEADER = "Webhook-Signature";
+
+// after this many deliveries in a row fail every attempt we stop sending
+export const WEBHOOK_MAX_CONSECUTIVE_FAILURES = 5;
+
+// sent by the "Send test event" button, whatever events the webhook is for
+export const WEBHOOK_TEST_EVENT = "ping";
+
+export const webhookDeliveryStatuses = [
+	"pending",
+	"succeeded",
+	"failed",
+] as const;
+export type WebhookDeliveryStatus = (typeof webhookDeliveryStatuses)[number];
+
+export function getWebhookEventLabel(event: string, t: I18n["t"]) {
+	if (event === WEBHOOK_TEST_EVENT) return t("webhooks.event.test");
+	return event in webhookEventLabels
+		? t(webhookEventLabels[event as WebhookEvent])
+		: event;
+}
+
+/**
+ * The events are stored as a JSON array, anything we don't know (anymore) is
+ * left out.
+ */
+export function parseWebhookEvents(events: string): Array<WebhookEvent> {
+	try {
+		const data: unknown = JSON.parse(events);
+		if (!Array.isArray(data)) return [];
+		return webhookEvents.filter((event) => data.includes(event));
+	} catch {
+		return [];
+	}
+}
@@ -0,0 +1,59 @@
+// Moves images that are still stored as blobs in the database out to the
+// configured storage (see app/utils/storage.server.ts). Run it on the primary
+// instance after deploying: npm run storage:migrate-images
+// It's safe to stop and run again, each image is moved on its own.
+import "dotenv/config";
+import { prisma } from "#app/utils/db.server.ts";
+import { storeImage, type ImageKind } from "#app/utils/storage.server.ts";
+
+const BATCH_SIZE = 20;
+
+type BlobImage = { id: string; contentType: string; blob: Uint8Array | null };
+
+async function moveImages(
+	kind: ImageKind,
+	findImages: () => Promise<Array<BlobImage>>,
+	moveImage: (id: string, objectKey: string) => Promise<{ count: number }>,
+) {
+	let moved = 0;
+	let images = await findImages();
+	while (images.length) {
+		for (const image of images) {
+			if (!image.blob) continue;
+			const { objectKey } = await storeImage(kind, {
+				contentType: image.contentType,
+				blob: image.blob,
+			});
+			// the file is left for maintenance to clean up if the image changed
+			// while we were storing it
+			const { count } = await moveImage(image.id, objectKey);
+			moved += count;
+		}
+		images = await findImages();
+	}
+	console.log(`📦 Moved ${moved} ${kind} to storage`);
+}
+
+const select = { id: true, contentType: true, blob: true };
+const where = { objectKey: null, blob: { not: null } };
+const data = (objectKey: string) => ({ objectKey, blob: null });
+
+await moveImages(
+	"note-images",
+	() => prisma.noteImage.findMany({ select, where, take: BATCH_SIZE }),
+	(id, objectKey) =>
+		prisma.noteImage.updateMany({
+			where: { id, ...where },
+			data: data(objectKey),
+		}),
+);
+await moveImages(
+	"user-images",
+	() => prisma.userImage.findMany({ select, where, take: BATCH_SIZE }),
+	(id, objectKey) =>
+		prisma.userImage.updateMany({
+			where: { id, ...where },
+			data: data(objectKey),
+		}),
+);
+await prisma.$disconnect();
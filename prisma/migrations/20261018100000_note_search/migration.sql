@@ -0,0 +1,36 @@
+-- Prisma doesn't know about virtual tables or triggers, so everything in this
+-- migration is managed by hand. If a future migration redefines the "Note"
+-- table (Prisma does this by copying it into a new table), the triggers below
+-- are dropped along with it and need to be recreated in that migration.
+
+-- CreateVirtualTable
+-- "noteId" is indexed (with a bm25 weight of 0) so the triggers can find the
+-- row for a note with a MATCH lookup instead of scanning the whole table.
+CREATE VIRTUAL TABLE "NoteSearch" USING fts5(
+    "noteId",
+    "title",
+    "content",
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Backfill
+INSERT INTO "NoteSearch" ("noteId", "title", "content")
+SELECT "id", "title", "content" FROM "Note";
+
+-- CreateTrigger
+CREATE TRIGGER "Note_search_insert" AFTER INSERT ON "Note" BEGIN
+    INSERT INTO "NoteSearch" ("noteId", "title", "content")
+    VALUES (new."id", new."title", new."content");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Note_search_update" AFTER UPDATE OF "title", "content" ON "Note" BEGIN
+    DELETE FROM "NoteSearch" WHERE "NoteSearch" MATCH 'noteId:"' || old."id" || '"';
+    INSERT INTO "NoteSearch" ("noteId", "title", "content")
+    VALUES (new."id", new."title", new."content");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "Note_search_delete" AFTER DELETE ON "Note" BEGIN
+    DELETE FROM "NoteSearch" WHERE "NoteSearch" MATCH 'noteId:"' || old."id" || '"';
+END;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "NoteRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "noteId" TEXT NOT NULL,
+    "authorId" TEXT,
+    CONSTRAINT "NoteRevision_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "NoteRevision_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "NoteRevision_noteId_createdAt_idx" ON "NoteRevision"("noteId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "NoteRevision_authorId_idx" ON "NoteRevision"("authorId");
+
+-- Backfill
+-- Every existing note gets its current state as the first revision so there's
+-- something to diff against and restore to. The ids only need to be unique.
+INSERT INTO "NoteRevision" ("id", "title", "content", "createdAt", "noteId", "authorId")
+SELECT lower(hex(randomblob(12))), "title", "content", "updatedAt", "id", "ownerId" FROM "Note";
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "NoteShare" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "access" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "NoteShare_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "NoteShare_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "NoteShareLink" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "token" TEXT NOT NULL,
+    "expiresAt" DATETIME,
+    "revokedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "noteId" TEXT NOT NULL,
+    CONSTRAINT "NoteShareLink_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "NoteShare_userId_idx" ON "NoteShare"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NoteShare_noteId_userId_key" ON "NoteShare"("noteId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NoteShareLink_token_key" ON "NoteShareLink"("token");
+
+-- CreateIndex
+CREATE INDEX "NoteShareLink_noteId_idx" ON "NoteShareLink"("noteId");
+
+--------------------------------- Manual Seeding --------------------------
+-- "shared" access applies to notes other users have shared with you. Regular
+-- users get it for reading and editing, admins already have "any" access.
+INSERT INTO Permission VALUES('clxq3h8ya0000shr1read0note','read','note','shared','',1792404000000,1792404000000);
+INSERT INTO Permission VALUES('clxq3h8ya0001shr1updatenot','update','note','shared','',1792404000000,1792404000000);
+
+INSERT INTO _PermissionToRole VALUES('clxq3h8ya0000shr1read0note','clnf2zvlx000hpcou5dfrbegs');
+INSERT INTO _PermissionToRole VALUES('clxq3h8ya0001shr1updatenot','clnf2zvlx000hpcou5dfrbegs');
@@ -0,0 +1,24 @@
+-- RedefineTables
+-- SQLite can't add a column with a non-constant default, so the table is
+-- rebuilt. Existing sessions were last seen when they were last updated.
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Session" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "expirationDate" DATETIME NOT NULL,
+    "userAgent" TEXT,
+    "ip" TEXT,
+    "location" TEXT,
+    "lastSeenAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "Session_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Session" ("id", "expirationDate", "lastSeenAt", "createdAt", "updatedAt", "userId")
+SELECT "id", "expirationDate", "updatedAt", "createdAt", "updatedAt", "userId" FROM "Session";
+DROP TABLE "Session";
+ALTER TABLE "new_Session" RENAME TO "Session";
+CREATE INDEX "Session_userId_idx" ON "Session"("userId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
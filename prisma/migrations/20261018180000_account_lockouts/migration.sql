@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "AccountLockout" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "lastFailedAt" DATETIME NOT NULL,
+    "lockedUntil" DATETIME,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "AccountLockout_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountLockout_userId_type_key" ON "AccountLockout"("userId", "type");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "MaintenanceRun" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "trigger" TEXT NOT NULL,
+    "sessions" INTEGER NOT NULL DEFAULT 0,
+    "verifications" INTEGER NOT NULL DEFAULT 0,
+    "images" INTEGER NOT NULL DEFAULT 0,
+    "jobs" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "MaintenanceRun_createdAt_idx" ON "MaintenanceRun"("createdAt");
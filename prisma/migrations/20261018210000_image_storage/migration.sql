@@ -0,0 +1,40 @@
+-- RedefineTables
+-- SQLite can't drop NOT NULL from a column, so the tables are rebuilt. The
+-- blobs stay where they are until other/migrate-image-blobs.ts moves them to
+-- storage.
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_NoteImage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "altText" TEXT,
+    "contentType" TEXT NOT NULL,
+    "objectKey" TEXT,
+    "blob" BLOB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "noteId" TEXT NOT NULL,
+    CONSTRAINT "NoteImage_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_NoteImage" ("id", "altText", "contentType", "blob", "createdAt", "updatedAt", "noteId")
+SELECT "id", "altText", "contentType", "blob", "createdAt", "updatedAt", "noteId" FROM "NoteImage";
+DROP TABLE "NoteImage";
+ALTER TABLE "new_NoteImage" RENAME TO "NoteImage";
+CREATE INDEX "NoteImage_noteId_idx" ON "NoteImage"("noteId");
+CREATE TABLE "new_UserImage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "altText" TEXT,
+    "contentType" TEXT NOT NULL,
+    "objectKey" TEXT,
+    "blob" BLOB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "UserImage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_UserImage" ("id", "altText", "contentType", "blob", "createdAt", "updatedAt", "userId")
+SELECT "id", "altText", "contentType", "blob", "createdAt", "updatedAt", "userId" FROM "UserImage";
+DROP TABLE "UserImage";
+ALTER TABLE "new_UserImage" RENAME TO "UserImage";
+CREATE UNIQUE INDEX "UserImage_userId_key" ON "UserImage"("userId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
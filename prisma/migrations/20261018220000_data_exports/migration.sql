@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "MaintenanceRun" ADD COLUMN "dataExports" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "DataExport" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "objectKey" TEXT,
+    "size" INTEGER,
+    "expiresAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" DATETIME,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "DataExport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DataExport_userId_createdAt_idx" ON "DataExport"("userId", "createdAt");
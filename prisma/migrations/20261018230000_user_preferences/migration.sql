@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "UserPreference" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "appearance" TEXT NOT NULL DEFAULT 'system',
+    "accentColor" TEXT NOT NULL DEFAULT 'mint',
+    "grayColor" TEXT NOT NULL DEFAULT 'olive',
+    "radius" TEXT NOT NULL DEFAULT 'full',
+    "scaling" TEXT NOT NULL DEFAULT '100%',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "userId" TEXT NOT NULL,
+    CONSTRAINT "UserPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserPreference_userId_key" ON "UserPreference"("userId");
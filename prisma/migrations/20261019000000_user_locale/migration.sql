@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserPreference" ADD COLUMN "locale" TEXT;
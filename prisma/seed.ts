@@ -32,6 +32,11 @@ async function seed() {
 			}
 		}
 	}
+	// users can also read and update notes that have been shared with them
+	permissionsToCreate.push(
+		{ entity: "note", action: "read", access: "shared" },
+		{ entity: "note", action: "update", access: "shared" },
+	);
 	await prisma.permission.createMany({ data: permissionsToCreate });
 	console.timeEnd("🔑 Created permissions...");
 
@@ -53,7 +58,7 @@ async function seed() {
 			permissions: {
 				connect: await prisma.permission.findMany({
 					select: { id: true },
-					where: { access: "own" },
+					where: { access: { in: ["own", "shared"] } },
 				}),
 			},
 		},
@@ -103,7 +108,10 @@ async function seed() {
 	console.time(`🐨 Created admin user "kody"`);
 
 	const kodyImages = await promiseHash({
-		kodyUser: img({ filepath: "./tests/fixtures/images/user/kody.png" }),
+		kodyUser: img({
+			filepath: "./tests/fixtures/images/user/kody.png",
+			kind: "user-images",
+		}),
 		cuteKoala: img({
 			altText: "an adorable koala cartoon illustration",
 			filepath: "./tests/fixtures/images/kody-notes/cute-koala.png",
@@ -137,7 +145,7 @@ async function seed() {
 
 	const githubUser = await insertGitHubUser("MOCK_CODE_GITHUB_KODY");
 
-	await prisma.user.create({
+	const kody = await prisma.user.create({
 		select: { id: true },
 		data: {
 			email: "kody@kcd.dev",
@@ -252,6 +260,37 @@ async function seed() {
 	});
 	console.timeEnd(`🐨 Created admin user "kody"`);
 
+	console.time("🏷️ Created tags...");
+	const kodyTags = {
+		koalas: ["d27a197e", "414f0c09", "260366b1", "3199199e", "562c541b"],
+		coding: ["306021fb", "16d4912a", "f375a804"],
+		sports: ["bb79cf45", "9f4308be", "2030ffd3", "f67ca40b"],
+	};
+	for (const [name, noteIds] of Object.entries(kodyTags)) {
+		await prisma.tag.create({
+			select: { id: true },
+			data: {
+				name,
+				ownerId: kody.id,
+				notes: { connect: noteIds.map((id) => ({ id })) },
+			},
+		});
+	}
+	console.timeEnd("🏷️ Created tags...");
+
+	console.time("📜 Created note revisions...");
+	const notes = await prisma.note.findMany({
+		select: { id: true, title: true, content: true, ownerId: true },
+	});
+	await prisma.noteRevision.createMany({
+		data: notes.map(({ id, ownerId, ...note }) => ({
+			...note,
+			noteId: id,
+			authorId: ownerId,
+		})),
+	});
+	console.timeEnd("📜 Created note revisions...");
+
 	console.timeEnd(`🌱 Database has been seeded`);
 }
 
@@ -123,7 +123,12 @@ app.use(
 				].filter(Boolean),
 				"font-src": ["'self'"],
 				"frame-src": ["'self'"],
-				"img-src": ["'self'", "data:"],
+				"img-src": [
+					"'self'",
+					"data:",
+					// images in S3 storage are served from signed links to the bucket
+					process.env.STORAGE_DRIVER === "s3" ? process.env.S3_ENDPOINT : null,
+				].filter(Boolean),
 				"script-src": [
 					"'strict-dynamic'",
 					"'self'",
@@ -169,6 +174,10 @@ const strongRateLimit = rateLimit({
 
 const generalRateLimit = rateLimit(rateLimitDefault);
 app.use((req, res, next) => {
+	// the API is limited per token by the app instead (see
+	// app/utils/api.server.ts), scripts shouldn't share a limit with the browser
+	if (req.path.startsWith("/api/v1/")) return next();
+
 	const strongPaths = [
 		"/login",
 		"/signup",
@@ -263,8 +272,16 @@ ${chalk.bold("Press Ctrl+C to stop")}
 	);
 });
 
+// the job worker lives in the app build (see app/entry.server.tsx)
+const { entry } = await getBuild();
+const { startJobWorker } = entry.module as typeof entry.module & {
+	startJobWorker?: () => () => Promise<void>;
+};
+const stopJobWorker = startJobWorker?.();
+
 closeWithGrace(async () => {
 	await new Promise((resolve, reject) => {
 		server.close((e) => (e ? reject(e) : resolve("ok")));
 	});
+	await stopJobWorker?.();
 });
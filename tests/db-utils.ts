@@ -3,6 +3,7 @@ import { faker } from "@faker-js/faker";
 import type { PrismaClient } from "@prisma/client";
 import bcrypt from "bcryptjs";
 import { UniqueEnforcer } from "enforce-unique";
+import { storeImage, type ImageKind } from "#app/utils/storage.server.ts";
 
 const uniqueUsernameEnforcer = new UniqueEnforcer();
 
@@ -94,7 +95,10 @@ export async function getUserImages() {
 
 	userImages = await Promise.all(
 		Array.from({ length: 10 }, (_, index) =>
-			img({ filepath: `./tests/fixtures/images/user/${index}.jpg` }),
+			img({
+				filepath: `./tests/fixtures/images/user/${index}.jpg`,
+				kind: "user-images",
+			}),
 		),
 	);
 
@@ -104,21 +108,27 @@ export async function getUserImages() {
 export async function img({
 	altText,
 	filepath,
+	kind = "note-images",
 }: {
 	altText?: string;
 	filepath: string;
+	kind?: ImageKind;
 }) {
 	return {
 		altText,
-		contentType: filepath.endsWith(".png") ? "image/png" : "image/jpeg",
-		blob: await fs.promises.readFile(filepath),
+		...(await storeImage(kind, {
+			contentType: filepath.endsWith(".png") ? "image/png" : "image/jpeg",
+			blob: await fs.promises.readFile(filepath),
+		})),
 	};
 }
 
 export async function cleanupDb(prisma: PrismaClient) {
+	// shadow tables belong to virtual tables (like our FTS5 search index) and
+	// get cleaned up when we delete from the virtual table itself.
 	const tables = await prisma.$queryRaw<
 		{ name: string }[]
-	>`SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_prisma_migrations';`;
+	>`SELECT name FROM pragma_table_list WHERE schema='main' AND type IN ('table', 'virtual') AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_prisma_migrations';`;
 
 	await prisma.$transaction([
 		// Disable FK constraints to avoid relation conflicts during deletion
@@ -27,6 +27,10 @@ test("Users can add 2FA to their account and use it when logging in", async ({
 		.fill(generateTOTP(options).otp);
 	await main.getByRole("button", { name: /submit/i }).click();
 
+	await expect(page).toHaveURL("/settings/profile/two-factor/recovery-codes");
+	await expect(main.getByLabel(/recovery codes/i)).toBeVisible();
+
+	await page.goto("/settings/profile/two-factor");
 	await expect(main).toHaveText(/You have enabled two-factor authentication./i);
 	await expect(main.getByRole("link", { name: /disable 2fa/i })).toBeVisible();
 
@@ -50,3 +54,56 @@ test("Users can add 2FA to their account and use it when logging in", async ({
 		page.getByRole("link", { name: user.name ?? user.username }),
 	).toBeVisible();
 });
+
+test("Users can log in with a recovery code instead of their 2FA app", async ({
+	page,
+	login,
+}) => {
+	const password = faker.internet.password();
+	const user = await login({ password });
+	await page.goto("/settings/profile/two-factor");
+	const main = page.getByRole("main");
+	await main.getByRole("button", { name: /enable 2fa/i }).click();
+	const otpUri = new URL(
+		await main.getByLabel(/One-Time Password URI/i).innerText(),
+	);
+	const options = Object.fromEntries(otpUri.searchParams);
+	await main
+		.getByRole("textbox", { name: /code/i })
+		.fill(generateTOTP(options).otp);
+	await main.getByRole("button", { name: /submit/i }).click();
+
+	await expect(page).toHaveURL("/settings/profile/two-factor/recovery-codes");
+	const codes = await main
+		.getByLabel(/recovery codes/i)
+		.locator("code")
+		.allInnerTexts();
+	expect(codes).toHaveLength(10);
+
+	await page.getByRole("link", { name: user.name ?? user.username }).click();
+	await page.getByRole("button", { name: /logout/i }).click();
+	await expect(page).toHaveURL("/");
+
+	async function loginWithRecoveryCode(code: string) {
+		await page.goto("/login");
+		await page.getByRole("textbox", { name: /username/i }).fill(user.username);
+		await page.getByLabel(/^password$/i).fill(password);
+		await page.getByRole("button", { name: /log in/i }).click();
+		await page.getByText(/lost access to your 2fa app/i).click();
+		await page.getByRole("textbox", { name: /recovery code/i }).fill(code);
+		await page.getByRole("button", { name: /use a recovery code/i }).click();
+	}
+
+	await loginWithRecoveryCode(codes[0]);
+	await expect(
+		page.getByRole("link", { name: user.name ?? user.username }),
+	).toBeVisible();
+
+	await page.getByRole("link", { name: user.name ?? user.username }).click();
+	await page.getByRole("button", { name: /logout/i }).click();
+	await expect(page).toHaveURL("/");
+
+	// each code only works once
+	await loginWithRecoveryCode(codes[0]);
+	await expect(page.getByText(/invalid recovery code/i)).toBeVisible();
+});
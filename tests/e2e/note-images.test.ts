@@ -1,7 +1,7 @@
-import fs from "fs";
 import { faker } from "@faker-js/faker";
-import type { NoteImage, Note } from "@prisma/client";
+import type { Note } from "@prisma/client";
 import { prisma } from "#app/utils/db.server.ts";
+import { img } from "#tests/db-utils.ts";
 import { expect, test } from "#tests/playwright-utils.ts";
 
 test("Users can create note with an image", async ({ page, login }) => {
@@ -69,7 +69,7 @@ test("Users can edit note image", async ({ page, login }) => {
 	const note = await prisma.note.create({
 		select: { id: true },
 		data: {
-			...createNoteWithImage(),
+			...(await createNoteWithImage()),
 			ownerId: user.id,
 		},
 	});
@@ -95,7 +95,7 @@ test("Users can delete note image", async ({ page, login }) => {
 	const note = await prisma.note.create({
 		select: { id: true, title: true },
 		data: {
-			...createNoteWithImage(),
+			...(await createNoteWithImage()),
 			ownerId: user.id,
 		},
 	});
@@ -123,22 +123,19 @@ function createNote() {
 		content: faker.lorem.paragraphs(3),
 	} satisfies Omit<Note, "id" | "createdAt" | "updatedAt" | "type" | "ownerId">;
 }
-function createNoteWithImage() {
+async function createNoteWithImage() {
 	return {
 		...createNote(),
 		images: {
-			create: {
+			create: await img({
 				altText: "cute koala",
-				contentType: "image/png",
-				blob: fs.readFileSync(
-					"tests/fixtures/images/kody-notes/cute-koala.png",
-				),
-			},
+				filepath: "tests/fixtures/images/kody-notes/cute-koala.png",
+			}),
 		},
 	} satisfies Omit<
 		Note,
 		"id" | "createdAt" | "updatedAt" | "type" | "ownerId"
 	> & {
-		images: { create: Pick<NoteImage, "altText" | "blob" | "contentType"> };
+		images: { create: Awaited<ReturnType<typeof img>> };
 	};
 }
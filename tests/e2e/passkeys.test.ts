@@ -0,0 +1,38 @@
+import { expect, test } from "#tests/playwright-utils.ts";
+
+test("Users can add a passkey and sign in with it", async ({ page, login }) => {
+	// Chromium's virtual authenticator stands in for a real one
+	const client = await page.context().newCDPSession(page);
+	await client.send("WebAuthn.enable");
+	await client.send("WebAuthn.addVirtualAuthenticator", {
+		options: {
+			protocol: "ctap2",
+			transport: "internal",
+			hasResidentKey: true,
+			hasUserVerification: true,
+			isUserVerified: true,
+			automaticPresenceSimulation: true,
+		},
+	});
+
+	const user = await login();
+	await page.goto("/settings/profile");
+	await page.getByRole("link", { name: /manage passkeys/i }).click();
+	await expect(page).toHaveURL("/settings/profile/passkeys");
+
+	const main = page.getByRole("main");
+	await main.getByRole("textbox", { name: /name/i }).fill("My laptop");
+	await main.getByRole("button", { name: /add passkey/i }).click();
+	await expect(main.getByText("My laptop")).toBeVisible();
+
+	await page.getByRole("link", { name: user.name ?? user.username }).click();
+	await page.getByRole("button", { name: /logout/i }).click();
+	await expect(page).toHaveURL("/");
+
+	await page.goto("/login");
+	await page.getByRole("button", { name: /sign in with a passkey/i }).click();
+
+	await expect(
+		page.getByRole("link", { name: user.name ?? user.username }),
+	).toBeVisible();
+});
@@ -0,0 +1,14 @@
+import { createOIDCProviderMock } from "./oidc.ts";
+
+const googleMock = createOIDCProviderMock({
+	name: "google",
+	clientId: process.env.GOOGLE_CLIENT_ID,
+	authorizationURL: "https://accounts.google.com/o/oauth2/v2/auth",
+	tokenURL: "https://oauth2.googleapis.com/token",
+	userInfoURL: "https://openidconnect.googleapis.com/v1/userinfo",
+});
+
+export const insertGoogleUser = googleMock.insertUser;
+export const deleteGoogleUsers = googleMock.deleteUsers;
+
+export const handlers = googleMock.handlers;
@@ -1,9 +1,16 @@
 import closeWithGrace from "close-with-grace";
 import { setupServer } from "msw/node";
 import { handlers as githubHandlers } from "./github.ts";
+import { handlers as googleHandlers } from "./google.ts";
+import { handlers as oidcHandlers } from "./oidc.ts";
 import { handlers as resendHandlers } from "./resend.ts";
 
-export const server = setupServer(...resendHandlers, ...githubHandlers);
+export const server = setupServer(
+	...resendHandlers,
+	...githubHandlers,
+	...googleHandlers,
+	...oidcHandlers,
+);
 
 server.listen({
 	onUnhandledRequest(request, print) {
@@ -0,0 +1,177 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { faker } from "@faker-js/faker";
+import fsExtra from "fs-extra";
+import { HttpResponse, passthrough, http, type HttpHandler } from "msw";
+
+const { json } = HttpResponse;
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const here = (...s: Array<string>) => path.join(__dirname, ...s);
+
+function createOIDCUser(maybeCode?: string | null) {
+	const code = maybeCode ?? faker.string.uuid();
+	const firstName = faker.person.firstName();
+	const lastName = faker.person.lastName();
+	return {
+		code,
+		accessToken: `${code}_mock_access_token`,
+		profile: {
+			sub: faker.string.numeric(21),
+			email: faker.internet.email({ firstName, lastName }),
+			email_verified: true,
+			name: `${firstName} ${lastName}`,
+			given_name: firstName,
+			family_name: lastName,
+		},
+	};
+}
+
+export type OIDCUser = ReturnType<typeof createOIDCUser>;
+
+/**
+ * Mocks the parts of an OpenID Connect provider our login flow talks to: the
+ * token and userinfo endpoints, plus the discovery document if there's an
+ * issuer. Users are kept in a fixture file so tests can set them up ahead of
+ * time.
+ */
+export function createOIDCProviderMock({
+	name,
+	clientId,
+	issuer,
+	authorizationURL,
+	tokenURL,
+	userInfoURL,
+}: {
+	name: string;
+	clientId: string | undefined;
+	issuer?: string;
+	authorizationURL: string;
+	tokenURL: string;
+	userInfoURL: string;
+}) {
+	const userFixturePath = here(
+		"..",
+		"fixtures",
+		name,
+		`users.${process.env.VITEST_POOL_ID || 0}.local.json`,
+	);
+
+	async function getUsers() {
+		try {
+			if (await fsExtra.pathExists(userFixturePath)) {
+				const json = await fsExtra.readJson(userFixturePath);
+				return json as Array<OIDCUser>;
+			}
+			return [];
+		} catch (error) {
+			console.error(error);
+			return [];
+		}
+	}
+
+	async function setUsers(users: Array<OIDCUser>) {
+		await fsExtra.ensureDir(path.dirname(userFixturePath));
+		await fsExtra.writeJson(userFixturePath, users, { spaces: 2 });
+	}
+
+	async function insertUser(code?: string | null) {
+		const users = await getUsers();
+		let user = users.find((u) => u.code === code);
+		if (user) {
+			Object.assign(user, createOIDCUser(code));
+		} else {
+			user = createOIDCUser(code);
+			users.push(user);
+		}
+		await setUsers(users);
+		return user;
+	}
+
+	async function deleteUsers() {
+		await fsExtra.remove(userFixturePath);
+	}
+
+	const shouldPassthrough =
+		!clientId?.startsWith("MOCK_") && process.env.NODE_ENV !== "test";
+
+	const handlers: Array<HttpHandler> = [
+		http.post(tokenURL, async ({ request }) => {
+			if (shouldPassthrough) return passthrough();
+			const params = new URLSearchParams(await request.text());
+
+			const code = params.get("code");
+			const user =
+				(await getUsers()).find((u) => u.code === code) ??
+				(await insertUser(code));
+
+			return json({
+				access_token: user.accessToken,
+				token_type: "Bearer",
+				expires_in: 3599,
+				scope: "openid email profile",
+				id_token: "__MOCK_ID_TOKEN__",
+			});
+		}),
+		http.get(userInfoURL, async ({ request }) => {
+			if (shouldPassthrough) return passthrough();
+
+			const accessToken = request.headers
+				.get("authorization")
+				?.slice("Bearer ".length);
+			if (!accessToken) {
+				return new Response("Unauthorized", { status: 401 });
+			}
+			const user = (await getUsers()).find(
+				(u) => u.accessToken === accessToken,
+			);
+			if (!user) return new Response("Unauthorized", { status: 401 });
+
+			return json(user.profile);
+		}),
+	];
+
+	if (issuer) {
+		handlers.push(
+			http.get(`${issuer}/.well-known/openid-configuration`, () => {
+				if (shouldPassthrough) return passthrough();
+
+				return json({
+					issuer,
+					authorization_endpoint: authorizationURL,
+					token_endpoint: tokenURL,
+					userinfo_endpoint: userInfoURL,
+					response_types_supported: ["code"],
+					subject_types_supported: ["public"],
+					id_token_signing_alg_values_supported: ["RS256"],
+				});
+			}),
+		);
+	}
+
+	return { handlers, insertUser, deleteUsers };
+}
+
+const issuer = process.env.OIDC_ISSUER?.replace(/\/+$/, "");
+
+const oidcMock = issuer
+	? createOIDCProviderMock({
+			name: "oidc",
+			clientId: process.env.OIDC_CLIENT_ID,
+			issuer,
+			authorizationURL: `${issuer}/authorize`,
+			tokenURL: `${issuer}/token`,
+			userInfoURL: `${issuer}/userinfo`,
+		})
+	: null;
+
+export async function insertOIDCUser(code?: string | null) {
+	if (!oidcMock) throw new Error("Set OIDC_ISSUER to use the OIDC mocks");
+	return oidcMock.insertUser(code);
+}
+
+export async function deleteOIDCUsers() {
+	await oidcMock?.deleteUsers();
+}
+
+export const handlers: Array<HttpHandler> = oidcMock?.handlers ?? [];
@@ -0,0 +1,128 @@
+import crypto from "node:crypto";
+import type {
+	AuthenticationResponseJSON,
+	RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { isoBase64URL, isoCBOR } from "@simplewebauthn/server/helpers";
+
+type Options = { rpId: string; origin: string; challenge: string };
+
+const flags = {
+	userPresent: 0x01,
+	userVerified: 0x04,
+	attestedCredentialData: 0x40,
+};
+
+function sha256(data: crypto.BinaryLike) {
+	return new Uint8Array(crypto.createHash("sha256").update(data).digest());
+}
+
+function encodeCounter(counter: number) {
+	const bytes = new Uint8Array(4);
+	new DataView(bytes.buffer).setUint32(0, counter);
+	return bytes;
+}
+
+function getClientDataJSON(
+	type: "webauthn.create" | "webauthn.get",
+	{ origin, challenge }: Options,
+) {
+	return new TextEncoder().encode(
+		JSON.stringify({ type, challenge, origin, crossOrigin: false }),
+	);
+}
+
+/**
+ * A software stand-in for a hardware authenticator (like a security key or
+ * the platform authenticator on a phone) so passkeys can be tested without
+ * one. It holds a single ES256 credential and only does "none" attestation.
+ */
+export function createPasskeyAuthenticator({
+	userVerification = true,
+}: { userVerification?: boolean } = {}) {
+	const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", {
+		namedCurve: "P-256",
+	});
+	const credentialId = new Uint8Array(crypto.randomBytes(16));
+	const id = isoBase64URL.fromBuffer(credentialId);
+	let counter = 0;
+
+	function getFlags() {
+		return flags.userPresent | (userVerification ? flags.userVerified : 0);
+	}
+
+	function getCOSEPublicKey() {
+		const jwk = publicKey.export({ format: "jwk" });
+		return isoCBOR.encode(
+			new Map<number, number | Uint8Array>([
+				[1, 2], // kty: EC2
+				[3, -7], // alg: ES256
+				[-1, 1], // crv: P-256
+				[-2, isoBase64URL.toBuffer(jwk.x ?? "")],
+				[-3, isoBase64URL.toBuffer(jwk.y ?? "")],
+			]),
+		);
+	}
+
+	return {
+		id,
+		createCredential(options: Options): RegistrationResponseJSON {
+			const credentialIdLength = new Uint8Array(2);
+			new DataView(credentialIdLength.buffer).setUint16(0, credentialId.length);
+			const authData = Buffer.concat([
+				sha256(options.rpId),
+				Uint8Array.of(getFlags() | flags.attestedCredentialData),
+				encodeCounter(counter),
+				new Uint8Array(16), // aaguid, all zeros for "none" attestation
+				credentialIdLength,
+				credentialId,
+				getCOSEPublicKey(),
+			]);
+			const attestationObject = isoCBOR.encode(
+				new Map<string, string | Uint8Array | Map<string, string>>([
+					["fmt", "none"],
+					["attStmt", new Map<string, string>()],
+					["authData", new Uint8Array(authData)],
+				]),
+			);
+			return {
+				id,
+				rawId: id,
+				type: "public-key",
+				clientExtensionResults: {},
+				response: {
+					clientDataJSON: isoBase64URL.fromBuffer(
+						getClientDataJSON("webauthn.create", options),
+					),
+					attestationObject: isoBase64URL.fromBuffer(attestationObject),
+					transports: ["internal"],
+				},
+			};
+		},
+		getAssertion(options: Options): AuthenticationResponseJSON {
+			counter++;
+			const authData = Buffer.concat([
+				sha256(options.rpId),
+				Uint8Array.of(getFlags()),
+				encodeCounter(counter),
+			]);
+			const clientDataJSON = getClientDataJSON("webauthn.get", options);
+			const signature = crypto.sign(
+				"sha256",
+				Buffer.concat([authData, sha256(clientDataJSON)]),
+				privateKey,
+			);
+			return {
+				id,
+				rawId: id,
+				type: "public-key",
+				clientExtensionResults: {},
+				response: {
+					clientDataJSON: isoBase64URL.fromBuffer(clientDataJSON),
+					authenticatorData: isoBase64URL.fromBuffer(new Uint8Array(authData)),
+					signature: isoBase64URL.fromBuffer(new Uint8Array(signature)),
+				},
+			};
+		},
+	};
+}
@@ -9,6 +9,12 @@ const databaseFile = `./tests/prisma/data.${
 }.db`;
 const databasePath = path.join(process.cwd(), databaseFile);
 process.env.DATABASE_URL = `file:${databasePath}`;
+// uploaded files go next to the database so they get cleaned up with it
+const storageDir = path.join(
+	process.cwd(),
+	`./tests/prisma/uploads.${process.env.VITEST_POOL_ID || 0}`,
+);
+process.env.STORAGE_DIR = storageDir;
 
 beforeAll(async () => {
 	await fsExtra.copyFile(BASE_DATABASE_PATH, databasePath);
@@ -25,4 +31,5 @@ afterAll(async () => {
 	const { prisma } = await import("#app/utils/db.server.ts");
 	await prisma.$disconnect();
 	await fsExtra.remove(databasePath);
+	await fsExtra.remove(storageDir);
 });
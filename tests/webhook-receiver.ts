@@ -0,0 +1,38 @@
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type ReceivedWebhook = { headers: IncomingHttpHeaders; body: string };
+
+/**
+ * An HTTP server on a random local port that records what's POSTed to it and
+ * answers with the given status, for testing webhook deliveries end to end.
+ */
+export async function startWebhookReceiver({
+	status = 200,
+	body = status < 300 ? "ok" : "nope",
+}: { status?: number; body?: string } = {}) {
+	const requests: Array<ReceivedWebhook> = [];
+	const server = createServer((request, response) => {
+		const chunks: Array<Buffer> = [];
+		request.on("data", (chunk: Buffer) => chunks.push(chunk));
+		request.on("end", () => {
+			requests.push({
+				headers: request.headers,
+				body: Buffer.concat(chunks).toString("utf8"),
+			});
+			response.writeHead(status, { "Content-Type": "text/plain" });
+			response.end(body);
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+
+	return {
+		url: `http://127.0.0.1:${port}/webhooks`,
+		requests,
+		close: () =>
+			new Promise<void>((resolve, reject) =>
+				server.close((error) => (error ? reject(error) : resolve())),
+			),
+	};
+}